@@ -1,5 +1,15 @@
 import pkg from 'pg';
-const { Pool } = pkg;
+import type { QueryResultRow } from 'pg';
+const { Pool, types } = pkg;
+
+// Return DATE columns as plain YYYY-MM-DD strings. Parsing them into JS Dates would
+// place them at midnight in the server's timezone and shift the day for the plant.
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
+
+// pg returns NUMERIC and BIGINT (including COUNT and SUM results) as strings to avoid
+// precision loss. Our values are percentages, hours and row counts, so plain numbers are safe.
+types.setTypeParser(types.builtins.NUMERIC, (value: string) => parseFloat(value));
+types.setTypeParser(types.builtins.INT8, (value: string) => parseInt(value, 10));
 
 // Database configuration
 const dbConfig = {
@@ -7,7 +17,7 @@ const dbConfig = {
   host: process.env.DB_HOST || 'localhost',
   database: process.env.DB_NAME || 'operator_tracking',
   password: process.env.DB_PASSWORD || 'password',
-  port: process.env.DB_PORT || 5432,
+  port: parseInt(process.env.DB_PORT || '5432'),
   max: 20,
   idleTimeoutMillis: 30000,
   connectionTimeoutMillis: 2000,
@@ -21,16 +31,16 @@ pool.on('connect', () => {
   console.log('Connected to PostgreSQL database');
 });
 
-pool.on('error', (err) => {
+pool.on('error', (err: Error) => {
   console.error('Unexpected error on idle client', err);
   process.exit(-1);
 });
 
 // Helper function to execute queries
-export const query = async (text, params) => {
+export const query = async <T extends QueryResultRow = QueryResultRow>(text: string, params?: unknown[]) => {
   const start = Date.now();
   try {
-    const res = await pool.query(text, params);
+    const res = await pool.query<T>(text, params);
     const duration = Date.now() - start;
     console.log('Executed query', { text, duration, rows: res.rowCount });
     return res;
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { PoolClient } from 'pg';
+import { getClient, closePool } from './connection.js';
+
+// Resolved from the project root (like uploads/), since this file runs compiled from dist-server
+const MIGRATIONS_DIR = path.resolve('database', 'migrations');
+const SEEDS_DIR = path.resolve('database', 'seeds');
+
+// Arbitrary key for pg_advisory_lock so two processes never migrate at the same time
+const MIGRATION_LOCK_KEY = 731001;
+
+// Migrations are <version>_<name>.sql with an optional <version>_<name>.down.sql rollback.
+// Versions are timestamps, so they sort in the order they were written.
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string | null;
+}
+
+export interface SchemaStatus {
+  current: string | null;
+  applied: string[];
+  pending: string[];
+}
+
+export const listMigrations = (): Migration[] => fs.readdirSync(MIGRATIONS_DIR)
+  .filter(file => /^\d+_.+\.sql$/.test(file) && !file.endsWith('.down.sql'))
+  .sort()
+  .map(file => {
+    const [, version, name] = file.match(/^(\d+)_(.+)\.sql$/)!;
+    const down = file.replace(/\.sql$/, '.down.sql');
+    return {
+      version,
+      name,
+      up: path.join(MIGRATIONS_DIR, file),
+      down: fs.existsSync(path.join(MIGRATIONS_DIR, down)) ? path.join(MIGRATIONS_DIR, down) : null
+    };
+  });
+
+const ensureMigrationsTable = (client: PoolClient) => client.query(`
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version VARCHAR(32) PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )
+`);
+
+const appliedVersions = async (client: PoolClient): Promise<string[]> => {
+  const result = await client.query<{ version: string }>('SELECT version FROM schema_migrations ORDER BY version');
+  return result.rows.map(row => row.version);
+};
+
+// Run `work` with a client holding the migration lock
+const withMigrationLock = async <T>(work: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await getClient();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    return await work(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+    client.release();
+  }
+};
+
+// Each migration and its schema_migrations row are committed together
+const runInTransaction = async (client: PoolClient, sql: string, after: () => Promise<unknown>) => {
+  try {
+    await client.query('BEGIN');
+    await client.query(sql);
+    await after();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+};
+
+// Apply pending migrations up to `target` (default: all). Returns the versions applied.
+export const migrate = ({ target }: { target?: string } = {}) => withMigrationLock(async (client) => {
+  const applied = new Set(await appliedVersions(client));
+  const pending = listMigrations().filter(m => !applied.has(m.version) && (!target || m.version <= target));
+
+  for (const migration of pending) {
+    console.log(`Applying migration ${migration.version}_${migration.name}`);
+    await runInTransaction(client, fs.readFileSync(migration.up, 'utf8'), () => client.query(
+      'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+      [migration.version, migration.name]
+    ));
+  }
+
+  return pending.map(m => m.version);
+});
+
+// Roll back the most recent `steps` migrations. Returns the versions rolled back.
+export const rollback = ({ steps = 1 }: { steps?: number } = {}) => withMigrationLock(async (client) => {
+  const migrations = new Map(listMigrations().map(m => [m.version, m]));
+  const targets = (await appliedVersions(client)).reverse().slice(0, steps);
+
+  for (const version of targets) {
+    const migration = migrations.get(version);
+    if (!migration?.down) {
+      throw new Error(`Migration ${version} has no rollback script`);
+    }
+
+    console.log(`Rolling back migration ${version}_${migration.name}`);
+    await runInTransaction(client, fs.readFileSync(migration.down, 'utf8'), () => client.query(
+      'DELETE FROM schema_migrations WHERE version = $1',
+      [version]
+    ));
+  }
+
+  return targets;
+});
+
+// Record migrations up to `target` as applied without running them, for databases
+// that were set up by hand before the runner existed
+export const baseline = (target: string) => withMigrationLock(async (client) => {
+  const recorded: string[] = [];
+  for (const migration of listMigrations().filter(m => m.version <= target)) {
+    const result = await client.query(
+      'INSERT INTO schema_migrations (version, name) VALUES ($1, $2) ON CONFLICT (version) DO NOTHING',
+      [migration.version, migration.name]
+    );
+    if (result.rowCount) recorded.push(migration.version);
+  }
+  return recorded;
+});
+
+// Seed files are plain SQL applied in name order; they must be safe to re-run
+export const seed = async () => {
+  const client = await getClient();
+  try {
+    for (const file of fs.readdirSync(SEEDS_DIR).filter(f => f.endsWith('.sql')).sort()) {
+      console.log(`Applying seed ${file}`);
+      await runInTransaction(client, fs.readFileSync(path.join(SEEDS_DIR, file), 'utf8'), async () => {});
+    }
+  } finally {
+    client.release();
+  }
+};
+
+export const getSchemaStatus = () => withMigrationLock(async (client): Promise<SchemaStatus> => {
+  const applied = await appliedVersions(client);
+  const appliedSet = new Set(applied);
+  return {
+    current: applied[applied.length - 1] || null,
+    applied,
+    pending: listMigrations().filter(m => !appliedSet.has(m.version)).map(m => `${m.version}_${m.name}`)
+  };
+});
+
+// Throw unless every migration up to `requiredVersion` has been applied
+export const assertSchemaVersion = async (requiredVersion: string) => {
+  const status = await getSchemaStatus();
+  const missing = listMigrations()
+    .filter(m => m.version <= requiredVersion && !status.applied.includes(m.version))
+    .map(m => `${m.version}_${m.name}`);
+
+  if (missing.length > 0) {
+    throw new Error(`Database schema is out of date; pending migrations: ${missing.join(', ')}. Run \`npm run db:migrate\`.`);
+  }
+  return status;
+};
+
+// CLI: node database/migrate.js <up [version] | down [steps] | status | seed | baseline <version>>
+const runCli = async () => {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrate({ target: arg });
+      console.log(applied.length ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const rolledBack = await rollback({ steps: parseInt(arg) || 1 });
+      console.log(`Rolled back ${rolledBack.length} migration(s)`);
+      break;
+    }
+    case 'status': {
+      const status = await getSchemaStatus();
+      console.log(`Current version: ${status.current || 'none'}`);
+      console.log(status.pending.length ? `Pending:\n  ${status.pending.join('\n  ')}` : 'No pending migrations');
+      break;
+    }
+    case 'seed':
+      await seed();
+      break;
+    case 'baseline': {
+      if (!arg) throw new Error('baseline needs the version the database already matches');
+      const recorded = await baseline(arg);
+      console.log(`Recorded ${recorded.length} migration(s) as applied`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use up, down, status, seed or baseline.`);
+  }
+};
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  runCli()
+    .catch((error: Error) => {
+      console.error(error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => closePool());
+}
@@ -0,0 +1,10 @@
+-- Drop the baseline schema and everything stored in it
+
+DROP TABLE IF EXISTS station_performance;
+DROP TABLE IF EXISTS attendance_logs;
+DROP TABLE IF EXISTS shift_assignments;
+DROP TABLE IF EXISTS shifts;
+DROP TABLE IF EXISTS operators;
+DROP TABLE IF EXISTS stations;
+DROP TABLE IF EXISTS production_lines;
+DROP TABLE IF EXISTS departments;
@@ -1,9 +1,5 @@
 -- Database schema for Operator Tracking System
-
--- Create database (run this manually in PostgreSQL)
--- CREATE DATABASE operator_tracking;
-
--- Connect to the database and run the following:
+-- Baseline schema; reference data lives in database/seeds.
 
 -- Departments table
 CREATE TABLE IF NOT EXISTS departments (
@@ -102,70 +98,6 @@ CREATE TABLE IF NOT EXISTS station_performance (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Insert default departments
-INSERT INTO departments (name, description) VALUES 
-('Production', 'Main production department'),
-('Quality Control', 'Quality assurance and testing'),
-('Maintenance', 'Equipment maintenance and repair'),
-('Logistics', 'Material handling and shipping')
-ON CONFLICT (name) DO NOTHING;
-
--- Insert sample production lines
-INSERT INTO production_lines (name, department_id, capacity) VALUES 
-('DIS1', 1, 10),
-('DIS2', 1, 8),
-('IC1', 1, 6),
-('IC2', 1, 6),
-('DIGER', 1, 5)
-ON CONFLICT DO NOTHING;
-
--- Insert sample stations for each line
-INSERT INTO stations (name, line_id, position_order) VALUES 
--- DIS1 stations
-('BANT BASI', 1, 1),
-('BANT DESTEK', 1, 2),
-('BANT SONU', 1, 3),
-('BARKOD BASIM', 1, 4),
-('DOĞUM İZNİ', 1, 5),
-('HATTAN İADE', 1, 6),
-('SENDİKA', 1, 7),
-('KAYNAK TAKİP', 1, 8),
-('LOÇ BAKIM', 1, 9),
-('BARKOD BASIM', 1, 10),
-
--- DIS2 stations  
-('BANT BAKIM', 2, 1),
-('BANT DESTEK', 2, 2),
-('LOÇ', 2, 3),
-('SENDİKA', 2, 4),
-('İYİLEŞTİRME', 2, 5),
-('BANT BAKIM', 2, 6),
-('HATTAN İADE', 2, 7),
-('KAYNAK TAKİP', 2, 8),
-
--- IC1 stations
-('BANT SONU', 3, 1),
-('DOĞUM İZNİ', 3, 2),
-('HATTAN İADE', 3, 3),
-('KAYNAK TAKİP', 3, 4),
-('LOÇ BAKIM', 3, 5),
-('BANT BAKIM', 3, 6),
-
--- IC2 stations
-('BARKOD BASIM', 4, 1),
-('LOÇ', 4, 2),
-('SENDİKA', 4, 3),
-('İYİLEŞTİRME', 4, 4),
-('BANT BASI', 4, 5),
-
--- DIGER stations
-('BANT BAKIM', 5, 1),
-('BANT DESTEK', 5, 2),
-('BANT SONU', 5, 3),
-('BARKOD BASIM', 5, 4),
-('DOĞUM İZNİ', 5, 5)
-ON CONFLICT DO NOTHING;
-
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_operators_status ON operators(status);
 CREATE INDEX IF NOT EXISTS idx_operators_department ON operators(department_id);
@@ -173,4 +105,4 @@ CREATE INDEX IF NOT EXISTS idx_attendance_date ON attendance_logs(date);
 CREATE INDEX IF NOT EXISTS idx_attendance_operator ON attendance_logs(operator_id);
 CREATE INDEX IF NOT EXISTS idx_shift_assignments_shift ON shift_assignments(shift_id);
 CREATE INDEX IF NOT EXISTS idx_shift_assignments_operator ON shift_assignments(operator_id);
-CREATE INDEX IF NOT EXISTS idx_station_performance_date ON station_performance(date);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_station_performance_date ON station_performance(date);
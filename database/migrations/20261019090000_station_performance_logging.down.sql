@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_station_performance_operator;
+DROP INDEX IF EXISTS idx_station_performance_station;
+
+ALTER TABLE station_performance ALTER COLUMN station_id DROP NOT NULL;
@@ -0,0 +1,7 @@
+-- Station performance logging
+-- stations.efficiency_percentage is now derived from station_performance records
+
+ALTER TABLE station_performance ALTER COLUMN station_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_station_performance_station ON station_performance(station_id, date);
+CREATE INDEX IF NOT EXISTS idx_station_performance_operator ON station_performance(operator_id);
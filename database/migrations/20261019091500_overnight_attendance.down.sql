@@ -0,0 +1,7 @@
+-- Back to time-of-day clock columns; the calendar day stays in attendance_logs.date
+
+DROP INDEX IF EXISTS idx_attendance_open;
+
+ALTER TABLE attendance_logs
+    ALTER COLUMN clock_in TYPE TIME USING clock_in::time,
+    ALTER COLUMN clock_out TYPE TIME USING clock_out::time;
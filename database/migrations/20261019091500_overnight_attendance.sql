@@ -0,0 +1,11 @@
+-- Overnight shift support for attendance
+-- clock_in/clock_out become full timestamps so a session can end on the day after it started.
+-- attendance_logs.date remains the calendar day the shift instance started on.
+
+ALTER TABLE attendance_logs
+    ALTER COLUMN clock_in TYPE TIMESTAMP USING (date + clock_in),
+    ALTER COLUMN clock_out TYPE TIMESTAMP USING (
+        CASE WHEN clock_out < clock_in THEN date + 1 + clock_out ELSE date + clock_out END
+    );
+
+CREATE INDEX IF NOT EXISTS idx_attendance_open ON attendance_logs(operator_id) WHERE clock_out IS NULL;
@@ -0,0 +1,9 @@
+-- Clock times revert to local timestamps in the database session timezone
+
+ALTER TABLE attendance_logs
+    ALTER COLUMN clock_in TYPE TIMESTAMP USING clock_in::timestamp,
+    ALTER COLUMN clock_out TYPE TIMESTAMP USING clock_out::timestamp;
+
+ALTER TABLE departments DROP COLUMN IF EXISTS site_id;
+
+DROP TABLE IF EXISTS sites;
@@ -0,0 +1,17 @@
+-- Plant-local timezone handling
+-- Sites carry the IANA timezone their "today" is computed in. Departments without a site
+-- use the PLANT_TIMEZONE configured for the backend.
+
+CREATE TABLE IF NOT EXISTS sites (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    timezone VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE departments ADD COLUMN IF NOT EXISTS site_id INTEGER REFERENCES sites(id);
+
+-- Clock times become absolute instants; existing values were written in the database session timezone
+ALTER TABLE attendance_logs
+    ALTER COLUMN clock_in TYPE TIMESTAMPTZ USING clock_in::timestamptz,
+    ALTER COLUMN clock_out TYPE TIMESTAMPTZ USING clock_out::timestamptz;
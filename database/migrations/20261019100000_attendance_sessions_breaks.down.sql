@@ -0,0 +1,19 @@
+-- Back to one attendance row per operator and day.
+-- Only the first session of each day is kept; later sessions and all breaks are discarded.
+
+DROP TABLE IF EXISTS attendance_breaks;
+
+DELETE FROM attendance_logs al
+USING attendance_logs earlier
+WHERE al.operator_id = earlier.operator_id
+  AND al.date = earlier.date
+  AND (earlier.clock_in, earlier.id) < (al.clock_in, al.id);
+
+DROP INDEX IF EXISTS idx_attendance_open;
+CREATE INDEX IF NOT EXISTS idx_attendance_open ON attendance_logs(operator_id) WHERE clock_out IS NULL;
+
+ALTER TABLE attendance_logs
+    DROP COLUMN IF EXISTS paid_hours,
+    DROP COLUMN IF EXISTS break_minutes;
+
+ALTER TABLE attendance_logs ADD CONSTRAINT attendance_logs_operator_id_date_key UNIQUE (operator_id, date);
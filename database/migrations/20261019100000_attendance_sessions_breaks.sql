@@ -0,0 +1,29 @@
+-- Multiple clock sessions per day and break tracking
+-- Each attendance_logs row is now one clock-in/clock-out session; an operator can have several per day.
+
+ALTER TABLE attendance_logs DROP CONSTRAINT IF EXISTS attendance_logs_operator_id_date_key;
+
+ALTER TABLE attendance_logs
+    ADD COLUMN IF NOT EXISTS break_minutes INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS paid_hours DECIMAL(5,2) DEFAULT 0.00;
+
+-- Only one open session per operator
+DROP INDEX IF EXISTS idx_attendance_open;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_open ON attendance_logs(operator_id)
+    WHERE clock_in IS NOT NULL AND clock_out IS NULL;
+
+-- Typed break intervals within a session
+CREATE TABLE IF NOT EXISTS attendance_breaks (
+    id SERIAL PRIMARY KEY,
+    attendance_log_id INTEGER NOT NULL REFERENCES attendance_logs(id) ON DELETE CASCADE,
+    operator_id INTEGER NOT NULL REFERENCES operators(id),
+    break_type VARCHAR(20) NOT NULL DEFAULT 'rest',
+    is_paid BOOLEAN NOT NULL DEFAULT false,
+    start_time TIMESTAMPTZ NOT NULL,
+    end_time TIMESTAMPTZ,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_breaks_log ON attendance_breaks(attendance_log_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_breaks_open ON attendance_breaks(operator_id)
+    WHERE end_time IS NULL;
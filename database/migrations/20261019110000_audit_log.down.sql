@@ -0,0 +1,4 @@
+-- Removes the audit trail together with its history
+
+DROP TABLE IF EXISTS audit_log;
+DROP FUNCTION IF EXISTS prevent_audit_log_changes();
@@ -0,0 +1,4 @@
+-- Roster planning
+-- Roster views and pattern previews read assignments by date range
+
+CREATE INDEX IF NOT EXISTS idx_shift_assignments_date ON shift_assignments(assigned_date);
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS station_requirements;
+DROP TABLE IF EXISTS operator_certifications;
+DROP TABLE IF EXISTS certifications;
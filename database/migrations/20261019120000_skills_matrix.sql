@@ -0,0 +1,30 @@
+-- Skills and certification matrix
+-- Operators hold certifications with an expiry date; stations list the certifications
+-- an operator needs before they can be assigned there.
+
+CREATE TABLE IF NOT EXISTS certifications (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    validity_months INTEGER CHECK (validity_months IS NULL OR validity_months > 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS operator_certifications (
+    id SERIAL PRIMARY KEY,
+    operator_id INTEGER NOT NULL REFERENCES operators(id) ON DELETE CASCADE,
+    certification_id INTEGER NOT NULL REFERENCES certifications(id) ON DELETE CASCADE,
+    certified_on DATE NOT NULL,
+    expires_on DATE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(operator_id, certification_id),
+    CHECK (expires_on IS NULL OR expires_on >= certified_on)
+);
+
+CREATE TABLE IF NOT EXISTS station_requirements (
+    station_id INTEGER NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+    certification_id INTEGER NOT NULL REFERENCES certifications(id) ON DELETE CASCADE,
+    PRIMARY KEY (station_id, certification_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_operator_certifications_expiry ON operator_certifications(expires_on);
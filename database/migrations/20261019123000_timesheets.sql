@@ -0,0 +1,51 @@
+-- Payroll timesheets
+-- One plant-wide row of pay rules, and per-operator timesheets calculated from attendance
+-- sessions. Totals are stored as minutes; `details` keeps the daily breakdown and the rules
+-- the timesheet was calculated with, so approved and locked timesheets don't change when the
+-- rules do.
+
+CREATE TABLE IF NOT EXISTS timesheet_rules (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    rounding_minutes INTEGER NOT NULL DEFAULT 0 CHECK (rounding_minutes IN (0, 5, 10, 15)),
+    grace_minutes INTEGER NOT NULL DEFAULT 5 CHECK (grace_minutes BETWEEN 0 AND 60),
+    daily_overtime_minutes INTEGER DEFAULT 480 CHECK (daily_overtime_minutes > 0),
+    weekly_overtime_minutes INTEGER DEFAULT 2400 CHECK (weekly_overtime_minutes > 0),
+    overtime_rate DECIMAL(4,2) NOT NULL DEFAULT 1.50,
+    night_start TIME DEFAULT '22:00',
+    night_end TIME DEFAULT '06:00',
+    night_rate DECIMAL(4,2) NOT NULL DEFAULT 1.25,
+    weekend_rate DECIMAL(4,2) NOT NULL DEFAULT 1.50,
+    auto_break_minutes INTEGER NOT NULL DEFAULT 30 CHECK (auto_break_minutes >= 0),
+    auto_break_after_minutes INTEGER NOT NULL DEFAULT 360 CHECK (auto_break_after_minutes >= 0),
+    week_start INTEGER NOT NULL DEFAULT 1 CHECK (week_start BETWEEN 0 AND 6), -- 0 = Sunday
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((night_start IS NULL) = (night_end IS NULL))
+);
+
+INSERT INTO timesheet_rules (id) VALUES (true) ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS timesheets (
+    id SERIAL PRIMARY KEY,
+    operator_id INTEGER NOT NULL REFERENCES operators(id),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'locked')),
+    paid_minutes INTEGER NOT NULL DEFAULT 0,
+    regular_minutes INTEGER NOT NULL DEFAULT 0,
+    overtime_minutes INTEGER NOT NULL DEFAULT 0,
+    night_minutes INTEGER NOT NULL DEFAULT 0,
+    weekend_minutes INTEGER NOT NULL DEFAULT 0,
+    unpaid_break_minutes INTEGER NOT NULL DEFAULT 0,
+    late_minutes INTEGER NOT NULL DEFAULT 0,
+    details JSONB NOT NULL,
+    approved_by INTEGER REFERENCES users(id),
+    approved_at TIMESTAMPTZ,
+    locked_by INTEGER REFERENCES users(id),
+    locked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (operator_id, period_start, period_end),
+    CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheets_period ON timesheets(period_start, period_end);
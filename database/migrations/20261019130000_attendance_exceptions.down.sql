@@ -0,0 +1,9 @@
+DROP TABLE IF EXISTS attendance_rules;
+DROP INDEX IF EXISTS idx_attendance_status;
+DROP INDEX IF EXISTS idx_attendance_no_show;
+DELETE FROM attendance_logs WHERE status = 'no_show' AND clock_in IS NULL;
+ALTER TABLE attendance_logs DROP CONSTRAINT IF EXISTS attendance_logs_status_check;
+UPDATE attendance_logs SET status = 'present' WHERE status IN ('on_time', 'late', 'left_early', 'unscheduled');
+ALTER TABLE attendance_logs
+    DROP COLUMN IF EXISTS early_leave_minutes,
+    DROP COLUMN IF EXISTS late_minutes;
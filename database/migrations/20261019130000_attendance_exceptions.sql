@@ -0,0 +1,28 @@
+-- Lateness, early-leave and no-show detection
+-- Each operator-day is classified against its shift assignment and the result is stored in
+-- attendance_logs.status ('present' now means clocked in but not classified yet). A scheduled
+-- operator who never clocked in gets a session row without clock times and status 'no_show'.
+
+ALTER TABLE attendance_logs
+    ADD COLUMN IF NOT EXISTS late_minutes INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS early_leave_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE attendance_logs DROP CONSTRAINT IF EXISTS attendance_logs_status_check;
+ALTER TABLE attendance_logs ADD CONSTRAINT attendance_logs_status_check
+    CHECK (status IN ('present', 'absent', 'on_time', 'late', 'left_early', 'no_show', 'unscheduled'));
+
+-- At most one no-show row per operator-day (operators have one assignment per day)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_no_show ON attendance_logs(operator_id, date)
+    WHERE status = 'no_show';
+CREATE INDEX IF NOT EXISTS idx_attendance_status ON attendance_logs(date, status);
+
+-- Plant-wide tolerances, one row
+CREATE TABLE IF NOT EXISTS attendance_rules (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    late_tolerance_minutes INTEGER NOT NULL DEFAULT 5 CHECK (late_tolerance_minutes BETWEEN 0 AND 240),
+    early_leave_tolerance_minutes INTEGER NOT NULL DEFAULT 5 CHECK (early_leave_tolerance_minutes BETWEEN 0 AND 240),
+    no_show_after_minutes INTEGER NOT NULL DEFAULT 60 CHECK (no_show_after_minutes BETWEEN 0 AND 1440),
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO attendance_rules (id) VALUES (true) ON CONFLICT DO NOTHING;
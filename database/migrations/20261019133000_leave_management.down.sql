@@ -0,0 +1,10 @@
+DROP INDEX IF EXISTS idx_attendance_placeholder;
+DELETE FROM attendance_logs WHERE status = 'excused' AND clock_in IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_no_show ON attendance_logs(operator_id, date)
+    WHERE status = 'no_show';
+ALTER TABLE attendance_logs DROP CONSTRAINT IF EXISTS attendance_logs_status_check;
+ALTER TABLE attendance_logs ADD CONSTRAINT attendance_logs_status_check
+    CHECK (status IN ('present', 'absent', 'on_time', 'late', 'left_early', 'no_show', 'unscheduled'));
+DROP TABLE IF EXISTS leave_balances;
+DROP TABLE IF EXISTS leave_requests;
+DROP TABLE IF EXISTS leave_types;
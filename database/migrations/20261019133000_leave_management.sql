@@ -0,0 +1,63 @@
+-- Leave and absence management
+-- Operators request leave of a type (vacation, sick, training, ...) for a range of days, and a
+-- supervisor approves or rejects it. Approved leave keeps the operator off the roster and turns a
+-- scheduled day without clock-ins into an excused absence instead of a no-show. Types with an
+-- annual allowance are tracked against a yearly balance, which can be overridden per operator.
+
+CREATE TABLE IF NOT EXISTS leave_types (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(50) NOT NULL UNIQUE,
+    is_paid BOOLEAN NOT NULL DEFAULT true,
+    annual_allowance_days DECIMAL(5,1) CHECK (annual_allowance_days >= 0), -- null: not limited
+    color VARCHAR(7) NOT NULL DEFAULT '#6b7280',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO leave_types (name, is_paid, annual_allowance_days, color) VALUES
+    ('Vacation', true, 25, '#2563eb'),
+    ('Sick', true, NULL, '#dc2626'),
+    ('Training', true, NULL, '#7c3aed'),
+    ('Unpaid', false, NULL, '#6b7280')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS leave_requests (
+    id SERIAL PRIMARY KEY,
+    operator_id INTEGER NOT NULL REFERENCES operators(id) ON DELETE CASCADE,
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    reason TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    review_note TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_operator ON leave_requests(operator_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_period ON leave_requests(start_date, end_date) WHERE status = 'approved';
+
+-- Per-operator allowance for one year, replacing the leave type's annual_allowance_days
+CREATE TABLE IF NOT EXISTS leave_balances (
+    operator_id INTEGER NOT NULL REFERENCES operators(id) ON DELETE CASCADE,
+    leave_type_id INTEGER NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+    allowance_days DECIMAL(5,1) NOT NULL CHECK (allowance_days >= 0),
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (operator_id, leave_type_id, year)
+);
+
+-- A scheduled day on approved leave gets a session row without clock times, like a no-show
+ALTER TABLE attendance_logs DROP CONSTRAINT IF EXISTS attendance_logs_status_check;
+ALTER TABLE attendance_logs ADD CONSTRAINT attendance_logs_status_check
+    CHECK (status IN ('present', 'absent', 'on_time', 'late', 'left_early', 'no_show', 'excused', 'unscheduled'));
+
+-- At most one no-show or excused row per operator-day
+DROP INDEX IF EXISTS idx_attendance_no_show;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_placeholder ON attendance_logs(operator_id, date)
+    WHERE status IN ('no_show', 'excused');
@@ -0,0 +1,39 @@
+-- Shift swaps and open shifts
+-- An operator offers one of their assignments, or a supervisor posts an open shift that nobody
+-- holds yet. Another operator claims it, optionally offering one of their own assignments in
+-- exchange (a swap), and a supervisor approves the claim, which moves the assignments.
+-- The place offered is copied onto the trade, so it still reads correctly after the assignments
+-- have moved; approval checks that the assignments still match it.
+
+CREATE TABLE IF NOT EXISTS shift_trades (
+    id SERIAL PRIMARY KEY,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('offer', 'open_shift')),
+    assignment_id INTEGER REFERENCES shift_assignments(id) ON DELETE SET NULL,
+    offered_by INTEGER REFERENCES operators(id) ON DELETE CASCADE, -- null for open shifts
+    shift_id INTEGER NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+    station_id INTEGER REFERENCES stations(id) ON DELETE SET NULL,
+    shift_date DATE NOT NULL,
+    note TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'claimed', 'approved', 'cancelled')),
+    claimed_by INTEGER REFERENCES operators(id) ON DELETE CASCADE,
+    claimed_at TIMESTAMPTZ,
+    -- The claimant's assignment given in exchange; all null when the claim is not a swap
+    counter_assignment_id INTEGER REFERENCES shift_assignments(id) ON DELETE SET NULL,
+    counter_shift_id INTEGER REFERENCES shifts(id) ON DELETE CASCADE,
+    counter_station_id INTEGER REFERENCES stations(id) ON DELETE SET NULL,
+    counter_date DATE,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    review_note TEXT,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((kind = 'offer') = (offered_by IS NOT NULL)),
+    CHECK (status NOT IN ('claimed', 'approved') OR claimed_by IS NOT NULL),
+    CHECK (kind = 'offer' OR counter_shift_id IS NULL)
+);
+
+-- An assignment can be on offer only once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shift_trades_active_assignment ON shift_trades(assignment_id)
+    WHERE status IN ('open', 'claimed');
+CREATE INDEX IF NOT EXISTS idx_shift_trades_date ON shift_trades(shift_date);
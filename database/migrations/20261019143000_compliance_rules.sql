@@ -0,0 +1,25 @@
+-- Working-time compliance rules
+-- Limits from the works agreement, checked when operators are scheduled (assignments, rosters,
+-- auto-staffing, shift trades) and when they clock in. A rule without a department applies to
+-- everyone; "block" rules refuse the change, "warn" rules only report it.
+
+CREATE TABLE IF NOT EXISTS compliance_rules (
+    id SERIAL PRIMARY KEY,
+    rule_type VARCHAR(30) NOT NULL
+        CHECK (rule_type IN ('min_rest_hours', 'max_consecutive_days', 'max_weekly_hours')),
+    threshold DECIMAL(5,1) NOT NULL CHECK (threshold > 0),
+    severity VARCHAR(10) NOT NULL DEFAULT 'block' CHECK (severity IN ('block', 'warn')),
+    department_id INTEGER REFERENCES departments(id) ON DELETE CASCADE,
+    description VARCHAR(200),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO compliance_rules (rule_type, threshold, severity, description)
+SELECT * FROM (VALUES
+    ('min_rest_hours', 11, 'block', 'Rest between shifts'),
+    ('max_consecutive_days', 6, 'block', 'Consecutive working days'),
+    ('max_weekly_hours', 48, 'warn', 'Weekly working hours')
+) AS defaults (rule_type, threshold, severity, description)
+WHERE NOT EXISTS (SELECT 1 FROM compliance_rules);
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS operator_kiosk_credentials;
+DROP TABLE IF EXISTS kiosk_devices;
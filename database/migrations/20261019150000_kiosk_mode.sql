@@ -0,0 +1,25 @@
+-- Kiosk mode
+-- Shared terminals at the line where operators clock themselves in and out. Each terminal is a
+-- registered device holding a token (only its SHA-256 hash is stored); a device tied to a site
+-- only serves operators of that site. Operators identify with employee_id plus a PIN, or with
+-- the badge number a keyboard-wedge reader types. Credentials live in their own table so the
+-- PIN hash never travels with operator rows.
+
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    site_id INTEGER REFERENCES sites(id) ON DELETE SET NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_seen_at TIMESTAMPTZ,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS operator_kiosk_credentials (
+    operator_id INTEGER PRIMARY KEY REFERENCES operators(id) ON DELETE CASCADE,
+    badge_number VARCHAR(50) UNIQUE,
+    pin_hash VARCHAR(255),
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CHECK (badge_number IS NOT NULL OR pin_hash IS NOT NULL)
+);
@@ -0,0 +1,29 @@
+-- Offline clients and replayed requests
+-- Line-side tablets queue clock events and status changes while the network is down and replay
+-- them later with an Idempotency-Key header and the time each event happened. The first response
+-- to a key is kept, so a request that is sent again is answered from here instead of applied twice.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    scope VARCHAR(50) NOT NULL, -- 'user:<id>' or 'kiosk:<id>'; keys are only unique per caller
+    key VARCHAR(100) NOT NULL,
+    method VARCHAR(10) NOT NULL,
+    path VARCHAR(255) NOT NULL,
+    status_code INTEGER, -- null while the first request is still running
+    response JSONB,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
+
+-- A replayed clock-out that found no open session to close, because the clock-in it belongs to was
+-- queued on another device and has not arrived yet. That clock-in closes its session here.
+CREATE TABLE IF NOT EXISTS held_clock_outs (
+    id SERIAL PRIMARY KEY,
+    operator_id INTEGER NOT NULL REFERENCES operators(id) ON DELETE CASCADE,
+    clock_out TIMESTAMPTZ NOT NULL,
+    recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_clock_outs_operator ON held_clock_outs(operator_id, clock_out);
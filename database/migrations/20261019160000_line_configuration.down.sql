@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_stations_line;
+ALTER TABLE stations DROP CONSTRAINT IF EXISTS stations_status_check, ALTER COLUMN status DROP NOT NULL;
+ALTER TABLE production_lines DROP CONSTRAINT IF EXISTS production_lines_status_check, ALTER COLUMN status DROP NOT NULL;
+ALTER TABLE departments DROP COLUMN IF EXISTS is_active;
@@ -0,0 +1,19 @@
+-- Line, station and department configuration
+-- Departments, production lines and stations are managed through the API instead of SQL. Ones that
+-- shift assignments, performance records or operators refer to are deactivated rather than deleted,
+-- so the history keeps its names; only unused ones can be deleted.
+
+ALTER TABLE departments ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+-- Lines and stations are either active or inactive; any other value recorded so far counts as inactive
+UPDATE production_lines SET status = 'inactive' WHERE status IS DISTINCT FROM 'active';
+ALTER TABLE production_lines
+    ALTER COLUMN status SET NOT NULL,
+    ADD CONSTRAINT production_lines_status_check CHECK (status IN ('active', 'inactive'));
+
+UPDATE stations SET status = 'inactive' WHERE status IS DISTINCT FROM 'active';
+ALTER TABLE stations
+    ALTER COLUMN status SET NOT NULL,
+    ADD CONSTRAINT stations_status_check CHECK (status IN ('active', 'inactive'));
+
+CREATE INDEX IF NOT EXISTS idx_stations_line ON stations(line_id, position_order);
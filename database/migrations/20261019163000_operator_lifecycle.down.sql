@@ -0,0 +1,19 @@
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE shift_assignments
+    DROP CONSTRAINT IF EXISTS shift_assignments_operator_id_fkey,
+    ADD CONSTRAINT shift_assignments_operator_id_fkey FOREIGN KEY (operator_id) REFERENCES operators(id) ON DELETE CASCADE;
+
+DROP INDEX IF EXISTS idx_operators_employment;
+
+ALTER TABLE operators
+    DROP CONSTRAINT IF EXISTS operators_anonymized_check,
+    DROP CONSTRAINT IF EXISTS operators_terminated_on_check,
+    DROP COLUMN IF EXISTS anonymized_at,
+    DROP COLUMN IF EXISTS terminated_on,
+    DROP COLUMN IF EXISTS hired_on,
+    DROP COLUMN IF EXISTS employment_status;
@@ -0,0 +1,33 @@
+-- Operator employment lifecycle
+-- Operators are archived (terminated) instead of deleted, so their assignments, attendance and
+-- performance stay reportable. Terminated operators can be restored until they are anonymised,
+-- which erases their personal details here and in the audit trail.
+
+ALTER TABLE operators
+    ADD COLUMN IF NOT EXISTS employment_status VARCHAR(20) NOT NULL DEFAULT 'active'
+        CHECK (employment_status IN ('active', 'on_leave', 'terminated')),
+    ADD COLUMN IF NOT EXISTS hired_on DATE,
+    ADD COLUMN IF NOT EXISTS terminated_on DATE,
+    ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMPTZ,
+    ADD CONSTRAINT operators_terminated_on_check
+        CHECK ((employment_status = 'terminated') = (terminated_on IS NOT NULL)),
+    ADD CONSTRAINT operators_anonymized_check
+        CHECK (anonymized_at IS NULL OR employment_status = 'terminated');
+
+CREATE INDEX IF NOT EXISTS idx_operators_employment ON operators(employment_status);
+
+-- Assignment history must not disappear with its operator
+ALTER TABLE shift_assignments
+    DROP CONSTRAINT IF EXISTS shift_assignments_operator_id_fkey,
+    ADD CONSTRAINT shift_assignments_operator_id_fkey FOREIGN KEY (operator_id) REFERENCES operators(id);
+
+-- The audit trail stays append-only, except for the redaction that anonymising an operator performs
+-- inside its own transaction (with app.audit_redaction set to 'on' for that transaction only)
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND current_setting('app.audit_redaction', true) = 'on' THEN
+        RETURN NULL;
+    END IF;
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,7 @@
+-- Abandoned idempotency claims
+-- A claim whose request never finished (the process stopped mid-request) would otherwise answer
+-- every retry with "still being processed" until it expired. claimed_at lets a retry take over a
+-- claim that has been running for longer than any request should.
+
+ALTER TABLE idempotency_keys
+    ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,3 @@
+ALTER TABLE attendance_logs
+    ALTER COLUMN paid_hours TYPE DECIMAL(5,2) USING LEAST(paid_hours, 999.99),
+    ALTER COLUMN total_hours TYPE DECIMAL(4,2) USING LEAST(total_hours, 99.99);
@@ -0,0 +1,8 @@
+-- Wider attendance session totals
+-- total_hours as DECIMAL(4,2) stops at 99.99 hours, so closing a session left open for longer (a
+-- forgotten clock-out) failed with a numeric overflow and the session could never be closed.
+-- paid_hours gets the same width so it cannot be the next column to overflow.
+
+ALTER TABLE attendance_logs
+    ALTER COLUMN total_hours TYPE NUMERIC(7,2),
+    ALTER COLUMN paid_hours TYPE NUMERIC(7,2);
@@ -0,0 +1,3 @@
+DROP FUNCTION IF EXISTS leave_days(INTEGER, INTEGER, DATE, DATE);
+ALTER TABLE leave_types DROP COLUMN IF EXISTS counts_calendar_days;
+ALTER TABLE sites DROP COLUMN IF EXISTS working_weekdays;
@@ -0,0 +1,27 @@
+-- Leave counted in working days
+-- Leave used to take every calendar day of a request off the allowance, weekends included. Each
+-- site now has its working weekdays, and a request counts only those days at the operator's site
+-- unless its leave type counts calendar days (e.g. for leave that runs regardless of the roster).
+
+ALTER TABLE sites
+    ADD COLUMN IF NOT EXISTS working_weekdays INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}' -- 0 = Sunday
+        CHECK (cardinality(working_weekdays) > 0 AND working_weekdays <@ '{0,1,2,3,4,5,6}');
+
+ALTER TABLE leave_types
+    ADD COLUMN IF NOT EXISTS counts_calendar_days BOOLEAN NOT NULL DEFAULT false;
+
+-- Days from..to that count against an operator's allowance of a leave type. Operators without a
+-- site work Monday to Friday.
+CREATE OR REPLACE FUNCTION leave_days(p_operator_id INTEGER, p_leave_type_id INTEGER, p_from DATE, p_to DATE)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::integer
+    FROM generate_series(p_from::timestamp, p_to::timestamp, interval '1 day') day
+    WHERE (SELECT counts_calendar_days FROM leave_types WHERE id = p_leave_type_id)
+       OR EXTRACT(DOW FROM day)::integer = ANY(COALESCE((
+            SELECT si.working_weekdays
+            FROM operators o
+            JOIN departments d ON o.department_id = d.id
+            JOIN sites si ON d.site_id = si.id
+            WHERE o.id = p_operator_id
+          ), '{1,2,3,4,5}'))
+$$ LANGUAGE sql STABLE;
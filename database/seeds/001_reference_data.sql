@@ -0,0 +1,72 @@
+-- Reference data: default departments, production lines and their stations
+-- Applied with `npm run db:seed`. Lines and stations are only inserted into an empty table,
+-- so running the seeds again does not duplicate them.
+
+-- Insert default departments
+INSERT INTO departments (name, description) VALUES 
+('Production', 'Main production department'),
+('Quality Control', 'Quality assurance and testing'),
+('Maintenance', 'Equipment maintenance and repair'),
+('Logistics', 'Material handling and shipping')
+ON CONFLICT (name) DO NOTHING;
+
+-- Insert sample production lines
+INSERT INTO production_lines (name, department_id, capacity)
+SELECT * FROM (VALUES
+('DIS1', 1, 10),
+('DIS2', 1, 8),
+('IC1', 1, 6),
+('IC2', 1, 6),
+('DIGER', 1, 5)
+) AS seed(name, department_id, capacity)
+WHERE NOT EXISTS (SELECT 1 FROM production_lines);
+
+-- Insert sample stations for each line
+INSERT INTO stations (name, line_id, position_order)
+SELECT * FROM (VALUES
+-- DIS1 stations
+('BANT BASI', 1, 1),
+('BANT DESTEK', 1, 2),
+('BANT SONU', 1, 3),
+('BARKOD BASIM', 1, 4),
+('DOĞUM İZNİ', 1, 5),
+('HATTAN İADE', 1, 6),
+('SENDİKA', 1, 7),
+('KAYNAK TAKİP', 1, 8),
+('LOÇ BAKIM', 1, 9),
+('BARKOD BASIM', 1, 10),
+
+-- DIS2 stations  
+('BANT BAKIM', 2, 1),
+('BANT DESTEK', 2, 2),
+('LOÇ', 2, 3),
+('SENDİKA', 2, 4),
+('İYİLEŞTİRME', 2, 5),
+('BANT BAKIM', 2, 6),
+('HATTAN İADE', 2, 7),
+('KAYNAK TAKİP', 2, 8),
+
+-- IC1 stations
+('BANT SONU', 3, 1),
+('DOĞUM İZNİ', 3, 2),
+('HATTAN İADE', 3, 3),
+('KAYNAK TAKİP', 3, 4),
+('LOÇ BAKIM', 3, 5),
+('BANT BAKIM', 3, 6),
+
+-- IC2 stations
+('BARKOD BASIM', 4, 1),
+('LOÇ', 4, 2),
+('SENDİKA', 4, 3),
+('İYİLEŞTİRME', 4, 4),
+('BANT BASI', 4, 5),
+
+-- DIGER stations
+('BANT BAKIM', 5, 1),
+('BANT DESTEK', 5, 2),
+('BANT SONU', 5, 3),
+('BARKOD BASIM', 5, 4),
+('DOĞUM İZNİ', 5, 5)
+) AS seed(name, line_id, position_order)
+WHERE NOT EXISTS (SELECT 1 FROM stations);
+
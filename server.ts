@@ -0,0 +1,7308 @@
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import cors from 'cors';
+import bodyParser from 'body-parser';
+import multer from 'multer';
+import csv from 'csv-parser';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import { promisify } from 'util';
+import type { QueryResultRow } from 'pg';
+import { query, getClient } from './database/connection.js';
+import { migrate, assertSchemaVersion } from './database/migrate.js';
+import {
+  validate,
+  partial,
+  checkCertificationDates,
+  checkComplianceThreshold,
+  checkDateRange,
+  checkEmployment,
+  checkKioskIdentity,
+  checkKioskPin,
+  checkLeaveColor,
+  checkLeavePeriod,
+  checkLineLayout,
+  checkPeriod,
+  checkShiftTimes,
+  checkTimesheetPeriod,
+  checkTimesheetRules,
+  checkUserLink,
+  absenceTrendsQuerySchema,
+  analyticsTrendsQuerySchema,
+  assignmentsExportQuerySchema,
+  attendanceClassifySchema,
+  attendanceCorrectionSchema,
+  attendanceExceptionsQuerySchema,
+  attendanceExportQuerySchema,
+  attendanceQuerySchema,
+  attendanceRulesSchema,
+  auditQuerySchema,
+  autoStaffApplySchema,
+  autoStaffQuerySchema,
+  breakEventSchema,
+  certificationSchema,
+  clockEventSchema,
+  complianceReportQuerySchema,
+  complianceRuleSchema,
+  configurationQuerySchema,
+  departmentSchema,
+  departmentSiteSchema,
+  expiringQuerySchema,
+  importOptionsSchema,
+  importRowSchema,
+  kioskActionSchema,
+  kioskCredentialsSchema,
+  kioskDeviceSchema,
+  kioskIdentitySchema,
+  leaveBalanceSchema,
+  leaveBalancesQuerySchema,
+  leaveRequestSchema,
+  leaveRequestsQuerySchema,
+  leaveReviewSchema,
+  leaveTypeSchema,
+  lineLayoutSchema,
+  ANALYTICS_MAX_DAYS,
+  ANALYTICS_METRICS,
+  ATTENDANCE_CLASSIFY_MAX_DAYS,
+  ATTENDANCE_EXCEPTIONS,
+  COMPLIANCE_REPORT_MAX_DAYS,
+  IMPORT_COLUMNS,
+  IMPORT_MAX_BYTES,
+  IMPORT_MAX_ROWS,
+  loginSchema,
+  operatorCertificationSchema,
+  operatorCertificationsQuerySchema,
+  operatorEmploymentSchema,
+  operatorSchema,
+  operatorStatusSchema,
+  operatorUpdateSchema,
+  operatorsQuerySchema,
+  performanceExportQuerySchema,
+  performanceQuerySchema,
+  productionLineSchema,
+  rosterQuerySchema,
+  rosterSchema,
+  openShiftSchema,
+  shiftAssignmentSchema,
+  shiftClaimSchema,
+  shiftOfferSchema,
+  shiftSchema,
+  shiftsQuerySchema,
+  shiftTradeReviewSchema,
+  shiftTradesQuerySchema,
+  siteQuerySchema,
+  siteSchema,
+  stationPerformanceSchema,
+  stationRequirementsSchema,
+  stationSchema,
+  stationsQuerySchema,
+  timesheetGenerateSchema,
+  timesheetRulesSchema,
+  timesheetsQuerySchema,
+  userSchema,
+  userUpdateSchema
+} from './src/shared/api.js';
+import type {
+  AbsenceTrend,
+  AnalyticsMetric,
+  AnalyticsTrends,
+  AttendanceException,
+  AttendanceRules,
+  AttendanceStatus,
+  ComplianceReport,
+  ComplianceReportRow,
+  ComplianceRule,
+  ComplianceViolation,
+  ConflictReason,
+  ErrorCode,
+  ExportFormat,
+  FieldError,
+  ImportReport,
+  ImportRowInput,
+  ImportRowResult,
+  Infer,
+  KioskActionResult,
+  KioskCredentials,
+  KioskDevice,
+  KioskDeviceCreated,
+  KioskIdentityInput,
+  KioskInfo,
+  KioskState,
+  LeaveApproval,
+  LeaveBalance,
+  LeaveRequest,
+  PerformanceGroup,
+  PerformanceQuery,
+  Role,
+  RosterConflict,
+  RosterInput,
+  Schema,
+  ShiftTrade,
+  ShiftTradeResult,
+  StaffingPlan,
+  Timesheet,
+  TimesheetDay,
+  TimesheetGenerateResult,
+  TimesheetRules,
+  TimesheetStatus,
+  TimesheetTotals,
+  TrendGranularity,
+  TrendSeries,
+  TrendWindow
+} from './src/shared/api.js';
+import { toCsv } from './src/shared/csv.js';
+
+// The account behind the request's session token, set by `authenticate`
+interface SessionUser {
+  id: number;
+  username: string;
+  role: Role;
+  operator_id: number | null;
+  token_hash: string;
+}
+
+// The kiosk device behind a request to /api/kiosk, set by `authenticateKiosk`
+interface KioskDeviceSession {
+  id: number;
+  name: string;
+  site_id: number | null;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // Always present on routes behind `authenticate`, i.e. everything except PUBLIC_ROUTES and kiosk routes
+    user: SessionUser;
+    kiosk?: KioskDeviceSession;
+  }
+}
+
+type Row = QueryResultRow;
+// Route and body ids arrive as strings or numbers; pg accepts either
+type Id = number | string;
+// A query function; pass a transaction client's to run helpers inside that transaction
+type Executor = (text: string, params?: unknown[]) => Promise<{ rows: Row[] }>;
+
+const app = express();
+const PORT = 5001;
+
+// Only the configured frontend origins may call the API from a browser
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:5173')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+// Middleware
+app.use(cors({ origin: CORS_ORIGINS }));
+app.use(bodyParser.json());
+app.use(bodyParser.urlencoded({ extended: true }));
+
+// REQUEST HELPERS
+// SQLSTATE and detail of a failed pg query, e.g. code '23505' for a unique violation
+const pgError = (error: unknown) => ({
+  code: error instanceof Error && 'code' in error ? error.code : undefined,
+  detail: error instanceof Error && 'detail' in error && typeof error.detail === 'string' ? error.detail : ''
+});
+
+const pgErrorCode = (error: unknown) => pgError(error).code;
+
+// The column a unique violation is about, from pg's "Key (email)=(...) already exists" detail
+const duplicateFields = (error: unknown, message: string): FieldError[] => {
+  const field = /^Key \((\w+)\)/.exec(pgError(error).detail)?.[1];
+  return field ? [{ field, message }] : [];
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// A single-valued query string parameter; empty, repeated or nested values count as absent
+const queryParam = (req: Request, name: string) => {
+  const value = req.query[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+};
+
+const ERROR_CODES: Record<number, ErrorCode> = {
+  400: 'validation_failed',
+  401: 'unauthenticated',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  422: 'rule_violation',
+  429: 'rate_limited',
+  500: 'internal_error'
+};
+
+// Send the standard error body (ApiErrorBody); `details` carries endpoint-specific data
+// such as the conflicts of a roster or the certifications an operator is missing
+const sendError = (res: Response, status: number, message: string, details: Record<string, unknown> = {}) =>
+  res.status(status).json({ error: message, code: ERROR_CODES[status] || 'internal_error', ...details });
+
+// Constraint and type errors Postgres reports for bad input become client errors;
+// anything else is logged and answered with a 500
+const handleError = (res: Response, error: unknown, context: string) => {
+  const { code, detail } = pgError(error);
+  switch (code) {
+    case '23505': // Unique violation
+      return sendError(res, 409, 'A record with these values already exists', { errors: duplicateFields(error, 'Already exists') });
+    case '23503': // Foreign key violation: a missing reference, or a record that is still in use
+      return detail.includes('is still referenced')
+        ? sendError(res, 409, 'The record is still in use')
+        : sendError(res, 404, 'A referenced record does not exist');
+    case '23514': // Check violation
+    case '22P02': // Invalid text representation
+    case '22003': // Numeric value out of range
+    case '22007': // Invalid datetime format
+    case '22008': // Datetime field overflow
+      return sendError(res, 400, 'A value is invalid or out of range');
+  }
+  console.error(`Error ${context}:`, error);
+  return sendError(res, 500, 'Internal server error');
+};
+
+// Validate input against a shared schema (and its cross-field `rules`). On failure the 400
+// response with one entry per invalid field has been sent and null is returned.
+const checkInput = <S extends Schema>(
+  schema: S,
+  input: unknown,
+  res: Response,
+  rules?: (value: Infer<S>) => FieldError[]
+): Infer<S> | null => {
+  const result = validate(schema, input, rules);
+  if (!result.ok) {
+    sendFieldErrors(res, result.errors);
+    return null;
+  }
+  return result.value;
+};
+
+const sendFieldErrors = (res: Response, errors: FieldError[]) =>
+  sendError(res, 400, errors.map(e => e.message).join('; '), { errors });
+
+const parseBody = <S extends Schema>(schema: S, req: Request, res: Response, rules?: (value: Infer<S>) => FieldError[]) =>
+  checkInput(schema, req.body, res, rules);
+
+const parseQuery = <S extends Schema>(schema: S, req: Request, res: Response, rules?: (value: Infer<S>) => FieldError[]) =>
+  checkInput(schema, req.query, res, rules);
+
+// Route ids are positive integers; anything else would otherwise reach Postgres and fail there
+app.param(['id', 'certificationId', 'leaveTypeId'], (_req, res, next, value: string, name: string) => {
+  if (/^[1-9]\d*$/.test(value)) return next();
+  sendError(res, 400, `${name} must be a positive whole number`, { errors: [{ field: name, message: `${name} must be a positive whole number` }] });
+});
+
+// AUTHENTICATION & AUTHORIZATION
+const SUPERVISORS: Role[] = ['admin', 'supervisor'];
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '12');
+
+// Routes reachable without a session token (paths relative to /api)
+const PUBLIC_ROUTES = ['/auth/login', '/health'];
+
+// Non-GET routes read-only accounts may still call; they only end the caller's own session
+const READ_ONLY_ROUTES = ['/auth/logout'];
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Passwords are stored as "salt:key" using scrypt
+const hashPassword = async (password: string) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const key = await scrypt(password, salt, 64);
+  return `${salt}:${key.toString('hex')}`;
+};
+
+const verifyPassword = async (password: string, stored: string) => {
+  const [salt, keyHex] = stored.split(':');
+  const key = await scrypt(password, salt, 64);
+  return crypto.timingSafeEqual(key, Buffer.from(keyHex, 'hex'));
+};
+
+// Only a hash of each session token is stored, so a database leak does not expose live sessions
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const createSession = async (userId: number) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  await query(`
+    INSERT INTO user_sessions (token_hash, user_id, expires_at)
+    VALUES ($1, $2, NOW() + $3 * INTERVAL '1 hour')
+  `, [hashToken(token), userId, SESSION_TTL_HOURS]);
+  return token;
+};
+
+// Resolve the bearer token to req.user; every /api route except PUBLIC_ROUTES requires it.
+// Kiosk routes authenticate the device instead (see authenticateKiosk).
+const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  if (PUBLIC_ROUTES.includes(req.path) || req.path.startsWith('/kiosk/')) return next();
+
+  try {
+    const header = req.headers.authorization || '';
+    // EventSource cannot send headers, so the live stream takes the token as a query parameter
+    const token = header.startsWith('Bearer ')
+      ? header.slice(7)
+      : (req.path === '/events' ? queryParam(req, 'token') : undefined);
+    if (!token) {
+      return sendError(res, 401, 'Authentication required');
+    }
+
+    const result = await query(`
+      SELECT u.id, u.username, u.role, u.operator_id, us.token_hash
+      FROM user_sessions us
+      JOIN users u ON us.user_id = u.id
+      WHERE us.token_hash = $1 AND us.expires_at > NOW() AND u.is_active = true
+    `, [hashToken(token)]);
+
+    if (result.rows.length === 0) {
+      return sendError(res, 401, 'Session expired or invalid');
+    }
+
+    req.user = result.rows[0] as SessionUser;
+
+    // Read-only accounts can never change anything, whatever the route allows
+    if (req.user.role === 'read_only' && req.method !== 'GET' && !READ_ONLY_ROUTES.includes(req.path)) {
+      return sendError(res, 403, 'Insufficient permissions');
+    }
+
+    next();
+  } catch (error) {
+    handleError(res, error, 'authenticating request');
+  }
+};
+
+// Restrict a route to the given roles
+const authorize = (...roles: Role[]) => (req: Request, res: Response, next: NextFunction) => {
+  if (!roles.includes(req.user.role)) {
+    return sendError(res, 403, 'Insufficient permissions');
+  }
+  next();
+};
+
+// Supervisors may act on any operator; operator accounts only on their own operator record
+const authorizeSelf = (getOperatorId: (req: Request) => unknown) => (req: Request, res: Response, next: NextFunction) => {
+  if (SUPERVISORS.includes(req.user.role)) return next();
+  if (req.user.role === 'operator' && req.user.operator_id && String(req.user.operator_id) === String(getOperatorId(req))) {
+    return next();
+  }
+  sendError(res, 403, 'Operators can only perform this action for themselves');
+};
+
+// KIOSK DEVICES
+// Shared terminals at the line authenticate with a device token in the X-Kiosk-Token header instead
+// of a user session; operators then identify on every request with a badge number, or with
+// employee_id and PIN. Requests per device, and failed identifications per device and identifier,
+// are rate-limited in this server process's memory.
+const KIOSK_RATE_LIMIT = parseInt(process.env.KIOSK_RATE_LIMIT || '60'); // requests per device per minute
+const KIOSK_MAX_FAILED_ATTEMPTS = parseInt(process.env.KIOSK_MAX_FAILED_ATTEMPTS || '5'); // per identifier per 15 minutes
+const KIOSK_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// A fixed-window counter; windows that have ended are dropped every minute
+interface RateWindow {
+  count: number;
+  resets_at: number;
+}
+const rateWindows = new Map<string, RateWindow>();
+
+// The current window for `key`, counting one more hit when `hit` is set
+const rateWindow = (key: string, windowMs: number, hit: boolean) => {
+  const now = Date.now();
+  let window = rateWindows.get(key);
+  if (!window || window.resets_at <= now) {
+    window = { count: 0, resets_at: now + windowMs };
+    rateWindows.set(key, window);
+  }
+  if (hit) window.count++;
+  return window;
+};
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, window] of rateWindows) {
+    if (window.resets_at <= now) rateWindows.delete(key);
+  }
+}, 60000);
+
+const sendRateLimited = (res: Response, window: RateWindow, message: string) => {
+  res.set('Retry-After', String(Math.ceil((window.resets_at - Date.now()) / 1000)));
+  return sendError(res, 429, message);
+};
+
+// Resolve the device token to req.kiosk; mounted on /api/kiosk, which `authenticate` leaves alone
+const authenticateKiosk = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = req.get('X-Kiosk-Token');
+    if (!token) {
+      return sendError(res, 401, 'Kiosk device token required');
+    }
+
+    // Counted before the lookup so a flood of requests never reaches the database
+    const window = rateWindow(`kiosk:${hashToken(token)}`, 60000, true);
+    if (window.count > KIOSK_RATE_LIMIT) {
+      return sendRateLimited(res, window, 'Too many requests from this kiosk; try again shortly');
+    }
+
+    const result = await query(`
+      UPDATE kiosk_devices SET last_seen_at = NOW()
+      WHERE token_hash = $1 AND is_active
+      RETURNING id, name, site_id
+    `, [hashToken(token)]);
+    if (result.rows.length === 0) {
+      return sendError(res, 401, 'Kiosk device is not registered or has been deactivated');
+    }
+
+    req.kiosk = result.rows[0] as KioskDeviceSession;
+    next();
+  } catch (error) {
+    handleError(res, error, 'authenticating kiosk');
+  }
+};
+
+// The operator a kiosk request identifies. Failures count against the device and identifier, which
+// are refused for a while after KIOSK_MAX_FAILED_ATTEMPTS; a kiosk tied to a site serves only its operators.
+const identifyKioskOperator = async (
+  device: KioskDeviceSession, identity: KioskIdentityInput
+): Promise<{ error: string; status: number; window?: RateWindow } | { operator: Row }> => {
+  const identifier = identity.badge_number ? `badge:${identity.badge_number}` : `employee:${identity.employee_id}`;
+  const failureKey = `kiosk:${device.id}:${identifier}`;
+  const failures = rateWindow(failureKey, KIOSK_FAILURE_WINDOW_MS, false);
+  if (failures.count >= KIOSK_MAX_FAILED_ATTEMPTS) {
+    return { error: 'Too many failed attempts; try again later or ask a supervisor', status: 429, window: failures };
+  }
+
+  const result = await query(`
+    SELECT o.id, o.name, o.employee_id, kc.pin_hash, d.site_id
+    FROM operator_kiosk_credentials kc
+    JOIN operators o ON kc.operator_id = o.id
+    LEFT JOIN departments d ON o.department_id = d.id
+    WHERE ${identity.badge_number ? 'kc.badge_number = $1' : 'o.employee_id = $1'} AND o.employment_status <> 'terminated'
+  `, [identity.badge_number || identity.employee_id]);
+  const operator = result.rows[0];
+  const recognised = operator && (identity.badge_number
+    || (operator.pin_hash && identity.pin && await verifyPassword(identity.pin, operator.pin_hash)));
+  if (!recognised) {
+    rateWindow(failureKey, KIOSK_FAILURE_WINDOW_MS, true);
+    return { error: identity.badge_number ? 'Badge not recognised' : 'Employee ID or PIN not recognised', status: 401 };
+  }
+  rateWindows.delete(failureKey);
+
+  if (device.site_id && operator.site_id !== device.site_id) {
+    return { error: 'This kiosk serves another site', status: 403 };
+  }
+  return { operator };
+};
+
+// The operator's session, running break and assignment for the shift day they are in
+const kioskState = async (operator: Row, now: Date): Promise<KioskState> => {
+  const session = await findOpenSession(operator.id);
+  const timeZone = await getTimezone('operator', operator.id);
+  const shiftDate: string = session?.date ?? resolveShiftDate(await findCurrentShift(operator.id, null, now, timeZone), now, timeZone);
+  const [openBreak, assignment] = await Promise.all([
+    session
+      ? query('SELECT break_type FROM attendance_breaks WHERE attendance_log_id = $1 AND end_time IS NULL', [session.id])
+      : null,
+    query(`
+      SELECT sh.name as shift_name, sh.start_time, sh.end_time, s.name as station_name, pl.name as line_name
+      FROM shift_assignments sa
+      JOIN shifts sh ON sa.shift_id = sh.id
+      LEFT JOIN stations s ON sa.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      WHERE sa.operator_id = $1 AND sa.assigned_date = $2
+    `, [operator.id, shiftDate])
+  ]);
+
+  return {
+    operator_id: operator.id,
+    name: operator.name,
+    employee_id: operator.employee_id,
+    clocked_in_at: session?.clock_in ?? null,
+    break_type: openBreak?.rows[0]?.break_type ?? null,
+    shift_date: shiftDate,
+    assignment: (assignment.rows[0] as KioskState['assignment']) ?? null
+  };
+};
+
+// IDEMPOTENT REPLAYS
+// Clients that queue changes while offline send each with an Idempotency-Key header and may send it
+// again when they cannot tell whether it arrived. The first response to a key is stored and
+// returned for every later request with that key, so the change is applied once.
+const IDEMPOTENCY_KEY_DAYS = 7;
+// A claim without a response after this long belongs to a request that was cut off, e.g. by a restart
+const IDEMPOTENCY_CLAIM_SECONDS = 120;
+
+const replayIdempotent = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get('Idempotency-Key');
+  if (!key || req.method === 'GET' || !(req.user || req.kiosk)) return next();
+  if (key.length > 100) {
+    return sendError(res, 400, 'Idempotency-Key must be at most 100 characters');
+  }
+
+  try {
+    const scope = req.kiosk ? `kiosk:${req.kiosk.id}` : `user:${req.user.id}`;
+    const claimed = await query(`
+      INSERT INTO idempotency_keys (scope, key, method, path)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (scope, key) DO UPDATE SET claimed_at = CURRENT_TIMESTAMP
+        WHERE idempotency_keys.status_code IS NULL
+          AND idempotency_keys.method = EXCLUDED.method AND idempotency_keys.path = EXCLUDED.path
+          AND idempotency_keys.claimed_at < CURRENT_TIMESTAMP - $5 * INTERVAL '1 second'
+      RETURNING key
+    `, [scope, key, req.method, req.originalUrl, IDEMPOTENCY_CLAIM_SECONDS]);
+
+    if (claimed.rows.length === 0) {
+      const stored = await query('SELECT * FROM idempotency_keys WHERE scope = $1 AND key = $2', [scope, key]);
+      const previous = stored.rows[0];
+      if (!previous) return next(); // expired between the two statements
+      if (previous.method !== req.method || previous.path !== req.originalUrl) {
+        return sendError(res, 422, 'Idempotency-Key was already used for a different request');
+      }
+      if (previous.status_code === null) {
+        const reason: ConflictReason = 'idempotency_in_progress';
+        return sendError(res, 409, 'A request with this Idempotency-Key is still being processed', { reason });
+      }
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(previous.status_code).json(previous.response);
+    }
+
+    // Keep the JSON response once the handler ends it, whether or not the client is still connected:
+    // the change has been made either way. Server errors (including thrown ones) and responses that
+    // are not JSON release the key so the request can be tried again. The response only goes out
+    // once it is stored, so a client that got it never finds the key still running.
+    let body: unknown;
+    let settled = false;
+    const json = res.json.bind(res);
+    res.json = (value: unknown) => {
+      body = value;
+      return json(value);
+    };
+    const end = res.end.bind(res) as (...args: unknown[]) => Response;
+    res.end = ((...args: unknown[]) => {
+      if (settled) return end(...args);
+      settled = true;
+      const settle = body !== undefined && res.statusCode < 500
+        ? query('UPDATE idempotency_keys SET status_code = $1, response = $2 WHERE scope = $3 AND key = $4', [res.statusCode, JSON.stringify(body), scope, key])
+        : query('DELETE FROM idempotency_keys WHERE scope = $1 AND key = $2', [scope, key]);
+      settle
+        .catch(error => console.error('Error storing idempotent response:', error))
+        .finally(() => end(...args));
+      return res;
+    }) as Response['end'];
+    next();
+  } catch (error) {
+    handleError(res, error, 'checking idempotency key');
+  }
+};
+
+setInterval(() => {
+  query(`DELETE FROM idempotency_keys WHERE created_at < NOW() - $1 * INTERVAL '1 day'`, [IDEMPOTENCY_KEY_DAYS])
+    .catch(error => console.error('Error removing expired idempotency keys:', error));
+}, 60 * 60 * 1000);
+
+// LIVE UPDATES
+// Connected Server-Sent Events clients. Mutating endpoints push small events so screens
+// update without waiting for the next poll; clients resync fully whenever they reconnect.
+const liveClients = new Set<Response>();
+let liveEventId = 0;
+const LIVE_HEARTBEAT_MS = 25000;
+
+const broadcast = (type: string, data: unknown) => {
+  liveEventId++;
+  const message = `id: ${liveEventId}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of liveClients) {
+    client.write(message);
+  }
+};
+
+// Comment lines keep idle connections from being closed by proxies
+setInterval(() => {
+  for (const client of liveClients) {
+    client.write(': ping\n\n');
+  }
+}, LIVE_HEARTBEAT_MS);
+
+const broadcastOperatorStatus = (operatorId: Id, status: string) => {
+  broadcast('operator_status', { operator_id: Number(operatorId), status, last_active: new Date().toISOString() });
+};
+
+// Push an operator's assignment for a day, with the names screens display
+const broadcastAssignment = async (operatorId: Id, date: string) => {
+  const result = await query(`
+    SELECT sa.*, o.name as operator_name, s.name as station_name, pl.name as line_name
+    FROM shift_assignments sa
+    JOIN operators o ON sa.operator_id = o.id
+    LEFT JOIN stations s ON sa.station_id = s.id
+    LEFT JOIN production_lines pl ON s.line_id = pl.id
+    WHERE sa.operator_id = $1 AND sa.assigned_date = $2
+  `, [operatorId, date]);
+  broadcast('assignment', { operator_id: Number(operatorId), assigned_date: date, assignment: result.rows[0] || null });
+};
+
+// QUALIFICATIONS
+// QUALIFICATION_ENFORCEMENT=block rejects placements on stations the operator is not
+// certified for; "warn" allows them and reports what is missing.
+const QUALIFICATION_ENFORCEMENT = process.env.QUALIFICATION_ENFORCEMENT === 'warn' ? 'warn' : 'block';
+const CERTIFICATION_WARNING_DAYS = parseInt(process.env.CERTIFICATION_WARNING_DAYS || '') || 30;
+
+interface Qualifications {
+  requirements: Map<number, Row[]>;
+  held: Map<string, Row>;
+}
+
+interface MissingCertification {
+  certification_id: number;
+  name: string;
+  reason: 'missing' | 'expired';
+  expires_on?: string;
+}
+
+// Load station requirements and the certifications the given operators hold, for
+// evaluating many placements without a query per day
+const loadQualifications = async (stationIds: number[], operatorIds: number[]): Promise<Qualifications> => {
+  const [requirements, held] = await Promise.all([
+    query(`
+      SELECT sr.station_id, c.id, c.name
+      FROM station_requirements sr
+      JOIN certifications c ON sr.certification_id = c.id
+      WHERE sr.station_id = ANY($1)
+    `, [stationIds]),
+    query(
+      'SELECT * FROM operator_certifications WHERE operator_id = ANY($1)',
+      [operatorIds]
+    )
+  ]);
+
+  const byStation = new Map<number, Row[]>();
+  for (const row of requirements.rows) {
+    byStation.set(row.station_id, [...(byStation.get(row.station_id) || []), row]);
+  }
+
+  return {
+    requirements: byStation,
+    held: new Map(held.rows.map(row => [`${row.operator_id}:${row.certification_id}`, row]))
+  };
+};
+
+// Compare a station's required certifications with what the operator holds on `date`.
+// A certification not yet valid or expired on that date counts as missing; one lapsing
+// within the warning window is reported as expiring.
+const evaluateQualification = ({ requirements, held }: Qualifications, operatorId: number, stationId: Id, date: string) => {
+  const missing: MissingCertification[] = [];
+  const expiring: { certification_id: number; name: string; expires_on: string }[] = [];
+  const warnUntil = addDays(date, CERTIFICATION_WARNING_DAYS);
+
+  for (const certification of requirements.get(Number(stationId)) || []) {
+    const record = held.get(`${operatorId}:${certification.id}`);
+    if (!record || record.certified_on > date) {
+      missing.push({ certification_id: certification.id, name: certification.name, reason: 'missing' });
+    } else if (record.expires_on && record.expires_on < date) {
+      missing.push({ certification_id: certification.id, name: certification.name, reason: 'expired', expires_on: record.expires_on });
+    } else if (record.expires_on && record.expires_on <= warnUntil) {
+      expiring.push({ certification_id: certification.id, name: certification.name, expires_on: record.expires_on });
+    }
+  }
+
+  return { qualified: missing.length === 0, missing, expiring };
+};
+
+const checkQualification = async (operatorId: Id, stationId: Id, date: string) => {
+  const data = await loadQualifications([Number(stationId)], [Number(operatorId)]);
+  return evaluateQualification(data, Number(operatorId), stationId, date);
+};
+
+const describeMissing = (missing: MissingCertification[]) => missing
+  .map(m => m.reason === 'expired' ? `${m.name} (expired ${m.expires_on})` : m.name)
+  .join(', ');
+
+// EMPLOYMENT
+// Only operators in active employment can be assigned, rostered or take over shifts. Operators on a
+// leave of absence stay listed; terminated ones are archived and only show up in history and reports.
+
+// The given operators who are not in active employment
+const loadUnavailableOperators = async (operatorIds: Id[]) => {
+  const result = await query(`
+    SELECT id, name, employment_status FROM operators
+    WHERE id = ANY($1) AND employment_status <> 'active'
+  `, [operatorIds]);
+  return result.rows;
+};
+
+const describeUnavailable = (operator: Row) =>
+  `${operator.name} is ${operator.employment_status === 'terminated' ? 'no longer employed' : 'on a leave of absence'}`;
+
+// LEAVE
+// Approved leave takes an operator off the roster for its days: they cannot be assigned, are not
+// suggested by auto-staffing, do not count as available on their shift, and a scheduled day
+// without clock-ins is an excused absence instead of a no-show.
+
+// SQL condition that the operator in `column` is on approved leave on the date `date` (a
+// parameter reference or column)
+const onApprovedLeave = (column: string, date: string) => `EXISTS (
+  SELECT 1 FROM leave_requests lr
+  WHERE lr.operator_id = ${column} AND lr.status = 'approved' AND ${date} BETWEEN lr.start_date AND lr.end_date
+)`;
+
+// Approved leave of the given operators overlapping from..to, for checking many days at once
+const loadApprovedLeave = async (operatorIds: Id[], from: string, to: string) => {
+  const result = await query(`
+    SELECT lr.id, lr.operator_id, lr.start_date, lr.end_date, lt.name as leave_type_name
+    FROM leave_requests lr
+    JOIN leave_types lt ON lr.leave_type_id = lt.id
+    WHERE lr.status = 'approved' AND lr.operator_id = ANY($1) AND lr.start_date <= $3 AND lr.end_date >= $2
+  `, [operatorIds, from, to]);
+  return result.rows;
+};
+
+const findLeaveOn = (leave: Row[], operatorId: Id, date: string) =>
+  leave.find(entry => String(entry.operator_id) === String(operatorId) && entry.start_date <= date && entry.end_date >= date);
+
+// Days of leave request `lr` in the calendar year given by parameter `year` that count against the
+// allowance (see leave_days in the leave_working_days migration)
+const leaveDaysInYear = (year: string) =>
+  `leave_days(lr.operator_id, lr.leave_type_id, GREATEST(lr.start_date, make_date(${year}, 1, 1)), LEAST(lr.end_date, make_date(${year}, 12, 31)))`;
+
+const LEAVE_REQUEST_SELECT = `
+  SELECT lr.*, leave_days(lr.operator_id, lr.leave_type_id, lr.start_date, lr.end_date) as days,
+         o.name as operator_name, o.department_id, d.name as department_name,
+         lt.name as leave_type_name, lt.color,
+         requester.username as requested_by_username, reviewer.username as reviewed_by_username
+  FROM leave_requests lr
+  JOIN operators o ON lr.operator_id = o.id
+  LEFT JOIN departments d ON o.department_id = d.id
+  JOIN leave_types lt ON lr.leave_type_id = lt.id
+  LEFT JOIN users requester ON lr.requested_by = requester.id
+  LEFT JOIN users reviewer ON lr.reviewed_by = reviewer.id
+`;
+
+// Why an operator cannot take this leave, or null when they can: it must not overlap their other
+// pending or approved requests, and a type with an allowance must have enough days left in every
+// year the leave touches (pending requests count against the allowance too)
+const checkLeaveRequest = async (request: Row) => {
+  const exceptId = request.id || 0;
+  const overlapping = await query(`
+    SELECT lr.start_date, lr.end_date, lr.status, lt.name as leave_type_name
+    FROM leave_requests lr
+    JOIN leave_types lt ON lr.leave_type_id = lt.id
+    WHERE lr.operator_id = $1 AND lr.id <> $2 AND lr.status IN ('pending', 'approved')
+      AND lr.start_date <= $4 AND lr.end_date >= $3
+    LIMIT 1
+  `, [request.operator_id, exceptId, request.start_date, request.end_date]);
+  const overlap = overlapping.rows[0];
+  if (overlap) {
+    return `Overlaps ${overlap.status} ${overlap.leave_type_name} leave from ${overlap.start_date} to ${overlap.end_date}`;
+  }
+
+  const firstYear = Number(request.start_date.slice(0, 4));
+  const lastYear = Number(request.end_date.slice(0, 4));
+  for (let year = firstYear; year <= lastYear; year++) {
+    const result = await query(`
+      SELECT lt.name, COALESCE(lb.allowance_days, lt.annual_allowance_days) as allowance_days,
+             COALESCE((
+               SELECT SUM(${leaveDaysInYear('$3')})
+               FROM leave_requests lr
+               WHERE lr.operator_id = $1 AND lr.leave_type_id = lt.id AND lr.id <> $4
+                 AND lr.status IN ('pending', 'approved')
+                 AND lr.start_date <= make_date($3, 12, 31) AND lr.end_date >= make_date($3, 1, 1)
+             ), 0) as used_days,
+             leave_days($1, $2, GREATEST($5::date, make_date($3, 1, 1)), LEAST($6::date, make_date($3, 12, 31))) as requested_days
+      FROM leave_types lt
+      LEFT JOIN leave_balances lb ON lb.leave_type_id = lt.id AND lb.operator_id = $1 AND lb.year = $3
+      WHERE lt.id = $2
+    `, [request.operator_id, request.leave_type_id, year, exceptId, request.start_date, request.end_date]);
+    const balance = result.rows[0];
+    if (!balance || balance.allowance_days === null) continue;
+
+    const days = balance.requested_days;
+    const remaining = balance.allowance_days - balance.used_days;
+    if (days > remaining) {
+      return `Needs ${days} day(s) of ${balance.name} in ${year}, but only ${Math.max(remaining, 0)} remain`;
+    }
+  }
+  return null;
+};
+
+// AUTO-STAFFING
+// Score weights for ranking an operator on a station. Presence matters most on the day
+// itself, then proven efficiency on that station, then spreading time across stations.
+const AUTO_STAFF_WEIGHTS = {
+  clockedIn: 30,
+  efficiency: 40, // scaled by the operator's efficiency on the station, capped at 120%
+  expiringCertification: -5,
+  unqualified: -50,
+  recentRotation: -5 // per day on the same station within the rotation window
+};
+const AUTO_STAFF_HISTORY_DAYS = 90;
+const AUTO_STAFF_ROTATION_DAYS = 14;
+// Efficiency assumed for an operator with no history on a station
+const AUTO_STAFF_DEFAULT_EFFICIENCY = 60;
+
+// Suggest one operator per unstaffed station of a line for a date and shift. Every
+// candidate pairing is scored, then stations are filled greedily from the best pairing
+// down so no operator is used twice. Returns { error } or the plan with reasons.
+const planLineStaffing = async (lineId: Id, date: string, shiftId: Id): Promise<StaffingPlan | { error: string; status: number }> => {
+  const line = await fetchRow('production_lines', lineId);
+  if (!line) {
+    return { error: 'Production line not found', status: 404 };
+  }
+  const shift = await fetchRow('shifts', shiftId);
+  if (!shift) {
+    return { error: 'Shift not found', status: 404 };
+  }
+
+  const stationsResult = await query(`
+    SELECT s.*, sa.operator_id as assigned_operator_id, o.name as assigned_operator_name
+    FROM stations s
+    LEFT JOIN shift_assignments sa ON sa.station_id = s.id AND sa.assigned_date = $2 AND sa.shift_id = $3
+    LEFT JOIN operators o ON sa.operator_id = o.id
+    WHERE s.line_id = $1 AND s.status = 'active'
+    ORDER BY s.position_order
+  `, [lineId, date, shiftId]);
+
+  // Employed operators of the line's department who are not on leave or already placed elsewhere that day
+  const candidatesResult = await query(`
+    SELECT o.id, o.name, o.status,
+           EXISTS (
+             SELECT 1 FROM attendance_logs al
+             WHERE al.operator_id = o.id AND al.clock_in IS NOT NULL AND al.clock_out IS NULL
+           ) as clocked_in
+    FROM operators o
+    WHERE o.department_id = $1 AND o.employment_status = 'active'
+      AND NOT EXISTS (
+        SELECT 1 FROM shift_assignments sa
+        WHERE sa.operator_id = o.id AND sa.assigned_date = $2 AND sa.station_id IS NOT NULL
+      )
+      AND NOT ${onApprovedLeave('o.id', '$2')}
+    ORDER BY o.name
+  `, [line.department_id, date]);
+
+  const stations = stationsResult.rows;
+  const candidates = candidatesResult.rows;
+  const openStations = stations.filter(station => !station.assigned_operator_id);
+  const operatorIds = candidates.map(candidate => candidate.id);
+  const stationIds = openStations.map(station => station.id);
+
+  const [historyResult, rotationResult, qualifications] = await Promise.all([
+    query(`
+      SELECT station_id, operator_id,
+             SUM(units_produced) as units, SUM(target_units) as target
+      FROM station_performance
+      WHERE station_id = ANY($1) AND operator_id = ANY($2) AND date BETWEEN $3 AND $4
+      GROUP BY station_id, operator_id
+    `, [stationIds, operatorIds, addDays(date, -AUTO_STAFF_HISTORY_DAYS), addDays(date, -1)]),
+    query(`
+      SELECT station_id, operator_id, COUNT(*) as days
+      FROM shift_assignments
+      WHERE station_id = ANY($1) AND operator_id = ANY($2) AND assigned_date BETWEEN $3 AND $4
+      GROUP BY station_id, operator_id
+    `, [stationIds, operatorIds, addDays(date, -AUTO_STAFF_ROTATION_DAYS), addDays(date, -1)]),
+    loadQualifications(stationIds, operatorIds)
+  ]);
+
+  const history = new Map<string, number>(historyResult.rows
+    .filter(row => row.target > 0)
+    .map(row => [`${row.station_id}:${row.operator_id}`, calculateEfficiency(row.units, row.target)]));
+  const rotation = new Map<string, number>(rotationResult.rows.map(row => [`${row.station_id}:${row.operator_id}`, row.days]));
+  const isToday = date === await getToday('department', line.department_id);
+
+  const pairings: { station: Row; candidate: Row; score: number; reasons: string[] }[] = [];
+  for (const station of openStations) {
+    for (const candidate of candidates) {
+      const reasons: string[] = [];
+      let score = 0;
+
+      const qualification = evaluateQualification(qualifications, candidate.id, station.id, date);
+      if (!qualification.qualified) {
+        if (QUALIFICATION_ENFORCEMENT === 'block') continue;
+        score += AUTO_STAFF_WEIGHTS.unqualified;
+        reasons.push(`Missing certification: ${describeMissing(qualification.missing)}`);
+      } else if (qualification.expiring.length > 0) {
+        score += AUTO_STAFF_WEIGHTS.expiringCertification;
+        reasons.push(`Certification expiring: ${qualification.expiring.map(e => e.name).join(', ')}`);
+      }
+
+      if (isToday && candidate.clocked_in) {
+        score += AUTO_STAFF_WEIGHTS.clockedIn;
+        reasons.push('Clocked in');
+      }
+
+      const efficiency = history.get(`${station.id}:${candidate.id}`);
+      const expected = efficiency ?? AUTO_STAFF_DEFAULT_EFFICIENCY;
+      score += AUTO_STAFF_WEIGHTS.efficiency * Math.min(expected, 120) / 100;
+      reasons.push(efficiency !== undefined
+        ? `${efficiency}% efficiency on this station over the last ${AUTO_STAFF_HISTORY_DAYS} days`
+        : 'No performance history on this station');
+
+      const recentDays = rotation.get(`${station.id}:${candidate.id}`) || 0;
+      if (recentDays > 0) {
+        score += AUTO_STAFF_WEIGHTS.recentRotation * recentDays;
+        reasons.push(`Worked this station ${recentDays} day(s) in the last ${AUTO_STAFF_ROTATION_DAYS}`);
+      }
+
+      pairings.push({ station, candidate, score: Math.round(score * 10) / 10, reasons });
+    }
+  }
+
+  pairings.sort((a, b) => b.score - a.score);
+  const filled = new Map<number, typeof pairings[number]>();
+  const used = new Set<number>();
+  for (const pairing of pairings) {
+    if (filled.has(pairing.station.id) || used.has(pairing.candidate.id)) continue;
+    filled.set(pairing.station.id, pairing);
+    used.add(pairing.candidate.id);
+  }
+
+  const assignments: StaffingPlan['assignments'] = stations.map(station => {
+    if (station.assigned_operator_id) {
+      return {
+        station_id: station.id,
+        station_name: station.name,
+        operator_id: station.assigned_operator_id,
+        operator_name: station.assigned_operator_name,
+        already_assigned: true,
+        score: null,
+        reasons: ['Already assigned'],
+        alternatives: []
+      };
+    }
+
+    const pick = filled.get(station.id);
+    return {
+      station_id: station.id,
+      station_name: station.name,
+      operator_id: pick ? pick.candidate.id : null,
+      operator_name: pick ? pick.candidate.name : null,
+      already_assigned: false,
+      score: pick ? pick.score : null,
+      reasons: pick ? pick.reasons : ['No qualified operator available'],
+      // Next best candidates, for a supervisor editing the plan
+      alternatives: pairings
+        .filter(p => p.station.id === station.id && p !== pick)
+        .slice(0, 3)
+        .map(p => ({ operator_id: p.candidate.id, operator_name: p.candidate.name, score: p.score, reasons: p.reasons }))
+    };
+  });
+
+  const suggested = assignments.filter(a => !a.already_assigned && a.operator_id);
+  const suggestedScore = suggested.reduce((sum, a) => sum + (a.score ?? 0), 0);
+  return {
+    line_id: line.id,
+    line_name: line.name,
+    date,
+    shift_id: shift.id,
+    shift_name: shift.name,
+    score: suggested.length > 0 ? Math.round(suggestedScore / suggested.length * 10) / 10 : null,
+    coverage: { stations: stations.length, filled: assignments.filter(a => a.operator_id).length },
+    assignments
+  };
+};
+
+// ROSTER PLANNING
+// Built-in recurring patterns. Each expands the chosen shifts into a day-by-day cycle
+// of shift ids, where null is a day off.
+type ShiftCycle = (number | null)[];
+
+const ROSTER_TEMPLATES: Record<string, { label: string; shifts: number; build: (shiftIds: number[]) => ShiftCycle }> = {
+  four_on_four_off: {
+    label: '4 on / 4 off',
+    shifts: 1,
+    build: ([shift]) => [shift, shift, shift, shift, null, null, null, null]
+  },
+  five_on_two_off: {
+    label: '5 on / 2 off',
+    shifts: 1,
+    build: ([shift]) => [shift, shift, shift, shift, shift, null, null]
+  },
+  two_two_three: {
+    label: '2-2-3 (Panama)',
+    shifts: 1,
+    build: ([shift]) => [shift, shift, null, null, shift, shift, shift, null, null, shift, shift, null, null, null]
+  },
+  rotating_early_late_night: {
+    label: 'Rotating early / late / night',
+    shifts: 3,
+    build: ([early, late, night]) => [
+      ...Array<number>(5).fill(early), null, null,
+      ...Array<number>(5).fill(late), null, null,
+      ...Array<number>(5).fill(night), null, null
+    ]
+  }
+};
+
+const MAX_ROSTER_DAYS = 92;
+
+// Expand a roster request into planned assignments and check them against existing
+// assignments, shift date ranges, approved leave, station double-booking, shift capacity and the
+// compliance rules. Conflicts with severity "error" block a commit; "warning" ones are informational.
+interface PlannedAssignment {
+  operator_id: number;
+  shift_id: number;
+  shift_name: string;
+  station_id: number | null;
+  assigned_date: string;
+  existing: Row | null;
+  unchanged?: boolean;
+}
+
+const planRoster = async (
+  { from, to, pattern, operators, overwrite }: RosterInput
+): Promise<{ error: string; status: number } | { planned: PlannedAssignment[]; conflicts: RosterConflict[] }> => {
+  const days = daysBetween(from, to) + 1;
+  if (days < 1) {
+    return { error: 'to must not be before from', status: 400 };
+  }
+  if (days > MAX_ROSTER_DAYS) {
+    return { error: `A roster can span at most ${MAX_ROSTER_DAYS} days`, status: 400 };
+  }
+
+  let sequence = pattern.sequence;
+  if (pattern.template) {
+    const template = ROSTER_TEMPLATES[pattern.template];
+    if (!template) {
+      return { error: `template must be one of: ${Object.keys(ROSTER_TEMPLATES).join(', ')}`, status: 400 };
+    }
+    if (!pattern.shift_ids || pattern.shift_ids.length !== template.shifts) {
+      return { error: `${template.label} needs ${template.shifts} shift(s)`, status: 400 };
+    }
+    sequence = template.build(pattern.shift_ids);
+  }
+  if (!sequence || sequence.length === 0) {
+    return { error: 'pattern needs a template or a non-empty sequence', status: 400 };
+  }
+
+  const shiftIds = [...new Set(sequence.filter((shiftId): shiftId is number => shiftId !== null))];
+  const shiftsResult = await query('SELECT * FROM shifts WHERE id = ANY($1)', [shiftIds]);
+  const shifts = new Map<number, Row>(shiftsResult.rows.map(shift => [shift.id, shift]));
+  if (shifts.size !== shiftIds.length) {
+    return { error: 'Pattern references a shift that does not exist', status: 404 };
+  }
+
+  const operatorIds = [...new Set(operators.map(entry => entry.operator_id))];
+  const operatorsResult = await query('SELECT id, name, employment_status FROM operators WHERE id = ANY($1)', [operatorIds]);
+  if (operatorsResult.rows.length !== operatorIds.length) {
+    return { error: 'Roster references an operator that does not exist', status: 404 };
+  }
+  const unavailable = operatorsResult.rows.find(operator => operator.employment_status !== 'active');
+  if (unavailable) {
+    return { error: describeUnavailable(unavailable), status: 422 };
+  }
+
+  const existingResult = await query(`
+    SELECT sa.*, o.name as operator_name, sh.name as shift_name
+    FROM shift_assignments sa
+    JOIN operators o ON sa.operator_id = o.id
+    JOIN shifts sh ON sa.shift_id = sh.id
+    WHERE sa.assigned_date BETWEEN $1 AND $2
+  `, [from, to]);
+
+  const existingByOperatorDay = new Map<string, Row>();
+  const stationUse = new Map<string, number>();
+  const shiftCounts = new Map<string, number>();
+  const countShift = (shiftId: number, date: string, delta: number) => {
+    const key = `${shiftId}:${date}`;
+    const count = (shiftCounts.get(key) || 0) + delta;
+    shiftCounts.set(key, count);
+    return count;
+  };
+
+  for (const assignment of existingResult.rows) {
+    existingByOperatorDay.set(`${assignment.operator_id}:${assignment.assigned_date}`, assignment);
+    if (assignment.station_id) {
+      stationUse.set(`${assignment.station_id}:${assignment.assigned_date}:${assignment.shift_id}`, assignment.operator_id);
+    }
+    countShift(assignment.shift_id, assignment.assigned_date, 1);
+  }
+
+  const stationIds = [...new Set(operators.flatMap(entry => entry.station_id ? [entry.station_id] : []))];
+  const [qualifications, leave] = await Promise.all([
+    loadQualifications(stationIds, operatorIds),
+    loadApprovedLeave(operatorIds, from, to)
+  ]);
+
+  // The cycle is anchored on `anchor_date` (default: the first roster day); each operator's
+  // offset staggers crews, e.g. offset 4 puts a second 4-on-4-off crew on the other half.
+  const anchor = pattern.anchor_date || from;
+  const planned: PlannedAssignment[] = [];
+  const conflicts: RosterConflict[] = [];
+
+  for (const entry of operators) {
+    const operatorId = entry.operator_id;
+    const offset = entry.offset || 0;
+
+    for (let day = 0; day < days; day++) {
+      const date = addDays(from, day);
+      const index = ((daysBetween(anchor, date) + offset) % sequence.length + sequence.length) % sequence.length;
+      const shiftId = sequence[index];
+      if (!shiftId) continue;
+
+      const shift = shifts.get(shiftId)!;
+      const assignment: PlannedAssignment = {
+        operator_id: operatorId,
+        shift_id: shiftId,
+        shift_name: shift.name,
+        station_id: entry.station_id || null,
+        assigned_date: date,
+        existing: existingByOperatorDay.get(`${operatorId}:${date}`) || null
+      };
+      planned.push(assignment);
+
+      if (assignment.existing) {
+        if (assignment.existing.shift_id === shiftId && assignment.existing.station_id === assignment.station_id) {
+          assignment.unchanged = true;
+          continue;
+        }
+        conflicts.push({
+          type: 'existing_assignment',
+          severity: 'warning',
+          operator_id: operatorId,
+          assigned_date: date,
+          message: `${assignment.existing.operator_name} is already on ${assignment.existing.shift_name}`
+        });
+        // The plan replaces that assignment, so it no longer occupies its shift or station
+        countShift(assignment.existing.shift_id, date, -1);
+        stationUse.delete(`${assignment.existing.station_id}:${date}:${assignment.existing.shift_id}`);
+      }
+
+      if (!shift.is_active || (shift.start_date && date < shift.start_date) || (shift.end_date && date > shift.end_date)) {
+        conflicts.push({
+          type: 'shift_not_running',
+          severity: 'error',
+          operator_id: operatorId,
+          assigned_date: date,
+          message: `${shift.name} does not run on ${date}`
+        });
+      }
+
+      const onLeave = findLeaveOn(leave, operatorId, date);
+      if (onLeave) {
+        conflicts.push({
+          type: 'on_leave',
+          severity: 'error',
+          operator_id: operatorId,
+          assigned_date: date,
+          message: `On approved leave (${onLeave.leave_type_name})`
+        });
+      }
+
+      if (assignment.station_id) {
+        const stationKey = `${assignment.station_id}:${date}:${shiftId}`;
+        const occupant = stationUse.get(stationKey);
+        if (occupant && occupant !== operatorId) {
+          conflicts.push({
+            type: 'station_taken',
+            severity: 'error',
+            operator_id: operatorId,
+            assigned_date: date,
+            message: `Station is already staffed on ${shift.name}`
+          });
+        } else {
+          stationUse.set(stationKey, operatorId);
+        }
+      }
+
+      if (assignment.station_id) {
+        const qualification = evaluateQualification(qualifications, operatorId, assignment.station_id, date);
+        if (!qualification.qualified) {
+          conflicts.push({
+            type: 'unqualified',
+            severity: QUALIFICATION_ENFORCEMENT === 'block' ? 'error' : 'warning',
+            operator_id: operatorId,
+            assigned_date: date,
+            message: `Missing certification: ${describeMissing(qualification.missing)}`
+          });
+        } else if (qualification.expiring.length > 0) {
+          conflicts.push({
+            type: 'certification_expiring',
+            severity: 'warning',
+            operator_id: operatorId,
+            assigned_date: date,
+            message: `Certification expiring: ${qualification.expiring.map(e => `${e.name} (${e.expires_on})`).join(', ')}`
+          });
+        }
+      }
+
+      if (countShift(shiftId, date, 1) > shift.capacity) {
+        conflicts.push({
+          type: 'over_capacity',
+          severity: 'warning',
+          operator_id: operatorId,
+          assigned_date: date,
+          message: `${shift.name} is over its capacity of ${shift.capacity}`
+        });
+      }
+    }
+  }
+
+  // Compliance is checked on the days the commit changes; without `overwrite` existing ones stay
+  const changes = planned.filter(assignment => !assignment.unchanged && (!assignment.existing || overwrite));
+  const violations = await checkScheduleCompliance(changes.map(assignment => ({
+    operator_id: assignment.operator_id,
+    shift_id: assignment.shift_id,
+    date: assignment.assigned_date
+  })));
+  conflicts.push(...violations.map(complianceConflict));
+
+  return { planned, conflicts };
+};
+
+// SHIFT TRADES
+// Operators give away or swap assignments through trades that a supervisor approves. Whoever
+// ends up on a shift must be free that day, not on leave, qualified for the station and within the
+// compliance rules; taking an open shift must also fit the shift's capacity.
+
+// A place on the roster as a trade sees it
+interface TradePlace {
+  operator_id: number;
+  shift_id: number;
+  station_id: number | null;
+  date: string;
+}
+
+// An operator taking a place in a trade, and their own assignment they give up for it
+interface TradeMove extends TradePlace {
+  releases: number | null;
+}
+
+// Who takes which place when `trade` is approved as claimed. The claimant takes the offered place,
+// and in a swap the offering operator takes the claimant's.
+const tradeMoves = (trade: Row): TradeMove[] => {
+  const moves: TradeMove[] = [{
+    operator_id: trade.claimed_by,
+    shift_id: trade.shift_id,
+    station_id: trade.station_id,
+    date: trade.shift_date,
+    releases: trade.counter_assignment_id
+  }];
+  if (trade.counter_shift_id) {
+    moves.push({
+      operator_id: trade.offered_by,
+      shift_id: trade.counter_shift_id,
+      station_id: trade.counter_station_id,
+      date: trade.counter_date,
+      releases: trade.assignment_id
+    });
+  }
+  return moves;
+};
+
+// What approving `trade` as claimed would break. Errors block the trade; warnings (expiring
+// certifications, missing ones under QUALIFICATION_ENFORCEMENT=warn, and "warn" compliance rules)
+// are only reported.
+const checkTrade = async (trade: Row): Promise<RosterConflict[]> => {
+  const moves = tradeMoves(trade);
+  const operatorIds = moves.map(move => move.operator_id);
+  const dates = moves.map(move => move.date).sort();
+  const releases = moves.flatMap(move => move.releases ? [move.releases] : []);
+  const [shiftsResult, operatorsResult, assignmentsResult, leave, qualifications, violations] = await Promise.all([
+    query('SELECT * FROM shifts WHERE id = ANY($1)', [moves.map(move => move.shift_id)]),
+    query('SELECT id, name FROM operators WHERE id = ANY($1)', [operatorIds]),
+    query(`
+      SELECT sa.id, sa.operator_id, sa.assigned_date, sh.name as shift_name
+      FROM shift_assignments sa
+      JOIN shifts sh ON sa.shift_id = sh.id
+      WHERE sa.operator_id = ANY($1) AND sa.assigned_date BETWEEN $2 AND $3
+    `, [operatorIds, dates[0], dates[dates.length - 1]]),
+    loadApprovedLeave(operatorIds, dates[0], dates[dates.length - 1]),
+    loadQualifications(moves.flatMap(move => move.station_id ? [move.station_id] : []), operatorIds),
+    checkScheduleCompliance(moves, releases)
+  ]);
+  const shifts = new Map<number, Row>(shiftsResult.rows.map(shift => [shift.id, shift]));
+  const names = new Map<number, string>(operatorsResult.rows.map(operator => [operator.id, operator.name]));
+  const conflicts: RosterConflict[] = [];
+
+  for (const move of moves) {
+    const shift = shifts.get(move.shift_id);
+    const name = names.get(move.operator_id);
+    if (!shift || !name) {
+      throw new Error(`Shift trade ${trade.id} references a missing shift or operator`);
+    }
+    const add = (type: RosterConflict['type'], severity: RosterConflict['severity'], message: string) =>
+      conflicts.push({ type, severity, operator_id: move.operator_id, assigned_date: move.date, message });
+
+    if (!shift.is_active || (shift.start_date && move.date < shift.start_date) || (shift.end_date && move.date > shift.end_date)) {
+      add('shift_not_running', 'error', `${shift.name} does not run on ${move.date}`);
+    }
+
+    const onLeave = findLeaveOn(leave, move.operator_id, move.date);
+    if (onLeave) {
+      add('on_leave', 'error', `${name} is on approved leave (${onLeave.leave_type_name}) on ${move.date}`);
+    }
+
+    // The assignment given up in the trade no longer counts against the operator
+    const sameDay = assignmentsResult.rows.find(assignment =>
+      assignment.operator_id === move.operator_id && assignment.assigned_date === move.date && assignment.id !== move.releases
+    );
+    if (sameDay) {
+      add('existing_assignment', 'error', `${name} is already on ${sameDay.shift_name} on ${move.date}`);
+    }
+
+    if (move.station_id) {
+      const qualification = evaluateQualification(qualifications, move.operator_id, move.station_id, move.date);
+      if (!qualification.qualified) {
+        add('unqualified', QUALIFICATION_ENFORCEMENT === 'block' ? 'error' : 'warning', `${name} is missing ${describeMissing(qualification.missing)}`);
+      } else if (qualification.expiring.length > 0) {
+        add('certification_expiring', 'warning', `${name}'s certification expires: ${qualification.expiring.map(e => `${e.name} (${e.expires_on})`).join(', ')}`);
+      }
+    }
+
+    // Offers and swaps only exchange places; an open shift adds one
+    if (trade.kind === 'open_shift') {
+      const taken = await query(`
+        SELECT COUNT(*) as assigned, COUNT(*) FILTER (WHERE station_id = $3) as on_station
+        FROM shift_assignments
+        WHERE shift_id = $1 AND assigned_date = $2
+      `, [move.shift_id, move.date, move.station_id]);
+      if (taken.rows[0].assigned >= shift.capacity) {
+        add('over_capacity', 'error', `${shift.name} on ${move.date} is already at its capacity of ${shift.capacity}`);
+      }
+      if (taken.rows[0].on_station > 0) {
+        add('station_taken', 'error', `The station is already staffed on ${shift.name}`);
+      }
+    }
+  }
+
+  return [...conflicts, ...violations.map(complianceConflict)];
+};
+
+// Move an assignment between two places of a trade, provided it is still where the trade found it.
+// Returns the assignment before and after, or null when it has changed or gone since.
+const moveTradedAssignment = async (executor: Executor, id: Id | null, from: TradePlace, to: TradePlace) => {
+  if (!id) return null;
+  const before = await executor(`
+    SELECT * FROM shift_assignments
+    WHERE id = $1 AND operator_id = $2 AND shift_id = $3 AND station_id IS NOT DISTINCT FROM $4 AND assigned_date = $5
+  `, [id, from.operator_id, from.shift_id, from.station_id, from.date]);
+  if (before.rows.length === 0) return null;
+
+  const after = await executor(`
+    UPDATE shift_assignments
+    SET operator_id = $1, shift_id = $2, station_id = $3, assigned_date = $4
+    WHERE id = $5
+    RETURNING *
+  `, [to.operator_id, to.shift_id, to.station_id, to.date, id]);
+  return { before: before.rows[0], after: after.rows[0] };
+};
+
+const SHIFT_TRADE_SELECT = `
+  SELECT t.*, offerer.name as offered_by_name, claimant.name as claimed_by_name,
+         sh.name as shift_name, sh.start_time, sh.end_time, sh.department_id,
+         st.name as station_name, pl.name as line_name,
+         counter_shift.name as counter_shift_name, counter_station.name as counter_station_name,
+         creator.username as created_by_username, reviewer.username as reviewed_by_username
+  FROM shift_trades t
+  JOIN shifts sh ON t.shift_id = sh.id
+  LEFT JOIN stations st ON t.station_id = st.id
+  LEFT JOIN production_lines pl ON st.line_id = pl.id
+  LEFT JOIN operators offerer ON t.offered_by = offerer.id
+  LEFT JOIN operators claimant ON t.claimed_by = claimant.id
+  LEFT JOIN shifts counter_shift ON t.counter_shift_id = counter_shift.id
+  LEFT JOIN stations counter_station ON t.counter_station_id = counter_station.id
+  LEFT JOIN users creator ON t.created_by = creator.id
+  LEFT JOIN users reviewer ON t.reviewed_by = reviewer.id
+`;
+
+// AUDIT TRAIL
+// Columns that must never be copied into the audit log
+const AUDIT_REDACTED_FIELDS = ['password_hash', 'pin_hash', 'token_hash'];
+
+const redactForAudit = (row: Row | null) => {
+  if (!row) return null;
+  const copy = { ...row };
+  for (const field of AUDIT_REDACTED_FIELDS) delete copy[field];
+  return copy;
+};
+
+// Append an entry to the audit log for a mutating request. `before` is null for
+// creations and `after` is null for deletions. Pass a transaction client's query
+// function as `executor` to make the entry part of that transaction.
+const recordAudit = async (
+  req: Request,
+  action: string,
+  entityType: string,
+  entityId: Id,
+  before: Row | null,
+  after: Row | null,
+  executor: Executor = query
+) => {
+  await executor(`
+    INSERT INTO audit_log (actor_user_id, actor_username, action, entity_type, entity_id, before_data, after_data, ip_address)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+  `, [
+    req.user?.id || null,
+    req.user?.username || (req.kiosk ? `kiosk:${req.kiosk.name}` : 'system'),
+    action,
+    entityType,
+    entityId,
+    before ? JSON.stringify(redactForAudit(before)) : null,
+    after ? JSON.stringify(redactForAudit(after)) : null,
+    req.ip
+  ]);
+};
+
+// Current row of an audited table, used as the "before" value of an update or delete
+const fetchRow = async (table: string, id: Id): Promise<Row | null> => {
+  const result = await query(`SELECT * FROM ${table} WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+};
+
+// Create the first admin account from ADMIN_USERNAME/ADMIN_PASSWORD when no users exist yet
+const ensureBootstrapAdmin = async () => {
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) return;
+
+  const existing = await query('SELECT COUNT(*) as count FROM users');
+  if (existing.rows[0].count > 0) return;
+
+  await query(
+    'INSERT INTO users (username, password_hash, role) VALUES ($1, $2, $3)',
+    [ADMIN_USERNAME, await hashPassword(ADMIN_PASSWORD), 'admin']
+  );
+  console.log(`Created initial admin user "${ADMIN_USERNAME}"`);
+};
+
+app.use('/api', authenticate);
+app.use('/api/kiosk', authenticateKiosk);
+app.use('/api', replayIdempotent);
+
+// Plant timezone (IANA name) that defines "today" and shift clock times for every
+// endpoint. Sites can override it when several plants share one database.
+const PLANT_TIMEZONE = process.env.PLANT_TIMEZONE || 'UTC';
+
+// Fail fast on a misspelled timezone instead of silently falling back to UTC
+const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+if (!isValidTimezone(PLANT_TIMEZONE)) {
+  throw new Error(`Invalid PLANT_TIMEZONE: ${PLANT_TIMEZONE}`);
+}
+
+// Validation rule for site bodies
+const checkSite = ({ timezone, working_weekdays }: { timezone?: string | null; working_weekdays?: number[] | null }): FieldError[] => [
+  ...(timezone && !isValidTimezone(timezone)
+    ? [{ field: 'timezone', message: 'Timezone must be an IANA name such as Europe/Berlin' }]
+    : []),
+  ...(working_weekdays && (working_weekdays.length === 0 || new Set(working_weekdays).size !== working_weekdays.length)
+    ? [{ field: 'working_weekdays', message: 'Working weekdays must list at least one day, each once' }]
+    : [])
+];
+
+// Calendar and clock components of an instant as seen in the given timezone
+const getZonedParts = (date: Date, timeZone: string): Record<string, string> => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  return Object.fromEntries(parts.map(({ type, value }) => [type, value]));
+};
+
+// Plant-local calendar date as YYYY-MM-DD
+const formatDate = (date: Date, timeZone = PLANT_TIMEZONE) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${month}-${day}`;
+};
+
+// Plant-local wall-clock time as HH:MM:SS
+const formatClock = (date: Date, timeZone = PLANT_TIMEZONE) => {
+  const { hour, minute, second } = getZonedParts(date, timeZone);
+  return `${hour}:${minute}:${second}`;
+};
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of any timezone
+const addDays = (dateString: string, days: number) => {
+  const result = new Date(`${dateString}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Lookups for the timezone of the site an entity belongs to
+type TimezoneScope = 'site' | 'department' | 'operator' | 'station';
+
+const TIMEZONE_LOOKUPS: Record<TimezoneScope, string> = {
+  site: 'SELECT timezone FROM sites WHERE id = $1',
+  department: `
+    SELECT si.timezone FROM departments d
+    JOIN sites si ON d.site_id = si.id
+    WHERE d.id = $1
+  `,
+  operator: `
+    SELECT si.timezone FROM operators o
+    JOIN departments d ON o.department_id = d.id
+    JOIN sites si ON d.site_id = si.id
+    WHERE o.id = $1
+  `,
+  station: `
+    SELECT si.timezone FROM stations s
+    JOIN production_lines pl ON s.line_id = pl.id
+    JOIN departments d ON pl.department_id = d.id
+    JOIN sites si ON d.site_id = si.id
+    WHERE s.id = $1
+  `
+};
+
+// Timezone for a site, department, operator or station, falling back to the plant timezone
+const getTimezone = async (kind: TimezoneScope, id: Id | null | undefined): Promise<string> => {
+  if (!id) return PLANT_TIMEZONE;
+  const result = await query(TIMEZONE_LOOKUPS[kind], [id]);
+  return result.rows[0]?.timezone || PLANT_TIMEZONE;
+};
+
+// Today's date where the given entity is located
+const getToday = async (kind: TimezoneScope, id: Id | null | undefined) => formatDate(new Date(), await getTimezone(kind, id));
+
+// Whole days from one YYYY-MM-DD date to another
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+// Clock times of a shift as stored (HH:MM:SS)
+interface ShiftTimes {
+  start_time: string;
+  end_time: string;
+}
+
+// A shift whose end_time is not after its start_time runs past midnight
+const isOvernightShift = (shift: ShiftTimes) => shift.end_time <= shift.start_time;
+
+// Calendar day of the shift instance that `now` falls into. Before an overnight
+// shift's end_time we are still in the instance that started the previous day.
+const resolveShiftDate = (shift: ShiftTimes | null, now: Date, timeZone: string) => {
+  const today = formatDate(now, timeZone);
+  if (shift && isOvernightShift(shift) && formatClock(now, timeZone) < shift.end_time) {
+    return addDays(today, -1);
+  }
+  return today;
+};
+
+// Shift an operator is clocking into: the requested one, otherwise their assignment
+// for the running shift instance (yesterday's overnight shift takes precedence until it ends)
+const findCurrentShift = async (operatorId: Id, shiftId: Id | null | undefined, now: Date, timeZone: string) => {
+  if (shiftId) {
+    const result = await query<Row & ShiftTimes>('SELECT * FROM shifts WHERE id = $1', [shiftId]);
+    return result.rows[0] || null;
+  }
+
+  const today = formatDate(now, timeZone);
+  const result = await query<Row & ShiftTimes>(`
+    SELECT s.*, sa.assigned_date
+    FROM shift_assignments sa
+    JOIN shifts s ON sa.shift_id = s.id
+    WHERE sa.operator_id = $1 AND sa.assigned_date IN ($2, $3)
+  `, [operatorId, addDays(today, -1), today]);
+
+  return result.rows.find(shift => shift.assigned_date === resolveShiftDate(shift, now, timeZone)) || null;
+};
+
+// Break types operators can take; paid breaks count towards paid time
+type BreakTypeKey = 'rest' | 'meal' | 'personal' | 'technical';
+
+const BREAK_TYPES: Record<BreakTypeKey, { label: string; paid: boolean }> = {
+  rest: { label: 'Rest break', paid: true },
+  meal: { label: 'Meal break', paid: false },
+  personal: { label: 'Personal', paid: false },
+  technical: { label: 'Technical stop', paid: true }
+};
+
+const isBreakType = (value: string): value is BreakTypeKey => Object.hasOwn(BREAK_TYPES, value);
+
+// The operator's running attendance session, if any
+const findOpenSession = async (operatorId: Id): Promise<Row | null> => {
+  const result = await query(`
+    SELECT * FROM attendance_logs
+    WHERE operator_id = $1 AND clock_in IS NOT NULL AND clock_out IS NULL
+    ORDER BY clock_in DESC
+    LIMIT 1
+  `, [operatorId]);
+  return result.rows[0] || null;
+};
+
+// Record an operator's status as of `at`. Events replayed by offline clients can arrive after newer
+// ones, so a status older than the last recorded change is left out; resolves to whether it applied.
+const setOperatorStatus = async (operatorId: Id, status: string, at: Date) => {
+  const result = await query(`
+    UPDATE operators SET status = $1, last_active = $2
+    WHERE id = $3 AND (last_active IS NULL OR last_active <= $2)
+    RETURNING id
+  `, [status, at, operatorId]);
+  if (result.rows.length === 0) return false;
+  broadcastOperatorStatus(operatorId, status);
+  return true;
+};
+
+// Open a break inside the operator's running session
+const startBreak = async (operatorId: Id, breakType: BreakTypeKey, now: Date): Promise<{ error: string } | { record: Row }> => {
+  const session = await findOpenSession(operatorId);
+  if (!session) return { error: 'Operator is not clocked in' };
+  if (new Date(session.clock_in) > now) return { error: 'Break cannot start before the clock-in' };
+
+  const open = await query(
+    'SELECT id FROM attendance_breaks WHERE attendance_log_id = $1 AND (end_time IS NULL OR end_time > $2)',
+    [session.id, now]
+  );
+  if (open.rows.length > 0) return { error: 'Operator is already on a break' };
+
+  const result = await query(`
+    INSERT INTO attendance_breaks (attendance_log_id, operator_id, break_type, is_paid, start_time)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+  `, [session.id, operatorId, breakType, BREAK_TYPES[breakType].paid, now]);
+
+  await setOperatorStatus(operatorId, 'on_break', now);
+  broadcast('attendance', { action: 'break_start', operator_id: Number(operatorId) });
+
+  return { record: result.rows[0] };
+};
+
+// Close the operator's running break
+const endBreak = async (operatorId: Id, now: Date): Promise<{ error: string } | { record: Row }> => {
+  const open = await query('SELECT id, start_time FROM attendance_breaks WHERE operator_id = $1 AND end_time IS NULL', [operatorId]);
+  const running = open.rows[0];
+  if (!running) return { error: 'Operator is not on a break' };
+  if (new Date(running.start_time) > now) return { error: 'Break cannot end before it started' };
+
+  const result = await query('UPDATE attendance_breaks SET end_time = $1 WHERE id = $2 RETURNING *', [now, running.id]);
+
+  await setOperatorStatus(operatorId, 'online', now);
+  broadcast('attendance', { action: 'break_end', operator_id: Number(operatorId) });
+
+  return { record: result.rows[0] };
+};
+
+const minutesBetween = (start: Date | string, end: Date | string) =>
+  Math.max((new Date(end).getTime() - new Date(start).getTime()) / 60000, 0);
+
+// Worked, break and paid minutes of one session; open intervals run until `now`
+const summarizeSession = (session: Row, breaks: Row[], now: Date) => {
+  const sessionEnd = session.clock_out || now;
+  const sessionMinutes = minutesBetween(session.clock_in, sessionEnd);
+
+  let breakMinutes = 0;
+  let paidBreakMinutes = 0;
+  for (const interval of breaks) {
+    const minutes = minutesBetween(interval.start_time, interval.end_time || sessionEnd);
+    breakMinutes += minutes;
+    if (interval.is_paid) paidBreakMinutes += minutes;
+  }
+
+  const workedMinutes = Math.max(sessionMinutes - breakMinutes, 0);
+  return {
+    worked_minutes: Math.round(workedMinutes),
+    break_minutes: Math.round(breakMinutes),
+    paid_minutes: Math.round(workedMinutes + paidBreakMinutes)
+  };
+};
+
+// Group sessions and breaks into one attendance day per operator
+const buildDailyAttendance = (sessions: Row[], breaks: Row[], now: Date) => {
+  const days = new Map<number, Row>();
+
+  for (const session of sessions) {
+    const sessionBreaks = breaks.filter(interval => interval.attendance_log_id === session.id);
+    const totals = summarizeSession(session, sessionBreaks, now);
+
+    if (!days.has(session.operator_id)) {
+      days.set(session.operator_id, {
+        operator_id: session.operator_id,
+        operator_name: session.operator_name,
+        date: session.date,
+        sessions: [],
+        worked_minutes: 0,
+        break_minutes: 0,
+        paid_minutes: 0,
+        clocked_in: false,
+        on_break: false
+      });
+    }
+
+    const day = days.get(session.operator_id)!;
+    day.sessions.push({ ...session, breaks: sessionBreaks, ...totals });
+    day.worked_minutes += totals.worked_minutes;
+    day.break_minutes += totals.break_minutes;
+    day.paid_minutes += totals.paid_minutes;
+    if (!session.clock_out) {
+      day.clocked_in = true;
+      day.on_break = sessionBreaks.some(interval => !interval.end_time);
+    }
+  }
+
+  return [...days.values()];
+};
+
+// TIMESHEETS
+// Two minute timelines: instants (minutes since the epoch) and the site's wall clock (minutes since
+// 1970-01-01 00:00 local time). Paid time is measured between instants, so a shift across a DST change
+// is paid for the time actually worked; the wall clock only places shift times, rounding, night
+// windows and weekends, which are converted to instants before they are compared with clock times.
+const MINUTES_PER_DAY = 1440;
+
+const localMinutes = (date: Date | string, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(new Date(date), timeZone);
+  return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)) / 60000;
+};
+
+const instantMinutes = (date: Date | string) => new Date(date).getTime() / 60000;
+
+// Minutes the site's wall clock is ahead of UTC at an instant
+const utcOffsetMinutes = (instant: number, timeZone: string) =>
+  Math.round(localMinutes(new Date(instant * 60000), timeZone) - instant);
+
+// The instant the site's wall clock shows `local`. A wall time skipped when the clocks go forward
+// lands just after the change; one that occurs twice when they go back is taken the first time.
+const zonedInstant = (local: number, timeZone: string) => {
+  const guess = local - utcOffsetMinutes(local, timeZone);
+  return local - utcOffsetMinutes(guess, timeZone);
+};
+
+// Round an instant to `step` minutes of the site's wall clock
+const roundInstant = (instant: number, step: number, timeZone: string) => {
+  const offset = utcOffsetMinutes(instant, timeZone);
+  return roundMinutes(instant + offset, step) - offset;
+};
+
+const dateMinutes = (date: string) => Date.parse(`${date}T00:00:00Z`) / 60000;
+
+const timeMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Nearest multiple of `step` minutes; a step of 0 keeps whole minutes
+const roundMinutes = (minutes: number, step: number) =>
+  step > 0 ? Math.round(minutes / step) * step : Math.round(minutes);
+
+// First day of the pay week containing `date`
+const weekStartOf = (date: string, weekStart: number) =>
+  addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() - weekStart + 7) % 7));
+
+// A [start, end) stretch of a timeline
+type Interval = [number, number];
+
+const intervalMinutes = (intervals: Interval[]) => intervals.reduce((sum, [start, end]) => sum + end - start, 0);
+
+// Parts of `intervals` that fall inside any of `windows` (windows do not overlap each other)
+const intersect = (intervals: Interval[], windows: Interval[]) =>
+  intervals.flatMap(([start, end]) => windows
+    .map(([from, to]): Interval => [Math.max(start, from), Math.min(end, to)])
+    .filter(([from, to]) => to > from));
+
+// `intervals` with every stretch covered by `cuts` taken out
+const subtract = (intervals: Interval[], cuts: Interval[]) =>
+  cuts.reduce((remaining, [from, to]) => remaining.flatMap(([start, end]): Interval[] =>
+    [[start, Math.min(end, from)], [Math.max(start, to), end]].filter(([a, b]) => b > a) as Interval[]
+  ), intervals);
+
+// Night windows and weekend days of the site's wall clock around a span of instants, as instants
+const localDays = (start: number, end: number, timeZone: string) => [
+  Math.floor((start + utcOffsetMinutes(start, timeZone)) / MINUTES_PER_DAY),
+  Math.floor((end + utcOffsetMinutes(end, timeZone)) / MINUTES_PER_DAY)
+];
+
+const nightWindows = (start: number, end: number, rules: TimesheetRules, timeZone: string): Interval[] => {
+  if (!rules.night_start || !rules.night_end) return [];
+  const from = timeMinutes(rules.night_start);
+  const length = (timeMinutes(rules.night_end) - from + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const [first, last] = localDays(start, end, timeZone);
+  const windows: Interval[] = [];
+  for (let day = first - 1; day <= last; day++) {
+    const opens = day * MINUTES_PER_DAY + from;
+    windows.push([zonedInstant(opens, timeZone), zonedInstant(opens + length, timeZone)]);
+  }
+  return windows;
+};
+
+const weekendWindows = (start: number, end: number, timeZone: string): Interval[] => {
+  const [first, last] = localDays(start, end, timeZone);
+  const windows: Interval[] = [];
+  for (let day = first; day <= last; day++) {
+    const weekday = new Date(day * MINUTES_PER_DAY * 60000).getUTCDay();
+    if (weekday === 0 || weekday === 6) {
+      windows.push([zonedInstant(day * MINUTES_PER_DAY, timeZone), zonedInstant((day + 1) * MINUTES_PER_DAY, timeZone)]);
+    }
+  }
+  return windows;
+};
+
+const emptyTotals = (): TimesheetTotals => ({
+  sessions: 0,
+  open_sessions: 0,
+  paid_minutes: 0,
+  regular_minutes: 0,
+  overtime_minutes: 0,
+  night_minutes: 0,
+  weekend_minutes: 0,
+  unpaid_break_minutes: 0,
+  late_minutes: 0
+});
+
+// Paid time of one attendance day (one value of attendance_logs.date) under the rules:
+// - the first session of a shift counts from the scheduled start when the operator clocked in
+//   early or within the grace period; later clock-ins are rounded and the lateness recorded
+// - the last session ends at the scheduled end when the operator left within the grace period
+//   before it; other clock times are rounded to `rounding_minutes`
+// - unpaid breaks are taken out, topped up to `auto_break_minutes` on days longer than
+//   `auto_break_after_minutes` by cutting the missing minutes from the middle of the longest stretch
+// - sessions still open are counted but not paid
+const calculateTimesheetDay = (date: string, sessions: Row[], breaks: Row[], rules: TimesheetRules): TimesheetDay => {
+  const day: TimesheetDay = { ...emptyTotals(), date, first_in: null, last_out: null };
+  const closed = sessions.filter(session => session.clock_out);
+  day.sessions = sessions.length;
+  day.open_sessions = sessions.length - closed.length;
+  if (sessions.length > 0) {
+    day.first_in = formatClock(sessions[0].clock_in, sessions[0].timezone || PLANT_TIMEZONE).slice(0, 5);
+  }
+
+  let paid: Interval[] = [];
+  closed.forEach((session, index) => {
+    const timeZone = session.timezone || PLANT_TIMEZONE;
+    const clockIn = instantMinutes(session.clock_in);
+    const clockOut = instantMinutes(session.clock_out);
+    let start = roundInstant(clockIn, rules.rounding_minutes, timeZone);
+    let end = roundInstant(clockOut, rules.rounding_minutes, timeZone);
+
+    if (session.start_time && session.end_time) {
+      const scheduledStart = zonedInstant(dateMinutes(session.date) + timeMinutes(session.start_time), timeZone);
+      const scheduledEnd = zonedInstant(dateMinutes(session.date) + timeMinutes(session.end_time) +
+        (isOvernightShift(session as ShiftTimes) ? MINUTES_PER_DAY : 0), timeZone);
+      const sameShift = (other: Row) => other.shift_id === session.shift_id;
+
+      if (!closed.slice(0, index).some(sameShift)) {
+        if (clockIn <= scheduledStart + rules.grace_minutes) start = scheduledStart;
+        else day.late_minutes += Math.round(clockIn - scheduledStart);
+      }
+      if (!closed.slice(index + 1).some(sameShift) && clockOut >= scheduledEnd - rules.grace_minutes && clockOut <= scheduledEnd) {
+        end = scheduledEnd;
+      }
+    }
+    if (end <= start) return;
+
+    const unpaidBreaks = breaks
+      .filter(interval => interval.attendance_log_id === session.id && !interval.is_paid && interval.end_time)
+      .map((interval): Interval => [
+        Math.round(instantMinutes(interval.start_time)),
+        Math.round(instantMinutes(interval.end_time))
+      ]);
+    day.unpaid_break_minutes += intervalMinutes(intersect([[start, end]], unpaidBreaks));
+    paid.push(...subtract([[start, end]], unpaidBreaks));
+  });
+
+  if (closed.length > 0) {
+    const last = closed[closed.length - 1];
+    day.last_out = formatClock(last.clock_out, last.timezone || PLANT_TIMEZONE).slice(0, 5);
+  }
+
+  const missingBreak = rules.auto_break_minutes - day.unpaid_break_minutes;
+  if (missingBreak > 0 && intervalMinutes(paid) > rules.auto_break_after_minutes) {
+    const [start, end] = paid.reduce((longest, interval) =>
+      interval[1] - interval[0] > longest[1] - longest[0] ? interval : longest);
+    const cut = Math.min(missingBreak, end - start);
+    const cutStart = Math.floor((start + end - cut) / 2);
+    paid = subtract(paid, [[cutStart, cutStart + cut]]);
+    day.unpaid_break_minutes += cut;
+  }
+
+  day.paid_minutes = intervalMinutes(paid);
+  if (paid.length > 0) {
+    const timeZone = sessions[0].timezone || PLANT_TIMEZONE;
+    const first = Math.min(...paid.map(([start]) => start));
+    const last = Math.max(...paid.map(([, end]) => end));
+    day.night_minutes = intervalMinutes(intersect(paid, nightWindows(first, last, rules, timeZone)));
+    day.weekend_minutes = intervalMinutes(intersect(paid, weekendWindows(first, last, timeZone)));
+  }
+
+  day.overtime_minutes = rules.daily_overtime_minutes !== null
+    ? Math.max(day.paid_minutes - rules.daily_overtime_minutes, 0)
+    : 0;
+  day.regular_minutes = day.paid_minutes - day.overtime_minutes;
+  return day;
+};
+
+// One operator's timesheet days from `from` to `to`. Sessions from the start of the first pay week
+// are included so weekly overtime accounts for days worked before the period began.
+const calculateTimesheet = async (operatorId: Id, from: string, to: string, rules: TimesheetRules, executor: Executor = query) => {
+  const weekFrom = weekStartOf(from, rules.week_start);
+  const sessions = await executor(`
+    SELECT al.*, sh.start_time, sh.end_time, si.timezone
+    FROM attendance_logs al
+    JOIN operators o ON al.operator_id = o.id
+    LEFT JOIN departments d ON o.department_id = d.id
+    LEFT JOIN sites si ON d.site_id = si.id
+    LEFT JOIN shifts sh ON al.shift_id = sh.id
+    WHERE al.operator_id = $1 AND al.clock_in IS NOT NULL AND al.date BETWEEN $2 AND $3
+    ORDER BY al.clock_in
+  `, [operatorId, weekFrom, to]);
+  const breaks = await executor(
+    'SELECT * FROM attendance_breaks WHERE attendance_log_id = ANY($1) ORDER BY start_time',
+    [sessions.rows.map(session => session.id)]
+  );
+
+  const days: TimesheetDay[] = [];
+  const weekly = new Map<string, number>(); // regular minutes so far in each pay week
+  for (let date = weekFrom; date <= to; date = addDays(date, 1)) {
+    const daySessions = sessions.rows.filter(session => session.date === date);
+    const day = calculateTimesheetDay(date, daySessions, breaks.rows, rules);
+
+    // Regular minutes beyond the weekly threshold become overtime
+    const week = weekStartOf(date, rules.week_start);
+    const before = weekly.get(week) || 0;
+    if (rules.weekly_overtime_minutes !== null) {
+      const excess = Math.min(Math.max(before + day.regular_minutes - rules.weekly_overtime_minutes, 0), day.regular_minutes);
+      day.regular_minutes -= excess;
+      day.overtime_minutes += excess;
+    }
+    weekly.set(week, before + day.regular_minutes);
+
+    if (date >= from && day.sessions > 0) days.push(day);
+  }
+
+  const totals = emptyTotals();
+  for (const day of days) {
+    for (const key of Object.keys(totals) as (keyof TimesheetTotals)[]) totals[key] += day[key];
+  }
+  return { totals, days, rules };
+};
+
+const TIMESHEET_RULE_COLUMNS = Object.keys(timesheetRulesSchema) as (keyof TimesheetRules)[];
+
+const getTimesheetRules = async (executor: Executor = query): Promise<TimesheetRules> => {
+  const result = await executor(`SELECT ${TIMESHEET_RULE_COLUMNS.join(', ')} FROM timesheet_rules`);
+  return result.rows[0] as TimesheetRules;
+};
+
+// Totals stored in their own columns; the days and rules go into `details`
+const TIMESHEET_TOTAL_COLUMNS = [
+  'paid_minutes', 'regular_minutes', 'overtime_minutes', 'night_minutes', 'weekend_minutes', 'unpaid_break_minutes', 'late_minutes'
+] as const;
+
+const timesheetValues = ({ totals, days, rules }: Awaited<ReturnType<typeof calculateTimesheet>>) => [
+  ...TIMESHEET_TOTAL_COLUMNS.map(column => totals[column]),
+  JSON.stringify({ days, rules, sessions: totals.sessions, open_sessions: totals.open_sessions })
+];
+
+const TIMESHEET_SELECT = `
+  SELECT t.*, o.name as operator_name, o.employee_id, d.name as department_name,
+         approver.username as approved_by_name, locker.username as locked_by_name
+  FROM timesheets t
+  JOIN operators o ON t.operator_id = o.id
+  LEFT JOIN departments d ON o.department_id = d.id
+  LEFT JOIN users approver ON t.approved_by = approver.id
+  LEFT JOIN users locker ON t.locked_by = locker.id
+`;
+
+const toTimesheet = ({ details, ...row }: Row) => ({
+  ...row,
+  sessions: details.sessions,
+  open_sessions: details.open_sessions,
+  days: details.days,
+  rules: details.rules
+}) as Timesheet;
+
+// Approved and locked timesheets freeze the attendance they cover
+const findClosedTimesheet = async (operatorId: Id, date: string) => {
+  const result = await query(`
+    SELECT * FROM timesheets
+    WHERE operator_id = $1 AND status <> 'draft' AND $2 BETWEEN period_start AND period_end
+    LIMIT 1
+  `, [operatorId, date]);
+  return result.rows[0] || null;
+};
+
+// COMPLIANCE
+// Working-time rules are checked on working days: an operator's time on a date, taken from the
+// shifts on the roster or from clocked sessions, on the local minute timeline. A rule without a
+// department applies to every operator; "block" rules refuse a change, "warn" rules report it.
+
+// A stretch of work belonging to a day, e.g. a shift instance or an attendance session
+interface WorkStretch {
+  operator_id: number;
+  date: string;
+  span: Interval;
+}
+
+// An operator's first start and last end on a day, and the minutes worked in between
+interface WorkDay {
+  operator_id: number;
+  date: string;
+  start: number;
+  end: number;
+  minutes: number;
+}
+
+// Name and department the rules of an operator are chosen by
+interface ComplianceOperator {
+  name: string;
+  department_id: number | null;
+}
+
+// Start and end of a shift instance on the local minute timeline; overnight shifts end the next day
+const shiftSpan = (date: string, shift: ShiftTimes): Interval => {
+  const start = dateMinutes(date) + timeMinutes(shift.start_time);
+  const end = dateMinutes(date) + timeMinutes(shift.end_time) + (isOvernightShift(shift) ? MINUTES_PER_DAY : 0);
+  return [start, end];
+};
+
+// Hours to one decimal, as rules and messages state them
+const toHours = (minutes: number) => Math.round(minutes / 6) / 10;
+
+// Merge stretches into one working day per operator and date, in date order
+const toWorkDays = (stretches: WorkStretch[]): WorkDay[] => {
+  const days = new Map<string, WorkDay>();
+  for (const { operator_id, date, span: [start, end] } of stretches) {
+    const key = `${operator_id}:${date}`;
+    const day = days.get(key);
+    if (day) {
+      day.start = Math.min(day.start, start);
+      day.end = Math.max(day.end, end);
+      day.minutes += end - start;
+    } else {
+      days.set(key, { operator_id, date, start, end, minutes: end - start });
+    }
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const COMPLIANCE_RULE_SELECT = `
+  SELECT cr.*, d.name as department_name
+  FROM compliance_rules cr
+  LEFT JOIN departments d ON cr.department_id = d.id
+`;
+
+const loadComplianceRules = async (): Promise<ComplianceRule[]> => {
+  const result = await query(`${COMPLIANCE_RULE_SELECT} WHERE cr.is_active ORDER BY cr.rule_type, cr.id`);
+  return result.rows as ComplianceRule[];
+};
+
+// Days before and after the checked days that can take part in a violation: a run of consecutive
+// days up to the longest limit, or the rest of a pay week
+const complianceMargin = (rules: ComplianceRule[]) =>
+  Math.max(7, ...rules.filter(rule => rule.rule_type === 'max_consecutive_days').map(rule => rule.threshold));
+
+const loadComplianceOperators = async (operatorIds: number[]) => {
+  const result = await query('SELECT id, name, department_id FROM operators WHERE id = ANY($1)', [operatorIds]);
+  return new Map<number, ComplianceOperator>(result.rows.map(operator => [operator.id, operator as ComplianceOperator]));
+};
+
+// Rostered shifts of the given operators from..to, leaving out the assignments in `excluded`
+const loadRosterStretches = async (operatorIds: number[], from: string, to: string, excluded: number[] = []): Promise<WorkStretch[]> => {
+  const result = await query<Row & ShiftTimes>(`
+    SELECT sa.operator_id, sa.assigned_date, sh.start_time, sh.end_time
+    FROM shift_assignments sa
+    JOIN shifts sh ON sa.shift_id = sh.id
+    WHERE sa.operator_id = ANY($1) AND sa.assigned_date BETWEEN $2 AND $3 AND NOT (sa.id = ANY($4))
+  `, [operatorIds, from, to, excluded]);
+  return result.rows.map(row => ({ operator_id: row.operator_id, date: row.assigned_date, span: shiftSpan(row.assigned_date, row) }));
+};
+
+// Clocked sessions of the given operators on shift days from..to; a running session counts up to `now`
+const loadAttendanceStretches = async (operatorIds: number[], from: string, to: string, now: Date): Promise<WorkStretch[]> => {
+  const result = await query(`
+    SELECT al.operator_id, al.date, al.clock_in, al.clock_out, si.timezone
+    FROM attendance_logs al
+    JOIN operators o ON al.operator_id = o.id
+    LEFT JOIN departments d ON o.department_id = d.id
+    LEFT JOIN sites si ON d.site_id = si.id
+    WHERE al.operator_id = ANY($1) AND al.clock_in IS NOT NULL AND al.date BETWEEN $2 AND $3
+  `, [operatorIds, from, to]);
+  return result.rows.map(row => {
+    const timeZone = row.timezone || PLANT_TIMEZONE;
+    return {
+      operator_id: row.operator_id,
+      date: row.date,
+      span: [localMinutes(row.clock_in, timeZone), localMinutes(row.clock_out || now, timeZone)]
+    };
+  });
+};
+
+// Check working days against the rules. Rest is measured between one working day and the next,
+// consecutive days as runs of calendar days, and weekly hours per pay week starting on `weekStart`.
+const evaluateCompliance = (
+  rules: ComplianceRule[], days: WorkDay[], operators: Map<number, ComplianceOperator>, weekStart: number
+): ComplianceViolation[] => {
+  const byOperator = new Map<number, WorkDay[]>();
+  for (const day of days) {
+    byOperator.set(day.operator_id, [...(byOperator.get(day.operator_id) || []), day]);
+  }
+
+  const violations: ComplianceViolation[] = [];
+  for (const [operatorId, worked] of byOperator) {
+    const operator = operators.get(operatorId);
+    if (!operator) continue;
+
+    for (const rule of rules) {
+      if (rule.department_id !== null && rule.department_id !== operator.department_id) continue;
+      const add = (date: string, from: string, to: string, value: number, message: string) => violations.push({
+        rule_id: rule.id,
+        rule_type: rule.rule_type,
+        severity: rule.severity,
+        operator_id: operatorId,
+        operator_name: operator.name,
+        date,
+        from,
+        to,
+        value,
+        threshold: rule.threshold,
+        message
+      });
+
+      if (rule.rule_type === 'min_rest_hours') {
+        for (let i = 1; i < worked.length; i++) {
+          const rest = toHours(Math.max(worked[i].start - worked[i - 1].end, 0));
+          if (rest < rule.threshold) {
+            add(worked[i].date, worked[i - 1].date, worked[i].date, rest,
+              `${operator.name} gets ${rest}h rest before ${worked[i].date}; at least ${rule.threshold}h are required`);
+          }
+        }
+      } else if (rule.rule_type === 'max_consecutive_days') {
+        // A run longer than the limit is one violation, broken on the first day past the limit
+        let runStart = 0;
+        for (let i = 1; i <= worked.length; i++) {
+          if (i < worked.length && daysBetween(worked[i - 1].date, worked[i].date) === 1) continue;
+          const length = i - runStart;
+          if (length > rule.threshold) {
+            const from = worked[runStart].date;
+            const to = worked[i - 1].date;
+            add(worked[runStart + Math.floor(rule.threshold)].date, from, to, length,
+              `${operator.name} works ${length} days in a row from ${from} to ${to}; at most ${rule.threshold} are allowed`);
+          }
+          runStart = i;
+        }
+      } else {
+        const weeks = new Map<string, WorkDay[]>();
+        for (const day of worked) {
+          const week = weekStartOf(day.date, weekStart);
+          weeks.set(week, [...(weeks.get(week) || []), day]);
+        }
+        for (const [week, weekDays] of weeks) {
+          let total = 0;
+          let brokenOn: string | null = null;
+          for (const day of weekDays) {
+            total += day.minutes;
+            if (!brokenOn && total > rule.threshold * 60) brokenOn = day.date;
+          }
+          if (brokenOn) {
+            const hours = toHours(total);
+            add(brokenOn, week, addDays(week, 6), hours,
+              `${operator.name} works ${hours}h in the week of ${week}; at most ${rule.threshold}h are allowed`);
+          }
+        }
+      }
+    }
+  }
+  return violations;
+};
+
+// Violations that putting operators on the `planned` shifts would cause, with the assignments in
+// `releases` given up. A planned shift replaces whatever the operator has on that day; only
+// violations spanning a planned day are returned.
+const checkScheduleCompliance = async (
+  planned: { operator_id: number; shift_id: number; date: string }[], releases: number[] = []
+): Promise<ComplianceViolation[]> => {
+  const rules = await loadComplianceRules();
+  if (rules.length === 0 || planned.length === 0) return [];
+
+  const operatorIds = [...new Set(planned.map(entry => entry.operator_id))];
+  const dates = planned.map(entry => entry.date).sort();
+  const margin = complianceMargin(rules);
+  const [rostered, shiftsResult, operators, timesheetRules] = await Promise.all([
+    loadRosterStretches(operatorIds, addDays(dates[0], -margin), addDays(dates[dates.length - 1], margin), releases),
+    query<Row & ShiftTimes>('SELECT id, start_time, end_time FROM shifts WHERE id = ANY($1)', [planned.map(entry => entry.shift_id)]),
+    loadComplianceOperators(operatorIds),
+    getTimesheetRules()
+  ]);
+  const shifts = new Map(shiftsResult.rows.map(shift => [shift.id, shift]));
+  const plannedDays = new Set(planned.map(entry => `${entry.operator_id}:${entry.date}`));
+  const stretches = [
+    ...rostered.filter(stretch => !plannedDays.has(`${stretch.operator_id}:${stretch.date}`)),
+    ...planned.flatMap(entry => {
+      const shift = shifts.get(entry.shift_id);
+      return shift ? [{ operator_id: entry.operator_id, date: entry.date, span: shiftSpan(entry.date, shift) }] : [];
+    })
+  ];
+
+  return evaluateCompliance(rules, toWorkDays(stretches), operators, timesheetRules.week_start).filter(violation =>
+    planned.some(entry => entry.operator_id === violation.operator_id && entry.date >= violation.from && entry.date <= violation.to)
+  );
+};
+
+// Violations of clocking in at `now` for shift day `date`: the sessions already clocked plus the new
+// one, counted to the end of `shift` (or from `now` only when there is no shift)
+const checkClockInCompliance = async (
+  operatorId: number, date: string, shift: ShiftTimes | null, now: Date, timeZone: string
+): Promise<ComplianceViolation[]> => {
+  const rules = await loadComplianceRules();
+  if (rules.length === 0) return [];
+
+  const [clocked, operators, timesheetRules] = await Promise.all([
+    loadAttendanceStretches([operatorId], addDays(date, -complianceMargin(rules)), date, now),
+    loadComplianceOperators([operatorId]),
+    getTimesheetRules()
+  ]);
+  const start = localMinutes(now, timeZone);
+  const end = shift ? Math.max(shiftSpan(date, shift)[1], start) : start;
+
+  return evaluateCompliance(rules, toWorkDays([...clocked, { operator_id: operatorId, date, span: [start, end] }]), operators, timesheetRules.week_start)
+    .filter(violation => date >= violation.from && date <= violation.to);
+};
+
+// A violation as a roster conflict: "block" rules are errors, "warn" rules warnings
+const complianceConflict = (violation: ComplianceViolation): RosterConflict => ({
+  type: 'compliance',
+  severity: violation.severity === 'block' ? 'error' : 'warning',
+  operator_id: violation.operator_id,
+  assigned_date: violation.date,
+  message: violation.message
+});
+
+// ATTENDANCE CLASSIFICATION
+// Each scheduled operator-day (operators have at most one shift assignment per day) is compared
+// with the sessions clocked for it, and the outcome stored on those sessions' status:
+// - late: the first clock-in came more than late_tolerance_minutes after the shift start
+// - left_early: the last clock-out came more than early_leave_tolerance_minutes before the shift end
+//   (a day that is both is stored as late, with its early_leave_minutes)
+// - on_time otherwise, and no_show once no_show_after_minutes have passed without a clock-in
+// - excused when the operator is on approved leave and did not clock in
+// Sessions on days without an assignment are unscheduled.
+const ATTENDANCE_RULE_COLUMNS = Object.keys(attendanceRulesSchema) as (keyof AttendanceRules)[];
+
+const getAttendanceRules = async (): Promise<AttendanceRules> => {
+  const result = await query(`SELECT ${ATTENDANCE_RULE_COLUMNS.join(', ')} FROM attendance_rules`);
+  return result.rows[0] as AttendanceRules;
+};
+
+interface Classification {
+  status: AttendanceStatus;
+  late_minutes: number;
+  early_leave_minutes: number;
+}
+
+// Outcome of one scheduled operator-day, or null while it is too early to call a no-show
+const classifyScheduledDay = (assignment: Row, sessions: Row[], onLeave: boolean, rules: AttendanceRules, now: Date): Classification | null => {
+  const timeZone = assignment.timezone || PLANT_TIMEZONE;
+  const scheduledStart = dateMinutes(assignment.assigned_date) + timeMinutes(assignment.start_time);
+  const scheduledEnd = dateMinutes(assignment.assigned_date) + timeMinutes(assignment.end_time) +
+    (isOvernightShift(assignment as ShiftTimes) ? MINUTES_PER_DAY : 0);
+
+  if (sessions.length === 0) {
+    if (onLeave) {
+      return { status: 'excused', late_minutes: 0, early_leave_minutes: 0 };
+    }
+    return localMinutes(now, timeZone) >= scheduledStart + rules.no_show_after_minutes
+      ? { status: 'no_show', late_minutes: 0, early_leave_minutes: 0 }
+      : null;
+  }
+
+  // A running session has not left early (yet)
+  const last = sessions[sessions.length - 1];
+  const late = Math.round(localMinutes(sessions[0].clock_in, timeZone) - scheduledStart);
+  const early = last.clock_out ? Math.round(scheduledEnd - localMinutes(last.clock_out, timeZone)) : 0;
+  const lateMinutes = late > rules.late_tolerance_minutes ? late : 0;
+  const earlyMinutes = early > rules.early_leave_tolerance_minutes ? early : 0;
+  return {
+    status: lateMinutes > 0 ? 'late' : earlyMinutes > 0 ? 'left_early' : 'on_time',
+    late_minutes: lateMinutes,
+    early_leave_minutes: earlyMinutes
+  };
+};
+
+// Classify every operator-day of `date`, or only one operator's, and store the results. A no-show
+// or excused day gets a session row without clock times, removed again if the operator clocks in
+// after all.
+// Returns how many rows changed.
+const classifyAttendance = async (date: string, now: Date, operatorId?: Id) => {
+  const rules = await getAttendanceRules();
+  const params: Id[] = operatorId ? [date, operatorId] : [date];
+  const assignments = await query(`
+    SELECT sa.operator_id, sa.assigned_date, sa.shift_id, s.start_time, s.end_time, si.timezone
+    FROM shift_assignments sa
+    JOIN shifts s ON sa.shift_id = s.id
+    JOIN operators o ON sa.operator_id = o.id
+    LEFT JOIN departments d ON o.department_id = d.id
+    LEFT JOIN sites si ON d.site_id = si.id
+    WHERE sa.assigned_date = $1 ${operatorId ? 'AND sa.operator_id = $2' : ''}
+  `, params);
+  const sessions = await query(`
+    SELECT * FROM attendance_logs
+    WHERE date = $1 ${operatorId ? 'AND operator_id = $2' : ''}
+    ORDER BY clock_in
+  `, params);
+  const onLeave = await query(`
+    SELECT DISTINCT operator_id FROM leave_requests
+    WHERE status = 'approved' AND $1 BETWEEN start_date AND end_date ${operatorId ? 'AND operator_id = $2' : ''}
+  `, params);
+  const leaveIds = new Set(onLeave.rows.map(row => row.operator_id));
+
+  const scheduled = new Map(assignments.rows.map(assignment => [assignment.operator_id, assignment]));
+  const operatorIds = new Set([...scheduled.keys(), ...sessions.rows.map(session => session.operator_id)]);
+  let changed = 0;
+
+  for (const id of operatorIds) {
+    const rows = sessions.rows.filter(session => session.operator_id === id);
+    const clocked = rows.filter(session => session.clock_in);
+    const placeholder = rows.find(session => !session.clock_in && ['no_show', 'excused'].includes(session.status));
+    const assignment = scheduled.get(id);
+    const outcome: Classification | null = assignment
+      ? classifyScheduledDay(assignment, clocked, leaveIds.has(id), rules, now)
+      : clocked.length > 0 ? { status: 'unscheduled', late_minutes: 0, early_leave_minutes: 0 } : null;
+
+    if (outcome?.status === 'no_show' || outcome?.status === 'excused') {
+      if (!placeholder) {
+        await query(`
+          INSERT INTO attendance_logs (operator_id, date, status, shift_id)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT DO NOTHING
+        `, [id, date, outcome.status, assignment?.shift_id]);
+        changed++;
+      } else if (placeholder.status !== outcome.status) {
+        await query('UPDATE attendance_logs SET status = $1 WHERE id = $2', [outcome.status, placeholder.id]);
+        changed++;
+      }
+      continue;
+    }
+    if (placeholder) {
+      await query('DELETE FROM attendance_logs WHERE id = $1', [placeholder.id]);
+      changed++;
+    }
+    if (!outcome) continue;
+
+    // Lateness belongs to the day's first session and the early leave to its last
+    for (const [index, session] of clocked.entries()) {
+      const late = index === 0 ? outcome.late_minutes : 0;
+      const early = index === clocked.length - 1 ? outcome.early_leave_minutes : 0;
+      if (session.status === outcome.status && session.late_minutes === late && session.early_leave_minutes === early) continue;
+      await query(
+        'UPDATE attendance_logs SET status = $1, late_minutes = $2, early_leave_minutes = $3 WHERE id = $4',
+        [outcome.status, late, early, session.id]
+      );
+      changed++;
+    }
+  }
+
+  return changed;
+};
+
+// Keeps no-shows current without anyone clocking in. Covers yesterday (overnight shifts) through
+// tomorrow, for sites whose day is ahead of the plant timezone.
+const CLASSIFY_INTERVAL_MS = 5 * 60 * 1000;
+
+const classifyRecentAttendance = async () => {
+  const now = new Date();
+  const today = formatDate(now);
+  let changed = 0;
+  for (const date of [addDays(today, -1), today, addDays(today, 1)]) {
+    changed += await classifyAttendance(date, now);
+  }
+  if (changed > 0) {
+    broadcast('attendance', { action: 'classified' });
+  }
+};
+
+// Station efficiency is derived from the performance records logged over this many days
+const EFFICIENCY_WINDOW_DAYS = 7;
+
+// Efficiency of a single output entry, capped to fit DECIMAL(5,2)
+const calculateEfficiency = (unitsProduced: number, targetUnits: number) => {
+  if (!targetUnits) return 0;
+  return Math.min(Math.round(unitsProduced / targetUnits * 10000) / 100, 999.99);
+};
+
+// Recompute stations.efficiency_percentage from the recent station_performance records
+const recalculateStationEfficiency = async (stationId: Id) => {
+  const today = await getToday('station', stationId);
+  const result = await query(`
+    UPDATE stations s
+    SET efficiency_percentage = COALESCE((
+      SELECT LEAST(ROUND(SUM(sp.units_produced) * 100.0 / NULLIF(SUM(sp.target_units), 0), 2), 999.99)
+      FROM station_performance sp
+      WHERE sp.station_id = s.id
+        AND sp.date > $2::date - $3::integer
+    ), 0)
+    WHERE s.id = $1
+    RETURNING *
+  `, [stationId, today, EFFICIENCY_WINDOW_DAYS]);
+  if (result.rows[0]) {
+    broadcast('station_efficiency', result.rows[0]);
+  }
+  return result.rows[0] || null;
+};
+
+// Aggregation levels supported by /api/station-performance/summary
+const PERFORMANCE_GROUPINGS: Record<PerformanceGroup, { select: string; groupBy: string; orderBy: string }> = {
+  station: {
+    select: 's.id as station_id, s.name as station_name, pl.id as line_id, pl.name as line_name',
+    groupBy: 's.id, s.name, pl.id, pl.name',
+    orderBy: 'pl.name, s.position_order'
+  },
+  line: {
+    select: 'pl.id as line_id, pl.name as line_name',
+    groupBy: 'pl.id, pl.name',
+    orderBy: 'pl.name'
+  },
+  operator: {
+    select: 'o.id as operator_id, o.name as operator_name',
+    groupBy: 'o.id, o.name',
+    orderBy: 'o.name'
+  },
+  date: {
+    select: 'sp.date',
+    groupBy: 'sp.date',
+    orderBy: 'sp.date'
+  }
+};
+
+// Label columns of a performance export for each grouping
+const PERFORMANCE_EXPORT_LABELS: Record<PerformanceGroup, { key: string; header: string; width?: number }[]> = {
+  station: [{ key: 'line_name', header: 'Line', width: 18 }, { key: 'station_name', header: 'Station', width: 18 }],
+  line: [{ key: 'line_name', header: 'Line', width: 18 }],
+  operator: [{ key: 'operator_name', header: 'Operator', width: 24 }],
+  date: [{ key: 'date', header: 'Date', width: 12 }]
+};
+
+// Build the WHERE clause shared by the station performance list, summary and export endpoints
+const buildPerformanceFilters = ({ station_id, line_id, department_id, operator_id, shift_id, from, to }: PerformanceQuery) => {
+  const conditions: string[] = [];
+  const params: Id[] = [];
+
+  const filters = [
+    ['sp.station_id =', station_id],
+    ['s.line_id =', line_id],
+    ['pl.department_id =', department_id],
+    ['sp.operator_id =', operator_id],
+    ['sp.shift_id =', shift_id],
+    ['sp.date >=', from],
+    ['sp.date <=', to]
+  ] as const;
+
+  for (const [condition, value] of filters) {
+    if (value) {
+      params.push(value);
+      conditions.push(`${condition} $${params.length}`);
+    }
+  }
+
+  return {
+    where: conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '',
+    params
+  };
+};
+
+// AUTH ENDPOINTS
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const body = parseBody(loginSchema, req, res);
+    if (!body) return;
+    const { username, password } = body;
+
+    const result = await query('SELECT * FROM users WHERE username = $1 AND is_active = true', [username]);
+    const user = result.rows[0];
+
+    if (!user || !(await verifyPassword(password, user.password_hash))) {
+      return sendError(res, 401, 'Invalid username or password');
+    }
+
+    const token = await createSession(user.id);
+    await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1', [user.id]);
+
+    res.json({
+      token,
+      user: { id: user.id, username: user.username, role: user.role, operator_id: user.operator_id }
+    });
+  } catch (error) {
+    handleError(res, error, 'logging in');
+  }
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await query('DELETE FROM user_sessions WHERE token_hash = $1', [req.user.token_hash]);
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    handleError(res, error, 'logging out');
+  }
+});
+
+app.get('/api/auth/me', (req, res) => {
+  const { id, username, role, operator_id } = req.user;
+  res.json({ id, username, role, operator_id });
+});
+
+// USERS ENDPOINTS
+app.get('/api/users', authorize('admin'), async (_req, res) => {
+  try {
+    const result = await query(`
+      SELECT u.id, u.username, u.role, u.operator_id, u.is_active, u.last_login, u.created_at,
+             o.name as operator_name
+      FROM users u
+      LEFT JOIN operators o ON u.operator_id = o.id
+      ORDER BY u.username
+    `);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching users');
+  }
+});
+
+app.post('/api/users', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(userSchema, req, res, checkUserLink);
+    if (!body) return;
+    const { username, password, role, operator_id } = body;
+
+    const result = await query(`
+      INSERT INTO users (username, password_hash, role, operator_id)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id, username, role, operator_id, is_active, created_at
+    `, [username, await hashPassword(password), role, operator_id || null]);
+
+    await recordAudit(req, 'create', 'user', result.rows[0].id, null, result.rows[0]);
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Username already exists', { errors: [{ field: 'username', message: 'Username already exists' }] });
+    }
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Operator not found', { errors: [{ field: 'operator_id', message: 'Operator not found' }] });
+    }
+    handleError(res, error, 'creating user');
+  }
+});
+
+app.put('/api/users/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(userUpdateSchema, req, res);
+    if (!body) return;
+    const { role, password, operator_id, is_active } = body;
+
+    const before = await fetchRow('users', id);
+    if (!before) {
+      return sendError(res, 404, 'User not found');
+    }
+    const linkErrors = checkUserLink({ role: role || before.role, operator_id: operator_id || before.operator_id });
+    if (linkErrors.length > 0) {
+      return sendFieldErrors(res, linkErrors);
+    }
+
+    const result = await query(`
+      UPDATE users
+      SET role = COALESCE($1, role),
+          password_hash = COALESCE($2, password_hash),
+          operator_id = COALESCE($3, operator_id),
+          is_active = COALESCE($4, is_active)
+      WHERE id = $5
+      RETURNING id, username, role, operator_id, is_active, created_at
+    `, [role, password ? await hashPassword(password) : null, operator_id, is_active, id]);
+
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    // Changing credentials or access ends the user's existing sessions
+    if (password || role || is_active === false) {
+      await query('DELETE FROM user_sessions WHERE user_id = $1', [id]);
+    }
+
+    await recordAudit(req, password ? 'update_with_password' : 'update', 'user', id, before, result.rows[0]);
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating user');
+  }
+});
+
+// DEPARTMENTS ENDPOINTS
+app.get('/api/departments', async (req, res) => {
+  try {
+    const filters = parseQuery(configurationQuerySchema, req, res);
+    if (!filters) return;
+    const result = await query(`SELECT * FROM departments ${filters.include_inactive ? '' : 'WHERE is_active'} ORDER BY name`);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching departments');
+  }
+});
+
+app.post('/api/departments', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(departmentSchema, req, res);
+    if (!body) return;
+    const { name, description, site_id, is_active } = body;
+
+    const result = await query(`
+      INSERT INTO departments (name, description, site_id, is_active)
+      VALUES ($1, $2, $3, COALESCE($4, true))
+      RETURNING *
+    `, [name, description, site_id, is_active]);
+
+    await recordAudit(req, 'create', 'department', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'departments' });
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Department name already exists', { errors: [{ field: 'name', message: 'Department name already exists' }] });
+    }
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Site not found', { errors: [{ field: 'site_id', message: 'Site not found' }] });
+    }
+    handleError(res, error, 'creating department');
+  }
+});
+
+// A department can only be deactivated once its lines and operators have moved elsewhere
+app.put('/api/departments/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(departmentSchema, req, res);
+    if (!body) return;
+    const { name, description, site_id, is_active } = body;
+
+    const before = await fetchRow('departments', id);
+    if (!before) {
+      return sendError(res, 404, 'Department not found');
+    }
+    if (is_active === false && before.is_active) {
+      const inUse = await query(`
+        SELECT (SELECT COUNT(*) FROM production_lines WHERE department_id = $1 AND status = 'active') as lines,
+               (SELECT COUNT(*) FROM operators WHERE department_id = $1 AND employment_status <> 'terminated') as operators
+      `, [id]);
+      const { lines, operators } = inUse.rows[0];
+      if (lines > 0 || operators > 0) {
+        return sendError(res, 409, `Department still has ${lines} active lines and ${operators} operators; move them before deactivating it`);
+      }
+    }
+
+    const result = await query(`
+      UPDATE departments
+      SET name = $1, description = $2, site_id = $3, is_active = COALESCE($4, is_active)
+      WHERE id = $5
+      RETURNING *
+    `, [name, description, site_id, is_active, id]);
+
+    await recordAudit(req, 'update', 'department', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'departments' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Department name already exists', { errors: [{ field: 'name', message: 'Department name already exists' }] });
+    }
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Site not found', { errors: [{ field: 'site_id', message: 'Site not found' }] });
+    }
+    handleError(res, error, 'updating department');
+  }
+});
+
+// Only departments nothing refers to can be deleted; the others are deactivated
+app.delete('/api/departments/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('DELETE FROM departments WHERE id = $1 RETURNING *', [id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Department not found');
+    }
+
+    await recordAudit(req, 'delete', 'department', id, result.rows[0], null);
+    broadcast('resync', { entity: 'departments' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 409, 'Department has operators, lines, shifts or history; deactivate it instead');
+    }
+    handleError(res, error, 'deleting department');
+  }
+});
+
+app.put('/api/departments/:id/site', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(departmentSiteSchema, req, res);
+    if (!body) return;
+    const { site_id } = body;
+
+    const before = await fetchRow('departments', id);
+    const result = await query(
+      'UPDATE departments SET site_id = $1 WHERE id = $2 RETURNING *',
+      [site_id || null, id]
+    );
+
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Department not found');
+    }
+
+    await recordAudit(req, 'update', 'department', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'departments' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Site not found', { errors: [{ field: 'site_id', message: 'Site not found' }] });
+    }
+    handleError(res, error, 'updating department site');
+  }
+});
+
+// SITES & TIME ENDPOINTS
+app.get('/api/sites', async (_req, res) => {
+  try {
+    const result = await query('SELECT * FROM sites ORDER BY name');
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching sites');
+  }
+});
+
+app.post('/api/sites', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(siteSchema, req, res, checkSite);
+    if (!body) return;
+    const { name, timezone, working_weekdays } = body;
+
+    const result = await query(
+      "INSERT INTO sites (name, timezone, working_weekdays) VALUES ($1, $2, COALESCE($3, '{1,2,3,4,5}')) RETURNING *",
+      [name, timezone, working_weekdays]
+    );
+
+    await recordAudit(req, 'create', 'site', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'sites' });
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Site name already exists', { errors: [{ field: 'name', message: 'Site name already exists' }] });
+    }
+    handleError(res, error, 'creating site');
+  }
+});
+
+app.put('/api/sites/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(partial(siteSchema), req, res, checkSite);
+    if (!body) return;
+    const { name, timezone, working_weekdays } = body;
+
+    const before = await fetchRow('sites', id);
+    const result = await query(`
+      UPDATE sites
+      SET name = COALESCE($1, name),
+          timezone = COALESCE($2, timezone),
+          working_weekdays = COALESCE($3, working_weekdays)
+      WHERE id = $4
+      RETURNING *
+    `, [name, timezone, working_weekdays, id]);
+
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Site not found');
+    }
+
+    await recordAudit(req, 'update', 'site', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'sites' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating site');
+  }
+});
+
+// Plant-local "today" so the frontend uses exactly the same day as the API
+app.get('/api/time', async (req, res) => {
+  try {
+    const filters = parseQuery(siteQuerySchema, req, res);
+    if (!filters) return;
+    const timezone = await getTimezone('site', filters.site_id);
+    const now = new Date();
+    res.json({
+      timezone,
+      today: formatDate(now, timezone),
+      now: now.toISOString()
+    });
+  } catch (error) {
+    handleError(res, error, 'fetching plant time');
+  }
+});
+
+// PRODUCTION LINES ENDPOINTS
+// Lines with their department and active-station figures
+const loadProductionLines = async (condition: string, params: Id[] = []) => {
+  const result = await query(`
+    SELECT pl.*, d.name as department_name,
+           COUNT(s.id) as station_count,
+           AVG(s.efficiency_percentage) as avg_efficiency
+    FROM production_lines pl
+    LEFT JOIN departments d ON pl.department_id = d.id
+    LEFT JOIN stations s ON pl.id = s.line_id AND s.status = 'active'
+    ${condition}
+    GROUP BY pl.id, d.name
+    ORDER BY pl.name
+  `, params);
+  return result.rows;
+};
+
+// Assignments from today on that deactivating a line or station would strand
+const countUpcomingAssignments = async (scope: 'line' | 'station', id: Id) => {
+  const today = scope === 'station'
+    ? await getToday('station', id)
+    : await getToday('department', (await fetchRow('production_lines', id))?.department_id);
+  const result = await query(`
+    SELECT COUNT(*) as count
+    FROM shift_assignments sa
+    JOIN stations s ON sa.station_id = s.id
+    WHERE ${scope === 'station' ? 's.id' : 's.line_id'} = $1 AND sa.assigned_date >= $2
+  `, [id, today]);
+  return result.rows[0].count as number;
+};
+
+// Lines and stations can only be placed in a department or line that is still active
+const checkActiveParent = async (
+  table: 'departments' | 'production_lines',
+  id: Id,
+  field: string,
+  label: string
+): Promise<{ error: string; status: number; field: string } | null> => {
+  const parent = await fetchRow(table, id);
+  if (!parent) return { error: `${label} not found`, status: 404, field };
+  const active = table === 'departments' ? parent.is_active : parent.status === 'active';
+  return active ? null : { error: `${label} is inactive`, status: 422, field };
+};
+
+app.get('/api/production-lines', async (req, res) => {
+  try {
+    const filters = parseQuery(configurationQuerySchema, req, res);
+    if (!filters) return;
+    res.json(await loadProductionLines(filters.include_inactive ? '' : "WHERE pl.status = 'active'"));
+  } catch (error) {
+    handleError(res, error, 'fetching production lines');
+  }
+});
+
+app.post('/api/production-lines', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(productionLineSchema, req, res);
+    if (!body) return;
+    const { name, department_id, capacity, efficiency_target, status } = body;
+
+    const refusal = await checkActiveParent('departments', department_id, 'department_id', 'Department');
+    if (refusal) {
+      return sendError(res, refusal.status, refusal.error, { errors: [{ field: refusal.field, message: refusal.error }] });
+    }
+
+    const result = await query(`
+      INSERT INTO production_lines (name, department_id, capacity, efficiency_target, status)
+      VALUES ($1, $2, $3, COALESCE($4, 85), COALESCE($5, 'active'))
+      RETURNING *
+    `, [name, department_id, capacity, efficiency_target, status]);
+
+    await recordAudit(req, 'create', 'production_line', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'production_lines' });
+
+    const [line] = await loadProductionLines('WHERE pl.id = $1', [result.rows[0].id]);
+    res.status(201).json(line);
+  } catch (error) {
+    handleError(res, error, 'creating production line');
+  }
+});
+
+// Deactivating keeps the line's stations and history but hides them from planning
+app.put('/api/production-lines/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(productionLineSchema, req, res);
+    if (!body) return;
+    const { name, department_id, capacity, efficiency_target, status } = body;
+
+    const before = await fetchRow('production_lines', id);
+    if (!before) {
+      return sendError(res, 404, 'Production line not found');
+    }
+    if (String(department_id) !== String(before.department_id)) {
+      const refusal = await checkActiveParent('departments', department_id, 'department_id', 'Department');
+      if (refusal) {
+        return sendError(res, refusal.status, refusal.error, { errors: [{ field: refusal.field, message: refusal.error }] });
+      }
+    }
+    if (status === 'inactive' && before.status === 'active') {
+      const upcoming = await countUpcomingAssignments('line', id);
+      if (upcoming > 0) {
+        return sendError(res, 409, `Line has ${upcoming} assignments from today on; move them before deactivating it`);
+      }
+    }
+
+    const result = await query(`
+      UPDATE production_lines
+      SET name = $1, department_id = $2, capacity = $3,
+          efficiency_target = COALESCE($4, efficiency_target), status = COALESCE($5, status)
+      WHERE id = $6
+      RETURNING *
+    `, [name, department_id, capacity, efficiency_target, status, id]);
+
+    await recordAudit(req, 'update', 'production_line', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'production_lines' });
+
+    const [line] = await loadProductionLines('WHERE pl.id = $1', [id]);
+    res.json(line);
+  } catch (error) {
+    handleError(res, error, 'updating production line');
+  }
+});
+
+// Station order and targets for a whole line, saved together from the layout editor.
+// Every active station must be listed; inactive ones keep their relative order after them.
+app.put('/api/production-lines/:id/layout', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(lineLayoutSchema, req, res, checkLineLayout);
+    if (!body) return;
+    const { efficiency_target, stations } = body;
+
+    const before = await fetchRow('production_lines', id);
+    if (!before) {
+      return sendError(res, 404, 'Production line not found');
+    }
+    const current = await query('SELECT * FROM stations WHERE line_id = $1 ORDER BY position_order, id', [id]);
+    const onLine = new Set(current.rows.map(station => String(station.id)));
+    const listed = new Set(stations.map(station => String(station.id)));
+
+    if (stations.some(station => !onLine.has(String(station.id)))) {
+      return sendError(res, 422, 'Every station must belong to this line');
+    }
+    if (current.rows.some(station => station.status === 'active' && !listed.has(String(station.id)))) {
+      return sendError(res, 422, 'The layout must list every active station of the line');
+    }
+
+    const order = [
+      ...stations,
+      ...current.rows.filter(station => !listed.has(String(station.id))).map(station => ({ id: station.id, target_efficiency: null }))
+    ];
+
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+    const saved: Row[] = [];
+    let line: Row;
+
+    try {
+      await client.query('BEGIN');
+
+      for (const [index, station] of order.entries()) {
+        const result = await client.query(`
+          UPDATE stations
+          SET position_order = $1, target_efficiency = COALESCE($2, target_efficiency)
+          WHERE id = $3
+          RETURNING *
+        `, [index + 1, station.target_efficiency, station.id]);
+        saved.push(result.rows[0]);
+      }
+
+      const lineResult = await client.query(
+        'UPDATE production_lines SET efficiency_target = COALESCE($1, efficiency_target) WHERE id = $2 RETURNING *',
+        [efficiency_target, id]
+      );
+      line = lineResult.rows[0];
+
+      await recordAudit(req, 'update_layout', 'production_line', id,
+        { ...before, stations: current.rows },
+        { ...line, stations: saved },
+        executor
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    broadcast('resync', { entity: 'production_lines' });
+    broadcast('resync', { entity: 'stations' });
+
+    res.json({ line, stations: saved });
+  } catch (error) {
+    handleError(res, error, 'saving line layout');
+  }
+});
+
+// Only lines without stations can be deleted; the others are deactivated
+app.delete('/api/production-lines/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('DELETE FROM production_lines WHERE id = $1 RETURNING *', [id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Production line not found');
+    }
+
+    await recordAudit(req, 'delete', 'production_line', id, result.rows[0], null);
+    broadcast('resync', { entity: 'production_lines' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 409, 'Line still has stations or history; deactivate it instead');
+    }
+    handleError(res, error, 'deleting production line');
+  }
+});
+
+// Suggest a station-to-operator plan for a date and shift without saving anything
+app.get('/api/production-lines/:id/auto-staff', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const filters = parseQuery(autoStaffQuerySchema, req, res);
+    if (!filters) return;
+
+    const line = await fetchRow('production_lines', id);
+    const date = filters.date || await getToday('department', line?.department_id);
+    const plan = await planLineStaffing(id, date, filters.shift_id);
+    if ('error' in plan) {
+      return sendError(res, plan.status, plan.error);
+    }
+
+    res.json(plan);
+  } catch (error) {
+    handleError(res, error, 'planning line staffing');
+  }
+});
+
+// Accept a staffing plan, as suggested or edited, in one transaction
+app.post('/api/production-lines/:id/auto-staff', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(autoStaffApplySchema, req, res);
+    if (!body) return;
+    const { date, shift_id, assignments } = body;
+
+    const stationsResult = await query("SELECT id FROM stations WHERE line_id = $1 AND status = 'active'", [id]);
+    const lineStations = new Set(stationsResult.rows.map(row => row.id));
+    const placements = assignments.flatMap(a => a.operator_id ? [{ station_id: a.station_id, operator_id: a.operator_id }] : []);
+    const operatorIds = placements.map(a => a.operator_id);
+
+    if (placements.some(a => !lineStations.has(a.station_id))) {
+      return sendError(res, 422, 'Every station must belong to this line');
+    }
+    if (new Set(operatorIds).size !== operatorIds.length) {
+      return sendError(res, 422, 'An operator can only be placed on one station');
+    }
+    const stationIds = placements.map(a => a.station_id);
+    if (new Set(stationIds).size !== stationIds.length) {
+      return sendError(res, 422, 'A station can only be staffed once per shift');
+    }
+
+    // Operators in the plan leave their current station on that day, so only others count as taken
+    const taken = await query(`
+      SELECT DISTINCT station_id FROM shift_assignments
+      WHERE station_id = ANY($1) AND assigned_date = $2 AND shift_id = $3 AND operator_id <> ALL($4)
+    `, [stationIds, date, shift_id, operatorIds]);
+    if (taken.rows.length > 0) {
+      return sendError(res, 409, 'Plan places operators on stations already staffed on this shift', {
+        station_ids: taken.rows.map(row => row.station_id)
+      });
+    }
+    const unavailable = await loadUnavailableOperators(operatorIds);
+    if (unavailable.length > 0) {
+      return sendError(res, 422, `Plan places operators who are not available: ${unavailable.map(describeUnavailable).join('; ')}`, {
+        operator_ids: unavailable.map(operator => operator.id)
+      });
+    }
+    const onLeave = await loadApprovedLeave(operatorIds, date, date);
+    if (onLeave.length > 0) {
+      return sendError(res, 422, 'Plan places operators who are on approved leave', {
+        operator_ids: onLeave.map(leave => leave.operator_id)
+      });
+    }
+
+    const qualifications = await loadQualifications(placements.map(a => a.station_id), operatorIds);
+    const unqualified = placements
+      .map(a => ({ ...a, qualification: evaluateQualification(qualifications, a.operator_id, a.station_id, date) }))
+      .filter(a => !a.qualification.qualified);
+    if (unqualified.length > 0 && QUALIFICATION_ENFORCEMENT === 'block') {
+      return sendError(res, 422, 'Plan places operators on stations they are not qualified for', {
+        unqualified: unqualified.map(a => ({ station_id: a.station_id, operator_id: a.operator_id, missing: a.qualification.missing }))
+      });
+    }
+
+    const violations = await checkScheduleCompliance(placements.map(a => ({ operator_id: a.operator_id, shift_id, date })));
+    const blocking = violations.filter(violation => violation.severity === 'block');
+    if (blocking.length > 0) {
+      return sendError(res, 422, 'Plan breaks working-time rules', { violations: blocking });
+    }
+
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+    const saved = [];
+
+    try {
+      await client.query('BEGIN');
+
+      for (const placement of placements) {
+        const existing = await client.query(
+          'SELECT * FROM shift_assignments WHERE operator_id = $1 AND assigned_date = $2',
+          [placement.operator_id, date]
+        );
+        const before = existing.rows[0] || null;
+
+        const result = await client.query(`
+          INSERT INTO shift_assignments (shift_id, operator_id, station_id, assigned_date)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (operator_id, assigned_date)
+          DO UPDATE SET station_id = EXCLUDED.station_id, shift_id = EXCLUDED.shift_id
+          RETURNING *
+        `, [shift_id, placement.operator_id, placement.station_id, date]);
+
+        await recordAudit(req, 'auto_staff', 'shift_assignment', result.rows[0].id, before, result.rows[0], executor);
+        saved.push(result.rows[0]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    for (const assignment of saved) {
+      await broadcastAssignment(assignment.operator_id, date);
+    }
+
+    res.status(201).json({
+      message: 'Staffing plan applied',
+      assignments: saved,
+      warnings: [
+        ...unqualified.map(a => `Operator ${a.operator_id} is missing ${describeMissing(a.qualification.missing)}`),
+        ...violations.map(violation => violation.message)
+      ]
+    });
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Operator or shift not found');
+    }
+    handleError(res, error, 'applying staffing plan');
+  }
+});
+
+// STATIONS ENDPOINTS
+app.get('/api/stations', async (req, res) => {
+  try {
+    const filters = parseQuery(stationsQuerySchema, req, res);
+    if (!filters) return;
+    const { line_id, include_inactive } = filters;
+    const today = await getToday('site', filters.site_id);
+    let queryText = `
+      SELECT s.*, pl.name as line_name, 
+             o.name as operator_name, o.id as operator_id,
+             sa.id as assignment_id
+      FROM stations s
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      LEFT JOIN shift_assignments sa ON s.id = sa.station_id AND sa.assigned_date = $1
+      LEFT JOIN operators o ON sa.operator_id = o.id
+    `;
+    
+    const params: Id[] = [today];
+    const conditions: string[] = [];
+    if (line_id) {
+      params.push(line_id);
+      conditions.push(`s.line_id = $${params.length}`);
+    }
+    if (!include_inactive) {
+      conditions.push("s.status = 'active'", "pl.status = 'active'");
+    }
+    if (conditions.length > 0) {
+      queryText += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    
+    queryText += ' ORDER BY s.line_id, s.position_order';
+    
+    const result = await query(queryText, params);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching stations');
+  }
+});
+
+// New stations go to the end of their line
+app.post('/api/stations', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(stationSchema, req, res);
+    if (!body) return;
+    const { name, line_id, target_efficiency, status } = body;
+
+    const refusal = await checkActiveParent('production_lines', line_id, 'line_id', 'Production line');
+    if (refusal) {
+      return sendError(res, refusal.status, refusal.error, { errors: [{ field: refusal.field, message: refusal.error }] });
+    }
+
+    const result = await query(`
+      INSERT INTO stations (name, line_id, position_order, target_efficiency, status)
+      VALUES ($1, $2, (SELECT COALESCE(MAX(position_order), 0) + 1 FROM stations WHERE line_id = $2),
+              COALESCE($3, 100), COALESCE($4, 'active'))
+      RETURNING *
+    `, [name, line_id, target_efficiency, status]);
+
+    await recordAudit(req, 'create', 'station', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'stations' });
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'creating station');
+  }
+});
+
+// Moving a station to another line puts it at the end of that line
+app.put('/api/stations/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(stationSchema, req, res);
+    if (!body) return;
+    const { name, line_id, target_efficiency, status } = body;
+
+    const before = await fetchRow('stations', id);
+    if (!before) {
+      return sendError(res, 404, 'Station not found');
+    }
+    const moved = String(line_id) !== String(before.line_id);
+    if (moved) {
+      const refusal = await checkActiveParent('production_lines', line_id, 'line_id', 'Production line');
+      if (refusal) {
+        return sendError(res, refusal.status, refusal.error, { errors: [{ field: refusal.field, message: refusal.error }] });
+      }
+    }
+    if (status === 'inactive' && before.status === 'active') {
+      const upcoming = await countUpcomingAssignments('station', id);
+      if (upcoming > 0) {
+        return sendError(res, 409, `Station has ${upcoming} assignments from today on; move them before deactivating it`);
+      }
+    }
+
+    const result = await query(`
+      UPDATE stations
+      SET name = $1, line_id = $2,
+          position_order = CASE WHEN $3 THEN (SELECT COALESCE(MAX(position_order), 0) + 1 FROM stations WHERE line_id = $2)
+                                ELSE position_order END,
+          target_efficiency = COALESCE($4, target_efficiency), status = COALESCE($5, status)
+      WHERE id = $6
+      RETURNING *
+    `, [name, line_id, moved, target_efficiency, status, id]);
+
+    await recordAudit(req, 'update', 'station', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'stations' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating station');
+  }
+});
+
+// Stations with assignments or performance history can only be deactivated
+app.delete('/api/stations/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('DELETE FROM stations WHERE id = $1 RETURNING *', [id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Station not found');
+    }
+
+    await recordAudit(req, 'delete', 'station', id, result.rows[0], null);
+    broadcast('resync', { entity: 'stations' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 409, 'Station has assignments or history; deactivate it instead');
+    }
+    handleError(res, error, 'deleting station');
+  }
+});
+
+app.post('/api/stations/:id/recalculate-efficiency', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await fetchRow('stations', id);
+    const station = await recalculateStationEfficiency(id);
+
+    if (!station) {
+      return sendError(res, 404, 'Station not found');
+    }
+
+    await recordAudit(req, 'recalculate_efficiency', 'station', id, before, station);
+
+    res.json(station);
+  } catch (error) {
+    handleError(res, error, 'recalculating station efficiency');
+  }
+});
+
+// STATION PERFORMANCE ENDPOINTS
+app.get('/api/station-performance', async (req, res) => {
+  try {
+    const filters = parseQuery(performanceQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const { where, params } = buildPerformanceFilters(filters);
+    const result = await query(`
+      SELECT sp.*, s.name as station_name, s.line_id, pl.name as line_name,
+             o.name as operator_name, sh.name as shift_name
+      FROM station_performance sp
+      JOIN stations s ON sp.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      LEFT JOIN operators o ON sp.operator_id = o.id
+      LEFT JOIN shifts sh ON sp.shift_id = sh.id
+      ${where}
+      ORDER BY sp.date DESC, pl.name, s.position_order
+    `, params);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching station performance');
+  }
+});
+
+app.get('/api/station-performance/summary', async (req, res) => {
+  try {
+    const filters = parseQuery(performanceQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const grouping = PERFORMANCE_GROUPINGS[filters.group_by || 'station'];
+    const { where, params } = buildPerformanceFilters(filters);
+    const result = await query(`
+      SELECT ${grouping.select},
+             COUNT(sp.id) as entries,
+             SUM(sp.units_produced) as units_produced,
+             SUM(sp.target_units) as target_units,
+             SUM(sp.downtime_minutes) as downtime_minutes,
+             ROUND(SUM(sp.units_produced) * 100.0 / NULLIF(SUM(sp.target_units), 0), 2) as efficiency_percentage
+      FROM station_performance sp
+      JOIN stations s ON sp.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      LEFT JOIN operators o ON sp.operator_id = o.id
+      ${where}
+      GROUP BY ${grouping.groupBy}
+      ORDER BY ${grouping.orderBy}
+    `, params);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching station performance summary');
+  }
+});
+
+app.post('/api/station-performance', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(stationPerformanceSchema, req, res);
+    if (!body) return;
+    const { station_id, operator_id, shift_id, date } = body;
+    const units = body.units_produced;
+    const target = body.target_units;
+    const downtime = body.downtime_minutes ?? 0;
+
+    const result = await query(`
+      INSERT INTO station_performance
+        (station_id, operator_id, shift_id, date, units_produced, target_units, downtime_minutes, efficiency_percentage)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      station_id, operator_id || null, shift_id || null, date || await getToday('station', station_id),
+      units, target, downtime, calculateEfficiency(units, target)
+    ]);
+
+    const station = await recalculateStationEfficiency(station_id);
+    await recordAudit(req, 'create', 'station_performance', result.rows[0].id, null, result.rows[0]);
+
+    res.status(201).json({ record: result.rows[0], station });
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Station, operator or shift not found');
+    }
+    handleError(res, error, 'recording station performance');
+  }
+});
+
+app.put('/api/station-performance/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(partial(stationPerformanceSchema), req, res);
+    if (!body) return;
+    const { operator_id, shift_id, date, units_produced, target_units, downtime_minutes } = body;
+
+    const existing = await query('SELECT * FROM station_performance WHERE id = $1', [id]);
+    if (existing.rows.length === 0) {
+      return sendError(res, 404, 'Performance record not found');
+    }
+
+    const record = existing.rows[0];
+    const units = units_produced ?? record.units_produced;
+    const target = target_units ?? record.target_units;
+    const downtime = downtime_minutes ?? record.downtime_minutes;
+
+    const result = await query(`
+      UPDATE station_performance
+      SET operator_id = COALESCE($1, operator_id),
+          shift_id = COALESCE($2, shift_id),
+          date = COALESCE($3, date),
+          units_produced = $4,
+          target_units = $5,
+          downtime_minutes = $6,
+          efficiency_percentage = $7
+      WHERE id = $8
+      RETURNING *
+    `, [operator_id, shift_id, date, units, target, downtime, calculateEfficiency(units, target), id]);
+
+    const station = await recalculateStationEfficiency(record.station_id);
+    await recordAudit(req, 'update', 'station_performance', id, record, result.rows[0]);
+
+    res.json({ record: result.rows[0], station });
+  } catch (error) {
+    handleError(res, error, 'updating station performance');
+  }
+});
+
+app.delete('/api/station-performance/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('DELETE FROM station_performance WHERE id = $1 RETURNING *', [id]);
+
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Performance record not found');
+    }
+
+    await recalculateStationEfficiency(result.rows[0].station_id);
+    await recordAudit(req, 'delete', 'station_performance', id, result.rows[0], null);
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'deleting station performance');
+  }
+});
+
+// OPERATORS ENDPOINTS
+app.get('/api/operators', async (req, res) => {
+  try {
+    const filters = parseQuery(operatorsQuerySchema, req, res);
+    if (!filters) return;
+    const today = await getToday('site', filters.site_id);
+    const result = await query(`
+      SELECT o.*, d.name as department_name,
+             sa.station_id, s.name as station_name, pl.name as line_name,
+             (
+               SELECT lt.name FROM leave_requests lr JOIN leave_types lt ON lr.leave_type_id = lt.id
+               WHERE lr.operator_id = o.id AND lr.status = 'approved' AND $1 BETWEEN lr.start_date AND lr.end_date
+               LIMIT 1
+             ) as leave_type_name
+      FROM operators o
+      LEFT JOIN departments d ON o.department_id = d.id
+      LEFT JOIN shift_assignments sa ON o.id = sa.operator_id AND sa.assigned_date = $1
+      LEFT JOIN stations s ON sa.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      ${filters.include_terminated ? '' : "WHERE o.employment_status <> 'terminated'"}
+      ORDER BY o.name
+    `, [today]);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching operators');
+  }
+});
+
+app.get('/api/operators/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query(`
+      SELECT o.*, d.name as department_name
+      FROM operators o
+      LEFT JOIN departments d ON o.department_id = d.id
+      WHERE o.id = $1
+    `, [id]);
+    
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Operator not found');
+    }
+    
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'fetching operator');
+  }
+});
+
+app.post('/api/operators', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(operatorSchema, req, res);
+    if (!body) return;
+    const { name, email, employee_id, department_id, skill_level, hired_on } = body;
+
+    const result = await query(`
+      INSERT INTO operators (name, email, employee_id, department_id, skill_level, hired_on)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [name, email, employee_id, department_id, skill_level || 'beginner', hired_on]);
+
+    await recordAudit(req, 'create', 'operator', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'operators' });
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Email or employee ID already exists', { errors: duplicateFields(error, 'Already used by another operator') });
+    }
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Department not found', { errors: [{ field: 'department_id', message: 'Department not found' }] });
+    }
+    handleError(res, error, 'creating operator');
+  }
+});
+
+app.put('/api/operators/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(operatorUpdateSchema, req, res);
+    if (!body) return;
+    const { name, email, employee_id, department_id, skill_level, status, hired_on } = body;
+
+    const before = await fetchRow('operators', id);
+    if (!before) {
+      return sendError(res, 404, 'Operator not found');
+    }
+    if (before.anonymized_at) {
+      return sendError(res, 409, 'Anonymised operators cannot be changed');
+    }
+
+    const result = await query(`
+      UPDATE operators 
+      SET name = COALESCE($1, name),
+          email = COALESCE($2, email),
+          employee_id = COALESCE($3, employee_id),
+          department_id = COALESCE($4, department_id),
+          skill_level = COALESCE($5, skill_level),
+          status = COALESCE($6, status),
+          hired_on = COALESCE($7, hired_on),
+          last_active = CURRENT_TIMESTAMP
+      WHERE id = $8
+      RETURNING *
+    `, [name, email, employee_id, department_id, skill_level, status, hired_on, id]);
+
+    await recordAudit(req, 'update', 'operator', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'operators' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Email or employee ID already exists', { errors: duplicateFields(error, 'Already used by another operator') });
+    }
+    handleError(res, error, 'updating operator');
+  }
+});
+
+// Terminating archives an operator as of their last day. Assignments and leave after that day are
+// removed, trades they offered are cancelled and claims they made reopened, and their user accounts
+// are deactivated. Everything up to the last day stays for reporting.
+const terminateOperator = async (req: Request, operatorId: Id, lastDay: string, hiredOn: string | null | undefined) => {
+  const client = await getClient();
+  const executor: Executor = (text, params) => client.query(text, params);
+  const removed = { assignments: 0, leave_requests: 0, shift_trades: 0 };
+  let operator: Row;
+
+  try {
+    await client.query('BEGIN');
+
+    const assignments = await client.query(
+      'DELETE FROM shift_assignments WHERE operator_id = $1 AND assigned_date > $2 RETURNING *',
+      [operatorId, lastDay]
+    );
+    for (const assignment of assignments.rows) {
+      await recordAudit(req, 'delete', 'shift_assignment', assignment.id, assignment, null, executor);
+    }
+
+    const leave = await client.query(`
+      SELECT * FROM leave_requests
+      WHERE operator_id = $1 AND status IN ('pending', 'approved') AND start_date > $2
+      FOR UPDATE
+    `, [operatorId, lastDay]);
+    for (const request of leave.rows) {
+      const result = await client.query(
+        "UPDATE leave_requests SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *",
+        [request.id]
+      );
+      await recordAudit(req, 'cancel', 'leave_request', request.id, request, result.rows[0], executor);
+    }
+
+    const trades = await client.query(`
+      SELECT * FROM shift_trades
+      WHERE status IN ('open', 'claimed') AND (offered_by = $1 OR claimed_by = $1)
+      FOR UPDATE
+    `, [operatorId]);
+    for (const trade of trades.rows) {
+      const offered = String(trade.offered_by) === String(operatorId);
+      const result = await client.query(offered ? `
+        UPDATE shift_trades SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 RETURNING *
+      ` : `
+        UPDATE shift_trades
+        SET status = 'open', claimed_by = NULL, claimed_at = NULL,
+            counter_assignment_id = NULL, counter_shift_id = NULL, counter_station_id = NULL, counter_date = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 RETURNING *
+      `, [trade.id]);
+      await recordAudit(req, offered ? 'cancel' : 'withdraw', 'shift_trade', trade.id, trade, result.rows[0], executor);
+    }
+
+    const users = await client.query(
+      'UPDATE users SET is_active = false WHERE operator_id = $1 AND is_active RETURNING id',
+      [operatorId]
+    );
+    await client.query('DELETE FROM user_sessions WHERE user_id = ANY($1)', [users.rows.map(user => user.id)]);
+
+    const result = await client.query(`
+      UPDATE operators
+      SET employment_status = 'terminated', terminated_on = $1, hired_on = COALESCE($2, hired_on), status = 'offline'
+      WHERE id = $3
+      RETURNING *
+    `, [lastDay, hiredOn, operatorId]);
+    operator = result.rows[0];
+
+    await client.query('COMMIT');
+    Object.assign(removed, {
+      assignments: assignments.rows.length,
+      leave_requests: leave.rows.length,
+      shift_trades: trades.rows.length
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  broadcast('resync', { entity: 'operators' });
+  return { operator, removed };
+};
+
+// Why an operator cannot be terminated with this last day, or null when they can
+const checkTermination = async (operator: Row, lastDay: string, hiredOn: string | null | undefined) => {
+  if (lastDay > await getToday('operator', operator.id)) {
+    return { field: 'terminated_on', message: 'Last day cannot be in the future; terminate the operator on or after it' };
+  }
+  if (hiredOn && lastDay < hiredOn) {
+    return { field: 'terminated_on', message: 'Last day must not be before the hire date' };
+  }
+  const open = await query(
+    'SELECT 1 FROM attendance_logs WHERE operator_id = $1 AND clock_in IS NOT NULL AND clock_out IS NULL LIMIT 1',
+    [operator.id]
+  );
+  return open.rows.length > 0 ? { field: null, message: 'Operator is clocked in; clock them out first' } : null;
+};
+
+// Archives the operator as of today; their history is kept and they can be restored
+app.delete('/api/operators/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await fetchRow('operators', id);
+    if (!before) {
+      return sendError(res, 404, 'Operator not found');
+    }
+    if (before.employment_status === 'terminated') {
+      return sendError(res, 409, 'Operator is already archived');
+    }
+
+    const lastDay = await getToday('operator', id);
+    const refusal = await checkTermination(before, lastDay, before.hired_on);
+    if (refusal) {
+      return sendError(res, 409, refusal.message);
+    }
+
+    const { operator, removed } = await terminateOperator(req, id, lastDay, null);
+    await recordAudit(req, 'terminate', 'operator', id, before, operator);
+
+    res.json({ ...operator, removed });
+  } catch (error) {
+    handleError(res, error, 'archiving operator');
+  }
+});
+
+// Move an operator through the employment lifecycle: on a leave of absence, back to active, or
+// terminated with a last day. Restoring a terminated operator does not re-enable their logins.
+app.put('/api/operators/:id/employment', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(operatorEmploymentSchema, req, res, checkEmployment);
+    if (!body) return;
+    const { employment_status, hired_on } = body;
+
+    const before = await fetchRow('operators', id);
+    if (!before) {
+      return sendError(res, 404, 'Operator not found');
+    }
+    if (before.anonymized_at) {
+      return sendError(res, 409, 'Anonymised operators cannot be restored');
+    }
+
+    if (employment_status === 'terminated') {
+      const lastDay = body.terminated_on || await getToday('operator', id);
+      const refusal = await checkTermination(before, lastDay, hired_on ?? before.hired_on);
+      if (refusal) {
+        return refusal.field
+          ? sendFieldErrors(res, [{ field: refusal.field, message: refusal.message }])
+          : sendError(res, 409, refusal.message);
+      }
+
+      const { operator, removed } = await terminateOperator(req, id, lastDay, hired_on);
+      await recordAudit(req, 'terminate', 'operator', id, before, operator);
+      return res.json({ ...operator, removed });
+    }
+
+    const result = await query(`
+      UPDATE operators
+      SET employment_status = $1, terminated_on = NULL, hired_on = COALESCE($2, hired_on)
+      WHERE id = $3
+      RETURNING *
+    `, [employment_status, hired_on, id]);
+
+    await recordAudit(req, before.employment_status === 'terminated' ? 'restore' : 'update', 'operator', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'operators' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating employment');
+  }
+});
+
+// Merge `replacement`'s values into a JSONB column, for the keys the column already has
+const replaceJsonKeys = (column: string, replacement: string) => `
+  CASE WHEN ${column} IS NULL THEN NULL ELSE ${column} || (
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+    FROM jsonb_each(${replacement}::jsonb)
+    WHERE ${column} ? key
+  ) END`;
+
+// Erase a terminated operator's personal details (GDPR). Their attendance, assignments and
+// performance stay, under a placeholder name, and the audit trail is redacted the same way.
+app.post('/api/operators/:id/anonymize', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await fetchRow('operators', id);
+    if (!before) {
+      return sendError(res, 404, 'Operator not found');
+    }
+    if (before.anonymized_at) {
+      return sendError(res, 409, 'Operator is already anonymised');
+    }
+    if (before.employment_status !== 'terminated') {
+      return sendError(res, 409, 'Only terminated operators can be anonymised');
+    }
+
+    const name = `Former operator ${id}`;
+    const identity = { name, email: `operator-${id}@anonymized.invalid`, employee_id: null };
+    const references = { operator_name: name, badge_number: null };
+
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+    let operator: Row;
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE operators
+        SET name = $1, email = $2, employee_id = NULL, anonymized_at = CURRENT_TIMESTAMP
+        WHERE id = $3
+        RETURNING *
+      `, [identity.name, identity.email, id]);
+      operator = result.rows[0];
+
+      await client.query('DELETE FROM operator_kiosk_credentials WHERE operator_id = $1', [id]);
+
+      // The audit trail's append-only trigger lets this transaction's updates through
+      await client.query("SELECT set_config('app.audit_redaction', 'on', true)");
+      await client.query(`
+        UPDATE audit_log
+        SET before_data = ${replaceJsonKeys('before_data', '$2')}, after_data = ${replaceJsonKeys('after_data', '$2')}
+        WHERE entity_type = 'operator' AND entity_id = $1
+      `, [id, JSON.stringify(identity)]);
+      await client.query(`
+        UPDATE audit_log
+        SET before_data = ${replaceJsonKeys('before_data', '$2')}, after_data = ${replaceJsonKeys('after_data', '$2')}
+        WHERE before_data->>'operator_id' = $1 OR after_data->>'operator_id' = $1
+      `, [id, JSON.stringify(references)]);
+      await client.query("SELECT set_config('app.audit_redaction', 'off', true)");
+
+      await recordAudit(req, 'anonymize', 'operator', id, null, operator, executor);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    broadcast('resync', { entity: 'operators' });
+    res.json(operator);
+  } catch (error) {
+    handleError(res, error, 'anonymising operator');
+  }
+});
+
+// CERTIFICATIONS ENDPOINTS
+app.get('/api/certifications', async (_req, res) => {
+  try {
+    const result = await query('SELECT * FROM certifications ORDER BY name');
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching certifications');
+  }
+});
+
+app.post('/api/certifications', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(certificationSchema, req, res);
+    if (!body) return;
+    const { name, description, validity_months } = body;
+
+    const result = await query(
+      'INSERT INTO certifications (name, description, validity_months) VALUES ($1, $2, $3) RETURNING *',
+      [name, description || null, validity_months || null]
+    );
+
+    await recordAudit(req, 'create', 'certification', result.rows[0].id, null, result.rows[0]);
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Certification name already exists', { errors: [{ field: 'name', message: 'Certification name already exists' }] });
+    }
+    handleError(res, error, 'creating certification');
+  }
+});
+
+app.put('/api/certifications/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(partial(certificationSchema), req, res);
+    if (!body) return;
+    const { name, description, validity_months } = body;
+    const before = await fetchRow('certifications', id);
+
+    if (!before) {
+      return sendError(res, 404, 'Certification not found');
+    }
+
+    const result = await query(`
+      UPDATE certifications
+      SET name = COALESCE($1, name),
+          description = COALESCE($2, description),
+          validity_months = COALESCE($3, validity_months)
+      WHERE id = $4
+      RETURNING *
+    `, [name, description, validity_months, id]);
+
+    await recordAudit(req, 'update', 'certification', id, before, result.rows[0]);
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation
+      return sendError(res, 409, 'Certification name already exists', { errors: [{ field: 'name', message: 'Certification name already exists' }] });
+    }
+    handleError(res, error, 'updating certification');
+  }
+});
+
+// Certifications held, for building the skills matrix
+app.get('/api/operator-certifications', async (req, res) => {
+  try {
+    const filters = parseQuery(operatorCertificationsQuerySchema, req, res);
+    if (!filters) return;
+    const { operator_id } = filters;
+    const params: Id[] = [];
+    let filter = '';
+    if (operator_id) {
+      params.push(operator_id);
+      filter = 'WHERE oc.operator_id = $1';
+    }
+
+    const result = await query(`
+      SELECT oc.*, c.name as certification_name
+      FROM operator_certifications oc
+      JOIN certifications c ON oc.certification_id = c.id
+      ${filter}
+      ORDER BY oc.operator_id, c.name
+    `, params);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching operator certifications');
+  }
+});
+
+// Certifications that have expired or lapse within `days` (default CERTIFICATION_WARNING_DAYS)
+app.get('/api/certifications/expiring', async (req, res) => {
+  try {
+    const filters = parseQuery(expiringQuerySchema, req, res);
+    if (!filters) return;
+    const days = filters.days ?? CERTIFICATION_WARNING_DAYS;
+    const today = await getToday('site', filters.site_id);
+
+    const result = await query(`
+      SELECT oc.*, c.name as certification_name, o.name as operator_name, o.employee_id,
+             oc.expires_on < $1 as expired
+      FROM operator_certifications oc
+      JOIN certifications c ON oc.certification_id = c.id
+      JOIN operators o ON oc.operator_id = o.id
+      WHERE oc.expires_on IS NOT NULL AND oc.expires_on <= $2
+      ORDER BY oc.expires_on, o.name
+    `, [today, addDays(today, days)]);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching expiring certifications');
+  }
+});
+
+// Grant or renew a certification. Without expires_on, the certification's validity period applies.
+app.put('/api/operators/:id/certifications/:certificationId', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id, certificationId } = req.params;
+    const body = parseBody(operatorCertificationSchema, req, res, checkCertificationDates);
+    if (!body) return;
+    const { certified_on, expires_on } = body;
+
+    const existing = await query(
+      'SELECT * FROM operator_certifications WHERE operator_id = $1 AND certification_id = $2',
+      [id, certificationId]
+    );
+    const before = existing.rows[0] || null;
+
+    const result = await query(`
+      INSERT INTO operator_certifications (operator_id, certification_id, certified_on, expires_on)
+      SELECT $1, c.id, $3::date,
+             COALESCE($4::date, ($3::date + make_interval(months => c.validity_months))::date)
+      FROM certifications c
+      WHERE c.id = $2
+      ON CONFLICT (operator_id, certification_id)
+      DO UPDATE SET certified_on = EXCLUDED.certified_on, expires_on = EXCLUDED.expires_on
+      RETURNING *
+    `, [id, certificationId, certified_on, expires_on || null]);
+
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Certification not found');
+    }
+
+    await recordAudit(req, before ? 'update' : 'create', 'operator_certification', result.rows[0].id, before, result.rows[0]);
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Operator not found');
+    }
+    if (pgErrorCode(error) === '23514') { // Check violation
+      return sendFieldErrors(res, [{ field: 'expires_on', message: 'Expires on must not be before the certification date' }]);
+    }
+    handleError(res, error, 'saving operator certification');
+  }
+});
+
+app.delete('/api/operators/:id/certifications/:certificationId', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id, certificationId } = req.params;
+    const result = await query(
+      'DELETE FROM operator_certifications WHERE operator_id = $1 AND certification_id = $2 RETURNING *',
+      [id, certificationId]
+    );
+
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Operator certification not found');
+    }
+
+    await recordAudit(req, 'delete', 'operator_certification', result.rows[0].id, result.rows[0], null);
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'removing operator certification');
+  }
+});
+
+app.get('/api/station-requirements', async (_req, res) => {
+  try {
+    const result = await query(`
+      SELECT sr.*, c.name as certification_name
+      FROM station_requirements sr
+      JOIN certifications c ON sr.certification_id = c.id
+      ORDER BY sr.station_id, c.name
+    `);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching station requirements');
+  }
+});
+
+// Replace the set of certifications a station requires
+app.put('/api/stations/:id/requirements', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(stationRequirementsSchema, req, res);
+    if (!body) return;
+    const { certification_ids } = body;
+
+    const station = await fetchRow('stations', id);
+    if (!station) {
+      return sendError(res, 404, 'Station not found');
+    }
+
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+    let before;
+    let after;
+
+    try {
+      await client.query('BEGIN');
+      before = await client.query('SELECT certification_id FROM station_requirements WHERE station_id = $1 ORDER BY certification_id', [id]);
+      await client.query('DELETE FROM station_requirements WHERE station_id = $1', [id]);
+      await client.query(`
+        INSERT INTO station_requirements (station_id, certification_id)
+        SELECT $1, unnest($2::int[])
+        ON CONFLICT DO NOTHING
+      `, [id, certification_ids]);
+      after = await client.query('SELECT certification_id FROM station_requirements WHERE station_id = $1 ORDER BY certification_id', [id]);
+
+      await recordAudit(
+        req, 'update', 'station_requirements', id,
+        { station_id: Number(id), certification_ids: before.rows.map(row => row.certification_id) },
+        { station_id: Number(id), certification_ids: after.rows.map(row => row.certification_id) },
+        executor
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    res.json({ station_id: Number(id), certification_ids: after.rows.map(row => row.certification_id) });
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Certification not found', { errors: [{ field: 'certification_ids', message: 'Certification not found' }] });
+    }
+    handleError(res, error, 'updating station requirements');
+  }
+});
+
+// SHIFTS ENDPOINTS
+app.get('/api/shifts', async (req, res) => {
+  try {
+    const filters = parseQuery(shiftsQuerySchema, req, res);
+    if (!filters) return;
+    // Counts are for `date` when given, otherwise for today. Assigned operators on approved
+    // leave still hold their place but are not available.
+    const today = filters.date || await getToday('site', filters.site_id);
+    const result = await query(`
+      SELECT s.*, d.name as department_name,
+             COUNT(sa.id) as assigned_count,
+             COUNT(sa.id) FILTER (WHERE ${onApprovedLeave('sa.operator_id', '$1')}) as on_leave_count,
+             COUNT(sa.id) FILTER (WHERE NOT ${onApprovedLeave('sa.operator_id', '$1')}) as available_count
+      FROM shifts s
+      LEFT JOIN departments d ON s.department_id = d.id
+      LEFT JOIN shift_assignments sa ON s.id = sa.shift_id AND sa.assigned_date = $1
+      WHERE s.is_active = true
+      GROUP BY s.id, d.name
+      ORDER BY s.start_time
+    `, [today]);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching shifts');
+  }
+});
+
+app.post('/api/shifts', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(shiftSchema, req, res, checkShiftTimes);
+    if (!body) return;
+    const { name, start_time, end_time, start_date, end_date, department_id, capacity } = body;
+
+    const result = await query(`
+      INSERT INTO shifts (name, start_time, end_time, start_date, end_date, department_id, capacity)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [name, start_time, end_time, start_date, end_date, department_id, capacity]);
+
+    await recordAudit(req, 'create', 'shift', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'shifts' });
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'creating shift');
+  }
+});
+
+app.put('/api/shifts/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(partial(shiftSchema), req, res);
+    if (!body) return;
+    const { name, start_time, end_time, start_date, end_date, department_id, capacity } = body;
+
+    const before = await fetchRow('shifts', id);
+    if (!before) {
+      return sendError(res, 404, 'Shift not found');
+    }
+    const timeErrors = checkShiftTimes({
+      start_time: start_time || before.start_time,
+      end_time: end_time || before.end_time,
+      start_date: start_date || before.start_date,
+      end_date: end_date || before.end_date
+    });
+    if (timeErrors.length > 0) {
+      return sendFieldErrors(res, timeErrors);
+    }
+
+    const result = await query(`
+      UPDATE shifts 
+      SET name = COALESCE($1, name),
+          start_time = COALESCE($2, start_time),
+          end_time = COALESCE($3, end_time),
+          start_date = COALESCE($4, start_date),
+          end_date = COALESCE($5, end_date),
+          department_id = COALESCE($6, department_id),
+          capacity = COALESCE($7, capacity)
+      WHERE id = $8
+      RETURNING *
+    `, [name, start_time, end_time, start_date, end_date, department_id, capacity, id]);
+
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Shift not found');
+    }
+
+    await recordAudit(req, 'update', 'shift', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'shifts' });
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating shift');
+  }
+});
+
+// ROSTER ENDPOINTS
+app.get('/api/roster', async (req, res) => {
+  try {
+    const filters = parseQuery(rosterQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const { from, to, department_id } = filters;
+
+    const params: Id[] = [from, to];
+    let departmentFilter = '';
+    if (department_id) {
+      params.push(department_id);
+      departmentFilter = `AND o.department_id = $${params.length}`;
+    }
+
+    const result = await query(`
+      SELECT sa.*, o.name as operator_name, o.department_id,
+             sh.name as shift_name, sh.start_time, sh.end_time,
+             s.name as station_name, pl.name as line_name
+      FROM shift_assignments sa
+      JOIN operators o ON sa.operator_id = o.id
+      JOIN shifts sh ON sa.shift_id = sh.id
+      LEFT JOIN stations s ON sa.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      WHERE sa.assigned_date BETWEEN $1 AND $2 ${departmentFilter}
+      ORDER BY sa.assigned_date, o.name
+    `, params);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching roster');
+  }
+});
+
+app.get('/api/roster/templates', (_req, res) => {
+  res.json(Object.entries(ROSTER_TEMPLATES).map(([id, { label, shifts, build }]) => ({
+    id,
+    label,
+    shifts,
+    cycle_days: build(Array(shifts).fill(0)).length
+  })));
+});
+
+app.post('/api/roster/preview', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(rosterSchema, req, res);
+    if (!body) return;
+
+    const plan = await planRoster(body);
+    if ('error' in plan) {
+      return sendError(res, plan.status, plan.error);
+    }
+
+    res.json(plan);
+  } catch (error) {
+    handleError(res, error, 'previewing roster');
+  }
+});
+
+// Apply a roster in one transaction. Existing assignments are kept unless `overwrite` is set.
+app.post('/api/roster/commit', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(rosterSchema, req, res);
+    if (!body) return;
+
+    const plan = await planRoster(body);
+    if ('error' in plan) {
+      return sendError(res, plan.status, plan.error);
+    }
+
+    const blocking = plan.conflicts.filter(conflict => conflict.severity === 'error');
+    if (blocking.length > 0) {
+      return sendError(res, 409, 'Roster has conflicts that must be resolved first', { conflicts: blocking });
+    }
+
+    const overwrite = body.overwrite === true;
+    const summary = { created: 0, replaced: 0, skipped: 0 };
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+
+    try {
+      await client.query('BEGIN');
+
+      for (const assignment of plan.planned) {
+        if (assignment.unchanged || (assignment.existing && !overwrite)) {
+          summary.skipped++;
+          continue;
+        }
+
+        const result = await client.query(`
+          INSERT INTO shift_assignments (shift_id, operator_id, station_id, assigned_date)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (operator_id, assigned_date)
+          DO UPDATE SET station_id = EXCLUDED.station_id, shift_id = EXCLUDED.shift_id
+          RETURNING *
+        `, [assignment.shift_id, assignment.operator_id, assignment.station_id, assignment.assigned_date]);
+
+        await recordAudit(
+          req, assignment.existing ? 'roster_update' : 'roster_create', 'shift_assignment',
+          result.rows[0].id, assignment.existing, result.rows[0], executor
+        );
+        summary[assignment.existing ? 'replaced' : 'created']++;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    broadcast('resync', { entity: 'assignments' });
+
+    res.status(201).json({ message: 'Roster applied', ...summary, conflicts: plan.conflicts });
+  } catch (error) {
+    handleError(res, error, 'committing roster');
+  }
+});
+
+// SHIFT ASSIGNMENTS ENDPOINTS
+app.post('/api/shift-assignments', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(shiftAssignmentSchema, req, res);
+    if (!body) return;
+    const { shift_id, operator_id, station_id, assigned_date } = body;
+
+    const date = assigned_date || await getToday('operator', operator_id);
+    const existing = await query(
+      'SELECT * FROM shift_assignments WHERE operator_id = $1 AND assigned_date = $2',
+      [operator_id, date]
+    );
+    const before = existing.rows[0] || null;
+
+    // If station_id is null or 0, it means we are un-assigning the operator
+    if (!station_id) {
+      await query(
+        'DELETE FROM shift_assignments WHERE operator_id = $1 AND assigned_date = $2',
+        [operator_id, date]
+      );
+      if (before) {
+        await recordAudit(req, 'delete', 'shift_assignment', before.id, before, null);
+        await broadcastAssignment(operator_id, date);
+        await classifyAttendance(date, new Date(), operator_id);
+      }
+      return res.status(200).json({ message: 'Operator unassigned successfully'});
+    }
+
+    const station = await query(`
+      SELECT s.status, pl.status as line_status
+      FROM stations s JOIN production_lines pl ON s.line_id = pl.id
+      WHERE s.id = $1
+    `, [station_id]);
+    if (station.rows.length === 0) {
+      return sendError(res, 404, 'Station not found');
+    }
+    if (station.rows[0].status !== 'active' || station.rows[0].line_status !== 'active') {
+      return sendError(res, 422, 'Station is inactive');
+    }
+
+    const [unavailable] = await loadUnavailableOperators([operator_id]);
+    if (unavailable) {
+      return sendError(res, 422, describeUnavailable(unavailable));
+    }
+
+    const [leave] = await loadApprovedLeave([operator_id], date, date);
+    if (leave) {
+      return sendError(res, 422, `Operator is on approved leave (${leave.leave_type_name}) from ${leave.start_date} to ${leave.end_date}`, {
+        leave_request_id: leave.id
+      });
+    }
+
+    const qualification = await checkQualification(operator_id, station_id, date);
+    if (!qualification.qualified && QUALIFICATION_ENFORCEMENT === 'block') {
+      return sendError(res, 422, `Operator is not qualified for this station. Missing: ${describeMissing(qualification.missing)}`, {
+        missing: qualification.missing
+      });
+    }
+    const violations = await checkScheduleCompliance([{ operator_id, shift_id, date }]);
+    const blocking = violations.filter(violation => violation.severity === 'block');
+    if (blocking.length > 0) {
+      return sendError(res, 422, blocking.map(violation => violation.message).join('; '), { violations: blocking });
+    }
+    const warnings = [
+      ...qualification.missing.map(m => `Missing certification: ${describeMissing([m])}`),
+      ...qualification.expiring.map(e => `Certification ${e.name} expires on ${e.expires_on}`),
+      ...violations.map(violation => violation.message)
+    ];
+
+    // Upsert logic: insert a new assignment or update the station if one already exists for the operator on that day
+    const result = await query(`
+      INSERT INTO shift_assignments (shift_id, operator_id, station_id, assigned_date)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (operator_id, assigned_date) 
+      DO UPDATE SET station_id = EXCLUDED.station_id, shift_id = EXCLUDED.shift_id
+      RETURNING *
+    `, [shift_id, operator_id, station_id, date]);
+
+    await recordAudit(req, before ? 'update' : 'create', 'shift_assignment', result.rows[0].id, before, result.rows[0]);
+    await broadcastAssignment(operator_id, date);
+    await classifyAttendance(date, new Date(), operator_id);
+
+    res.status(201).json({ ...result.rows[0], warnings });
+  } catch (error) {
+    handleError(res, error, 'creating/updating shift assignment');
+  }
+});
+
+app.delete('/api/shift-assignments/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('DELETE FROM shift_assignments WHERE id = $1 RETURNING *', [id]);
+    
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Assignment not found');
+    }
+
+    await recordAudit(req, 'delete', 'shift_assignment', id, result.rows[0], null);
+    await broadcastAssignment(result.rows[0].operator_id, result.rows[0].assigned_date);
+    await classifyAttendance(result.rows[0].assigned_date, new Date(), result.rows[0].operator_id);
+    
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'deleting assignment');
+  }
+});
+
+// SHIFT TRADE ENDPOINTS
+// Trades for shifts from..to. Operator accounts see the open ones, which form the marketplace,
+// and those they take part in.
+app.get('/api/shift-trades', async (req, res) => {
+  try {
+    const filters = parseQuery(shiftTradesQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+
+    const conditions = ['true'];
+    const params: unknown[] = [];
+    const addCondition = (condition: string, value: unknown) => {
+      params.push(value);
+      conditions.push(condition.replaceAll('?', `$${params.length}`));
+    };
+
+    if (filters.from) addCondition('(t.shift_date >= ? OR t.counter_date >= ?)', filters.from);
+    if (filters.to) addCondition('(t.shift_date <= ? OR t.counter_date <= ?)', filters.to);
+    if (filters.department_id) addCondition('sh.department_id = ?', filters.department_id);
+    if (filters.operator_id) addCondition('(t.offered_by = ? OR t.claimed_by = ?)', filters.operator_id);
+    if (filters.status) addCondition('t.status = ?', filters.status);
+    if (req.user.role === 'operator') {
+      addCondition(`(t.status = 'open' OR t.offered_by = ? OR t.claimed_by = ?)`, req.user.operator_id || 0);
+    }
+
+    const result = await query(`
+      ${SHIFT_TRADE_SELECT}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY t.shift_date, sh.start_time, t.id
+    `, params);
+    const trades: ShiftTrade[] = result.rows as ShiftTrade[];
+    res.json(trades);
+  } catch (error) {
+    handleError(res, error, 'fetching shift trades');
+  }
+});
+
+const fetchShiftTrade = async (id: Id) => {
+  const result = await query(`${SHIFT_TRADE_SELECT} WHERE t.id = $1`, [id]);
+  return (result.rows[0] as ShiftTrade | undefined) || null;
+};
+
+// Operators offer their own assignments; supervisors can offer anyone's
+app.post('/api/shift-trades', authorize('admin', 'supervisor', 'operator'), async (req, res) => {
+  try {
+    const body = parseBody(shiftOfferSchema, req, res);
+    if (!body) return;
+
+    const assignment = await fetchRow('shift_assignments', body.assignment_id);
+    if (!assignment) {
+      return sendError(res, 404, 'Assignment not found', { errors: [{ field: 'assignment_id', message: 'Assignment not found' }] });
+    }
+    if (!SUPERVISORS.includes(req.user.role) && String(req.user.operator_id) !== String(assignment.operator_id)) {
+      return sendError(res, 403, 'Operators can only perform this action for themselves');
+    }
+    if (assignment.assigned_date < await getToday('operator', assignment.operator_id)) {
+      return sendError(res, 409, 'Past shifts cannot be offered');
+    }
+
+    const result = await query(`
+      INSERT INTO shift_trades (kind, assignment_id, offered_by, shift_id, station_id, shift_date, note, created_by)
+      VALUES ('offer', $1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [assignment.id, assignment.operator_id, assignment.shift_id, assignment.station_id, assignment.assigned_date, body.note, req.user.id]);
+
+    await recordAudit(req, 'create', 'shift_trade', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'shift_trades' });
+    res.status(201).json(await fetchShiftTrade(result.rows[0].id));
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') {
+      return sendError(res, 409, 'This shift is already on offer');
+    }
+    handleError(res, error, 'offering shift');
+  }
+});
+
+// A place on a shift that nobody holds yet, for any qualified operator to claim
+app.post('/api/shift-trades/open-shifts', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(openShiftSchema, req, res);
+    if (!body) return;
+    const { shift_id, station_id, shift_date, note } = body;
+
+    const shift = await fetchRow('shifts', shift_id);
+    if (!shift) {
+      return sendError(res, 404, 'Shift not found', { errors: [{ field: 'shift_id', message: 'Shift not found' }] });
+    }
+    if (shift_date < await getToday('department', shift.department_id)) {
+      return sendFieldErrors(res, [{ field: 'shift_date', message: 'Date must not be in the past' }]);
+    }
+
+    const result = await query(`
+      INSERT INTO shift_trades (kind, shift_id, station_id, shift_date, note, created_by)
+      VALUES ('open_shift', $1, $2, $3, $4, $5)
+      RETURNING *
+    `, [shift_id, station_id, shift_date, note, req.user.id]);
+
+    await recordAudit(req, 'create', 'shift_trade', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'shift_trades' });
+    res.status(201).json(await fetchShiftTrade(result.rows[0].id));
+  } catch (error) {
+    handleError(res, error, 'posting open shift');
+  }
+});
+
+// A trade must be in one of `statuses` for the action; sends the 404 or 409 itself otherwise
+const findShiftTradeIn = async (res: Response, id: Id, statuses: ShiftTrade['status'][], action: string) => {
+  const trade = await fetchRow('shift_trades', id);
+  if (!trade) {
+    sendError(res, 404, 'Shift trade not found');
+    return null;
+  }
+  if (!statuses.includes(trade.status)) {
+    sendError(res, 409, `Only ${statuses.join(' or ')} trades can be ${action}; this one is ${trade.status}`);
+    return null;
+  }
+  return trade;
+};
+
+// Refuse a trade whose checks found errors, listing them; returns true when the response was sent
+const rejectBlockedTrade = (res: Response, conflicts: RosterConflict[]) => {
+  const blocking = conflicts.filter(conflict => conflict.severity === 'error');
+  if (blocking.length === 0) return false;
+  sendError(res, 422, `Trade breaks scheduling rules: ${blocking.map(conflict => conflict.message).join('; ')}`, { conflicts: blocking });
+  return true;
+};
+
+const sendShiftTradeResult = async (res: Response, id: Id, conflicts: RosterConflict[]) => {
+  const result: ShiftTradeResult = { ...(await fetchShiftTrade(id))!, conflicts };
+  res.json(result);
+};
+
+// Claim an open trade, optionally giving one of the claimant's own assignments in exchange. The
+// trade is checked now so operators learn straight away whether it can be approved.
+app.post('/api/shift-trades/:id/claim', authorizeSelf(req => req.body.operator_id), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(shiftClaimSchema, req, res);
+    if (!body) return;
+    const { operator_id, counter_assignment_id } = body;
+
+    const before = await findShiftTradeIn(res, id, ['open'], 'claimed');
+    if (!before) return;
+    if (String(before.offered_by) === String(operator_id)) {
+      return sendError(res, 422, 'Operators cannot claim their own shift');
+    }
+    const [unavailable] = await loadUnavailableOperators([operator_id]);
+    if (unavailable) {
+      return sendError(res, 422, describeUnavailable(unavailable));
+    }
+    const today = await getToday('operator', operator_id);
+    if (before.shift_date < today) {
+      return sendError(res, 409, 'This shift has already passed');
+    }
+
+    let counter: Row | null = null;
+    if (counter_assignment_id) {
+      if (before.kind !== 'offer') {
+        return sendFieldErrors(res, [{ field: 'counter_assignment_id', message: 'Open shifts can only be taken, not swapped' }]);
+      }
+      counter = await fetchRow('shift_assignments', counter_assignment_id);
+      if (!counter || String(counter.operator_id) !== String(operator_id)) {
+        return sendFieldErrors(res, [{ field: 'counter_assignment_id', message: 'Shift in exchange must be one of the operator\'s own assignments' }]);
+      }
+      if (counter.assigned_date < today) {
+        return sendFieldErrors(res, [{ field: 'counter_assignment_id', message: 'Shift in exchange has already passed' }]);
+      }
+    }
+
+    const claim = {
+      claimed_by: operator_id,
+      counter_assignment_id: counter?.id ?? null,
+      counter_shift_id: counter?.shift_id ?? null,
+      counter_station_id: counter?.station_id ?? null,
+      counter_date: counter?.assigned_date ?? null
+    };
+    const conflicts = await checkTrade({ ...before, ...claim });
+    if (rejectBlockedTrade(res, conflicts)) return;
+
+    const result = await query(`
+      UPDATE shift_trades
+      SET status = 'claimed', claimed_by = $1, claimed_at = CURRENT_TIMESTAMP,
+          counter_assignment_id = $2, counter_shift_id = $3, counter_station_id = $4, counter_date = $5,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $6 AND status = 'open'
+      RETURNING *
+    `, [claim.claimed_by, claim.counter_assignment_id, claim.counter_shift_id, claim.counter_station_id, claim.counter_date, id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Shift trade was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'claim', 'shift_trade', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'shift_trades' });
+    await sendShiftTradeResult(res, id, conflicts);
+  } catch (error) {
+    handleError(res, error, 'claiming shift trade');
+  }
+});
+
+// Approval re-runs the checks, then moves the assignments in one transaction: the claimant takes
+// over the offered assignment (or gets a new one for an open shift), and in a swap the offering
+// operator takes over the claimant's.
+app.post('/api/shift-trades/:id/approve', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(shiftTradeReviewSchema, req, res);
+    if (!body) return;
+
+    const before = await findShiftTradeIn(res, id, ['claimed'], 'approved');
+    if (!before) return;
+    if (before.shift_date < await getToday('operator', before.claimed_by)) {
+      return sendError(res, 409, 'This shift has already passed');
+    }
+    const conflicts = await checkTrade(before);
+    if (rejectBlockedTrade(res, conflicts)) return;
+
+    const offered: TradePlace = { operator_id: before.offered_by, shift_id: before.shift_id, station_id: before.station_id, date: before.shift_date };
+    const taken: TradePlace = { ...offered, operator_id: before.claimed_by };
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+    const changes: { before: Row | null; after: Row }[] = [];
+    let stale: string | null = null; // why the trade could not be applied after all
+
+    try {
+      await client.query('BEGIN');
+
+      const approved = await client.query(`
+        UPDATE shift_trades
+        SET status = 'approved', reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP, review_note = $2,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $3 AND status = 'claimed'
+        RETURNING *
+      `, [req.user.id, body.review_note, id]);
+
+      if (approved.rows.length === 0) {
+        stale = 'Shift trade was changed by someone else; reload and try again';
+      } else if (before.kind === 'open_shift') {
+        const created = await client.query(`
+          INSERT INTO shift_assignments (shift_id, operator_id, station_id, assigned_date)
+          VALUES ($1, $2, $3, $4)
+          RETURNING *
+        `, [taken.shift_id, taken.operator_id, taken.station_id, taken.date]);
+        changes.push({ before: null, after: created.rows[0] });
+      } else {
+        const moved = await moveTradedAssignment(executor, before.assignment_id, offered, before.counter_shift_id
+          ? { operator_id: before.offered_by, shift_id: before.counter_shift_id, station_id: before.counter_station_id, date: before.counter_date }
+          : taken);
+        const swapped = moved && before.counter_shift_id
+          ? await moveTradedAssignment(executor, before.counter_assignment_id,
+            { operator_id: before.claimed_by, shift_id: before.counter_shift_id, station_id: before.counter_station_id, date: before.counter_date },
+            taken)
+          : null;
+        if (!moved || (before.counter_shift_id && !swapped)) {
+          stale = 'The shifts in this trade have changed since it was made; cancel it and offer them again';
+        }
+        changes.push(...[moved, swapped].filter((change): change is NonNullable<typeof change> => change !== null));
+      }
+
+      if (stale) {
+        await client.query('ROLLBACK');
+      } else {
+        await recordAudit(req, 'approve', 'shift_trade', id, before, approved.rows[0], executor);
+        for (const change of changes) {
+          await recordAudit(req, change.before ? 'trade' : 'trade_create', 'shift_assignment', change.after.id, change.before, change.after, executor);
+        }
+        await client.query('COMMIT');
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (stale) {
+      return sendError(res, 409, stale);
+    }
+
+    const now = new Date();
+    for (const change of changes) {
+      for (const place of [change.before, change.after]) {
+        if (!place) continue;
+        await broadcastAssignment(place.operator_id, place.assigned_date);
+        await classifyAttendance(place.assigned_date, now, place.operator_id);
+      }
+    }
+    broadcast('resync', { entity: 'shift_trades' });
+    await sendShiftTradeResult(res, id, conflicts);
+  } catch (error) {
+    handleError(res, error, 'approving shift trade');
+  }
+});
+
+// Turn a claim down; the shift goes back on offer for others
+app.post('/api/shift-trades/:id/reject', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(shiftTradeReviewSchema, req, res);
+    if (!body) return;
+
+    const before = await findShiftTradeIn(res, id, ['claimed'], 'rejected');
+    if (!before) return;
+
+    const result = await query(`
+      UPDATE shift_trades
+      SET status = 'open', claimed_by = NULL, claimed_at = NULL,
+          counter_assignment_id = NULL, counter_shift_id = NULL, counter_station_id = NULL, counter_date = NULL,
+          reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP, review_note = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3 AND status = 'claimed'
+      RETURNING *
+    `, [req.user.id, body.review_note, id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Shift trade was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'reject', 'shift_trade', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'shift_trades' });
+    res.json(await fetchShiftTrade(id));
+  } catch (error) {
+    handleError(res, error, 'rejecting shift trade');
+  }
+});
+
+// The claimant (or a supervisor) takes a claim back before it is decided
+app.post('/api/shift-trades/:id/withdraw', authorize('admin', 'supervisor', 'operator'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await findShiftTradeIn(res, id, ['claimed'], 'withdrawn');
+    if (!before) return;
+    if (!SUPERVISORS.includes(req.user.role) && String(req.user.operator_id) !== String(before.claimed_by)) {
+      return sendError(res, 403, 'Operators can only perform this action for themselves');
+    }
+
+    const result = await query(`
+      UPDATE shift_trades
+      SET status = 'open', claimed_by = NULL, claimed_at = NULL,
+          counter_assignment_id = NULL, counter_shift_id = NULL, counter_station_id = NULL, counter_date = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'claimed'
+      RETURNING *
+    `, [id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Shift trade was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'withdraw', 'shift_trade', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'shift_trades' });
+    res.json(await fetchShiftTrade(id));
+  } catch (error) {
+    handleError(res, error, 'withdrawing shift trade claim');
+  }
+});
+
+// The offering operator takes their offer back, or a supervisor withdraws any trade not yet approved
+app.post('/api/shift-trades/:id/cancel', authorize('admin', 'supervisor', 'operator'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await findShiftTradeIn(res, id, ['open', 'claimed'], 'cancelled');
+    if (!before) return;
+    if (!SUPERVISORS.includes(req.user.role) && String(req.user.operator_id) !== String(before.offered_by)) {
+      return sendError(res, 403, 'Operators can only perform this action for themselves');
+    }
+
+    const result = await query(`
+      UPDATE shift_trades
+      SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = $2
+      RETURNING *
+    `, [id, before.status]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Shift trade was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'cancel', 'shift_trade', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'shift_trades' });
+    res.json(await fetchShiftTrade(id));
+  } catch (error) {
+    handleError(res, error, 'cancelling shift trade');
+  }
+});
+
+// ATTENDANCE ENDPOINTS
+app.get('/api/attendance', async (req, res) => {
+  try {
+    const filters = parseQuery(attendanceQuerySchema, req, res);
+    if (!filters) return;
+    const { date, operator_id, include_open } = filters;
+    let queryText = `
+      SELECT al.*, o.name as operator_name, sh.name as shift_name
+      FROM attendance_logs al
+      JOIN operators o ON al.operator_id = o.id
+      LEFT JOIN shifts sh ON al.shift_id = sh.id
+    `;
+    
+    const conditions: string[] = [];
+    const params: Id[] = [];
+
+    if (date) {
+      params.push(date);
+      // Overnight sessions started on an earlier day are still relevant while they are open
+      conditions.push(include_open
+        ? `(al.date = $${params.length} OR (al.date < $${params.length} AND al.clock_in IS NOT NULL AND al.clock_out IS NULL))`
+        : `al.date = $${params.length}`);
+    }
+    
+    if (operator_id) {
+      conditions.push(`al.operator_id = $${params.length + 1}`);
+      params.push(operator_id);
+    }
+    
+    if (conditions.length > 0) {
+      queryText += ' WHERE ' + conditions.join(' AND ');
+    }
+    
+    queryText += ' ORDER BY al.date DESC, o.name';
+    
+    const result = await query(queryText, params);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching attendance');
+  }
+});
+
+app.get('/api/attendance/break-types', (_req, res) => {
+  res.json(Object.entries(BREAK_TYPES).map(([id, type]) => ({ id, ...type })));
+});
+
+// Per-operator daily attendance: sessions with their breaks and worked/break/paid time
+app.get('/api/attendance/daily', async (req, res) => {
+  try {
+    const filters = parseQuery(attendanceQuerySchema, req, res);
+    if (!filters) return;
+    const { operator_id, include_open } = filters;
+    const date = filters.date || await getToday('site', filters.site_id);
+
+    const params: Id[] = [date];
+    let conditions = include_open
+      ? '(al.date = $1 OR (al.date < $1 AND al.clock_out IS NULL))'
+      : 'al.date = $1';
+    if (operator_id) {
+      params.push(operator_id);
+      conditions += ` AND al.operator_id = $${params.length}`;
+    }
+
+    const sessions = await query(`
+      SELECT al.*, o.name as operator_name, sh.name as shift_name
+      FROM attendance_logs al
+      JOIN operators o ON al.operator_id = o.id
+      LEFT JOIN shifts sh ON al.shift_id = sh.id
+      WHERE al.clock_in IS NOT NULL AND ${conditions}
+      ORDER BY o.name, al.clock_in
+    `, params);
+
+    const breaks = await query(
+      'SELECT * FROM attendance_breaks WHERE attendance_log_id = ANY($1) ORDER BY start_time',
+      [sessions.rows.map(session => session.id)]
+    );
+
+    res.json(buildDailyAttendance(sessions.rows, breaks.rows, new Date()));
+  } catch (error) {
+    handleError(res, error, 'fetching daily attendance');
+  }
+});
+
+// Clock an operator in or out. Shared by the attendance endpoints and the kiosk; callers validate
+// the input and send the result.
+type ClockRefusal = { error: string; status: number; details?: Record<string, unknown> };
+
+// Events queued by offline clients carry the time they happened and are recorded at that time, up
+// to OFFLINE_EVENT_MAX_HOURS later. A client clock slightly ahead of the server's counts as now.
+const OFFLINE_EVENT_MAX_HOURS = parseInt(process.env.OFFLINE_EVENT_MAX_HOURS || '24');
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+const resolveEventTime = (occurredAt: string | null | undefined): ClockRefusal | { at: Date } => {
+  const now = new Date();
+  if (!occurredAt) return { at: now };
+
+  const at = new Date(occurredAt);
+  const refuse = (message: string): ClockRefusal =>
+    ({ error: message, status: 422, details: { errors: [{ field: 'occurred_at', message }] } });
+  if (at.getTime() - now.getTime() > CLOCK_SKEW_MS) {
+    return refuse('Occurred at is in the future; check the device clock');
+  }
+  if (now.getTime() - at.getTime() > OFFLINE_EVENT_MAX_HOURS * 3600000) {
+    return refuse(`Events older than ${OFFLINE_EVENT_MAX_HOURS} hours are not recorded; a supervisor can correct the attendance`);
+  }
+  return { at: at > now ? now : at };
+};
+
+// The earliest clock-out held for the operator after `after` (and no later than `before`)
+const findHeldClockOut = async (operatorId: Id, after: Date, before?: Date | string) => {
+  const result = await query(`
+    SELECT * FROM held_clock_outs
+    WHERE operator_id = $1 AND clock_out > $2 AND ($3::timestamptz IS NULL OR clock_out <= $3)
+    ORDER BY clock_out
+    LIMIT 1
+  `, [operatorId, after, before ?? null]);
+  return result.rows[0] || null;
+};
+
+const clockIn = async (
+  req: Request, operatorId: number, shiftId: number | null | undefined, now: Date
+): Promise<ClockRefusal | { record: Row | null; warnings: string[] }> => {
+  const operator = await fetchRow('operators', operatorId);
+  if (!operator) {
+    return { error: 'Operator not found', status: 404, details: { errors: [{ field: 'operator_id', message: 'Operator not found' }] } };
+  }
+  // Clock-ins replayed from before the last day still count
+  if (operator.terminated_on && formatDate(now, await getTimezone('operator', operatorId)) > operator.terminated_on) {
+    return { error: 'Operator is no longer employed', status: 409 };
+  }
+
+  // The first session, open or closed, still running at `now`, whichever day it was started on.
+  // A clock-in replayed after later sessions were recorded fits in before them only when the
+  // clock-out that belongs to it is already held.
+  const running = await query(`
+    SELECT clock_in, clock_out FROM attendance_logs
+    WHERE operator_id = $1 AND clock_in IS NOT NULL AND (clock_out IS NULL OR clock_out > $2)
+    ORDER BY clock_in
+    LIMIT 1
+  `, [operatorId, now]);
+  const following = running.rows[0];
+  if (following && new Date(following.clock_in) <= now) {
+    return { error: following.clock_out ? 'Clock-in falls inside a recorded session' : 'Already clocked in', status: 409 };
+  }
+  const held = await findHeldClockOut(operatorId, now, following?.clock_in);
+  if (following && !held) {
+    return { error: 'A later session is already recorded; a supervisor can correct the attendance', status: 409 };
+  }
+
+  const timeZone = await getTimezone('operator', operatorId);
+  const shift = await findCurrentShift(operatorId, shiftId, now, timeZone);
+  if (shiftId && !shift) {
+    return { error: 'Shift not found', status: 404, details: { errors: [{ field: 'shift_id', message: 'Shift not found' }] } };
+  }
+  const shiftDate = resolveShiftDate(shift, now, timeZone);
+
+  const violations = await checkClockInCompliance(operatorId, shiftDate, shift, now, timeZone);
+  const blocking = violations.filter(violation => violation.severity === 'block');
+  if (blocking.length > 0) {
+    return { error: blocking.map(violation => violation.message).join('; '), status: 422, details: { violations: blocking } };
+  }
+
+  // Every clock-in opens a new session, so split shifts keep the hours worked earlier in the day.
+  // One with a held clock-out is inserted closed, since a later session may be open.
+  let result;
+  try {
+    result = await query(`
+      INSERT INTO attendance_logs (operator_id, date, clock_in, clock_out, status, shift_id)
+      VALUES ($1, $2, $3, $4, 'present', $5)
+      RETURNING *
+    `, [operatorId, shiftDate, now, held?.clock_out ?? null, shift?.id || null]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // A concurrent clock-in already opened a session
+      return { error: 'Already clocked in', status: 409 };
+    }
+    throw error;
+  }
+
+  await recordAudit(req, 'clock_in', 'attendance', result.rows[0].id, null, result.rows[0]);
+  await setOperatorStatus(operatorId, 'online', now);
+  broadcast('attendance', { action: 'clock_in', operator_id: Number(operatorId) });
+
+  if (held) {
+    await query('DELETE FROM held_clock_outs WHERE id = $1', [held.id]);
+    await closeSession(req, result.rows[0], new Date(held.clock_out));
+  } else {
+    await classifyAttendance(shiftDate, new Date(), operatorId);
+  }
+
+  return {
+    record: await fetchRow('attendance_logs', result.rows[0].id),
+    warnings: violations.map(violation => violation.message)
+  };
+};
+
+// End a session at `now`, with any break still running in it
+const closeSession = async (req: Request, session: Row, now: Date) => {
+  await query(
+    'UPDATE attendance_breaks SET end_time = $1 WHERE attendance_log_id = $2 AND end_time IS NULL',
+    [now, session.id]
+  );
+  const breaks = await query('SELECT * FROM attendance_breaks WHERE attendance_log_id = $1', [session.id]);
+  const totals = summarizeSession({ ...session, clock_out: now }, breaks.rows, now);
+  const totalHours = Math.round(totals.worked_minutes / 60 * 100) / 100;
+
+  const result = await query(`
+    UPDATE attendance_logs 
+    SET clock_out = $1, total_hours = $2, break_minutes = $3, paid_hours = $4
+    WHERE id = $5
+    RETURNING *
+  `, [now, totalHours, totals.break_minutes, Math.round(totals.paid_minutes / 60 * 100) / 100, session.id]);
+
+  await recordAudit(req, 'clock_out', 'attendance', session.id, session, result.rows[0]);
+  await classifyAttendance(session.date, new Date(), session.operator_id);
+  await setOperatorStatus(session.operator_id, 'offline', now);
+  broadcast('attendance', { action: 'clock_out', operator_id: Number(session.operator_id) });
+
+  return totalHours;
+};
+
+// With `hold`, a clock-out that no open session can take (none is open, or the open one started
+// later) is held for the clock-in it belongs to, which another device has yet to replay
+const clockOut = async (
+  req: Request, operatorId: number, now: Date, hold = false
+): Promise<ClockRefusal | { record: Row | null; totalHours: number } | { held: Row }> => {
+  // Match the open session regardless of calendar day so overnight shifts can clock out
+  const session = await findOpenSession(operatorId);
+
+  if (!session || new Date(session.clock_in) > now) {
+    if (!hold) {
+      return { error: session ? 'Clock-out is before the clock-in' : 'No active clock-in found', status: 409 };
+    }
+    if (!(await fetchRow('operators', operatorId))) {
+      return { error: 'Operator not found', status: 404, details: { errors: [{ field: 'operator_id', message: 'Operator not found' }] } };
+    }
+    const result = await query(
+      'INSERT INTO held_clock_outs (operator_id, clock_out, recorded_by) VALUES ($1, $2, $3) RETURNING *',
+      [operatorId, now, req.user?.id ?? null]
+    );
+    await recordAudit(req, 'hold_clock_out', 'attendance', operatorId, null, result.rows[0]);
+    return { held: result.rows[0] };
+  }
+
+  const totalHours = await closeSession(req, session, now);
+  return { record: await fetchRow('attendance_logs', session.id), totalHours };
+};
+
+app.post('/api/attendance/clock-in', authorizeSelf(req => req.body.operator_id), async (req, res) => {
+  try {
+    const body = parseBody(clockEventSchema, req, res);
+    if (!body) return;
+
+    const time = resolveEventTime(body.occurred_at);
+    if ('error' in time) {
+      return sendError(res, time.status, time.error, time.details);
+    }
+
+    const result = await clockIn(req, body.operator_id, body.shift_id, time.at);
+    if ('error' in result) {
+      return sendError(res, result.status, result.error, result.details);
+    }
+
+    res.json({ message: 'Clocked in successfully', ...result });
+  } catch (error) {
+    handleError(res, error, 'clocking in');
+  }
+});
+
+app.post('/api/attendance/clock-out', authorizeSelf(req => req.body.operator_id), async (req, res) => {
+  try {
+    const body = parseBody(clockEventSchema, req, res);
+    if (!body) return;
+
+    const time = resolveEventTime(body.occurred_at);
+    if ('error' in time) {
+      return sendError(res, time.status, time.error, time.details);
+    }
+
+    // Only replayed clock-outs are held; one made now without an open session is a mistake
+    const result = await clockOut(req, body.operator_id, time.at, Boolean(body.occurred_at));
+    if ('error' in result) {
+      return sendError(res, result.status, result.error, result.details);
+    }
+    if ('held' in result) {
+      return res.status(202).json({ message: 'Clock-out held until the matching clock-in arrives', ...result });
+    }
+
+    res.json({ message: 'Clocked out successfully', ...result });
+  } catch (error) {
+    handleError(res, error, 'clocking out');
+  }
+});
+
+app.post('/api/attendance/break-start', authorizeSelf(req => req.body.operator_id), async (req, res) => {
+  try {
+    const body = parseBody(breakEventSchema, req, res);
+    if (!body) return;
+    const { operator_id, break_type, occurred_at } = body;
+    const type = break_type || 'rest';
+
+    if (!isBreakType(type)) {
+      const message = `Break type must be one of: ${Object.keys(BREAK_TYPES).join(', ')}`;
+      return sendFieldErrors(res, [{ field: 'break_type', message }]);
+    }
+    const time = resolveEventTime(occurred_at);
+    if ('error' in time) {
+      return sendError(res, time.status, time.error, time.details);
+    }
+
+    const result = await startBreak(operator_id, type, time.at);
+    if ('error' in result) {
+      return sendError(res, 409, result.error);
+    }
+
+    await recordAudit(req, 'break_start', 'attendance_break', result.record.id, null, result.record);
+
+    res.status(201).json({ message: 'Break started', record: result.record });
+  } catch (error) {
+    handleError(res, error, 'starting break');
+  }
+});
+
+app.post('/api/attendance/break-end', authorizeSelf(req => req.body.operator_id), async (req, res) => {
+  try {
+    const body = parseBody(breakEventSchema, req, res);
+    if (!body) return;
+    const { operator_id, occurred_at } = body;
+    const time = resolveEventTime(occurred_at);
+    if ('error' in time) {
+      return sendError(res, time.status, time.error, time.details);
+    }
+
+    const result = await endBreak(operator_id, time.at);
+    if ('error' in result) {
+      return sendError(res, 409, result.error);
+    }
+
+    await recordAudit(req, 'break_end', 'attendance_break', result.record.id, null, result.record);
+
+    res.json({ message: 'Break ended', record: result.record });
+  } catch (error) {
+    handleError(res, error, 'ending break');
+  }
+});
+
+// Clock-outs replayed from offline clients that are still waiting for their clock-in
+app.get('/api/attendance/held-clock-outs', authorize(...SUPERVISORS), async (_req, res) => {
+  try {
+    const result = await query(`
+      SELECT h.id, h.operator_id, o.name as operator_name, h.clock_out, u.username as recorded_by_username, h.created_at
+      FROM held_clock_outs h
+      JOIN operators o ON h.operator_id = o.id
+      LEFT JOIN users u ON h.recorded_by = u.id
+      ORDER BY h.clock_out
+    `);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching held clock-outs');
+  }
+});
+
+// Discard a held clock-out whose clock-in will never arrive; the supervisor records the session instead
+app.delete('/api/attendance/held-clock-outs/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('DELETE FROM held_clock_outs WHERE id = $1 RETURNING *', [id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Held clock-out not found');
+    }
+
+    await recordAudit(req, 'delete', 'held_clock_out', id, result.rows[0], null);
+    res.json({ message: 'Held clock-out discarded' });
+  } catch (error) {
+    handleError(res, error, 'discarding held clock-out');
+  }
+});
+
+// Supervisor correction of recorded clock times
+app.put('/api/attendance/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(attendanceCorrectionSchema, req, res);
+    if (!body) return;
+    const { clock_in, clock_out, reason } = body;
+
+    const before = await fetchRow('attendance_logs', id);
+    if (!before) {
+      return sendError(res, 404, 'Attendance record not found');
+    }
+    const timesheet = await findClosedTimesheet(before.operator_id, before.date);
+    if (timesheet) {
+      return sendError(res, 409, timesheet.status === 'locked'
+        ? `Attendance on ${before.date} is on a locked timesheet and cannot be changed`
+        : `Attendance on ${before.date} is on an approved timesheet; reopen the timesheet to correct it`);
+    }
+
+    const clockIn: Date | null = clock_in ? new Date(clock_in) : before.clock_in;
+    const clockOut: Date | null = clock_out ? new Date(clock_out) : before.clock_out;
+    if (!clockIn) { // A no-show or excused row becomes a session once it gets clock times
+      return sendFieldErrors(res, [{ field: 'clock_in', message: 'Clock-in is required' }]);
+    }
+    if (clockOut && clockOut <= clockIn) {
+      return sendFieldErrors(res, [{ field: 'clock_out', message: 'Clock-out must be after clock-in' }]);
+    }
+
+    const timeZone = await getTimezone('operator', before.operator_id);
+
+    // Overlapping sessions would count the same minutes twice in timesheets and compliance hours
+    const overlapping = await query(`
+      SELECT clock_in, clock_out FROM attendance_logs
+      WHERE operator_id = $1 AND id <> $2 AND clock_in IS NOT NULL
+        AND tstzrange(clock_in, clock_out) && tstzrange($3, $4)
+      ORDER BY clock_in
+      LIMIT 1
+    `, [before.operator_id, id, clockIn, clockOut]);
+    if (overlapping.rows.length > 0) {
+      const other = overlapping.rows[0];
+      const describe = (at: Date | null) => at ? `${formatDate(at, timeZone)} ${formatClock(at, timeZone).slice(0, 5)}` : 'still open';
+      return sendError(res, 409, `Overlaps the session from ${describe(other.clock_in)} to ${describe(other.clock_out)}`);
+    }
+
+    // A corrected clock-in can move the session to another shift day, resolved as on clock-in
+    const shift = before.shift_id
+      ? (await query<Row & ShiftTimes>('SELECT * FROM shifts WHERE id = $1', [before.shift_id])).rows[0] || null
+      : null;
+    const date = resolveShiftDate(shift, clockIn, timeZone);
+    if (date !== before.date) {
+      const closed = await findClosedTimesheet(before.operator_id, date);
+      if (closed) {
+        return sendError(res, 409, `Attendance on ${date} is on a ${closed.status} timesheet and cannot be moved there`);
+      }
+    }
+
+    const breaks = await query('SELECT * FROM attendance_breaks WHERE attendance_log_id = $1', [id]);
+    const totals = clockOut
+      ? summarizeSession({ clock_in: clockIn, clock_out: clockOut }, breaks.rows, new Date())
+      : { worked_minutes: 0, break_minutes: 0, paid_minutes: 0 };
+
+    const result = await query(`
+      UPDATE attendance_logs
+      SET clock_in = $1, clock_out = $2, total_hours = $3, break_minutes = $4, paid_hours = $5, date = $6
+      WHERE id = $7
+      RETURNING *
+    `, [
+      clockIn, clockOut, Math.round(totals.worked_minutes / 60 * 100) / 100, totals.break_minutes,
+      Math.round(totals.paid_minutes / 60 * 100) / 100, date, id
+    ]);
+
+    await recordAudit(req, 'correct_clock_times', 'attendance', id, before, { ...result.rows[0], reason });
+    await classifyAttendance(before.date, new Date(), before.operator_id);
+    if (date !== before.date) await classifyAttendance(date, new Date(), before.operator_id);
+    broadcast('attendance', { action: 'correction', operator_id: before.operator_id });
+
+    res.json(await fetchRow('attendance_logs', id));
+  } catch (error) {
+    handleError(res, error, 'correcting attendance');
+  }
+});
+
+app.get('/api/attendance-rules', authorize(...SUPERVISORS), async (_req, res) => {
+  try {
+    res.json(await getAttendanceRules());
+  } catch (error) {
+    handleError(res, error, 'fetching attendance rules');
+  }
+});
+
+// New tolerances apply to recent days straight away; use POST /api/attendance/classify for older ones
+app.put('/api/attendance-rules', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(attendanceRulesSchema, req, res);
+    if (!body) return;
+
+    const before = await getAttendanceRules();
+    const result = await query(`
+      UPDATE attendance_rules
+      SET ${ATTENDANCE_RULE_COLUMNS.map((column, index) => `${column} = $${index + 1}`).join(', ')},
+          updated_at = CURRENT_TIMESTAMP
+      RETURNING ${ATTENDANCE_RULE_COLUMNS.join(', ')}
+    `, ATTENDANCE_RULE_COLUMNS.map(column => body[column]));
+
+    await recordAudit(req, 'update', 'attendance_rules', 'plant', before, result.rows[0]);
+    await classifyRecentAttendance();
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating attendance rules');
+  }
+});
+
+// Re-run classification over a range of days
+app.post('/api/attendance/classify', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(attendanceClassifySchema, req, res, checkPeriod(ATTENDANCE_CLASSIFY_MAX_DAYS));
+    if (!body) return;
+
+    const now = new Date();
+    let changed = 0;
+    for (let date = body.from; date <= body.to; date = addDays(date, 1)) {
+      changed += await classifyAttendance(date, now);
+    }
+    if (changed > 0) {
+      broadcast('attendance', { action: 'classified' });
+    }
+
+    res.json({ message: `Classified ${daysBetween(body.from, body.to) + 1} days; ${changed} records changed`, changed });
+  } catch (error) {
+    handleError(res, error, 'classifying attendance');
+  }
+});
+
+// Operator-days of one date that were not on time
+app.get('/api/attendance/exceptions', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(attendanceExceptionsQuerySchema, req, res);
+    if (!filters) return;
+    const date = filters.date || await getToday('site', filters.site_id);
+
+    const params: unknown[] = [date, filters.status ? [filters.status] : ATTENDANCE_EXCEPTIONS];
+    const conditions = ['al.date = $1', 'al.status = ANY($2)'];
+    const optional = [['d.site_id', filters.site_id], ['o.department_id', filters.department_id]] as const;
+    for (const [column, value] of optional) {
+      if (value) {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    const result = await query(`
+      SELECT al.operator_id, o.name as operator_name, o.employee_id, o.department_id, d.name as department_name,
+             al.date, al.status, sh.id as shift_id, sh.name as shift_name, sh.start_time, sh.end_time, si.timezone,
+             MIN(al.clock_in) as first_in, MAX(al.clock_out) as last_out,
+             SUM(al.late_minutes) as late_minutes, SUM(al.early_leave_minutes) as early_leave_minutes
+      FROM attendance_logs al
+      JOIN operators o ON al.operator_id = o.id
+      LEFT JOIN departments d ON o.department_id = d.id
+      LEFT JOIN sites si ON d.site_id = si.id
+      LEFT JOIN shift_assignments sa ON sa.operator_id = al.operator_id AND sa.assigned_date = al.date
+      LEFT JOIN shifts sh ON sa.shift_id = sh.id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY al.operator_id, o.name, o.employee_id, o.department_id, d.name, al.date, al.status,
+               sh.id, sh.name, sh.start_time, sh.end_time, si.timezone
+      ORDER BY array_position($2::text[], al.status::text), o.name
+    `, params);
+
+    const exceptions: AttendanceException[] = result.rows.map(row => ({
+      operator_id: row.operator_id,
+      operator_name: row.operator_name,
+      employee_id: row.employee_id,
+      department_id: row.department_id,
+      department_name: row.department_name,
+      date: row.date,
+      shift_id: row.shift_id,
+      shift_name: row.shift_name,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      status: row.status,
+      first_in: row.first_in ? formatClock(row.first_in, row.timezone || PLANT_TIMEZONE).slice(0, 5) : null,
+      last_out: row.last_out ? formatClock(row.last_out, row.timezone || PLANT_TIMEZONE).slice(0, 5) : null,
+      late_minutes: row.late_minutes,
+      early_leave_minutes: row.early_leave_minutes
+    }));
+    res.json(exceptions);
+  } catch (error) {
+    handleError(res, error, 'fetching attendance exceptions');
+  }
+});
+
+// Classified operator-days per department and day, week (from Monday) or month; defaults to
+// weekly over the last eight weeks. Days that were never classified are not counted.
+app.get('/api/attendance/trends', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(absenceTrendsQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const to = filters.to || await getToday('department', filters.department_id);
+    const from = filters.from || addDays(to, -55);
+
+    const params: Id[] = [from, to, filters.period || 'week'];
+    let departmentFilter = '';
+    if (filters.department_id) {
+      params.push(filters.department_id);
+      departmentFilter = `AND o.department_id = $${params.length}`;
+    }
+
+    const result = await query(`
+      SELECT d.id as department_id, d.name as department_name,
+             date_trunc($3, day.date::timestamp)::date as period,
+             COUNT(*) FILTER (WHERE day.status <> 'unscheduled') as scheduled,
+             COUNT(*) FILTER (WHERE day.status = 'on_time') as on_time,
+             COUNT(*) FILTER (WHERE day.status = 'late') as late,
+             COUNT(*) FILTER (WHERE day.status = 'left_early') as left_early,
+             COUNT(*) FILTER (WHERE day.status = 'no_show') as no_show,
+             COUNT(*) FILTER (WHERE day.status = 'excused') as excused,
+             COUNT(*) FILTER (WHERE day.status = 'unscheduled') as unscheduled,
+             ROUND(COUNT(*) FILTER (WHERE day.status = 'no_show') * 100.0
+               / NULLIF(COUNT(*) FILTER (WHERE day.status <> 'unscheduled'), 0), 1) as absence_rate,
+             ROUND(COUNT(*) FILTER (WHERE day.status = 'late') * 100.0
+               / NULLIF(COUNT(*) FILTER (WHERE day.status <> 'unscheduled'), 0), 1) as late_rate
+      FROM (
+        SELECT operator_id, date, MIN(status) as status
+        FROM attendance_logs
+        WHERE date BETWEEN $1 AND $2 AND status IN ('on_time', 'late', 'left_early', 'no_show', 'excused', 'unscheduled')
+        GROUP BY operator_id, date
+      ) day
+      JOIN operators o ON day.operator_id = o.id
+      LEFT JOIN departments d ON o.department_id = d.id
+      WHERE true ${departmentFilter}
+      GROUP BY d.id, d.name, period
+      ORDER BY d.name NULLS LAST, period
+    `, params);
+
+    const trends: AbsenceTrend[] = result.rows as AbsenceTrend[];
+    res.json(trends);
+  } catch (error) {
+    handleError(res, error, 'fetching absence trends');
+  }
+});
+
+// KIOSK ENDPOINTS
+// Device registration (admin) and operators' kiosk credentials (supervisors) use a user session;
+// the /api/kiosk routes are called by the kiosk devices themselves.
+const KIOSK_DEVICE_SELECT = `
+  SELECT k.id, k.name, k.site_id, si.name as site_name, k.is_active, k.last_seen_at, k.created_at
+  FROM kiosk_devices k
+  LEFT JOIN sites si ON k.site_id = si.id
+`;
+
+app.get('/api/kiosk-devices', authorize('admin'), async (_req, res) => {
+  try {
+    const result = await query(`${KIOSK_DEVICE_SELECT} ORDER BY k.is_active DESC, k.name`);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching kiosk devices');
+  }
+});
+
+// The token is only returned here; it is entered once on the kiosk, which keeps it
+app.post('/api/kiosk-devices', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(kioskDeviceSchema, req, res);
+    if (!body) return;
+    const { name, site_id, is_active } = body;
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const result = await query(`
+      INSERT INTO kiosk_devices (name, site_id, token_hash, is_active, created_by)
+      VALUES ($1, $2, $3, COALESCE($4, true), $5)
+      RETURNING *
+    `, [name, site_id, hashToken(token), is_active, req.user.id]);
+
+    await recordAudit(req, 'create', 'kiosk_device', result.rows[0].id, null, result.rows[0]);
+    const created = await query(`${KIOSK_DEVICE_SELECT} WHERE k.id = $1`, [result.rows[0].id]);
+    const device: KioskDeviceCreated = { ...(created.rows[0] as KioskDevice), token };
+    res.status(201).json(device);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Site not found', { errors: [{ field: 'site_id', message: 'Site not found' }] });
+    }
+    handleError(res, error, 'registering kiosk device');
+  }
+});
+
+// Deactivating a device locks it out at once; its token stops working
+app.put('/api/kiosk-devices/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(kioskDeviceSchema, req, res);
+    if (!body) return;
+    const { name, site_id, is_active } = body;
+
+    const before = await fetchRow('kiosk_devices', id);
+    if (!before) {
+      return sendError(res, 404, 'Kiosk device not found');
+    }
+
+    const result = await query(`
+      UPDATE kiosk_devices
+      SET name = $1, site_id = $2, is_active = COALESCE($3, is_active)
+      WHERE id = $4
+      RETURNING *
+    `, [name, site_id, is_active, id]);
+
+    await recordAudit(req, 'update', 'kiosk_device', id, before, result.rows[0]);
+    const updated = await query(`${KIOSK_DEVICE_SELECT} WHERE k.id = $1`, [id]);
+    res.json(updated.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Site not found', { errors: [{ field: 'site_id', message: 'Site not found' }] });
+    }
+    handleError(res, error, 'updating kiosk device');
+  }
+});
+
+// Issue a new token, e.g. when a kiosk is reinstalled; the old one stops working
+app.post('/api/kiosk-devices/:id/token', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const token = crypto.randomBytes(32).toString('hex');
+    const result = await query('UPDATE kiosk_devices SET token_hash = $1 WHERE id = $2 RETURNING id', [hashToken(token), id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Kiosk device not found');
+    }
+
+    await recordAudit(req, 'rotate_token', 'kiosk_device', id, null, null);
+    const updated = await query(`${KIOSK_DEVICE_SELECT} WHERE k.id = $1`, [id]);
+    const device: KioskDeviceCreated = { ...(updated.rows[0] as KioskDevice), token };
+    res.json(device);
+  } catch (error) {
+    handleError(res, error, 'issuing kiosk token');
+  }
+});
+
+const toKioskCredentials = (operatorId: Id, row: Row | undefined): KioskCredentials => ({
+  operator_id: Number(operatorId),
+  badge_number: row?.badge_number ?? null,
+  has_pin: Boolean(row?.pin_hash)
+});
+
+app.get('/api/operators/:id/kiosk-credentials', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('SELECT * FROM operator_kiosk_credentials WHERE operator_id = $1', [id]);
+    res.json(toKioskCredentials(id, result.rows[0]));
+  } catch (error) {
+    handleError(res, error, 'fetching kiosk credentials');
+  }
+});
+
+// Sets the badge number (empty removes it) and, when given, a new PIN; leaving out the PIN keeps the current one
+app.put('/api/operators/:id/kiosk-credentials', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(kioskCredentialsSchema, req, res, checkKioskPin);
+    if (!body) return;
+    const { badge_number, pin } = body;
+
+    if (!(await fetchRow('operators', id))) {
+      return sendError(res, 404, 'Operator not found');
+    }
+    const existing = await query('SELECT * FROM operator_kiosk_credentials WHERE operator_id = $1', [id]);
+    const before = existing.rows[0] || null;
+    if (!badge_number && !pin && !before?.pin_hash) {
+      return sendFieldErrors(res, [{ field: 'badge_number', message: 'Set a badge number or a PIN' }]);
+    }
+
+    const result = await query(`
+      INSERT INTO operator_kiosk_credentials (operator_id, badge_number, pin_hash)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (operator_id) DO UPDATE
+      SET badge_number = EXCLUDED.badge_number,
+          pin_hash = COALESCE(EXCLUDED.pin_hash, operator_kiosk_credentials.pin_hash),
+          updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `, [id, badge_number || null, pin ? await hashPassword(pin) : null]);
+
+    await recordAudit(req, before ? 'update' : 'create', 'kiosk_credentials', id, before, result.rows[0]);
+    res.json(toKioskCredentials(id, result.rows[0]));
+  } catch (error) {
+    if (pgErrorCode(error) === '23505') { // Unique violation on badge_number
+      return sendError(res, 409, 'Badge number is already in use', { errors: [{ field: 'badge_number', message: 'Badge number is already in use' }] });
+    }
+    handleError(res, error, 'saving kiosk credentials');
+  }
+});
+
+app.delete('/api/operators/:id/kiosk-credentials', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await query('DELETE FROM operator_kiosk_credentials WHERE operator_id = $1 RETURNING *', [id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Operator has no kiosk credentials');
+    }
+
+    await recordAudit(req, 'delete', 'kiosk_credentials', id, result.rows[0], null);
+    res.json(toKioskCredentials(id, undefined));
+  } catch (error) {
+    handleError(res, error, 'removing kiosk credentials');
+  }
+});
+
+app.get('/api/kiosk/device', async (req, res) => {
+  try {
+    const device = req.kiosk!;
+    const site = device.site_id ? await fetchRow('sites', device.site_id) : null;
+    const timezone = await getTimezone('site', device.site_id);
+    const now = new Date();
+    const info: KioskInfo = {
+      device: { id: device.id, name: device.name, site_name: site?.name ?? null },
+      time: { timezone, today: formatDate(now, timezone), now: now.toISOString() },
+      break_types: Object.entries(BREAK_TYPES).map(([id, type]) => ({ id, ...type }))
+    };
+    res.json(info);
+  } catch (error) {
+    handleError(res, error, 'fetching kiosk device');
+  }
+});
+
+// Identify an operator and show where they stand, without changing anything
+app.post('/api/kiosk/identify', async (req, res) => {
+  try {
+    const body = parseBody(kioskIdentitySchema, req, res, checkKioskIdentity);
+    if (!body) return;
+
+    const identified = await identifyKioskOperator(req.kiosk!, body);
+    if ('error' in identified) {
+      return identified.window
+        ? sendRateLimited(res, identified.window, identified.error)
+        : sendError(res, identified.status, identified.error);
+    }
+
+    res.json(await kioskState(identified.operator, new Date()));
+  } catch (error) {
+    handleError(res, error, 'identifying operator at kiosk');
+  }
+});
+
+// Clock in or out, or start or end a break, for the operator the credentials identify
+app.post('/api/kiosk/actions', async (req, res) => {
+  try {
+    const body = parseBody(kioskActionSchema, req, res, checkKioskIdentity);
+    if (!body) return;
+
+    const identified = await identifyKioskOperator(req.kiosk!, body);
+    if ('error' in identified) {
+      return identified.window
+        ? sendRateLimited(res, identified.window, identified.error)
+        : sendError(res, identified.status, identified.error);
+    }
+    const { operator } = identified;
+    const now = new Date();
+    let message: string;
+    let warnings: string[] = [];
+
+    if (body.action === 'clock_in' || body.action === 'clock_out') {
+      const result = body.action === 'clock_in' ? await clockIn(req, operator.id, null, now) : await clockOut(req, operator.id, now);
+      if ('error' in result) {
+        return sendError(res, result.status, result.error, result.details);
+      }
+      message = body.action === 'clock_in' ? 'Clocked in' : 'Clocked out';
+      if ('warnings' in result) warnings = result.warnings;
+    } else if (body.action === 'break_start') {
+      const type = body.break_type || 'rest';
+      if (!isBreakType(type)) {
+        const message = `Break type must be one of: ${Object.keys(BREAK_TYPES).join(', ')}`;
+        return sendFieldErrors(res, [{ field: 'break_type', message }]);
+      }
+      const result = await startBreak(operator.id, type, now);
+      if ('error' in result) {
+        return sendError(res, 409, result.error);
+      }
+      await recordAudit(req, 'break_start', 'attendance_break', result.record.id, null, result.record);
+      message = 'Break started';
+    } else {
+      const result = await endBreak(operator.id, now);
+      if ('error' in result) {
+        return sendError(res, 409, result.error);
+      }
+      await recordAudit(req, 'break_end', 'attendance_break', result.record.id, null, result.record);
+      message = 'Break ended';
+    }
+
+    const result: KioskActionResult = { message, state: await kioskState(operator, new Date()), warnings };
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'recording kiosk action');
+  }
+});
+
+// CSV IMPORT ENDPOINTS
+interface CsvFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// Headers are matched case-insensitively; a UTF-8 BOM from spreadsheet exports is dropped
+const parseCsv = (buffer: Buffer) => new Promise<CsvFile>((resolve, reject) => {
+  const parsed: CsvFile = { headers: [], rows: [] };
+  Readable.from([buffer])
+    .pipe(csv({ mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim().toLowerCase() }))
+    .on('headers', (headers: string[]) => { parsed.headers = headers; })
+    .on('data', (row: Record<string, string>) => parsed.rows.push(row))
+    .on('error', reject)
+    .on('end', () => resolve(parsed));
+});
+
+const isCsvUpload = (file: Express.Multer.File) =>
+  file.originalname.toLowerCase().endsWith('.csv') || ['text/csv', 'application/csv'].includes(file.mimetype);
+
+// A row that passed planning, with what the import needs to write it
+interface PlannedImportRow extends ImportRowResult {
+  input: (ImportRowInput & { department_id: number | null }) | null; // department_id is null for new departments
+  before: Row | null;
+}
+
+// Work out what each row would do. Runs inside the import transaction when committing, so the
+// plan and the writes see the same operators and departments.
+const planOperatorImport = async (
+  rows: Record<string, string>[],
+  createDepartments: boolean,
+  executor: Executor
+) => {
+  const departments = await executor('SELECT id, name FROM departments');
+  const departmentIds = new Map(departments.rows.map(dept => [dept.name.toLowerCase(), dept.id]));
+  const departmentNames = new Map(departments.rows.map(dept => [dept.id, dept.name]));
+
+  const emails = rows.map(row => (row.email || '').trim());
+  const existing = await executor(
+    'SELECT * FROM operators WHERE email = ANY($1) OR employee_id = ANY($2)',
+    [emails, rows.map(row => (row.employee_id || '').trim()).filter(Boolean)]
+  );
+  const byEmail = new Map(existing.rows.map(op => [op.email, op]));
+  const byEmployeeId = new Map(existing.rows.filter(op => op.employee_id).map(op => [op.employee_id, op]));
+
+  const newDepartments = new Map<string, string>(); // lower-cased -> name as first written
+  const seenEmails = new Set<string>();
+  const seenEmployeeIds = new Set<string>();
+
+  const results = rows.map((values, index): PlannedImportRow => {
+    const row = index + 2;
+    const input = validate(importRowSchema, { ...values, skill_level: values.skill_level?.trim().toLowerCase() });
+    const errors: FieldError[] = input.ok ? [] : [...input.errors];
+    const reject = (): PlannedImportRow => ({ row, action: 'reject', values, operator_id: null, changes: {}, errors, input: null, before: null });
+    if (!input.ok) return reject();
+
+    const { name, email, employee_id, department_name, skill_level } = input.value;
+    const before = byEmail.get(email) || null;
+
+    if (seenEmails.has(email)) {
+      errors.push({ field: 'email', message: `Email ${email} appears more than once in the file` });
+    }
+    if (employee_id) {
+      const holder = byEmployeeId.get(employee_id);
+      if (seenEmployeeIds.has(employee_id)) {
+        errors.push({ field: 'employee_id', message: `Employee ID ${employee_id} appears more than once in the file` });
+      } else if (holder && holder.email !== email) {
+        errors.push({ field: 'employee_id', message: `Employee ID ${employee_id} belongs to ${holder.name}` });
+      }
+      seenEmployeeIds.add(employee_id);
+    }
+    seenEmails.add(email);
+
+    const departmentKey = department_name.toLowerCase();
+    if (!departmentIds.has(departmentKey)) {
+      if (!createDepartments) {
+        errors.push({ field: 'department_name', message: `Department "${department_name}" does not exist` });
+      } else if (!newDepartments.has(departmentKey)) {
+        newDepartments.set(departmentKey, department_name);
+      }
+    }
+    if (errors.length > 0) return reject();
+
+    // Empty optional columns keep an existing operator's values
+    const after = {
+      name,
+      employee_id: employee_id ?? before?.employee_id ?? null,
+      department_name: departmentIds.has(departmentKey) ? departmentNames.get(departmentIds.get(departmentKey)!)! : newDepartments.get(departmentKey)!,
+      skill_level: skill_level ?? before?.skill_level ?? 'beginner'
+    } satisfies Record<string, string | null>;
+    const current: Record<string, string | null> = before
+      ? { name: before.name, employee_id: before.employee_id, department_name: departmentNames.get(before.department_id) ?? null, skill_level: before.skill_level }
+      : {};
+    const changes = Object.fromEntries(
+      Object.entries(after)
+        .filter(([field, value]) => !before || current[field] !== value)
+        .map(([field, value]) => [field, { from: current[field] ?? null, to: value }])
+    );
+
+    return {
+      row,
+      action: !before ? 'create' : Object.keys(changes).length > 0 ? 'update' : 'unchanged',
+      values,
+      operator_id: before?.id ?? null,
+      changes,
+      errors,
+      input: { ...input.value, employee_id: after.employee_id, skill_level: after.skill_level, department_id: departmentIds.get(departmentKey) ?? null },
+      before
+    };
+  });
+
+  const summary: ImportReport['summary'] = { create: 0, update: 0, unchanged: 0, reject: 0 };
+  results.forEach(result => { summary[result.action]++; });
+
+  return { results, summary, newDepartments: [...newDepartments.values()] };
+};
+
+// Uploads stay in memory, so a failed parse leaves nothing behind on disk
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: IMPORT_MAX_BYTES, files: 1 }
+}).single('file');
+
+const receiveImportFile = (req: Request, res: Response, next: NextFunction) => {
+  importUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `File must be at most ${IMPORT_MAX_BYTES / 1024 / 1024} MB`
+        : error.message;
+      return sendFieldErrors(res, [{ field: 'file', message }]);
+    }
+    if (error) return handleError(res, error, 'receiving import file');
+    next();
+  });
+};
+
+// Validates every row first; with dry_run the report is returned without writing anything.
+// Otherwise all rows are written in one transaction, and any rejected row aborts the import.
+app.post('/api/import/operators', authorize('admin'), receiveImportFile, async (req, res) => {
+  try {
+    const options = parseBody(importOptionsSchema, req, res);
+    if (!options) return;
+
+    const file = req.file;
+    if (!file) {
+      return sendFieldErrors(res, [{ field: 'file', message: 'No file uploaded' }]);
+    }
+    if (!isCsvUpload(file)) {
+      return sendFieldErrors(res, [{ field: 'file', message: 'File must be a CSV' }]);
+    }
+
+    let parsed: CsvFile;
+    try {
+      parsed = await parseCsv(file.buffer);
+    } catch (error) {
+      return sendFieldErrors(res, [{ field: 'file', message: `File could not be read as CSV: ${errorMessage(error)}` }]);
+    }
+
+    const missing = IMPORT_COLUMNS.filter(column => 'required' in importRowSchema[column] && !parsed.headers.includes(column));
+    if (missing.length > 0) {
+      return sendFieldErrors(res, [{ field: 'file', message: `Missing columns: ${missing.join(', ')}` }]);
+    }
+    if (parsed.rows.length === 0) {
+      return sendFieldErrors(res, [{ field: 'file', message: 'File has no operator rows' }]);
+    }
+    if (parsed.rows.length > IMPORT_MAX_ROWS) {
+      return sendFieldErrors(res, [{ field: 'file', message: `File must have at most ${IMPORT_MAX_ROWS} rows` }]);
+    }
+
+    const createDepartments = options.create_departments === true;
+    const report = (plan: Awaited<ReturnType<typeof planOperatorImport>>, committed: boolean): ImportReport => ({
+      dry_run: options.dry_run === true,
+      committed,
+      summary: plan.summary,
+      new_departments: plan.newDepartments,
+      rows: plan.results.map(({ row, action, values, operator_id, changes, errors }) => ({ row, action, values, operator_id, changes, errors }))
+    });
+
+    if (options.dry_run) {
+      return res.json(report(await planOperatorImport(parsed.rows, createDepartments, query), false));
+    }
+
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+    let plan;
+
+    try {
+      await client.query('BEGIN');
+      plan = await planOperatorImport(parsed.rows, createDepartments, executor);
+
+      if (plan.summary.reject > 0) {
+        await client.query('ROLLBACK');
+        return sendError(res, 422, `${plan.summary.reject} rows must be fixed before importing`, { report: report(plan, false) });
+      }
+
+      const departmentIds = new Map<string, number>();
+      for (const name of plan.newDepartments) {
+        const result = await client.query('INSERT INTO departments (name) VALUES ($1) RETURNING *', [name]);
+        await recordAudit(req, 'import_create', 'department', result.rows[0].id, null, result.rows[0], executor);
+        departmentIds.set(name.toLowerCase(), result.rows[0].id);
+      }
+
+      for (const result of plan.results) {
+        if (result.action === 'unchanged' || !result.input) continue;
+        const { name, email, employee_id, department_name, skill_level, department_id } = result.input;
+
+        const saved = await client.query(`
+          INSERT INTO operators (name, email, employee_id, department_id, skill_level)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (email) DO UPDATE SET
+            name = EXCLUDED.name,
+            employee_id = EXCLUDED.employee_id,
+            department_id = EXCLUDED.department_id,
+            skill_level = EXCLUDED.skill_level
+          RETURNING *
+        `, [name, email, employee_id, department_id ?? departmentIds.get(department_name.toLowerCase()), skill_level]);
+
+        const before = result.before;
+        await recordAudit(req, before ? 'import_update' : 'import_create', 'operator', saved.rows[0].id, before, saved.rows[0], executor);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (plan.summary.create + plan.summary.update > 0) {
+      broadcast('resync', { entity: 'operators' });
+    }
+
+    res.status(201).json({
+      message: `Import completed. ${plan.summary.create} created, ${plan.summary.update} updated, ${plan.summary.unchanged} unchanged.`,
+      ...report(plan, true)
+    });
+  } catch (error) {
+    handleError(res, error, 'importing operators');
+  }
+});
+
+// EXPORT ENDPOINTS
+// A table written as CSV, or as a single-sheet workbook. Rows with `total: true` are summary rows,
+// shown in bold in Excel; `total` itself is not a column.
+interface ExportTable {
+  name: string;
+  columns: { key: string; header: string; width?: number }[];
+  rows: (Row & { total?: boolean })[];
+}
+
+const sendExport = async (res: Response, format: ExportFormat, filename: string, table: ExportTable) => {
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    return res.send(toCsv(table.columns.map(column => column.key), table.rows, table.columns.map(column => column.header)));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(table.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = table.columns.map(({ key, header, width }) => ({ key, header, width: width ?? 14 }));
+  sheet.getRow(1).font = { bold: true };
+  for (const row of table.rows) {
+    const added = sheet.addRow(row);
+    if (row.total) added.font = { bold: true };
+  }
+
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+  await workbook.xlsx.write(res);
+  res.end();
+};
+
+const sumBy = (rows: Row[], key: string) => Math.round(rows.reduce((sum, row) => sum + (row[key] || 0), 0) * 100) / 100;
+
+// Attendance sessions over a date range for payroll, with a total per operator and overall.
+// line_id keeps sessions of operators assigned to a station on that line that day.
+app.get('/api/exports/attendance', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(attendanceExportQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const { from, to, department_id, line_id, shift_id } = filters;
+
+    const params: Id[] = [from, to];
+    const conditions = ['al.clock_in IS NOT NULL', 'al.date BETWEEN $1 AND $2'];
+    if (department_id) {
+      params.push(department_id);
+      conditions.push(`o.department_id = $${params.length}`);
+    }
+    if (shift_id) {
+      params.push(shift_id);
+      conditions.push(`al.shift_id = $${params.length}`);
+    }
+    if (line_id) {
+      params.push(line_id);
+      conditions.push(`EXISTS (
+        SELECT 1 FROM shift_assignments sa JOIN stations st ON sa.station_id = st.id
+        WHERE sa.operator_id = al.operator_id AND sa.assigned_date = al.date AND st.line_id = $${params.length}
+      )`);
+    }
+
+    const result = await query(`
+      SELECT al.*, o.name as operator_name, o.employee_id, d.name as department_name,
+             sh.name as shift_name, si.timezone
+      FROM attendance_logs al
+      JOIN operators o ON al.operator_id = o.id
+      LEFT JOIN departments d ON o.department_id = d.id
+      LEFT JOIN sites si ON d.site_id = si.id
+      LEFT JOIN shifts sh ON al.shift_id = sh.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY o.name, o.id, al.clock_in
+    `, params);
+
+    // Clock times in the operator's plant timezone; open sessions have no clock-out or hours yet
+    const sessions: Row[] = result.rows.map(session => ({
+      ...session,
+      clock_in: formatClock(session.clock_in, session.timezone || PLANT_TIMEZONE).slice(0, 5),
+      clock_out: session.clock_out ? formatClock(session.clock_out, session.timezone || PLANT_TIMEZONE).slice(0, 5) : null
+    }));
+    const totals = (rows: Row[]) => ({
+      total: true,
+      date: 'Total',
+      break_minutes: sumBy(rows, 'break_minutes'),
+      total_hours: sumBy(rows, 'total_hours'),
+      paid_hours: sumBy(rows, 'paid_hours')
+    });
+
+    const rows: ExportTable['rows'] = [];
+    const byOperator = new Map<number, Row[]>();
+    sessions.forEach(session => byOperator.set(session.operator_id, [...(byOperator.get(session.operator_id) || []), session]));
+    for (const operatorSessions of byOperator.values()) {
+      const { operator_name, employee_id, department_name } = operatorSessions[0];
+      rows.push(...operatorSessions, { ...totals(operatorSessions), operator_name, employee_id, department_name });
+    }
+    if (byOperator.size > 1) {
+      rows.push({ ...totals(sessions), operator_name: 'All operators' });
+    }
+
+    await sendExport(res, filters.format || 'csv', `attendance-${from}-to-${to}`, {
+      name: 'Attendance',
+      columns: [
+        { key: 'employee_id', header: 'Employee ID' },
+        { key: 'operator_name', header: 'Operator', width: 24 },
+        { key: 'department_name', header: 'Department', width: 18 },
+        { key: 'date', header: 'Date', width: 12 },
+        { key: 'shift_name', header: 'Shift', width: 16 },
+        { key: 'clock_in', header: 'Clock In', width: 10 },
+        { key: 'clock_out', header: 'Clock Out', width: 10 },
+        { key: 'break_minutes', header: 'Break Minutes' },
+        { key: 'total_hours', header: 'Worked Hours' },
+        { key: 'paid_hours', header: 'Paid Hours' }
+      ],
+      rows
+    });
+  } catch (error) {
+    handleError(res, error, 'exporting attendance');
+  }
+});
+
+// Who works which station on one day, per shift and line
+app.get('/api/exports/assignments', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(assignmentsExportQuerySchema, req, res);
+    if (!filters) return;
+    const { department_id, line_id, shift_id } = filters;
+    const date = filters.date || await getToday('department', department_id);
+
+    const params: Id[] = [date];
+    const conditions = ['sa.assigned_date = $1'];
+    const optional = [['sh.department_id', department_id], ['st.line_id', line_id], ['sa.shift_id', shift_id]] as const;
+    for (const [column, value] of optional) {
+      if (value) {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    const result = await query(`
+      SELECT sa.assigned_date, sh.name as shift_name, sh.start_time, sh.end_time,
+             pl.name as line_name, st.name as station_name,
+             o.name as operator_name, o.employee_id, o.skill_level
+      FROM shift_assignments sa
+      JOIN shifts sh ON sa.shift_id = sh.id
+      JOIN operators o ON sa.operator_id = o.id
+      LEFT JOIN stations st ON sa.station_id = st.id
+      LEFT JOIN production_lines pl ON st.line_id = pl.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY sh.start_time, sh.name, pl.name NULLS LAST, st.position_order, o.name
+    `, params);
+
+    await sendExport(res, filters.format || 'csv', `assignments-${date}`, {
+      name: 'Assignments',
+      columns: [
+        { key: 'assigned_date', header: 'Date', width: 12 },
+        { key: 'shift_name', header: 'Shift', width: 16 },
+        { key: 'start_time', header: 'Start', width: 10 },
+        { key: 'end_time', header: 'End', width: 10 },
+        { key: 'line_name', header: 'Line', width: 18 },
+        { key: 'station_name', header: 'Station', width: 18 },
+        { key: 'operator_name', header: 'Operator', width: 24 },
+        { key: 'employee_id', header: 'Employee ID' },
+        { key: 'skill_level', header: 'Skill Level' }
+      ],
+      rows: result.rows
+    });
+  } catch (error) {
+    handleError(res, error, 'exporting assignments');
+  }
+});
+
+// Station performance summary, grouped like GET /api/station-performance/summary, with a total row
+app.get('/api/exports/performance', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(performanceExportQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const groupBy = filters.group_by || 'station';
+    const grouping = PERFORMANCE_GROUPINGS[groupBy];
+    const { where, params } = buildPerformanceFilters(filters);
+    const result = await query(`
+      SELECT ${grouping.select},
+             COUNT(sp.id) as entries,
+             SUM(sp.units_produced) as units_produced,
+             SUM(sp.target_units) as target_units,
+             SUM(sp.downtime_minutes) as downtime_minutes,
+             ROUND(SUM(sp.units_produced) * 100.0 / NULLIF(SUM(sp.target_units), 0), 2) as efficiency_percentage
+      FROM station_performance sp
+      JOIN stations s ON sp.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      LEFT JOIN operators o ON sp.operator_id = o.id
+      ${where}
+      GROUP BY ${grouping.groupBy}
+      ORDER BY ${grouping.orderBy}
+    `, params);
+
+    const labels = PERFORMANCE_EXPORT_LABELS[groupBy];
+    const units = sumBy(result.rows, 'units_produced');
+    const target = sumBy(result.rows, 'target_units');
+    const total = {
+      total: true,
+      [labels[0].key]: 'Total',
+      entries: sumBy(result.rows, 'entries'),
+      units_produced: units,
+      target_units: target,
+      downtime_minutes: sumBy(result.rows, 'downtime_minutes'),
+      efficiency_percentage: target > 0 ? Math.round(units * 10000 / target) / 100 : null
+    };
+
+    const range = filters.from || filters.to ? `${filters.from || 'start'}-to-${filters.to || 'today'}` : 'all';
+    await sendExport(res, filters.format || 'csv', `performance-by-${groupBy}-${range}`, {
+      name: 'Performance',
+      columns: [
+        ...labels,
+        { key: 'entries', header: 'Entries' },
+        { key: 'units_produced', header: 'Units Produced' },
+        { key: 'target_units', header: 'Target Units' },
+        { key: 'downtime_minutes', header: 'Downtime Minutes' },
+        { key: 'efficiency_percentage', header: 'Efficiency %' }
+      ],
+      rows: result.rows.length > 0 ? [...result.rows, total] : []
+    });
+  } catch (error) {
+    handleError(res, error, 'exporting station performance');
+  }
+});
+
+// TIMESHEET ENDPOINTS
+app.get('/api/timesheet-rules', authorize(...SUPERVISORS), async (_req, res) => {
+  try {
+    res.json(await getTimesheetRules());
+  } catch (error) {
+    handleError(res, error, 'fetching timesheet rules');
+  }
+});
+
+// New rules apply to timesheets generated or approved from now on; approved ones keep theirs
+app.put('/api/timesheet-rules', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(timesheetRulesSchema, req, res, checkTimesheetRules);
+    if (!body) return;
+
+    const before = await getTimesheetRules();
+    const result = await query(`
+      UPDATE timesheet_rules
+      SET ${TIMESHEET_RULE_COLUMNS.map((column, index) => `${column} = $${index + 1}`).join(', ')},
+          updated_at = CURRENT_TIMESTAMP
+      RETURNING ${TIMESHEET_RULE_COLUMNS.join(', ')}
+    `, TIMESHEET_RULE_COLUMNS.map(column => body[column] ?? null));
+
+    await recordAudit(req, 'update', 'timesheet_rules', 'plant', before, result.rows[0]);
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating timesheet rules');
+  }
+});
+
+app.get('/api/timesheets', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(timesheetsQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+
+    const conditions: string[] = [];
+    const params: Id[] = [];
+    const optional = [
+      ['t.period_end >=', filters.from],
+      ['t.period_start <=', filters.to],
+      ['o.department_id =', filters.department_id],
+      ['t.operator_id =', filters.operator_id],
+      ['t.status =', filters.status]
+    ] as const;
+    for (const [condition, value] of optional) {
+      if (value) {
+        params.push(value);
+        conditions.push(`${condition} $${params.length}`);
+      }
+    }
+
+    const result = await query(`
+      ${TIMESHEET_SELECT}
+      ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+      ORDER BY t.period_start DESC, o.name
+    `, params);
+    res.json(result.rows.map(toTimesheet));
+  } catch (error) {
+    handleError(res, error, 'fetching timesheets');
+  }
+});
+
+app.get('/api/timesheets/:id', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const result = await query(`${TIMESHEET_SELECT} WHERE t.id = $1`, [req.params.id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 404, 'Timesheet not found');
+    }
+    res.json(toTimesheet(result.rows[0]));
+  } catch (error) {
+    handleError(res, error, 'fetching timesheet');
+  }
+});
+
+// Calculate draft timesheets for a period: for one operator, or everyone in a department (or the
+// plant) who has attendance in it. Drafts for the same period are recalculated; operators whose
+// timesheet is already approved, or who have a timesheet for an overlapping period, are skipped.
+app.post('/api/timesheets/generate', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const body = parseBody(timesheetGenerateSchema, req, res, checkTimesheetPeriod);
+    if (!body) return;
+    const { from, to, department_id, operator_id } = body;
+
+    if (operator_id && !(await fetchRow('operators', operator_id))) {
+      return sendError(res, 404, 'Operator not found', { errors: [{ field: 'operator_id', message: 'Operator not found' }] });
+    }
+
+    // A named operator gets a timesheet even without attendance in the period
+    const params: Id[] = operator_id ? [operator_id] : [from, to];
+    const conditions = [operator_id ? 'o.id = $1' : `EXISTS (
+      SELECT 1 FROM attendance_logs al
+      WHERE al.operator_id = o.id AND al.clock_in IS NOT NULL AND al.date BETWEEN $1 AND $2
+    )`];
+    if (department_id) {
+      params.push(department_id);
+      conditions.push(`o.department_id = $${params.length}`);
+    }
+    const operators = await query(`
+      SELECT o.id, o.name FROM operators o
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY o.name
+    `, params);
+
+    const existing = await query(`
+      SELECT * FROM timesheets
+      WHERE operator_id = ANY($1) AND period_start <= $3 AND period_end >= $2
+    `, [operators.rows.map(operator => operator.id), from, to]);
+
+    const skipped: TimesheetGenerateResult['skipped'] = [];
+    const savedIds: number[] = [];
+    const client = await getClient();
+    const executor: Executor = (text, params) => client.query(text, params);
+
+    try {
+      await client.query('BEGIN');
+      const rules = await getTimesheetRules(executor);
+
+      for (const operator of operators.rows) {
+        const own = existing.rows.filter(timesheet => timesheet.operator_id === operator.id);
+        const overlapping = own.find(timesheet => timesheet.period_start !== from || timesheet.period_end !== to);
+        const current = own.find(timesheet => timesheet.period_start === from && timesheet.period_end === to) || null;
+        const skip = (reason: string) => skipped.push({ operator_id: operator.id, operator_name: operator.name, reason });
+
+        if (overlapping) {
+          skip(`Has a timesheet for ${overlapping.period_start} to ${overlapping.period_end}`);
+          continue;
+        }
+        if (current && current.status !== 'draft') {
+          skip(`Timesheet is already ${current.status}`);
+          continue;
+        }
+
+        const calculation = await calculateTimesheet(operator.id, from, to, rules, executor);
+        const saved = await client.query(`
+          INSERT INTO timesheets (operator_id, period_start, period_end, ${TIMESHEET_TOTAL_COLUMNS.join(', ')}, details)
+          VALUES ($1, $2, $3, ${TIMESHEET_TOTAL_COLUMNS.map((_column, index) => `$${index + 4}`).join(', ')}, $${TIMESHEET_TOTAL_COLUMNS.length + 4})
+          ON CONFLICT (operator_id, period_start, period_end) DO UPDATE SET
+            ${TIMESHEET_TOTAL_COLUMNS.map(column => `${column} = EXCLUDED.${column}`).join(', ')},
+            details = EXCLUDED.details,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE timesheets.status = 'draft'
+          RETURNING *
+        `, [operator.id, from, to, ...timesheetValues(calculation)]);
+        if (saved.rows.length === 0) { // Approved since we looked
+          skip('Timesheet is already approved');
+          continue;
+        }
+
+        await recordAudit(req, 'generate', 'timesheet', saved.rows[0].id, current, saved.rows[0], executor);
+        savedIds.push(saved.rows[0].id);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const timesheets = await query(`${TIMESHEET_SELECT} WHERE t.id = ANY($1) ORDER BY o.name`, [savedIds]);
+    if (savedIds.length > 0) {
+      broadcast('resync', { entity: 'timesheets' });
+    }
+
+    const result: TimesheetGenerateResult = { timesheets: timesheets.rows.map(toTimesheet), skipped };
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'generating timesheets');
+  }
+});
+
+// A timesheet must be in `status` for the action; sends the 404 or 409 itself otherwise
+const findTimesheetIn = async (res: Response, id: Id, status: TimesheetStatus, action: string) => {
+  const timesheet = await fetchRow('timesheets', id);
+  if (!timesheet) {
+    sendError(res, 404, 'Timesheet not found');
+    return null;
+  }
+  if (timesheet.status !== status) {
+    sendError(res, 409, `Only ${status} timesheets can be ${action}; this one is ${timesheet.status}`);
+    return null;
+  }
+  return timesheet;
+};
+
+const sendTimesheet = async (res: Response, id: Id) => {
+  const result = await query(`${TIMESHEET_SELECT} WHERE t.id = $1`, [id]);
+  res.json(toTimesheet(result.rows[0]));
+};
+
+// Approval recalculates the draft first, so it reflects any attendance corrected since it was generated
+app.post('/api/timesheets/:id/approve', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await findTimesheetIn(res, id, 'draft', 'approved');
+    if (!before) return;
+
+    const calculation = await calculateTimesheet(before.operator_id, before.period_start, before.period_end, await getTimesheetRules());
+    const result = await query(`
+      UPDATE timesheets
+      SET ${TIMESHEET_TOTAL_COLUMNS.map((column, index) => `${column} = $${index + 1}`).join(', ')},
+          details = $${TIMESHEET_TOTAL_COLUMNS.length + 1},
+          status = 'approved', approved_by = $${TIMESHEET_TOTAL_COLUMNS.length + 2}, approved_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $${TIMESHEET_TOTAL_COLUMNS.length + 3} AND status = 'draft'
+      RETURNING *
+    `, [...timesheetValues(calculation), req.user.id, id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Timesheet was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'approve', 'timesheet', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'timesheets' });
+    await sendTimesheet(res, id);
+  } catch (error) {
+    handleError(res, error, 'approving timesheet');
+  }
+});
+
+// Back to draft so attendance in the period can be corrected again
+app.post('/api/timesheets/:id/reopen', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await findTimesheetIn(res, id, 'approved', 'reopened');
+    if (!before) return;
+
+    const result = await query(`
+      UPDATE timesheets
+      SET status = 'draft', approved_by = NULL, approved_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'approved'
+      RETURNING *
+    `, [id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Timesheet was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'reopen', 'timesheet', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'timesheets' });
+    await sendTimesheet(res, id);
+  } catch (error) {
+    handleError(res, error, 'reopening timesheet');
+  }
+});
+
+// Locking is final: a locked timesheet has gone to payroll and cannot be reopened
+app.post('/api/timesheets/:id/lock', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await findTimesheetIn(res, id, 'approved', 'locked');
+    if (!before) return;
+
+    const result = await query(`
+      UPDATE timesheets
+      SET status = 'locked', locked_by = $1, locked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND status = 'approved'
+      RETURNING *
+    `, [req.user.id, id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Timesheet was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'lock', 'timesheet', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'timesheets' });
+    await sendTimesheet(res, id);
+  } catch (error) {
+    handleError(res, error, 'locking timesheet');
+  }
+});
+
+// COMPLIANCE ENDPOINTS
+app.get('/api/compliance-rules', authorize(...SUPERVISORS), async (_req, res) => {
+  try {
+    const result = await query(`${COMPLIANCE_RULE_SELECT} ORDER BY cr.is_active DESC, cr.rule_type, d.name NULLS FIRST`);
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching compliance rules');
+  }
+});
+
+app.post('/api/compliance-rules', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(complianceRuleSchema, req, res, checkComplianceThreshold);
+    if (!body) return;
+    const { rule_type, threshold, severity, department_id, description, is_active } = body;
+
+    const result = await query(`
+      INSERT INTO compliance_rules (rule_type, threshold, severity, department_id, description, is_active)
+      VALUES ($1, $2, $3, $4, $5, COALESCE($6, true))
+      RETURNING *
+    `, [rule_type, threshold, severity, department_id, description, is_active]);
+
+    await recordAudit(req, 'create', 'compliance_rule', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'compliance' });
+    const created = await query(`${COMPLIANCE_RULE_SELECT} WHERE cr.id = $1`, [result.rows[0].id]);
+    res.status(201).json(created.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Department not found', { errors: [{ field: 'department_id', message: 'Department not found' }] });
+    }
+    handleError(res, error, 'creating compliance rule');
+  }
+});
+
+// Replaces the whole rule. Rules that no longer apply are deactivated rather than deleted, so the
+// audit trail keeps what was enforced when.
+app.put('/api/compliance-rules/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(complianceRuleSchema, req, res, checkComplianceThreshold);
+    if (!body) return;
+    const { rule_type, threshold, severity, department_id, description, is_active } = body;
+
+    const before = await fetchRow('compliance_rules', id);
+    if (!before) {
+      return sendError(res, 404, 'Compliance rule not found');
+    }
+
+    const result = await query(`
+      UPDATE compliance_rules
+      SET rule_type = $1, threshold = $2, severity = $3, department_id = $4, description = $5,
+          is_active = COALESCE($6, is_active), updated_at = CURRENT_TIMESTAMP
+      WHERE id = $7
+      RETURNING *
+    `, [rule_type, threshold, severity, department_id, description, is_active, id]);
+
+    await recordAudit(req, 'update', 'compliance_rule', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'compliance' });
+    const updated = await query(`${COMPLIANCE_RULE_SELECT} WHERE cr.id = $1`, [id]);
+    res.json(updated.rows[0]);
+  } catch (error) {
+    if (pgErrorCode(error) === '23503') { // Foreign key violation
+      return sendError(res, 404, 'Department not found', { errors: [{ field: 'department_id', message: 'Department not found' }] });
+    }
+    handleError(res, error, 'updating compliance rule');
+  }
+});
+
+// Working days, hours and rule violations per operator from..to, either as rostered or as clocked.
+// Only operators who worked in the period or broke a rule in it are listed.
+app.get('/api/compliance/report', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(complianceReportQuerySchema, req, res, checkPeriod(COMPLIANCE_REPORT_MAX_DAYS));
+    if (!filters) return;
+    const { from, to, department_id, operator_id } = filters;
+    const basis = filters.basis || 'roster';
+
+    // Operators who left before the period have nothing to report
+    const params: Id[] = [from];
+    const conditions = ['(o.terminated_on IS NULL OR o.terminated_on >= $1)'];
+    const optional = [
+      ['o.department_id =', department_id],
+      ['o.id =', operator_id]
+    ] as const;
+    for (const [condition, value] of optional) {
+      if (value) {
+        params.push(value);
+        conditions.push(`${condition} $${params.length}`);
+      }
+    }
+
+    const operatorsResult = await query(`
+      SELECT o.id, o.name, o.department_id, d.name as department_name
+      FROM operators o
+      LEFT JOIN departments d ON o.department_id = d.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY o.name
+    `, params);
+
+    const [rules, timesheetRules] = await Promise.all([loadComplianceRules(), getTimesheetRules()]);
+    const operatorIds = operatorsResult.rows.map(operator => operator.id);
+    const lookback = addDays(from, -complianceMargin(rules));
+    const stretches = basis === 'attendance'
+      ? await loadAttendanceStretches(operatorIds, lookback, to, new Date())
+      : await loadRosterStretches(operatorIds, lookback, to);
+    const days = toWorkDays(stretches);
+    const operators = new Map<number, ComplianceOperator>(operatorsResult.rows.map(operator => [operator.id, operator as ComplianceOperator]));
+    const violations = evaluateCompliance(rules, days, operators, timesheetRules.week_start)
+      .filter(violation => violation.date >= from && violation.date <= to);
+
+    const rows: ComplianceReportRow[] = operatorsResult.rows.map(operator => {
+      const worked = days.filter(day => day.operator_id === operator.id && day.date >= from && day.date <= to);
+      return {
+        operator_id: operator.id,
+        operator_name: operator.name,
+        department_name: operator.department_name,
+        days_worked: worked.length,
+        hours: toHours(worked.reduce((sum, day) => sum + day.minutes, 0)),
+        violations: violations.filter(violation => violation.operator_id === operator.id)
+      };
+    });
+
+    const report: ComplianceReport = {
+      from,
+      to,
+      basis,
+      rules,
+      operators: rows.filter(row => row.days_worked > 0 || row.violations.length > 0)
+    };
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'building compliance report');
+  }
+});
+
+// LEAVE ENDPOINTS
+app.get('/api/leave-types', async (_req, res) => {
+  try {
+    const result = await query('SELECT * FROM leave_types ORDER BY is_active DESC, name');
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching leave types');
+  }
+});
+
+app.post('/api/leave-types', authorize('admin'), async (req, res) => {
+  try {
+    const body = parseBody(leaveTypeSchema, req, res, checkLeaveColor);
+    if (!body) return;
+    const { name, is_paid, annual_allowance_days, color, is_active, counts_calendar_days } = body;
+
+    const result = await query(`
+      INSERT INTO leave_types (name, is_paid, annual_allowance_days, color, is_active, counts_calendar_days)
+      VALUES ($1, $2, $3, COALESCE($4, '#6b7280'), COALESCE($5, true), COALESCE($6, false))
+      RETURNING *
+    `, [name, is_paid, annual_allowance_days, color, is_active, counts_calendar_days]);
+
+    await recordAudit(req, 'create', 'leave_type', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'leave' });
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'creating leave type');
+  }
+});
+
+// Replaces the whole type, so leaving out annual_allowance_days makes it unlimited.
+// Retired types are deactivated rather than deleted, since past requests refer to them.
+app.put('/api/leave-types/:id', authorize('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(leaveTypeSchema, req, res, checkLeaveColor);
+    if (!body) return;
+    const { name, is_paid, annual_allowance_days, color, is_active, counts_calendar_days } = body;
+
+    const before = await fetchRow('leave_types', id);
+    if (!before) {
+      return sendError(res, 404, 'Leave type not found');
+    }
+
+    const result = await query(`
+      UPDATE leave_types
+      SET name = $1, is_paid = $2, annual_allowance_days = $3,
+          color = COALESCE($4, color), is_active = COALESCE($5, is_active),
+          counts_calendar_days = COALESCE($6, counts_calendar_days)
+      WHERE id = $7
+      RETURNING *
+    `, [name, is_paid, annual_allowance_days, color, is_active, counts_calendar_days, id]);
+
+    await recordAudit(req, 'update', 'leave_type', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'leave' });
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating leave type');
+  }
+});
+
+// Leave requests overlapping from..to, for the approval queue and the team calendar. Operator
+// accounts only see their own.
+app.get('/api/leave-requests', async (req, res) => {
+  try {
+    const filters = parseQuery(leaveRequestsQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const operatorId = req.user.role === 'operator' ? req.user.operator_id || 0 : filters.operator_id;
+
+    const params: Id[] = [];
+    const conditions = ['true'];
+    const optional = [
+      ['lr.end_date >=', filters.from],
+      ['lr.start_date <=', filters.to],
+      ['o.department_id =', filters.department_id],
+      ['lr.operator_id =', operatorId],
+      ['lr.status =', filters.status]
+    ] as const;
+    for (const [condition, value] of optional) {
+      if (value !== null && value !== undefined) {
+        params.push(value);
+        conditions.push(`${condition} $${params.length}`);
+      }
+    }
+
+    const result = await query(`
+      ${LEAVE_REQUEST_SELECT}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY lr.start_date, o.name
+    `, params);
+    const requests: LeaveRequest[] = result.rows as LeaveRequest[];
+    res.json(requests);
+  } catch (error) {
+    handleError(res, error, 'fetching leave requests');
+  }
+});
+
+const fetchLeaveRequest = async (id: Id) => {
+  const result = await query(`${LEAVE_REQUEST_SELECT} WHERE lr.id = $1`, [id]);
+  return (result.rows[0] as LeaveRequest | undefined) || null;
+};
+
+// Operators request leave for themselves; supervisors can file it for anyone
+app.post('/api/leave-requests', authorizeSelf(req => req.body.operator_id), async (req, res) => {
+  try {
+    const body = parseBody(leaveRequestSchema, req, res, checkLeavePeriod);
+    if (!body) return;
+    const { operator_id, leave_type_id, start_date, end_date, reason } = body;
+
+    const leaveType = await fetchRow('leave_types', leave_type_id);
+    if (!leaveType || !leaveType.is_active) {
+      return sendFieldErrors(res, [{ field: 'leave_type_id', message: 'Leave type is not available' }]);
+    }
+    const problem = await checkLeaveRequest(body);
+    if (problem) {
+      return sendError(res, 409, problem);
+    }
+
+    const result = await query(`
+      INSERT INTO leave_requests (operator_id, leave_type_id, start_date, end_date, reason, requested_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [operator_id, leave_type_id, start_date, end_date, reason, req.user.id]);
+
+    await recordAudit(req, 'create', 'leave_request', result.rows[0].id, null, result.rows[0]);
+    broadcast('resync', { entity: 'leave' });
+    res.status(201).json(await fetchLeaveRequest(result.rows[0].id));
+  } catch (error) {
+    handleError(res, error, 'creating leave request');
+  }
+});
+
+// A request must be in one of `statuses` for the action; sends the 404 or 409 itself otherwise
+const findLeaveRequestIn = async (res: Response, id: Id, statuses: LeaveRequest['status'][], action: string) => {
+  const request = await fetchRow('leave_requests', id);
+  if (!request) {
+    sendError(res, 404, 'Leave request not found');
+    return null;
+  }
+  if (!statuses.includes(request.status)) {
+    sendError(res, 409, `Only ${statuses.join(' or ')} leave can be ${action}; this request is ${request.status}`);
+    return null;
+  }
+  return request;
+};
+
+// Days of a request that have already been classified follow its new status: a no-show becomes
+// excused on approval, and back again when approved leave is cancelled. Later days are
+// classified as they come.
+const reclassifyLeaveDays = async (request: Row) => {
+  const now = new Date();
+  const tomorrow = addDays(await getToday('operator', request.operator_id), 1);
+  const last = request.end_date < tomorrow ? request.end_date : tomorrow;
+  let changed = 0;
+  for (let date = request.start_date; date <= last; date = addDays(date, 1)) {
+    changed += await classifyAttendance(date, now, request.operator_id);
+  }
+  if (changed > 0) {
+    broadcast('attendance', { action: 'classified' });
+  }
+};
+
+// Approval does not touch the roster: assignments already made inside the leave stay, and are
+// returned so the supervisor can cover them. New assignments on those days are refused.
+app.post('/api/leave-requests/:id/approve', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(leaveReviewSchema, req, res);
+    if (!body) return;
+
+    const before = await findLeaveRequestIn(res, id, ['pending'], 'approved');
+    if (!before) return;
+    const problem = await checkLeaveRequest(before);
+    if (problem) {
+      return sendError(res, 409, problem);
+    }
+
+    const result = await query(`
+      UPDATE leave_requests
+      SET status = 'approved', reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP, review_note = $2,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3 AND status = 'pending'
+      RETURNING *
+    `, [req.user.id, body.review_note, id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Leave request was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'approve', 'leave_request', id, before, result.rows[0]);
+    await reclassifyLeaveDays(result.rows[0]);
+    broadcast('resync', { entity: 'leave' });
+
+    const assignments = await query(`
+      SELECT sa.id, sa.assigned_date, sh.name as shift_name, st.name as station_name
+      FROM shift_assignments sa
+      JOIN shifts sh ON sa.shift_id = sh.id
+      LEFT JOIN stations st ON sa.station_id = st.id
+      WHERE sa.operator_id = $1 AND sa.assigned_date BETWEEN $2 AND $3
+      ORDER BY sa.assigned_date
+    `, [before.operator_id, before.start_date, before.end_date]);
+    const approval: LeaveApproval = {
+      ...(await fetchLeaveRequest(id))!,
+      assignments: assignments.rows as LeaveApproval['assignments']
+    };
+    res.json(approval);
+  } catch (error) {
+    handleError(res, error, 'approving leave request');
+  }
+});
+
+app.post('/api/leave-requests/:id/reject', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(leaveReviewSchema, req, res);
+    if (!body) return;
+
+    const before = await findLeaveRequestIn(res, id, ['pending'], 'rejected');
+    if (!before) return;
+
+    const result = await query(`
+      UPDATE leave_requests
+      SET status = 'rejected', reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP, review_note = $2,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3 AND status = 'pending'
+      RETURNING *
+    `, [req.user.id, body.review_note, id]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Leave request was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'reject', 'leave_request', id, before, result.rows[0]);
+    broadcast('resync', { entity: 'leave' });
+    res.json(await fetchLeaveRequest(id));
+  } catch (error) {
+    handleError(res, error, 'rejecting leave request');
+  }
+});
+
+// Operators may withdraw their own requests until the leave starts; supervisors at any time
+app.post('/api/leave-requests/:id/cancel', authorize('admin', 'supervisor', 'operator'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const before = await findLeaveRequestIn(res, id, ['pending', 'approved'], 'cancelled');
+    if (!before) return;
+
+    if (!SUPERVISORS.includes(req.user.role)) {
+      if (String(req.user.operator_id) !== String(before.operator_id)) {
+        return sendError(res, 403, 'Operators can only perform this action for themselves');
+      }
+      if (before.status === 'approved' && before.start_date <= await getToday('operator', before.operator_id)) {
+        return sendError(res, 409, 'Leave that has started can only be cancelled by a supervisor');
+      }
+    }
+
+    const result = await query(`
+      UPDATE leave_requests
+      SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = $2
+      RETURNING *
+    `, [id, before.status]);
+    if (result.rows.length === 0) {
+      return sendError(res, 409, 'Leave request was changed by someone else; reload and try again');
+    }
+
+    await recordAudit(req, 'cancel', 'leave_request', id, before, result.rows[0]);
+    if (before.status === 'approved') {
+      await reclassifyLeaveDays(result.rows[0]);
+    }
+    broadcast('resync', { entity: 'leave' });
+    res.json(await fetchLeaveRequest(id));
+  } catch (error) {
+    handleError(res, error, 'cancelling leave request');
+  }
+});
+
+// Allowance, approved and pending days per operator and leave type for one year. Lists types with
+// an allowance, and unlimited ones the operator has taken or requested leave of that year.
+app.get('/api/leave-balances', async (req, res) => {
+  try {
+    const filters = parseQuery(leaveBalancesQuerySchema, req, res);
+    if (!filters) return;
+    const operatorId = req.user.role === 'operator' ? req.user.operator_id || 0 : filters.operator_id;
+    const year = filters.year || Number((await getToday('department', filters.department_id)).slice(0, 4));
+
+    const params: Id[] = [year];
+    const conditions = ["o.employment_status <> 'terminated'"];
+    const optional = [['o.department_id', filters.department_id], ['o.id', operatorId]] as const;
+    for (const [column, value] of optional) {
+      if (value) {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    const result = await query(`
+      SELECT o.id as operator_id, o.name as operator_name, lt.id as leave_type_id, lt.name as leave_type_name,
+             $1::integer as year,
+             COALESCE(lb.allowance_days, lt.annual_allowance_days) as allowance_days,
+             COALESCE(SUM(lr.days) FILTER (WHERE lr.status = 'approved'), 0) as taken_days,
+             COALESCE(SUM(lr.days) FILTER (WHERE lr.status = 'pending'), 0) as pending_days
+      FROM operators o
+      CROSS JOIN leave_types lt
+      LEFT JOIN leave_balances lb ON lb.operator_id = o.id AND lb.leave_type_id = lt.id AND lb.year = $1
+      LEFT JOIN LATERAL (
+        SELECT lr.status, ${leaveDaysInYear('$1')} as days
+        FROM leave_requests lr
+        WHERE lr.operator_id = o.id AND lr.leave_type_id = lt.id AND lr.status IN ('pending', 'approved')
+          AND lr.start_date <= make_date($1, 12, 31) AND lr.end_date >= make_date($1, 1, 1)
+      ) lr ON true
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY o.id, o.name, lt.id, lt.name, lb.allowance_days, lt.annual_allowance_days
+      HAVING (lt.is_active AND COALESCE(lb.allowance_days, lt.annual_allowance_days) IS NOT NULL)
+          OR COUNT(lr.days) > 0
+      ORDER BY o.name, lt.name
+    `, params);
+
+    const balances: LeaveBalance[] = result.rows.map(row => ({
+      ...(row as Omit<LeaveBalance, 'remaining_days'>),
+      remaining_days: row.allowance_days === null ? null : row.allowance_days - row.taken_days - row.pending_days
+    }));
+    res.json(balances);
+  } catch (error) {
+    handleError(res, error, 'fetching leave balances');
+  }
+});
+
+// Set an operator's allowance of a leave type for one year, replacing the type's default
+app.put('/api/operators/:id/leave-balances/:leaveTypeId', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const { id, leaveTypeId } = req.params;
+    const body = parseBody(leaveBalanceSchema, req, res);
+    if (!body) return;
+    const { year, allowance_days } = body;
+
+    const existing = await query(
+      'SELECT * FROM leave_balances WHERE operator_id = $1 AND leave_type_id = $2 AND year = $3',
+      [id, leaveTypeId, year]
+    );
+    const result = await query(`
+      INSERT INTO leave_balances (operator_id, leave_type_id, year, allowance_days)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (operator_id, leave_type_id, year)
+      DO UPDATE SET allowance_days = EXCLUDED.allowance_days, updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `, [id, leaveTypeId, year, allowance_days]);
+
+    const before = existing.rows[0] || null;
+    await recordAudit(req, before ? 'update' : 'create', 'leave_balance', `${id}:${leaveTypeId}:${year}`, before, result.rows[0]);
+    broadcast('resync', { entity: 'leave' });
+    res.json(result.rows[0]);
+  } catch (error) {
+    handleError(res, error, 'updating leave balance');
+  }
+});
+
+// STATUS UPDATE ENDPOINT
+app.post('/api/operators/:id/status', authorizeSelf(req => req.params.id), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = parseBody(operatorStatusSchema, req, res);
+    if (!body) return;
+    const { status, occurred_at } = body;
+
+    const before = await fetchRow('operators', id);
+    if (!before) {
+      return sendError(res, 404, 'Operator not found');
+    }
+    const time = resolveEventTime(occurred_at);
+    if ('error' in time) {
+      return sendError(res, time.status, time.error, time.details);
+    }
+    // The latest change wins: a replayed one older than the last recorded change is not applied
+    if (before.last_active && new Date(before.last_active) > time.at) {
+      return sendError(res, 409, 'A newer status change was already recorded');
+    }
+
+    // Record break intervals for operators who are clocked in rather than only flipping the status
+    if (status === 'on_break') {
+      await startBreak(id, 'rest', time.at);
+    } else {
+      await endBreak(id, time.at);
+    }
+
+    await setOperatorStatus(id, status, time.at);
+    const result = await fetchRow('operators', id);
+
+    await recordAudit(req, 'status_change', 'operator', id, before, result);
+
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'updating status');
+  }
+});
+
+// DASHBOARD STATS ENDPOINT
+app.get('/api/dashboard/stats', async (req, res) => {
+  try {
+    const filters = parseQuery(siteQuerySchema, req, res);
+    if (!filters) return;
+    const today = await getToday('site', filters.site_id);
+    
+    // Get operator counts by status
+    const operatorStats = await query(`
+      SELECT status, COUNT(*) as count
+      FROM operators
+      WHERE employment_status <> 'terminated'
+      GROUP BY status
+    `);
+    
+    // Get attendance stats for today (operators, not sessions)
+    const attendanceStats = await query(`
+      SELECT status, COUNT(DISTINCT operator_id) as count
+      FROM attendance_logs
+      WHERE date = $1
+      GROUP BY status
+    `, [today]);
+    
+    // Get production line efficiency
+    const lineStats = await query(`
+      SELECT pl.name, pl.id,
+             COUNT(s.id) as total_stations,
+             COUNT(sa.id) as occupied_stations,
+             AVG(s.efficiency_percentage) as avg_efficiency
+      FROM production_lines pl
+      LEFT JOIN stations s ON pl.id = s.line_id AND s.status = 'active'
+      LEFT JOIN shift_assignments sa ON s.id = sa.station_id AND sa.assigned_date = $1
+      WHERE pl.status = 'active'
+      GROUP BY pl.id, pl.name
+      ORDER BY pl.name
+    `, [today]);
+
+    res.json({
+      operators: operatorStats.rows,
+      attendance: attendanceStats.rows,
+      production_lines: lineStats.rows
+    });
+  } catch (error) {
+    handleError(res, error, 'fetching dashboard stats');
+  }
+});
+
+// ANALYTICS ENDPOINTS
+// Every metric is loaded as a numerator and denominator per period, so a window's total is the
+// ratio of its sums rather than an average of the periods' ratios. Downtime and overtime have no
+// denominator and are summed.
+type TrendFilters = Pick<Infer<typeof analyticsTrendsQuerySchema>, 'department_id' | 'line_id' | 'station_id'>;
+type TrendRow = { period: string; numerator: number | null; denominator: number | null };
+
+const TREND_UNITS: Record<AnalyticsMetric, TrendSeries['unit']> = {
+  efficiency: 'percent',
+  occupancy: 'percent',
+  attendance_rate: 'percent',
+  overtime: 'hours',
+  downtime: 'minutes'
+};
+
+// Default window lengths in days, before widening to whole periods
+const TREND_DEFAULT_DAYS: Record<TrendGranularity, number> = { day: 30, week: 84, month: 365 };
+
+// First day of the period containing `date`; weeks start on Monday, as with date_trunc
+const trendPeriodStart = (date: string, granularity: TrendGranularity) => {
+  if (granularity === 'day') return date;
+  if (granularity === 'week') return weekStartOf(date, 1);
+  return `${date.slice(0, 7)}-01`;
+};
+
+// The period `count` periods after (or before, when negative) the one starting on `period`
+const shiftTrendPeriod = (period: string, granularity: TrendGranularity, count: number) => {
+  if (granularity === 'day') return addDays(period, count);
+  if (granularity === 'week') return addDays(period, count * 7);
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1 + count, 1)).toISOString().split('T')[0];
+};
+
+const trendPeriods = (from: string, to: string, granularity: TrendGranularity) => {
+  const periods: string[] = [];
+  for (let period = trendPeriodStart(from, granularity); period <= to; period = shiftTrendPeriod(period, granularity, 1)) {
+    periods.push(period);
+  }
+  return periods;
+};
+
+// Station, line and department conditions of a trend query. Station metrics filter the joined
+// stations (s) and lines (pl); operator metrics filter operators (o), who count for a station or
+// line on the days they were assigned to it.
+const trendConditions = (filters: TrendFilters, params: Id[], scope: 'station' | 'operator', dateColumn: string) => {
+  const add = (column: string, value: Id) => {
+    params.push(value);
+    return `${column} = $${params.length}`;
+  };
+  const conditions: string[] = [];
+  if (scope === 'station') {
+    if (filters.station_id) conditions.push(add('s.id', filters.station_id));
+    if (filters.line_id) conditions.push(add('s.line_id', filters.line_id));
+    if (filters.department_id) conditions.push(add('pl.department_id', filters.department_id));
+  } else {
+    if (filters.department_id) conditions.push(add('o.department_id', filters.department_id));
+    const assignment: string[] = [];
+    if (filters.station_id) assignment.push(add('s.id', filters.station_id));
+    if (filters.line_id) assignment.push(add('s.line_id', filters.line_id));
+    if (assignment.length > 0) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM shift_assignments sa
+        JOIN stations s ON sa.station_id = s.id
+        WHERE sa.operator_id = o.id AND sa.assigned_date = ${dateColumn} AND ${assignment.join(' AND ')}
+      )`);
+    }
+  }
+  return conditions.map(condition => `AND ${condition}`).join(' ');
+};
+
+// Queries of the metrics computed in SQL: $1..$2 is the window, $3 the granularity
+const TREND_QUERIES: Record<Exclude<AnalyticsMetric, 'overtime'>, {
+  scope: 'station' | 'operator';
+  dateColumn: string;
+  sql: (conditions: string) => string;
+}> = {
+  efficiency: {
+    scope: 'station',
+    dateColumn: 'sp.date',
+    sql: conditions => `
+      SELECT date_trunc($3, sp.date::timestamp)::date as period,
+             SUM(sp.units_produced) * 100.0 as numerator, SUM(sp.target_units) as denominator
+      FROM station_performance sp
+      JOIN stations s ON sp.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      WHERE sp.date BETWEEN $1 AND $2 ${conditions}
+      GROUP BY period
+    `
+  },
+  downtime: {
+    scope: 'station',
+    dateColumn: 'sp.date',
+    sql: conditions => `
+      SELECT date_trunc($3, sp.date::timestamp)::date as period,
+             SUM(sp.downtime_minutes) as numerator, NULL::numeric as denominator
+      FROM station_performance sp
+      JOIN stations s ON sp.station_id = s.id
+      LEFT JOIN production_lines pl ON s.line_id = pl.id
+      WHERE sp.date BETWEEN $1 AND $2 ${conditions}
+      GROUP BY period
+    `
+  },
+  // Stations active now, each counted once a day however many shifts staffed it
+  occupancy: {
+    scope: 'station',
+    dateColumn: 'day.date',
+    sql: conditions => `
+      SELECT date_trunc($3, day.date)::date as period,
+             COUNT(*) FILTER (WHERE EXISTS (
+               SELECT 1 FROM shift_assignments sa WHERE sa.station_id = s.id AND sa.assigned_date = day.date::date
+             )) * 100.0 as numerator,
+             COUNT(*) as denominator
+      FROM generate_series($1::date, $2::date, interval '1 day') day(date)
+      CROSS JOIN stations s
+      JOIN production_lines pl ON s.line_id = pl.id
+      WHERE s.status = 'active' AND pl.status = 'active' ${conditions}
+      GROUP BY period
+    `
+  },
+  // Classified operator-days as in the absence trends; excused and unscheduled days are left out
+  attendance_rate: {
+    scope: 'operator',
+    dateColumn: 'day.date',
+    sql: conditions => `
+      SELECT date_trunc($3, day.date::timestamp)::date as period,
+             COUNT(*) FILTER (WHERE day.status <> 'no_show') * 100.0 as numerator,
+             COUNT(*) as denominator
+      FROM (
+        SELECT operator_id, date, MIN(status) as status
+        FROM attendance_logs
+        WHERE date BETWEEN $1 AND $2 AND status IN ('on_time', 'late', 'left_early', 'no_show', 'excused', 'unscheduled')
+        GROUP BY operator_id, date
+      ) day
+      JOIN operators o ON day.operator_id = o.id
+      WHERE day.status IN ('on_time', 'late', 'left_early', 'no_show') ${conditions}
+      GROUP BY period
+    `
+  }
+};
+
+// Overtime follows the timesheet rules, so it is calculated per operator like a timesheet and
+// only the days matching the filters are counted
+const loadOvertimeRows = async (from: string, to: string, granularity: TrendGranularity, filters: TrendFilters): Promise<TrendRow[]> => {
+  const params: Id[] = [from, to];
+  const conditions = trendConditions(filters, params, 'operator', 'al.date');
+  const [worked, rules] = await Promise.all([
+    query(`
+      SELECT DISTINCT al.operator_id, al.date
+      FROM attendance_logs al
+      JOIN operators o ON al.operator_id = o.id
+      WHERE al.clock_in IS NOT NULL AND al.date BETWEEN $1 AND $2 ${conditions}
+    `, params),
+    getTimesheetRules()
+  ]);
+  const counted = new Set(worked.rows.map(row => `${row.operator_id}:${row.date}`));
+
+  const minutes = new Map<string, number>();
+  for (const operatorId of new Set(worked.rows.map(row => row.operator_id as number))) {
+    const { days } = await calculateTimesheet(operatorId, from, to, rules);
+    for (const day of days) {
+      if (!counted.has(`${operatorId}:${day.date}`)) continue;
+      const period = trendPeriodStart(day.date, granularity);
+      minutes.set(period, (minutes.get(period) || 0) + day.overtime_minutes);
+    }
+  }
+  return [...minutes].map(([period, total]) => ({ period, numerator: total / 60, denominator: null }));
+};
+
+const loadTrendWindow = async (
+  metric: AnalyticsMetric, from: string, to: string, granularity: TrendGranularity, filters: TrendFilters
+): Promise<TrendWindow> => {
+  let rows: TrendRow[];
+  if (metric === 'overtime') {
+    rows = await loadOvertimeRows(from, to, granularity, filters);
+  } else {
+    const { scope, dateColumn, sql } = TREND_QUERIES[metric];
+    const params: Id[] = [from, to, granularity];
+    const result = await query(sql(trendConditions(filters, params, scope, dateColumn)), params);
+    rows = result.rows as TrendRow[];
+  }
+
+  const ratio = TREND_UNITS[metric] === 'percent';
+  const value = (numerator: number, denominator: number) =>
+    ratio ? (denominator > 0 ? Math.round(numerator / denominator * 10) / 10 : null) : Math.round(numerator * 10) / 10;
+  const byPeriod = new Map(rows.map(row => [row.period, row]));
+  const points = trendPeriods(from, to, granularity).map(period => {
+    const row = byPeriod.get(period);
+    return { period, value: row ? value(row.numerator || 0, row.denominator || 0) : null };
+  });
+  const total = rows.length > 0
+    ? value(rows.reduce((sum, row) => sum + (row.numerator || 0), 0), rows.reduce((sum, row) => sum + (row.denominator || 0), 0))
+    : null;
+  return { from, to, points, total };
+};
+
+// Time series of line and station metrics. With `compare`, each series also covers the same
+// number of periods just before the window, with points aligned by position.
+app.get('/api/analytics/trends', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(analyticsTrendsQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const granularity = filters.granularity || 'day';
+    const to = filters.to || (filters.station_id
+      ? await getToday('station', filters.station_id)
+      : await getToday('department', filters.department_id));
+    const from = filters.from || trendPeriodStart(addDays(to, 1 - TREND_DEFAULT_DAYS[granularity]), granularity);
+    const periodErrors = checkPeriod(ANALYTICS_MAX_DAYS)({ from, to });
+    if (periodErrors.length > 0) return sendFieldErrors(res, periodErrors);
+
+    const periodCount = trendPeriods(from, to, granularity).length;
+    const previousFrom = shiftTrendPeriod(trendPeriodStart(from, granularity), granularity, -periodCount);
+    const previousTo = addDays(from, -1);
+
+    const metrics = filters.metric ? [filters.metric] : ANALYTICS_METRICS;
+    const series: TrendSeries[] = [];
+    for (const metric of metrics) {
+      const current = await loadTrendWindow(metric, from, to, granularity, filters);
+      const previous = filters.compare
+        ? await loadTrendWindow(metric, previousFrom, previousTo, granularity, filters)
+        : null;
+      series.push({
+        metric,
+        unit: TREND_UNITS[metric],
+        current,
+        previous,
+        change: current.total !== null && previous && previous.total !== null
+          ? Math.round((current.total - previous.total) * 10) / 10
+          : null
+      });
+    }
+
+    const trends: AnalyticsTrends = { granularity, series };
+    res.json(trends);
+  } catch (error) {
+    handleError(res, error, 'fetching analytics trends');
+  }
+});
+
+// LIVE UPDATES ENDPOINT
+app.get('/api/events', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  // Tell the browser how long to wait before reconnecting, then confirm the stream is live
+  res.write('retry: 5000\nevent: ready\ndata: {}\n\n');
+  liveClients.add(res);
+
+  req.on('close', () => {
+    liveClients.delete(res);
+  });
+});
+
+// AUDIT ENDPOINT
+// operator_id and station_id also match entries of other entities that reference them,
+// e.g. the shift assignments and attendance records of an operator.
+app.get('/api/audit', authorize(...SUPERVISORS), async (req, res) => {
+  try {
+    const filters = parseQuery(auditQuerySchema, req, res, checkDateRange);
+    if (!filters) return;
+    const { entity_type, entity_id, operator_id, station_id, actor_user_id, action, from, to } = filters;
+    const limit = filters.limit || 100;
+    const offset = filters.offset || 0;
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const addCondition = (condition: string, value: unknown) => {
+      params.push(value);
+      conditions.push(condition.replaceAll('?', `$${params.length}`));
+    };
+
+    if (entity_type) addCondition('entity_type = ?', entity_type);
+    if (entity_id) addCondition('entity_id = ?', String(entity_id));
+    if (actor_user_id) addCondition('actor_user_id = ?', actor_user_id);
+    if (action) addCondition('action = ?', action);
+    if (from) addCondition('created_at >= ?', from);
+    if (to) addCondition('created_at < ?::date + 1', to);
+    if (operator_id) {
+      addCondition(`((entity_type = 'operator' AND entity_id = ?)
+        OR before_data->>'operator_id' = ? OR after_data->>'operator_id' = ?)`, String(operator_id));
+    }
+    if (station_id) {
+      addCondition(`((entity_type = 'station' AND entity_id = ?)
+        OR before_data->>'station_id' = ? OR after_data->>'station_id' = ?)`, String(station_id));
+    }
+
+    params.push(limit, offset);
+    const result = await query(`
+      SELECT * FROM audit_log
+      ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `, params);
+
+    res.json(result.rows);
+  } catch (error) {
+    handleError(res, error, 'fetching audit log');
+  }
+});
+
+// HEALTH CHECK ENDPOINT
+app.get('/api/health', async (_req, res) => {
+  try {
+    const result = await query('SELECT NOW() as timestamp');
+    res.json({ 
+      status: 'OK', 
+      timestamp: result.rows[0].timestamp,
+      database: 'Connected'
+    });
+  } catch (error) {
+    res.status(500).json({ 
+      status: 'ERROR', 
+      timestamp: new Date().toISOString(),
+      database: 'Disconnected',
+      error: errorMessage(error)
+    });
+  }
+});
+
+// Newest migration the code above depends on; bump it with every migration the server needs
+const REQUIRED_SCHEMA_VERSION = '20261019180000';
+
+// Start server, but never against a schema older than the code expects
+const prepareDatabase = async () => {
+  if (process.env.MIGRATE_ON_START === 'true') {
+    await migrate();
+  }
+  const status = await assertSchemaVersion(REQUIRED_SCHEMA_VERSION);
+  console.log(`Database schema at version ${status.current}`);
+};
+
+prepareDatabase()
+  .then(() => ensureBootstrapAdmin().catch(error => console.error('Error creating initial admin user:', error)))
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`Backend server is running on http://localhost:${PORT}`);
+    });
+    setInterval(() => {
+      classifyRecentAttendance().catch(error => console.error('Error classifying attendance:', error));
+    }, CLASSIFY_INTERVAL_MS);
+  })
+  .catch(error => {
+    console.error('Cannot start server:', errorMessage(error));
+    process.exit(1);
+  });
+
+export default app;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   Users, 
   Calendar, 
@@ -19,199 +19,1071 @@ import {
   Save,
   X,
   Target,
-  ClipboardList
+  ClipboardList,
+  LogIn,
+  LogOut,
+  History,
+  Wifi,
+  WifiOff,
+  CalendarRange,
+  ChevronLeft,
+  ChevronRight,
+  AlertTriangle,
+  GraduationCap,
+  Wand2,
+  Download,
+  FileClock,
+  Settings,
+  ChevronDown,
+  ChevronUp,
+  GripVertical,
+  CheckCircle,
+  Lock,
+  Unlock,
+  Plane,
+  ArrowLeftRight,
+  ShieldAlert,
+  KeyRound,
+  Monitor,
+  Archive,
+  ArchiveRestore,
+  Briefcase,
+  CloudOff
 } from 'lucide-react';
+import type {
+  AbsenceTrend,
+  AnalyticsMetric,
+  AnalyticsTrends,
+  ApiErrorBody,
+  AttendanceDay,
+  AttendanceException,
+  AttendanceRules,
+  AttendanceStatus,
+  AuditEntry,
+  BreakType,
+  Certification,
+  ComplianceBasis,
+  ComplianceReport,
+  ComplianceRule,
+  ComplianceRuleType,
+  DashboardStats,
+  EmploymentStatus,
+  Department,
+  ExpiringCertification,
+  ExportFormat,
+  ExportKind,
+  FieldError,
+  HeldClockOut,
+  ImportAction,
+  ImportReport,
+  KioskCredentials,
+  KioskDevice,
+  KioskDeviceCreated,
+  LeaveApproval,
+  LeaveBalance,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  Operator,
+  OperatorArchived,
+  OperatorCertification,
+  PerformanceGroup,
+  PlantTime,
+  ProductionLine,
+  RosterAssignment,
+  RosterPreview,
+  RosterTemplate,
+  Shift,
+  ShiftTrade,
+  ShiftTradeResult,
+  ShiftTradeStatus,
+  Site,
+  StaffingPlan,
+  Station,
+  StationRequirement,
+  Timesheet,
+  TimesheetGenerateResult,
+  TimesheetRules,
+  TimesheetStatus,
+  TrendGranularity,
+  TrendPoint,
+  TrendSeries,
+  User
+} from './shared/api';
+import {
+  validate,
+  COMPLIANCE_RULE_TYPES,
+  COMPLIANCE_SEVERITIES,
+  EMPLOYMENT_STATUSES,
+  EXPORT_FORMATS,
+  IMPORT_COLUMNS,
+  IMPORT_MAX_BYTES,
+  IMPORT_MAX_ROWS,
+  PERFORMANCE_GROUPS,
+  ROUNDING_OPTIONS,
+  TREND_PERIODS,
+  attendanceRulesSchema,
+  certificationSchema,
+  checkCertificationDates,
+  checkComplianceThreshold,
+  checkEmployment,
+  checkKioskPin,
+  checkLeaveColor,
+  checkLeavePeriod,
+  checkLineLayout,
+  checkShiftTimes,
+  checkTimesheetRules,
+  complianceRuleSchema,
+  departmentSchema,
+  kioskCredentialsSchema,
+  kioskDeviceSchema,
+  leaveBalanceSchema,
+  leaveRequestSchema,
+  leaveTypeSchema,
+  lineLayoutSchema,
+  operatorCertificationSchema,
+  openShiftSchema,
+  operatorEmploymentSchema,
+  operatorSchema,
+  productionLineSchema,
+  shiftAssignmentSchema,
+  shiftClaimSchema,
+  shiftOfferSchema,
+  shiftSchema,
+  stationSchema,
+  timesheetRulesSchema
+} from './shared/api';
+import { toCsv } from './shared/csv';
 
 const API_BASE_URL = `${window.location.protocol}//${window.location.hostname}:5001/api`;
+const TOKEN_STORAGE_KEY = 'operator-tracking-token';
 
-// --- Interfaces (Data Structures) ---
-interface Department {
-  id: number;
-  name: string;
-  description: string;
-}
+// fetch() against the API with the session token attached; a 401 signs the user out
+const apiFetch = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem(TOKEN_STORAGE_KEY);
+  const response = await fetch(`${API_BASE_URL}/${path}`, {
+    ...init,
+    headers: { ...init.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) }
+  });
+  if (response.status === 401 && path !== 'auth/login') {
+    window.dispatchEvent(new Event('auth:expired'));
+  }
+  return response;
+};
+
+// Body of a failed response; anything that is not the API's error shape becomes a generic message
+const readApiError = async (response: Response): Promise<ApiErrorBody> => {
+  const body = await response.json().catch(() => null);
+  return body && typeof body.error === 'string'
+    ? body
+    : { error: `Request failed (${response.status})`, code: 'internal_error' };
+};
+
+// --- Offline support ---
+// Reference data is kept in localStorage so screens still load without a connection. Clock events
+// and status changes made offline wait in a queue, replayed in order once the server is reachable.
+const CACHE_STORAGE_PREFIX = 'operator-tracking-cache:';
+const SYNC_QUEUE_STORAGE_KEY = 'operator-tracking-sync-queue';
+
+// Endpoints kept for offline use: reference data, and today's attendance that the clock buttons follow
+const OFFLINE_CACHED = /^(time|sites|departments|operators|shifts|production-lines|stations|attendance\/break-types|attendance\/daily)(\?|$)/;
+
+const readCache = (endpoint: string): unknown => {
+  const cached = localStorage.getItem(CACHE_STORAGE_PREFIX + endpoint);
+  return cached === null ? undefined : JSON.parse(cached);
+};
+
+const writeCache = (endpoint: string, data: unknown) => {
+  try {
+    localStorage.setItem(CACHE_STORAGE_PREFIX + endpoint, JSON.stringify(data));
+  } catch (error) {
+    console.error(`Error caching ${endpoint}:`, error); // storage full; the screen still has the data
+  }
+};
 
-interface ProductionLine {
-  id: number;
-  name: string;
-  department_id: number;
-  department_name: string;
-  capacity: number;
-  station_count: number;
-  avg_efficiency: number;
-  status: string;
+// Cached data belongs to the signed-in user's view, so it goes when they sign out
+const clearCache = () => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_STORAGE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+type QueuedActionKind = 'clock-in' | 'clock-out' | 'break-start' | 'break-end' | 'status';
+
+// A change waiting to be sent. `key` goes out as the Idempotency-Key header, so a change that did
+// reach the server before the connection dropped is not applied again; `occurred_at` is when it happened.
+interface QueuedAction {
+  key: string;
+  user_id: number; // replayed only with this user's session
+  operator_id: number;
+  kind: QueuedActionKind;
+  label: string;
+  path: string;
+  body: Record<string, unknown>;
 }
 
-interface Station {
-  id: number;
-  name: string;
-  line_id: number;
-  line_name: string;
-  position_order: number;
-  efficiency_percentage: number;
-  target_efficiency: number;
-  operator_name?: string;
-  operator_id?: number;
-  assignment_id?: number;
+const readQueue = (): QueuedAction[] => JSON.parse(localStorage.getItem(SYNC_QUEUE_STORAGE_KEY) || '[]');
+const writeQueue = (queue: QueuedAction[]) => localStorage.setItem(SYNC_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+
+// crypto.randomUUID needs a secure context, which a tablet opening the app over the plant LAN is not
+const newIdempotencyKey = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Where an operator stands once a queued attendance event is applied, for the clock buttons
+const QUEUED_ATTENDANCE_STATUS: Record<Exclude<QueuedActionKind, 'status'>, 'present' | 'departed' | 'on_break'> = {
+  'clock-in': 'present',
+  'clock-out': 'departed',
+  'break-start': 'on_break',
+  'break-end': 'present'
+};
+
+// --- Form errors ---
+interface FormErrors {
+  message: string | null; // shown above the buttons
+  fields: Record<string, string>; // shown under the matching input
 }
 
-interface Operator {
-  id: number;
-  name: string;
-  email: string;
-  employee_id: string;
-  department_id: number;
-  department_name: string;
-  skill_level: string;
-  status: 'online' | 'offline' | 'on_break';
-  last_active: string;
-  station_id?: number;
-  station_name?: string;
-  line_name?: string;
+const NO_ERRORS: FormErrors = { message: null, fields: {} };
+
+// Place field errors under the inputs a form shows; errors for any other field fall back to the form message
+const toFormErrors = (errors: FieldError[], shown: readonly string[], message: string | null = null): FormErrors => {
+  const fields: Record<string, string> = {};
+  const unplaced: string[] = [];
+  errors.forEach(error => {
+    if (!shown.includes(error.field)) unplaced.push(error.message);
+    else fields[error.field] ??= error.message;
+  });
+  return { message: unplaced.length > 0 ? unplaced.join(' ') : errors.length > 0 ? null : message, fields };
+};
+
+const responseErrors = async (response: Response, shown: readonly string[]) => {
+  const body = await readApiError(response);
+  return toFormErrors(body.errors ?? [], shown, body.error);
+};
+
+// Save a downloaded or generated file through a temporary link
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const FieldMessage = ({ message }: { message?: string | null }) =>
+  message ? <p className="mt-1 text-xs text-red-600">{message}</p> : null;
+
+const NOTICE_STYLES = {
+  error: 'bg-red-50 border-red-200 text-red-800',
+  warning: 'bg-amber-50 border-amber-200 text-amber-800',
+  success: 'bg-green-50 border-green-200 text-green-800'
+};
+
+// --- Client-only state shapes (API types live in ./shared/api) ---
+interface AutoStaffState {
+  line: ProductionLine;
+  date: string;
+  shift_id: string;
+  plan: StaffingPlan | null;
+  selections: Record<number, string>; // station id -> operator id, '' leaves the station empty
+  message: string | null;
 }
 
-interface Shift {
-  id: number;
-  name: string;
-  start_time: string;
-  end_time: string;
-  start_date: string;
-  end_date: string;
-  department_id: number;
-  department_name: string;
-  capacity: number;
-  assigned_count: string; // Comes from DB as string
-  is_active: boolean;
+interface ImportState {
+  file: File | null;
+  create_departments: boolean;
+  report: ImportReport | null; // dry-run result under review
+  busy: boolean;
+  error: string | null;
 }
 
-interface AttendanceLog {
-    id: number;
-    operator_id: number;
-    date: string;
-    clock_in: string | null;
-    clock_out: string | null;
-    status: string;
+interface ExportState {
+  kind: ExportKind;
+  date: string; // assignments
+  from: string; // attendance and performance
+  to: string;
+  department_id: string;
+  line_id: string;
+  shift_id: string;
+  group_by: PerformanceGroup;
+  format: ExportFormat;
+  busy: boolean;
+  errors: FormErrors;
 }
 
-interface DashboardStats {
-  operators: { status: string; count: string }[];
-  attendance: { status: string; count: string }[];
-  production_lines: {
-    id: number;
-    name: string;
-    total_stations: string;
-    occupied_stations: string;
-    avg_efficiency: string;
-  }[];
+const EXPORT_TITLES: Record<ExportKind, string> = {
+  attendance: 'Export Attendance',
+  assignments: 'Export Assignment Sheet',
+  performance: 'Export Station Performance'
+};
+
+const TIMESHEET_STATUS_STYLES: Record<TimesheetStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  approved: 'bg-green-100 text-green-800',
+  locked: 'bg-gray-800 text-white'
+};
+
+const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  absent: 'Absent',
+  on_time: 'On time',
+  late: 'Late',
+  left_early: 'Left early',
+  no_show: 'No-show',
+  excused: 'Excused',
+  unscheduled: 'Unscheduled'
+};
+
+const ATTENDANCE_STATUS_STYLES: Record<AttendanceStatus, string> = {
+  present: 'bg-blue-100 text-blue-800',
+  absent: 'bg-gray-100 text-gray-700',
+  on_time: 'bg-green-100 text-green-800',
+  late: 'bg-red-100 text-red-800',
+  left_early: 'bg-orange-100 text-orange-800',
+  no_show: 'bg-gray-800 text-white',
+  excused: 'bg-teal-100 text-teal-800',
+  unscheduled: 'bg-indigo-100 text-indigo-800'
+};
+
+const LEAVE_STATUS_STYLES: Record<LeaveStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+// Days shown at once in the team leave calendar
+const LEAVE_CALENDAR_DAYS = 14;
+
+const EMPLOYMENT_LABELS: Record<EmploymentStatus, string> = {
+  active: 'Active',
+  on_leave: 'Leave of absence',
+  terminated: 'Terminated'
+};
+
+// Only operators in active employment can be assigned or take over shifts
+const isAssignable = (operator: Operator) => operator.employment_status === 'active';
+
+const describeArchived = (operator: OperatorArchived) => {
+  const { assignments, leave_requests, shift_trades } = operator.removed;
+  return `${operator.name} archived as of ${operator.terminated_on}. Removed ${assignments} later assignment(s), `
+    + `cancelled ${leave_requests} leave request(s) and withdrew ${shift_trades} shift trade(s).`;
+};
+
+const SHIFT_TRADE_STATUS_STYLES: Record<ShiftTradeStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  claimed: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+// Days ahead the shift marketplace covers
+const SHIFT_TRADE_DAYS = 28;
+
+const COMPLIANCE_RULE_LABELS: Record<ComplianceRuleType, { label: string; unit: string }> = {
+  min_rest_hours: { label: 'Minimum rest between shifts', unit: 'h' },
+  max_consecutive_days: { label: 'Maximum consecutive days', unit: ' days' },
+  max_weekly_hours: { label: 'Maximum weekly hours', unit: 'h' }
+};
+
+// Overtime and downtime are the metrics where a rise is bad news
+const ANALYTICS_LABELS: Record<AnalyticsMetric, { label: string; higherIsBetter: boolean }> = {
+  efficiency: { label: 'Efficiency', higherIsBetter: true },
+  occupancy: { label: 'Station occupancy', higherIsBetter: true },
+  attendance_rate: { label: 'Attendance rate', higherIsBetter: true },
+  overtime: { label: 'Overtime', higherIsBetter: false },
+  downtime: { label: 'Downtime', higherIsBetter: false }
+};
+
+const TREND_UNIT_SUFFIXES: Record<TrendSeries['unit'], string> = { percent: '%', hours: 'h', minutes: ' min' };
+
+const TREND_GRANULARITY_LABELS: Record<TrendGranularity, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' };
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface RosterPlan {
+  template: string;
+  shift_ids: string[];
+  from: string;
+  to: string;
+  overwrite: boolean;
+  operators: { operator_id: number; offset: number }[];
 }
 
+// Calendar arithmetic on plain YYYY-MM-DD strings, independent of the browser's timezone
+const shiftDate = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
 function App() {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'shifts' | 'attendance' | 'operators' | 'production'>('dashboard');
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'shifts' | 'roster' | 'attendance' | 'timesheets' | 'leave' | 'operators' | 'production' | 'skills'>('dashboard');
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
   const [operators, setOperators] = useState<Operator[]>([]);
   const [shifts, setShifts] = useState<Shift[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [productionLines, setProductionLines] = useState<ProductionLine[]>([]);
   const [stations, setStations] = useState<Station[]>([]);
-  const [attendanceLogs, setAttendanceLogs] = useState<AttendanceLog[]>([]);
+  const [attendanceDays, setAttendanceDays] = useState<AttendanceDay[]>([]);
+  const [breakTypes, setBreakTypes] = useState<BreakType[]>([]);
   const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [selectedSiteId, setSelectedSiteId] = useState<number | null>(null);
+  const [plantTime, setPlantTime] = useState<PlantTime | null>(null);
+  const [liveConnected, setLiveConnected] = useState(false);
+  const [syncQueue, setSyncQueue] = useState<QueuedAction[]>(readQueue);
+  const [online, setOnline] = useState(navigator.onLine);
+  const syncing = useRef(false);
+  // Latest plant time for live event handlers, which must not re-subscribe on every refresh
+  const plantTimeRef = useRef<PlantTime | null>(null);
+  const pendingRefetches = useRef(new Set<'stats' | 'shifts' | 'attendance'>());
+  const refetchTimer = useRef<ReturnType<typeof setTimeout>>();
   const [loading, setLoading] = useState(false);
+
+  // Roster planner state lives here so it survives re-renders of the view
+  const [rosterStart, setRosterStart] = useState<string | null>(null);
+  const [rosterSpan, setRosterSpan] = useState<'week' | 'month'>('week');
+  const [rosterAssignments, setRosterAssignments] = useState<RosterAssignment[]>([]);
+  const [rosterTemplates, setRosterTemplates] = useState<RosterTemplate[]>([]);
+  const [rosterPlan, setRosterPlan] = useState<RosterPlan | null>(null);
+  const [rosterPreview, setRosterPreview] = useState<RosterPreview | null>(null);
+  const [rosterMessage, setRosterMessage] = useState<string | null>(null);
+  // Working-time compliance of the roster period, as rostered or as clocked (supervisors)
+  const [complianceBasis, setComplianceBasis] = useState<ComplianceBasis>('roster');
+  const [complianceReport, setComplianceReport] = useState<ComplianceReport | null>(null);
+  const [complianceRules, setComplianceRules] = useState<ComplianceRule[]>([]);
+  const [kioskDevices, setKioskDevices] = useState<KioskDevice[]>([]);
+  const [heldClockOuts, setHeldClockOuts] = useState<HeldClockOut[]>([]);
+  // Terminated operators, listed for admins on request
+  const [showArchived, setShowArchived] = useState(false);
+  const [archivedOperators, setArchivedOperators] = useState<Operator[]>([]);
+  // Line configuration (admins), inactive departments, lines and stations included
+  const [configDepartments, setConfigDepartments] = useState<Department[]>([]);
+  const [configLines, setConfigLines] = useState<ProductionLine[]>([]);
+  const [configStations, setConfigStations] = useState<Station[]>([]);
+
+  // Skills matrix
+  const [certifications, setCertifications] = useState<Certification[]>([]);
+  const [operatorCertifications, setOperatorCertifications] = useState<OperatorCertification[]>([]);
+  const [stationRequirements, setStationRequirements] = useState<StationRequirement[]>([]);
+  const [expiringCertifications, setExpiringCertifications] = useState<ExpiringCertification[]>([]);
+
+  // Timesheets view: the period shown (the current pay week until one is picked) and its timesheets
+  const [timesheetRange, setTimesheetRange] = useState<{ from: string; to: string } | null>(null);
+  const [timesheetDepartmentId, setTimesheetDepartmentId] = useState('');
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [timesheetRules, setTimesheetRules] = useState<TimesheetRules | null>(null);
+  const [expandedTimesheetId, setExpandedTimesheetId] = useState<number | null>(null);
+  const [timesheetsBusy, setTimesheetsBusy] = useState(false);
+
+  // Attendance review (supervisors): exceptions of one day, the plant's day until one is picked
+  const [exceptionsDate, setExceptionsDate] = useState<string | null>(null);
+  const [attendanceExceptions, setAttendanceExceptions] = useState<AttendanceException[]>([]);
+  const [absenceTrends, setAbsenceTrends] = useState<AbsenceTrend[]>([]);
+  const [attendanceRules, setAttendanceRules] = useState<AttendanceRules | null>(null);
+
+  // Dashboard trends (supervisors): the plant, one line or one station, against the previous period
+  const [analyticsGranularity, setAnalyticsGranularity] = useState<TrendGranularity>('week');
+  const [analyticsLineId, setAnalyticsLineId] = useState('');
+  const [analyticsStationId, setAnalyticsStationId] = useState('');
+  const [analyticsCompare, setAnalyticsCompare] = useState(true);
+  const [analyticsTrends, setAnalyticsTrends] = useState<AnalyticsTrends | null>(null);
+
+  // Leave: the team calendar from a start day (the plant's day until one is picked), plus the
+  // approval queue for supervisors or an operator's own upcoming requests
+  const [leaveStart, setLeaveStart] = useState<string | null>(null);
+  const [leaveDepartmentId, setLeaveDepartmentId] = useState('');
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [leaveQueue, setLeaveQueue] = useState<LeaveRequest[]>([]);
+  const [leaveBalances, setLeaveBalances] = useState<LeaveBalance[]>([]);
+  // Shift marketplace, with the upcoming assignments that can be offered or given in exchange
+  const [shiftTrades, setShiftTrades] = useState<ShiftTrade[]>([]);
+  const [upcomingAssignments, setUpcomingAssignments] = useState<RosterAssignment[]>([]);
   
   // Modal states
   const [editingOperator, setEditingOperator] = useState<Operator | null>(null);
   const [editingShift, setEditingShift] = useState<Shift | null>(null);
-  const [showImportModal, setShowImportModal] = useState(false);
+  const [importState, setImportState] = useState<ImportState | null>(null);
   const [assigningOperator, setAssigningOperator] = useState<Operator | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<{ title: string; filter: string } | null>(null);
+  const [showCertificationForm, setShowCertificationForm] = useState(false);
+  const [autoStaff, setAutoStaff] = useState<AutoStaffState | null>(null);
+  const [exportState, setExportState] = useState<ExportState | null>(null);
+  const [showTimesheetRules, setShowTimesheetRules] = useState(false);
+  const [showAttendanceRules, setShowAttendanceRules] = useState(false);
+  const [requestingLeave, setRequestingLeave] = useState(false);
+  const [editingLeaveType, setEditingLeaveType] = useState<LeaveType | null>(null);
+  const [editingLeaveBalance, setEditingLeaveBalance] = useState<LeaveBalance | null>(null);
+  const [offeringShift, setOfferingShift] = useState(false);
+  const [postingOpenShift, setPostingOpenShift] = useState(false);
+  const [claimingTrade, setClaimingTrade] = useState<ShiftTrade | null>(null);
+  const [editingComplianceRule, setEditingComplianceRule] = useState<ComplianceRule | null>(null);
+  const [editingEmployment, setEditingEmployment] = useState<Operator | null>(null);
+  const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
+  const [editingLine, setEditingLine] = useState<ProductionLine | null>(null);
+  const [editingStation, setEditingStation] = useState<Station | null>(null);
+  const [layoutLine, setLayoutLine] = useState<ProductionLine | null>(null);
+  const [editingKioskDevice, setEditingKioskDevice] = useState<KioskDevice | null>(null);
+  const [issuedKioskToken, setIssuedKioskToken] = useState<KioskDeviceCreated | null>(null);
+  const [kioskAccessOperator, setKioskAccessOperator] = useState<Operator | null>(null);
+  const [editingCertification, setEditingCertification] = useState<{ operator: Operator; certification: Certification } | null>(null);
+
+  // Outcome of an action taken outside a form (assign, clock, break, import), shown above the current view
+  const [notice, setNotice] = useState<{ tone: 'error' | 'warning' | 'success'; message: string } | null>(null);
 
   // --- Data Fetching ---
   const fetchData = useCallback(async (endpoint: string, setter: Function) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/${endpoint}`);
+      const response = await apiFetch(`${endpoint}`);
       if (!response.ok) throw new Error(`Failed to fetch ${endpoint}`);
       const data = await response.json();
       setter(data);
+      if (OFFLINE_CACHED.test(endpoint)) writeCache(endpoint, data);
     } catch (error) {
       console.error(`Error fetching ${endpoint}:`, error);
+      // fetch() rejects with a TypeError when the server cannot be reached; show what was loaded last
+      const cached = error instanceof TypeError && OFFLINE_CACHED.test(endpoint) ? readCache(endpoint) : undefined;
+      if (cached !== undefined) setter(cached);
     }
   }, []);
 
   const refreshData = useCallback(async () => {
     setLoading(true);
-    const today = new Date().toISOString().split('T')[0];
+    // "Today" comes from the server so the browser's timezone never picks the day
+    const siteQuery = selectedSiteId ? `site_id=${selectedSiteId}` : '';
+    let today: string | undefined;
+    const applyTime = (time: PlantTime) => {
+      setPlantTime(time);
+      plantTimeRef.current = time;
+      today = time.today;
+    };
+    await fetchData(`time?${siteQuery}`, applyTime);
     await Promise.all([
+      fetchData('sites', setSites),
       fetchData('departments', setDepartments),
-      fetchData('operators', setOperators),
-      fetchData('shifts', setShifts),
+      fetchData(`operators?${siteQuery}`, setOperators),
+      fetchData(`shifts?${siteQuery}`, setShifts),
       fetchData('production-lines', setProductionLines),
-      fetchData('stations', setStations),
-      fetchData(`attendance?date=${today}`, setAttendanceLogs),
-      fetchData('dashboard/stats', setDashboardStats)
+      fetchData(`stations?${siteQuery}`, setStations),
+      today ? fetchData(`attendance/daily?date=${today}&include_open=true`, setAttendanceDays) : Promise.resolve(),
+      fetchData('attendance/break-types', setBreakTypes),
+      fetchData(`dashboard/stats?${siteQuery}`, setDashboardStats)
     ]);
     setLoading(false);
-  }, [fetchData]);
+  }, [fetchData, selectedSiteId]);
+
+  // --- Roster ---
+  const rosterFrom = rosterStart ?? plantTime?.today;
+  const rosterDays = rosterSpan === 'week' ? 7 : 28;
+  const rosterTo = rosterFrom ? shiftDate(rosterFrom, rosterDays - 1) : undefined;
+
+  const fetchRoster = useCallback(async () => {
+    if (!rosterFrom || !rosterTo) return;
+    await fetchData(`roster?from=${rosterFrom}&to=${rosterTo}`, setRosterAssignments);
+  }, [fetchData, rosterFrom, rosterTo]);
+
+  useEffect(() => {
+    if (activeTab !== 'roster') return;
+    fetchRoster();
+    if (rosterTemplates.length === 0) fetchData('roster/templates', setRosterTemplates);
+  }, [activeTab, fetchRoster, fetchData, rosterTemplates.length]);
+
+  // --- Timesheets ---
+  const payWeekStart = plantTime && timesheetRules
+    ? shiftDate(plantTime.today, -((new Date(`${plantTime.today}T00:00:00Z`).getUTCDay() - timesheetRules.week_start + 7) % 7))
+    : undefined;
+  const timesheetFrom = timesheetRange?.from ?? payWeekStart;
+  const timesheetTo = timesheetRange?.to ?? (payWeekStart && shiftDate(payWeekStart, 6));
+  const setTimesheetPeriod = (from: string, to: string) => setTimesheetRange({ from, to });
+
+  const fetchTimesheets = useCallback(async () => {
+    if (!timesheetFrom || !timesheetTo) return;
+    const department = timesheetDepartmentId ? `&department_id=${timesheetDepartmentId}` : '';
+    await fetchData(`timesheets?from=${timesheetFrom}&to=${timesheetTo}${department}`, setTimesheets);
+  }, [fetchData, timesheetFrom, timesheetTo, timesheetDepartmentId]);
+
+  useEffect(() => {
+    if (activeTab !== 'timesheets') return;
+    if (!timesheetRules) fetchData('timesheet-rules', setTimesheetRules);
+    fetchTimesheets();
+  }, [activeTab, fetchTimesheets, fetchData, timesheetRules]);
+
+  // --- Skills ---
+  const fetchSkills = useCallback(async () => {
+    const siteQuery = selectedSiteId ? `site_id=${selectedSiteId}` : '';
+    await Promise.all([
+      fetchData('certifications', setCertifications),
+      fetchData('operator-certifications', setOperatorCertifications),
+      fetchData('station-requirements', setStationRequirements),
+      fetchData(`certifications/expiring?${siteQuery}`, setExpiringCertifications)
+    ]);
+  }, [fetchData, selectedSiteId]);
+
+  // The production view uses the matrix to flag unqualified operators in its assign dropdowns
+  useEffect(() => {
+    if (activeTab === 'skills' || activeTab === 'production') fetchSkills();
+  }, [activeTab, fetchSkills]);
+
+  // Certifications missing or lapsed on `date` for placing an operator on a station
+  const missingCertifications = (operatorId: number, stationId: number, date = plantTime?.today || '') =>
+    stationRequirements
+      .filter(r => r.station_id === stationId)
+      .filter(r => {
+        const record = operatorCertifications.find(oc => oc.operator_id === operatorId && oc.certification_id === r.certification_id);
+        return !record || record.certified_on > date || (record.expires_on !== null && record.expires_on < date);
+      })
+      .map(r => r.certification_name);
+
+  // --- Session ---
+  useEffect(() => {
+    const handleExpired = () => {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+      setCurrentUser(null);
+    };
+    window.addEventListener('auth:expired', handleExpired);
+
+    if (localStorage.getItem(TOKEN_STORAGE_KEY)) {
+      apiFetch('auth/me')
+        .then(response => response.ok ? response.json() : null)
+        .then(user => setCurrentUser(user))
+        .catch(error => console.error('Error restoring session:', error))
+        .finally(() => setAuthChecked(true));
+    } else {
+      setAuthChecked(true);
+    }
 
+    return () => window.removeEventListener('auth:expired', handleExpired);
+  }, []);
+
+  const handleLogout = async () => {
+    try {
+      await apiFetch('auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    clearCache();
+    setCurrentUser(null);
+  };
+
+  // Fallback polling, only while the live event stream is unavailable
   useEffect(() => {
+    if (!currentUser || liveConnected) return;
     refreshData();
     const interval = setInterval(refreshData, 30000); // Refresh every 30s
     return () => clearInterval(interval);
-  }, [refreshData]);
+  }, [refreshData, currentUser, liveConnected]);
+
+  // Re-fetch only the server-computed aggregates a live event affects, batched over a short window
+  const scheduleRefetch = useCallback((...keys: ('stats' | 'shifts' | 'attendance')[]) => {
+    keys.forEach(key => pendingRefetches.current.add(key));
+    clearTimeout(refetchTimer.current);
+    refetchTimer.current = setTimeout(() => {
+      const siteQuery = selectedSiteId ? `site_id=${selectedSiteId}` : '';
+      const today = plantTimeRef.current?.today;
+      for (const key of pendingRefetches.current) {
+        if (key === 'stats') fetchData(`dashboard/stats?${siteQuery}`, setDashboardStats);
+        if (key === 'shifts') fetchData(`shifts?${siteQuery}`, setShifts);
+        if (key === 'attendance' && today) fetchData(`attendance/daily?date=${today}&include_open=true`, setAttendanceDays);
+      }
+      pendingRefetches.current.clear();
+    }, 500);
+  }, [fetchData, selectedSiteId]);
+
+  // --- Live Updates (Server-Sent Events) ---
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const token = localStorage.getItem(TOKEN_STORAGE_KEY) || '';
+    const source = new EventSource(`${API_BASE_URL}/events?token=${encodeURIComponent(token)}`);
+    const onEvent = <T,>(type: string, handler: (data: T) => void) => {
+      source.addEventListener(type, (event) => handler(JSON.parse((event as MessageEvent).data)));
+    };
+
+    // Events may have been missed while disconnected, so every (re)connect starts with a full resync
+    onEvent('ready', () => {
+      setLiveConnected(true);
+      refreshData();
+    });
+    // EventSource reconnects by itself; polling takes over until it does
+    source.onerror = () => setLiveConnected(false);
+
+    onEvent<{ operator_id: number; status: Operator['status']; last_active: string }>('operator_status', (data) => {
+      setOperators(prev => prev.map(op => op.id === data.operator_id ? { ...op, status: data.status, last_active: data.last_active } : op));
+      scheduleRefetch('stats');
+    });
+
+    onEvent('attendance', () => scheduleRefetch('attendance', 'stats'));
+
+    onEvent<{ operator_id: number; assigned_date: string; assignment: { station_id: number | null; station_name: string | null; line_name: string | null; id: number; operator_name: string } | null }>('assignment', (data) => {
+      if (data.assigned_date === plantTimeRef.current?.today) {
+        const assignment = data.assignment;
+        setOperators(prev => prev.map(op => op.id === data.operator_id
+          ? { ...op, station_id: assignment?.station_id ?? undefined, station_name: assignment?.station_name ?? undefined, line_name: assignment?.line_name ?? undefined }
+          : op));
+        setStations(prev => prev.map(station => {
+          if (assignment && station.id === assignment.station_id) {
+            return { ...station, operator_id: data.operator_id, operator_name: assignment.operator_name, assignment_id: assignment.id };
+          }
+          if (station.operator_id === data.operator_id) {
+            return { ...station, operator_id: undefined, operator_name: undefined, assignment_id: undefined };
+          }
+          return station;
+        }));
+      }
+      scheduleRefetch('shifts', 'stats');
+    });
+
+    onEvent<{ id: number; efficiency_percentage: number }>('station_efficiency', (data) => {
+      setStations(prev => prev.map(station => station.id === data.id ? { ...station, efficiency_percentage: data.efficiency_percentage } : station));
+      scheduleRefetch('stats');
+    });
+
+    onEvent('resync', () => refreshData());
+
+    return () => {
+      source.close();
+      setLiveConnected(false);
+    };
+  }, [currentUser, refreshData, scheduleRefetch]);
+
+  // --- Permissions (mirrors the server's per-route roles) ---
+  const isSupervisor = currentUser?.role === 'admin' || currentUser?.role === 'supervisor';
+  const isAdmin = currentUser?.role === 'admin';
+  // Operators may clock in/out and change status for themselves only
+  const canActForOperator = (operatorId: number) => isSupervisor || (currentUser?.role === 'operator' && currentUser.operator_id === operatorId);
+
+  // --- Attendance review ---
+  const exceptionsDay = exceptionsDate ?? plantTime?.today;
+
+  const fetchExceptions = useCallback(async () => {
+    if (!exceptionsDay) return;
+    const siteQuery = selectedSiteId ? `&site_id=${selectedSiteId}` : '';
+    await fetchData(`attendance/exceptions?date=${exceptionsDay}${siteQuery}`, setAttendanceExceptions);
+  }, [fetchData, exceptionsDay, selectedSiteId]);
+
+  // attendanceDays is refetched on every attendance event, which includes newly classified days
+  useEffect(() => {
+    if (activeTab !== 'attendance' || !isSupervisor) return;
+    fetchExceptions();
+  }, [activeTab, isSupervisor, fetchExceptions, attendanceDays]);
+
+  useEffect(() => {
+    if (activeTab !== 'attendance' || !isSupervisor) return;
+    fetchData('attendance/trends', setAbsenceTrends);
+    if (isAdmin && !attendanceRules) fetchData('attendance-rules', setAttendanceRules);
+  }, [activeTab, isSupervisor, isAdmin, attendanceRules, fetchData]);
+
+  // A replayed clock-in that takes a held clock-out arrives as an attendance event
+  useEffect(() => {
+    if (activeTab !== 'attendance' || !isSupervisor) return;
+    fetchData('attendance/held-clock-outs', setHeldClockOuts);
+  }, [activeTab, isSupervisor, fetchData, attendanceDays]);
+
+  useEffect(() => {
+    if (activeTab !== 'dashboard' || !isSupervisor) return;
+    const params = new URLSearchParams({ granularity: analyticsGranularity, compare: String(analyticsCompare) });
+    if (analyticsLineId) params.set('line_id', analyticsLineId);
+    if (analyticsStationId) params.set('station_id', analyticsStationId);
+    fetchData(`analytics/trends?${params}`, setAnalyticsTrends);
+  }, [activeTab, isSupervisor, fetchData, analyticsGranularity, analyticsCompare, analyticsLineId, analyticsStationId]);
+
+  const fetchKioskDevices = useCallback(async () => {
+    await fetchData('kiosk-devices', setKioskDevices);
+  }, [fetchData]);
+
+  useEffect(() => {
+    if (activeTab !== 'attendance' || !isAdmin) return;
+    fetchKioskDevices();
+  }, [activeTab, isAdmin, fetchKioskDevices]);
+
+  const fetchConfiguration = useCallback(async () => {
+    await Promise.all([
+      fetchData('departments?include_inactive=true', setConfigDepartments),
+      fetchData('production-lines?include_inactive=true', setConfigLines),
+      fetchData('stations?include_inactive=true', setConfigStations)
+    ]);
+  }, [fetchData]);
+
+  // Saving a configuration change refreshes productionLines, which brings this along
+  useEffect(() => {
+    if (activeTab !== 'production' || !isAdmin) return;
+    fetchConfiguration();
+  }, [activeTab, isAdmin, fetchConfiguration, productionLines]);
+
+  // Refetched with the operators, so archiving or restoring one moves it between the lists
+  useEffect(() => {
+    if (activeTab !== 'operators' || !isAdmin || !showArchived) return;
+    fetchData('operators?include_terminated=true', (list: Operator[]) =>
+      setArchivedOperators(list.filter(op => op.employment_status === 'terminated')));
+  }, [activeTab, isAdmin, showArchived, fetchData, operators]);
+
+  // --- Leave ---
+  const leaveFrom = leaveStart ?? plantTime?.today;
+  const leaveTo = leaveFrom ? shiftDate(leaveFrom, LEAVE_CALENDAR_DAYS - 1) : undefined;
+
+  const fetchLeave = useCallback(async () => {
+    if (!leaveFrom || !leaveTo || !plantTime) return;
+    const department = leaveDepartmentId ? `&department_id=${leaveDepartmentId}` : '';
+    await Promise.all([
+      fetchData('leave-types', setLeaveTypes),
+      fetchData(`leave-requests?from=${leaveFrom}&to=${leaveTo}${department}`, setLeaveRequests),
+      fetchData(isSupervisor ? `leave-requests?status=pending${department}` : `leave-requests?from=${plantTime.today}`, setLeaveQueue),
+      fetchData(`leave-balances?year=${plantTime.today.slice(0, 4)}${department}`, setLeaveBalances)
+    ]);
+  }, [fetchData, leaveFrom, leaveTo, leaveDepartmentId, isSupervisor, plantTime]);
+
+  // Leave changes arrive as resyncs, which refetch the shifts among everything else
+  useEffect(() => {
+    if (activeTab !== 'leave') return;
+    fetchLeave();
+  }, [activeTab, fetchLeave, shifts]);
+
+  // --- Shift trades ---
+  const fetchShiftTrades = useCallback(async () => {
+    if (!plantTime) return;
+    const to = shiftDate(plantTime.today, SHIFT_TRADE_DAYS - 1);
+    await Promise.all([
+      fetchData(`shift-trades?from=${plantTime.today}&to=${to}`, setShiftTrades),
+      fetchData(`roster?from=${plantTime.today}&to=${to}`, setUpcomingAssignments)
+    ]);
+  }, [fetchData, plantTime]);
+
+  // Trades and the assignments they move arrive as resyncs, which refetch the shifts
+  useEffect(() => {
+    if (activeTab !== 'shifts') return;
+    fetchShiftTrades();
+  }, [activeTab, fetchShiftTrades, shifts]);
+
+  // --- Compliance ---
+  const fetchCompliance = useCallback(async () => {
+    if (!rosterFrom || !rosterTo || !isSupervisor) return;
+    await Promise.all([
+      fetchData(`compliance/report?from=${rosterFrom}&to=${rosterTo}&basis=${complianceBasis}`, setComplianceReport),
+      fetchData('compliance-rules', setComplianceRules)
+    ]);
+  }, [fetchData, rosterFrom, rosterTo, complianceBasis, isSupervisor]);
+
+  // Assignment events and resyncs (including rule changes) refetch the shifts
+  useEffect(() => {
+    if (activeTab !== 'roster') return;
+    fetchCompliance();
+  }, [activeTab, fetchCompliance, shifts]);
 
   // --- API Interaction Functions ---
-  const updateOperatorStatus = async (operatorId: number, status: string) => {
+  // A failed action shows the server's reasons in the notice banner
+  const reportFailure = async (response: Response) => {
+    const body = await readApiError(response);
+    const reasons = body.errors?.map(error => error.message) ?? [];
+    setNotice({ tone: 'error', message: reasons.length > 0 ? reasons.join(' ') : body.error });
+  };
+
+  // --- Offline queue ---
+  const updateQueue = (change: (queue: QueuedAction[]) => QueuedAction[]) => {
+    const queue = change(readQueue());
+    writeQueue(queue);
+    setSyncQueue(queue);
+  };
+
+  // Send a clock event or status change, or queue it when the server cannot be reached. Resolves to
+  // the response, or to null once queued. While anything is queued new changes queue behind it, so
+  // the server receives them in the order they happened.
+  const sendAction = async (kind: QueuedActionKind, operatorId: number, path: string, body: Record<string, unknown>) => {
+    const operatorName = operators.find(o => o.id === operatorId)?.name ?? `Operator ${operatorId}`;
+    const action: QueuedAction = {
+      key: newIdempotencyKey(),
+      user_id: currentUser!.id,
+      operator_id: operatorId,
+      kind,
+      label: `${operatorName}: ${kind === 'status' ? `set ${String(body.status).replace('_', ' ')}` : kind.replace('-', ' ')} at ${new Date().toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: plantTime?.timezone })}`,
+      path,
+      body: { ...body, occurred_at: new Date().toISOString() }
+    };
+
+    if (navigator.onLine && !readQueue().some(queued => queued.user_id === action.user_id)) {
+      try {
+        return await apiFetch(path, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': action.key },
+          body: JSON.stringify(body)
+        });
+      } catch (error) {
+        if (!(error instanceof TypeError)) throw error;
+      }
+    }
+    updateQueue(queue => [...queue, action]);
+    setNotice({ tone: 'warning', message: 'No connection to the server. The change is saved on this device and will be sent when the connection returns.' });
+    return null;
+  };
+
+  // Replay this user's queued changes in order. Changes the server refuses are reported and dropped;
+  // server errors, rate limits, lost connections and changes whose earlier send is still being
+  // processed stop the replay until the next attempt.
+  const flushQueue = useCallback(async () => {
+    if (!currentUser || syncing.current) return;
+    syncing.current = true;
+    const refused: string[] = [];
+    let sent = 0;
     try {
-      await fetch(`${API_BASE_URL}/operators/${operatorId}/status`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status })
-      });
+      for (const action of readQueue().filter(queued => queued.user_id === currentUser.id)) {
+        let response: Response;
+        try {
+          response = await apiFetch(action.path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Idempotency-Key': action.key },
+            body: JSON.stringify(action.body)
+          });
+        } catch (error) {
+          console.error('Error replaying queued change:', error);
+          break;
+        }
+        if (response.status >= 500 || response.status === 429 || response.status === 401) break;
+        if (!response.ok) {
+          const body = await readApiError(response);
+          if (body.reason === 'idempotency_in_progress') break;
+          refused.push(`${action.label}: ${body.errors?.map(error => error.message).join(' ') || body.error}.`);
+        }
+        sent++;
+        updateQueue(queue => queue.filter(queued => queued.key !== action.key));
+      }
+    } finally {
+      syncing.current = false;
+    }
+
+    if (refused.length > 0) {
+      setNotice({ tone: 'error', message: `Some changes made offline could not be applied. ${refused.join(' ')}` });
+    } else if (sent > 0) {
+      setNotice({ tone: 'success', message: `Sent ${sent} change${sent > 1 ? 's' : ''} made offline` });
+    }
+    if (sent > 0) refreshData();
+  }, [currentUser, refreshData]);
+
+  const hasQueued = syncQueue.some(action => action.user_id === currentUser?.id);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      flushQueue();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flushQueue]);
+
+  // The browser can report a connection that does not reach the server, so keep retrying while
+  // anything is queued; a reconnected live stream is a good moment too
+  useEffect(() => {
+    if (!hasQueued) return;
+    flushQueue();
+    const interval = setInterval(flushQueue, 30000);
+    return () => clearInterval(interval);
+  }, [hasQueued, liveConnected, flushQueue]);
+
+  const updateOperatorStatus = async (operatorId: number, status: Operator['status']) => {
+    try {
+      const response = await sendAction('status', operatorId, `operators/${operatorId}/status`, { status });
+      if (!response) {
+        setOperators(current => current.map(o => o.id === operatorId ? { ...o, status } : o));
+        return;
+      }
+      if (!response.ok) return reportFailure(response);
       refreshData();
     } catch (error) {
       console.error('Error updating status:', error);
+      setNotice({ tone: 'error', message: 'Failed to update status' });
     }
   };
 
-  const handleAssignmentChange = async (operatorId: number, stationId: string, shiftId: number) => {
+  // Resolves true once saved; forms pass `report` to show the server's errors next to their fields
+  const handleAssignmentChange = async (operatorId: number, stationId: string, shiftId: number, assignedDate?: string, report = reportFailure) => {
     try {
-      await fetch(`${API_BASE_URL}/shift-assignments`, {
+      const response = await apiFetch(`shift-assignments`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           shift_id: shiftId,
           operator_id: operatorId,
           station_id: stationId === "0" ? null : stationId, // Send null to un-assign
-          assigned_date: new Date().toISOString().split('T')[0]
+          assigned_date: assignedDate || plantTime?.today // Server falls back to the operator's plant-local today
         })
       });
+      if (!response.ok) {
+        await report(response);
+        return false;
+      }
+      const result = await response.json();
+      setNotice(result.warnings?.length ? { tone: 'warning', message: `Assigned with warnings: ${result.warnings.join(' ')}` } : null);
+
       refreshData();
+      if (activeTab === 'roster') fetchRoster();
+      return true;
     } catch (error) {
       console.error('Error updating assignment:', error);
+      setNotice({ tone: 'error', message: 'Failed to update assignment' });
+      return false;
     }
   };
 
   const handleClockEvent = async (endpoint: 'clock-in' | 'clock-out', operatorId: number) => {
     try {
-        const body: { operator_id: number; shift_id?: number } = { operator_id: operatorId };
-        if (endpoint === 'clock-in' && shifts.length > 0) {
-            body.shift_id = shifts[0].id; // Use first available shift for simplicity
-        }
-        
-        const response = await fetch(`${API_BASE_URL}/attendance/${endpoint}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(body)
-        });
+        // The server attributes clock-ins to the operator's assigned shift, including overnight shifts
+        const response = await sendAction(endpoint, operatorId, `attendance/${endpoint}`, { operator_id: operatorId });
+        if (!response) return;
+
+        if (!response.ok) return reportFailure(response);
+        const result = await response.json();
+        setNotice(result.warnings?.length ? { tone: 'warning', message: `Clocked in with warnings: ${result.warnings.join(' ')}` } : null);
 
-        if (!response.ok) {
-            const err = await response.json();
-            throw new Error(err.error);
-        }
-        
         refreshData();
     } catch (error) {
         console.error(`Error on ${endpoint}:`, error);
-        alert(`Error: ${error instanceof Error ? error.message : `Failed to ${endpoint}`}`);
+        setNotice({ tone: 'error', message: `Failed to ${endpoint.replace('-', ' ')}` });
+    }
+  };
+
+  const handleBreakEvent = async (endpoint: 'break-start' | 'break-end', operatorId: number, breakType?: string) => {
+    try {
+      const response = await sendAction(endpoint, operatorId, `attendance/${endpoint}`, { operator_id: operatorId, break_type: breakType });
+      if (!response) return;
+
+      if (!response.ok) return reportFailure(response);
+
+      refreshData();
+    } catch (error) {
+      console.error(`Error on ${endpoint}:`, error);
+      setNotice({ tone: 'error', message: `Failed to ${endpoint === 'break-start' ? 'start' : 'end'} break` });
     }
   };
 
+  // Exports cover the last week by default; views pass the filters they are showing
+  const openExport = (kind: ExportKind, filters: Partial<ExportState> = {}) => {
+    const today = plantTime?.today || '';
+    setExportState({
+      kind, date: today, from: today && shiftDate(today, -6), to: today,
+      department_id: '', line_id: '', shift_id: '', group_by: 'station', format: 'csv',
+      busy: false, errors: NO_ERRORS, ...filters
+    });
+  };
+
+  // --- Formatting helpers ---
+  const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+
+  // Clock times are shown in the plant timezone, not the browser's
+  const formatTimeOfDay = (timestamp: string) => new Date(timestamp).toLocaleTimeString('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: plantTime?.timezone
+  });
+
 
   // --- UI Components / Modals ---
 
@@ -221,31 +1093,39 @@ function App() {
       email: operatorToEdit?.email || '', 
       employee_id: operatorToEdit?.employee_id || '', 
       department_id: operatorToEdit?.department_id?.toString() || '', 
-      skill_level: operatorToEdit?.skill_level || 'beginner'
+      skill_level: operatorToEdit?.skill_level || 'beginner',
+      hired_on: operatorToEdit?.hired_on || ''
     });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
 
     const isEditMode = !!operatorToEdit;
 
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
-      const url = isEditMode ? `${API_BASE_URL}/operators/${operatorToEdit!.id}` : `${API_BASE_URL}/operators`;
+      const url = isEditMode ? `operators/${operatorToEdit!.id}` : 'operators';
       const method = isEditMode ? 'PUT' : 'POST';
 
+      const input = validate(operatorSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
       try {
-        const response = await fetch(url, {
+        const response = await apiFetch(url, {
           method,
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(formData)
+          body: JSON.stringify(input.value)
         });
         if (!response.ok) {
-          const err = await response.json();
-          throw new Error(err.error || 'Failed to save operator');
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
         }
         onClose();
         refreshData();
       } catch (error) {
         console.error('Error saving operator:', error);
-        alert(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save operator' });
       }
     };
 
@@ -260,14 +1140,17 @@ function App() {
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
               <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900" required />
+              <FieldMessage message={errors.fields.name} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
               <input type="email" value={formData.email} onChange={(e) => setFormData({ ...formData, email: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900" required />
+              <FieldMessage message={errors.fields.email} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Employee ID</label>
               <input type="text" value={formData.employee_id} onChange={(e) => setFormData({ ...formData, employee_id: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900" />
+              <FieldMessage message={errors.fields.employee_id} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
@@ -275,6 +1158,7 @@ function App() {
                 <option value="">Select Department</option>
                 {departments.map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
               </select>
+              <FieldMessage message={errors.fields.department_id} />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Skill Level</label>
@@ -284,7 +1168,14 @@ function App() {
                 <option value="advanced">Advanced</option>
                 <option value="expert">Expert</option>
               </select>
+              <FieldMessage message={errors.fields.skill_level} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Hired On</label>
+              <input type="date" value={formData.hired_on} onChange={(e) => setFormData({ ...formData, hired_on: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900" />
+              <FieldMessage message={errors.fields.hired_on} />
             </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
             <div className="flex space-x-3 pt-4">
               <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2">
                 <Save size={16} /><span>{isEditMode ? 'Save Changes' : 'Add Operator'}</span>
@@ -299,84 +1190,76 @@ function App() {
     );
   };
   
-  const AddOrEditShiftForm = ({ shiftToEdit, onClose }: { shiftToEdit?: Shift | null, onClose: () => void }) => {
+  // Leave of absence, back to active, or terminated with a last day (admins)
+  const EmploymentForm = ({ operator, onClose }: { operator: Operator; onClose: () => void }) => {
     const [formData, setFormData] = useState({
-      name: shiftToEdit?.name || '',
-      start_time: shiftToEdit?.start_time || '',
-      end_time: shiftToEdit?.end_time || '',
-      start_date: shiftToEdit?.start_date ? new Date(shiftToEdit.start_date).toISOString().split('T')[0] : '',
-      end_date: shiftToEdit?.end_date ? new Date(shiftToEdit.end_date).toISOString().split('T')[0] : '',
-      capacity: shiftToEdit?.capacity?.toString() || '',
-      department_id: shiftToEdit?.department_id?.toString() || ''
+      employment_status: operator.employment_status,
+      hired_on: operator.hired_on || '',
+      terminated_on: operator.terminated_on || ''
     });
-    
-    const isEditMode = !!shiftToEdit;
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+    const terminating = formData.employment_status === 'terminated';
 
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
-      const url = isEditMode ? `${API_BASE_URL}/shifts/${shiftToEdit!.id}` : `${API_BASE_URL}/shifts`;
-      const method = isEditMode ? 'PUT' : 'POST';
+      const input = validate(operatorEmploymentSchema, { ...formData, terminated_on: terminating ? formData.terminated_on : '' }, checkEmployment);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
 
       try {
-        const response = await fetch(url, {
-          method,
+        const response = await apiFetch(`operators/${operator.id}/employment`, {
+          method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(formData)
+          body: JSON.stringify(input.value)
         });
         if (!response.ok) {
-          const err = await response.json();
-          throw new Error(err.error || 'Failed to save shift');
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
         }
-        onClose();
+        const saved: OperatorArchived | Operator = await response.json();
+        if ('removed' in saved) setNotice({ tone: 'success', message: describeArchived(saved) });
         refreshData();
+        onClose();
       } catch (error) {
-        console.error('Error saving shift:', error);
-        alert(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.error('Error saving employment:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save employment' });
       }
     };
 
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
     return (
       <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
         <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
-          <h3 className="text-lg font-semibold mb-4">{isEditMode ? 'Edit Shift' : 'Add New Shift'}</h3>
+          <h3 className="text-lg font-semibold mb-4">Employment of {operator.name}</h3>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Shift Name</label>
-              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+              <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select value={formData.employment_status} onChange={(e) => setFormData({ ...formData, employment_status: e.target.value as EmploymentStatus })} className={fieldClass}>
+                {EMPLOYMENT_STATUSES.map(status => <option key={status} value={status}>{EMPLOYMENT_LABELS[status]}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.employment_status} />
             </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
-                <input type="date" value={formData.start_date} onChange={(e) => setFormData({ ...formData, start_date: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
-                <input type="date" value={formData.end_date} onChange={(e) => setFormData({ ...formData, end_date: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
-              </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Hired On</label>
+              <input type="date" value={formData.hired_on} onChange={(e) => setFormData({ ...formData, hired_on: e.target.value })} className={fieldClass} />
+              <FieldMessage message={errors.fields.hired_on} />
             </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
-                <input type="time" value={formData.start_time} onChange={(e) => setFormData({ ...formData, start_time: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
-              </div>
+            {terminating && (
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
-                <input type="time" value={formData.end_time} onChange={(e) => setFormData({ ...formData, end_time: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+                <label className="block text-sm font-medium text-gray-700 mb-1">Last Day</label>
+                <input type="date" value={formData.terminated_on} max={plantTime?.today} onChange={(e) => setFormData({ ...formData, terminated_on: e.target.value })} className={fieldClass} />
+                <FieldMessage message={errors.fields.terminated_on} />
+                <p className="mt-1 text-xs text-gray-500">
+                  Defaults to today. Assignments and leave after the last day are removed, open shift trades withdrawn and logins deactivated; history is kept.
+                </p>
               </div>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
-              <input type="number" min="1" value={formData.capacity} onChange={(e) => setFormData({ ...formData, capacity: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
-              <select value={formData.department_id} onChange={(e) => setFormData({ ...formData, department_id: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required>
-                <option value="">Select Department</option>
-                {departments.map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
-              </select>
-            </div>
+            )}
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
             <div className="flex space-x-3 pt-4">
-              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">{isEditMode ? 'Save Changes' : 'Add Shift'}</button>
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
               <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
             </div>
           </form>
@@ -385,26 +1268,1547 @@ function App() {
     );
   };
 
-  const AssignmentModal = ({ operator, onClose }: { operator: Operator | null, onClose: () => void }) => {
-    const [selectedShiftId, setSelectedShiftId] = useState<string>('');
-    const [selectedStationId, setSelectedStationId] = useState<string>('');
+  const AddCertificationForm = ({ onClose }: { onClose: () => void }) => {
+    const [formData, setFormData] = useState({ name: '', description: '', validity_months: '' });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
 
-    if (!operator) return null;
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(certificationSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
 
-    const availableShifts = shifts.filter(s => s.department_id === operator.department_id);
-    const availableStations = stations.filter(s => {
+      try {
+        const response = await apiFetch('certifications', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        onClose();
+        fetchSkills();
+      } catch (error) {
+        console.error('Error saving certification:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save certification' });
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">Add Certification</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+              <FieldMessage message={errors.fields.name} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input type="text" value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" />
+              <FieldMessage message={errors.fields.description} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valid for (months, empty = no expiry)</label>
+              <input type="number" min="1" value={formData.validity_months} onChange={(e) => setFormData({ ...formData, validity_months: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" />
+              <FieldMessage message={errors.fields.validity_months} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Add Certification</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const OperatorCertificationForm = ({ operator, certification, onClose }: { operator: Operator, certification: Certification, onClose: () => void }) => {
+    const record = operatorCertifications.find(oc => oc.operator_id === operator.id && oc.certification_id === certification.id);
+    const [formData, setFormData] = useState({
+      certified_on: record?.certified_on || plantTime?.today || '',
+      expires_on: record?.expires_on || ''
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const save = async (method: 'PUT' | 'DELETE') => {
+      const input = validate(operatorCertificationSchema, formData, checkCertificationDates);
+      if (method === 'PUT' && !input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(`operators/${operator.id}/certifications/${certification.id}`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: method === 'PUT' && input.ok ? JSON.stringify(input.value) : undefined
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        onClose();
+        fetchSkills();
+      } catch (error) {
+        console.error('Error saving operator certification:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save certification' });
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{certification.name} · {operator.name}</h3>
+          <form onSubmit={(e) => { e.preventDefault(); save('PUT'); }} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Certified On</label>
+                <input type="date" value={formData.certified_on} onChange={(e) => setFormData({ ...formData, certified_on: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+                <FieldMessage message={errors.fields.certified_on} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expires On</label>
+                <input type="date" value={formData.expires_on} onChange={(e) => setFormData({ ...formData, expires_on: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                <FieldMessage message={errors.fields.expires_on} />
+              </div>
+            </div>
+            {!record && certification.validity_months && (
+              <p className="text-xs text-gray-500">Leave the expiry empty to use the standard validity of {certification.validity_months} months.</p>
+            )}
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              {record && <button type="button" onClick={() => save('DELETE')} className="flex-1 bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 transition-colors">Revoke</button>}
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const AddOrEditShiftForm = ({ shiftToEdit, onClose }: { shiftToEdit?: Shift | null, onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      name: shiftToEdit?.name || '',
+      start_time: shiftToEdit?.start_time || '',
+      end_time: shiftToEdit?.end_time || '',
+      start_date: shiftToEdit?.start_date || '',
+      end_date: shiftToEdit?.end_date || '',
+      capacity: shiftToEdit?.capacity?.toString() || '',
+      department_id: shiftToEdit?.department_id?.toString() || ''
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+    
+    const isEditMode = !!shiftToEdit;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const url = isEditMode ? `shifts/${shiftToEdit!.id}` : 'shifts';
+      const method = isEditMode ? 'PUT' : 'POST';
+
+      const input = validate(shiftSchema, formData, checkShiftTimes);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        onClose();
+        refreshData();
+      } catch (error) {
+        console.error('Error saving shift:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save shift' });
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{isEditMode ? 'Edit Shift' : 'Add New Shift'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Shift Name</label>
+              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+              <FieldMessage message={errors.fields.name} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+                <input type="date" value={formData.start_date} onChange={(e) => setFormData({ ...formData, start_date: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+                <FieldMessage message={errors.fields.start_date} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                <input type="date" value={formData.end_date} onChange={(e) => setFormData({ ...formData, end_date: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+                <FieldMessage message={errors.fields.end_date} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+                <input type="time" value={formData.start_time} onChange={(e) => setFormData({ ...formData, start_time: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+                <FieldMessage message={errors.fields.start_time} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+                <input type="time" value={formData.end_time} onChange={(e) => setFormData({ ...formData, end_time: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+                <FieldMessage message={errors.fields.end_time} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+              <input type="number" min="1" value={formData.capacity} onChange={(e) => setFormData({ ...formData, capacity: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+              <FieldMessage message={errors.fields.capacity} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+              <select value={formData.department_id} onChange={(e) => setFormData({ ...formData, department_id: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required>
+                <option value="">Select Department</option>
+                {departments.map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.department_id} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">{isEditMode ? 'Save Changes' : 'Add Shift'}</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const AttendanceRulesForm = ({ onClose }: { onClose: () => void }) => {
+    const [formData, setFormData] = useState<Record<keyof AttendanceRules, string>>({
+      late_tolerance_minutes: String(attendanceRules?.late_tolerance_minutes ?? 5),
+      early_leave_tolerance_minutes: String(attendanceRules?.early_leave_tolerance_minutes ?? 5),
+      no_show_after_minutes: String(attendanceRules?.no_show_after_minutes ?? 60)
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(attendanceRulesSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch('attendance-rules', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        setAttendanceRules(await response.json());
+        onClose();
+      } catch (error) {
+        console.error('Error saving attendance rules:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save tolerances' });
+      }
+    };
+
+    const fields: [keyof AttendanceRules, string][] = [
+      ['late_tolerance_minutes', 'Late After (minutes past shift start)'],
+      ['early_leave_tolerance_minutes', 'Left Early Before (minutes before shift end)'],
+      ['no_show_after_minutes', 'No-Show After (minutes past shift start)']
+    ];
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">Attendance Tolerances</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {fields.map(([name, label]) => (
+              <div key={name}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input type="number" min="0" value={formData[name]} onChange={(e) => setFormData({ ...formData, [name]: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+                <FieldMessage message={errors.fields[name]} />
+              </div>
+            ))}
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const LeaveRequestForm = ({ onClose }: { onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      operator_id: isSupervisor ? '' : String(currentUser?.operator_id ?? ''),
+      leave_type_id: '',
+      start_date: leaveFrom || '',
+      end_date: leaveFrom || '',
+      reason: ''
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(leaveRequestSchema, formData, checkLeavePeriod);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch('leave-requests', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        const request: LeaveRequest = await response.json();
+        setNotice({ tone: 'success', message: `${request.leave_type_name} requested for ${request.operator_name}, ${request.start_date} to ${request.end_date}` });
+        fetchLeave();
+        onClose();
+      } catch (error) {
+        console.error('Error requesting leave:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to request leave' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">Request Leave</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isSupervisor && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Operator</label>
+                <select value={formData.operator_id} onChange={(e) => setFormData({ ...formData, operator_id: e.target.value })} className={fieldClass} required>
+                  <option value="">Select an operator</option>
+                  {operators.map(op => <option key={op.id} value={op.id}>{op.name}</option>)}
+                </select>
+                <FieldMessage message={errors.fields.operator_id} />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select value={formData.leave_type_id} onChange={(e) => setFormData({ ...formData, leave_type_id: e.target.value })} className={fieldClass} required>
+                <option value="">Select a leave type</option>
+                {leaveTypes.filter(type => type.is_active).map(type => <option key={type.id} value={type.id}>{type.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.leave_type_id} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input type="date" value={formData.start_date} onChange={(e) => setFormData({ ...formData, start_date: e.target.value })} className={fieldClass} required />
+                <FieldMessage message={errors.fields.start_date} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input type="date" value={formData.end_date} onChange={(e) => setFormData({ ...formData, end_date: e.target.value })} className={fieldClass} required />
+                <FieldMessage message={errors.fields.end_date} />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <textarea value={formData.reason} onChange={(e) => setFormData({ ...formData, reason: e.target.value })} rows={2} className={fieldClass} />
+              <FieldMessage message={errors.fields.reason} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Request</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const LeaveTypeForm = ({ leaveType, onClose }: { leaveType?: LeaveType; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      name: leaveType?.name || '',
+      is_paid: leaveType?.is_paid ?? true,
+      annual_allowance_days: leaveType?.annual_allowance_days?.toString() || '',
+      color: leaveType?.color || '#6b7280',
+      is_active: leaveType?.is_active ?? true,
+      counts_calendar_days: leaveType?.counts_calendar_days ?? false
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(leaveTypeSchema, formData, checkLeaveColor);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(leaveType ? `leave-types/${leaveType.id}` : 'leave-types', {
+          method: leaveType ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        fetchLeave();
+        onClose();
+      } catch (error) {
+        console.error('Error saving leave type:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save leave type' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{leaveType ? 'Edit Leave Type' : 'Add Leave Type'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className={fieldClass} required />
+              <FieldMessage message={errors.fields.name} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Annual Allowance (days)</label>
+              <input type="number" min="0" step="0.5" value={formData.annual_allowance_days} onChange={(e) => setFormData({ ...formData, annual_allowance_days: e.target.value })} className={fieldClass} placeholder="Unlimited" />
+              <FieldMessage message={errors.fields.annual_allowance_days} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Calendar Color</label>
+              <input type="color" value={formData.color} onChange={(e) => setFormData({ ...formData, color: e.target.value })} className="h-9 w-16 border border-gray-300 rounded-md" />
+              <FieldMessage message={errors.fields.color} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.is_paid} onChange={(e) => setFormData({ ...formData, is_paid: e.target.checked })} />
+              <span>Paid leave</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.counts_calendar_days} onChange={(e) => setFormData({ ...formData, counts_calendar_days: e.target.checked })} />
+              <span>Count calendar days (otherwise only the site's working days)</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.is_active} onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })} />
+              <span>Can be requested</span>
+            </label>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const LeaveBalanceForm = ({ balance, onClose }: { balance: LeaveBalance; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      year: String(balance.year),
+      allowance_days: balance.allowance_days?.toString() || ''
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(leaveBalanceSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, ['allowance_days']));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(`operators/${balance.operator_id}/leave-balances/${balance.leave_type_id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, ['allowance_days']));
+          return;
+        }
+        fetchLeave();
+        onClose();
+      } catch (error) {
+        console.error('Error saving leave allowance:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save allowance' });
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-sm text-gray-800">
+          <h3 className="text-lg font-semibold mb-1">{balance.leave_type_name} Allowance</h3>
+          <p className="text-sm text-gray-500 mb-4">{balance.operator_name}, {balance.year}</p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Days</label>
+              <input type="number" min="0" step="0.5" value={formData.allowance_days} onChange={(e) => setFormData({ ...formData, allowance_days: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+              <FieldMessage message={errors.fields.allowance_days} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  // How an assignment reads in the offer and exchange pickers
+  const describeAssignment = (assignment: RosterAssignment) =>
+    `${assignment.assigned_date} · ${assignment.shift_name}${assignment.station_name ? ` · ${assignment.line_name} - ${assignment.station_name}` : ''}`;
+
+  const ShiftOfferForm = ({ onClose }: { onClose: () => void }) => {
+    const [operatorId, setOperatorId] = useState(isSupervisor ? '' : String(currentUser?.operator_id ?? ''));
+    const [formData, setFormData] = useState({ assignment_id: '', note: '' });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+    // Assignments already on offer cannot be offered twice
+    const offered = new Set(shiftTrades.filter(t => t.status === 'open' || t.status === 'claimed').map(t => t.assignment_id));
+    const offerable = upcomingAssignments.filter(a => String(a.operator_id) === operatorId && !offered.has(a.id));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(shiftOfferSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch('shift-trades', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        const trade: ShiftTrade = await response.json();
+        setNotice({ tone: 'success', message: `${trade.shift_name} on ${trade.shift_date} is on offer` });
+        fetchShiftTrades();
+        onClose();
+      } catch (error) {
+        console.error('Error offering shift:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to offer shift' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">Offer a Shift</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isSupervisor && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Operator</label>
+                <select value={operatorId} onChange={(e) => { setOperatorId(e.target.value); setFormData({ ...formData, assignment_id: '' }); }} className={fieldClass} required>
+                  <option value="">Select an operator</option>
+                  {operators.map(op => <option key={op.id} value={op.id}>{op.name}</option>)}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Shift</label>
+              <select value={formData.assignment_id} onChange={(e) => setFormData({ ...formData, assignment_id: e.target.value })} className={fieldClass} required>
+                <option value="">{offerable.length > 0 ? 'Select a shift' : 'No upcoming shifts to offer'}</option>
+                {offerable.map(a => <option key={a.id} value={a.id}>{describeAssignment(a)}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.assignment_id} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <textarea value={formData.note} onChange={(e) => setFormData({ ...formData, note: e.target.value })} rows={2} className={fieldClass} placeholder="e.g. medical appointment, happy to swap for a late shift" />
+              <FieldMessage message={errors.fields.note} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Offer</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const OpenShiftForm = ({ onClose }: { onClose: () => void }) => {
+    const [formData, setFormData] = useState({ shift_id: '', station_id: '', shift_date: plantTime?.today || '', note: '' });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+    const shift = shifts.find(s => String(s.id) === formData.shift_id);
+    const shiftStations = stations.filter(station => {
+      const line = productionLines.find(pl => pl.id === station.line_id);
+      return !shift || line?.department_id === shift.department_id;
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(openShiftSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch('shift-trades/open-shifts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        const trade: ShiftTrade = await response.json();
+        setNotice({ tone: 'success', message: `Open shift posted: ${trade.shift_name} on ${trade.shift_date}` });
+        fetchShiftTrades();
+        onClose();
+      } catch (error) {
+        console.error('Error posting open shift:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to post open shift' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">Post Open Shift</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input type="date" value={formData.shift_date} onChange={(e) => setFormData({ ...formData, shift_date: e.target.value })} className={fieldClass} required />
+              <FieldMessage message={errors.fields.shift_date} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Shift</label>
+              <select value={formData.shift_id} onChange={(e) => setFormData({ ...formData, shift_id: e.target.value, station_id: '' })} className={fieldClass} required>
+                <option value="">Select a shift</option>
+                {shifts.map(s => <option key={s.id} value={s.id}>{s.name} ({s.start_time} - {s.end_time})</option>)}
+              </select>
+              <FieldMessage message={errors.fields.shift_id} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Station</label>
+              <select value={formData.station_id} onChange={(e) => setFormData({ ...formData, station_id: e.target.value })} className={fieldClass}>
+                <option value="">Any station</option>
+                {shiftStations.map(station => <option key={station.id} value={station.id}>{station.line_name} - {station.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.station_id} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <textarea value={formData.note} onChange={(e) => setFormData({ ...formData, note: e.target.value })} rows={2} className={fieldClass} />
+              <FieldMessage message={errors.fields.note} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Post</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  // Take an offered or open shift, or propose a swap by giving one of your own shifts in exchange
+  const ShiftClaimForm = ({ trade, onClose }: { trade: ShiftTrade; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      operator_id: isSupervisor ? '' : String(currentUser?.operator_id ?? ''),
+      counter_assignment_id: ''
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+    const exchangeable = upcomingAssignments.filter(a => String(a.operator_id) === formData.operator_id);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(shiftClaimSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(`shift-trades/${trade.id}/claim`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        const result: ShiftTradeResult = await response.json();
+        const warnings = result.conflicts.map(conflict => conflict.message);
+        setNotice(warnings.length > 0
+          ? { tone: 'warning', message: `Claim sent for approval with warnings: ${warnings.join(' ')}` }
+          : { tone: 'success', message: `Claim for ${result.shift_name} on ${result.shift_date} sent for approval` });
+        fetchShiftTrades();
+        onClose();
+      } catch (error) {
+        console.error('Error claiming shift:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to claim shift' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-1">Claim {trade.shift_name} on {trade.shift_date}</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            {trade.offered_by_name ? `Offered by ${trade.offered_by_name}` : 'Open shift'}
+            {trade.station_name && ` · ${trade.line_name} - ${trade.station_name}`}
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isSupervisor && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Operator</label>
+                <select value={formData.operator_id} onChange={(e) => setFormData({ operator_id: e.target.value, counter_assignment_id: '' })} className={fieldClass} required>
+                  <option value="">Select an operator</option>
+                  {operators.filter(op => op.id !== trade.offered_by && isAssignable(op)).map(op => <option key={op.id} value={op.id}>{op.name}</option>)}
+                </select>
+                <FieldMessage message={errors.fields.operator_id} />
+              </div>
+            )}
+            {trade.kind === 'offer' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">In exchange</label>
+                <select value={formData.counter_assignment_id} onChange={(e) => setFormData({ ...formData, counter_assignment_id: e.target.value })} className={fieldClass}>
+                  <option value="">Nothing, just take the shift</option>
+                  {exchangeable.map(a => <option key={a.id} value={a.id}>Swap for {describeAssignment(a)}</option>)}
+                </select>
+                <FieldMessage message={errors.fields.counter_assignment_id} />
+              </div>
+            )}
+            <p className="text-xs text-gray-500">A supervisor approves the trade. Skills, rest time and leave are checked now and again on approval.</p>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Claim</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const ComplianceRuleForm = ({ rule, onClose }: { rule?: ComplianceRule; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      rule_type: rule?.rule_type || COMPLIANCE_RULE_TYPES[0],
+      threshold: rule?.threshold?.toString() || '',
+      severity: rule?.severity || COMPLIANCE_SEVERITIES[0],
+      department_id: rule?.department_id?.toString() || '',
+      description: rule?.description || '',
+      is_active: rule?.is_active ?? true
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(complianceRuleSchema, formData, checkComplianceThreshold);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(rule ? `compliance-rules/${rule.id}` : 'compliance-rules', {
+          method: rule ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        fetchCompliance();
+        onClose();
+      } catch (error) {
+        console.error('Error saving compliance rule:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save compliance rule' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{rule ? 'Edit Compliance Rule' : 'Add Compliance Rule'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rule</label>
+              <select value={formData.rule_type} onChange={(e) => setFormData({ ...formData, rule_type: e.target.value as ComplianceRuleType })} className={fieldClass}>
+                {COMPLIANCE_RULE_TYPES.map(type => <option key={type} value={type}>{COMPLIANCE_RULE_LABELS[type].label}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.rule_type} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Limit ({formData.rule_type === 'max_consecutive_days' ? 'days' : 'hours'})
+              </label>
+              <input type="number" min="0.5" step={formData.rule_type === 'max_consecutive_days' ? '1' : '0.5'} value={formData.threshold} onChange={(e) => setFormData({ ...formData, threshold: e.target.value })} className={fieldClass} required />
+              <FieldMessage message={errors.fields.threshold} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">When broken</label>
+              <select value={formData.severity} onChange={(e) => setFormData({ ...formData, severity: e.target.value as ComplianceRule['severity'] })} className={fieldClass}>
+                <option value="block">Block the change</option>
+                <option value="warn">Warn only</option>
+              </select>
+              <FieldMessage message={errors.fields.severity} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+              <select value={formData.department_id} onChange={(e) => setFormData({ ...formData, department_id: e.target.value })} className={fieldClass}>
+                <option value="">All departments</option>
+                {departments.map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.department_id} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input type="text" value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} className={fieldClass} />
+              <FieldMessage message={errors.fields.description} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.is_active} onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })} />
+              <span>Enforced</span>
+            </label>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  // --- Line configuration (admins) ---
+  const DepartmentForm = ({ department, onClose }: { department?: Department; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      name: department?.name || '',
+      description: department?.description || '',
+      site_id: department?.site_id?.toString() || '',
+      is_active: department?.is_active ?? true
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(departmentSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(department ? `departments/${department.id}` : 'departments', {
+          method: department ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        refreshData();
+        onClose();
+      } catch (error) {
+        console.error('Error saving department:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save department' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{department ? 'Edit Department' : 'Add Department'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className={fieldClass} required />
+              <FieldMessage message={errors.fields.name} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input type="text" value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} className={fieldClass} />
+              <FieldMessage message={errors.fields.description} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Site</label>
+              <select value={formData.site_id} onChange={(e) => setFormData({ ...formData, site_id: e.target.value })} className={fieldClass}>
+                <option value="">Plant default</option>
+                {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.site_id} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.is_active} onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })} />
+              <span>Active</span>
+            </label>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const ProductionLineForm = ({ line, onClose }: { line?: ProductionLine; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      name: line?.name || '',
+      department_id: line?.department_id?.toString() || '',
+      capacity: line?.capacity?.toString() || '',
+      efficiency_target: line?.efficiency_target?.toString() || '85',
+      status: line?.status || 'active'
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(productionLineSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(line ? `production-lines/${line.id}` : 'production-lines', {
+          method: line ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        refreshData();
+        onClose();
+      } catch (error) {
+        console.error('Error saving production line:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save production line' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{line ? 'Edit Production Line' : 'Add Production Line'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className={fieldClass} required />
+              <FieldMessage message={errors.fields.name} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+              <select value={formData.department_id} onChange={(e) => setFormData({ ...formData, department_id: e.target.value })} className={fieldClass} required>
+                <option value="">Select a department</option>
+                {configDepartments
+                  .filter(dept => dept.is_active || dept.id === line?.department_id)
+                  .map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.department_id} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+                <input type="number" min="1" step="1" value={formData.capacity} onChange={(e) => setFormData({ ...formData, capacity: e.target.value })} className={fieldClass} required />
+                <FieldMessage message={errors.fields.capacity} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Efficiency Target (%)</label>
+                <input type="number" min="1" max="200" step="0.1" value={formData.efficiency_target} onChange={(e) => setFormData({ ...formData, efficiency_target: e.target.value })} className={fieldClass} />
+                <FieldMessage message={errors.fields.efficiency_target} />
+              </div>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.status === 'active'} onChange={(e) => setFormData({ ...formData, status: e.target.checked ? 'active' : 'inactive' })} />
+              <span>Active (inactive lines keep their history but drop out of planning)</span>
+            </label>
+            <FieldMessage message={errors.fields.status} />
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const StationForm = ({ station, lineId, onClose }: { station?: Station; lineId?: number; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      name: station?.name || '',
+      line_id: (station?.line_id ?? lineId)?.toString() || '',
+      target_efficiency: station?.target_efficiency?.toString() || '100',
+      status: station?.status || 'active'
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(stationSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(station ? `stations/${station.id}` : 'stations', {
+          method: station ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        refreshData();
+        onClose();
+      } catch (error) {
+        console.error('Error saving station:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save station' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{station ? 'Edit Station' : 'Add Station'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className={fieldClass} required />
+              <FieldMessage message={errors.fields.name} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Line</label>
+              <select value={formData.line_id} onChange={(e) => setFormData({ ...formData, line_id: e.target.value })} className={fieldClass} required>
+                <option value="">Select a line</option>
+                {configLines
+                  .filter(line => line.status === 'active' || line.id === station?.line_id)
+                  .map(line => <option key={line.id} value={line.id}>{line.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.line_id} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Target Efficiency (%)</label>
+              <input type="number" min="1" max="200" step="0.1" value={formData.target_efficiency} onChange={(e) => setFormData({ ...formData, target_efficiency: e.target.value })} className={fieldClass} />
+              <FieldMessage message={errors.fields.target_efficiency} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.status === 'active'} onChange={(e) => setFormData({ ...formData, status: e.target.checked ? 'active' : 'inactive' })} />
+              <span>Active</span>
+            </label>
+            <FieldMessage message={errors.fields.status} />
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  // Drag active stations into running order and set the line's and each station's targets.
+  // Up/down buttons do the same where drag and drop is unavailable (touch screens).
+  const LineLayoutEditor = ({ line, onClose }: { line: ProductionLine; onClose: () => void }) => {
+    const [order, setOrder] = useState(() => configStations
+      .filter(station => station.line_id === line.id && station.status === 'active')
+      .sort((a, b) => a.position_order - b.position_order)
+      .map(station => ({ id: station.id, name: station.name, target_efficiency: String(station.target_efficiency) })));
+    const [lineTarget, setLineTarget] = useState(String(line.efficiency_target));
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+    const inactive = configStations.filter(station => station.line_id === line.id && station.status !== 'active');
+    const shown = ['efficiency_target', ...order.map((_, index) => `stations.${index}.target_efficiency`)];
+
+    const move = (from: number, to: number) => {
+      if (to < 0 || to >= order.length || from === to) return;
+      setOrder(prev => {
+        const next = [...prev];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        return next;
+      });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const layout = {
+        efficiency_target: lineTarget,
+        stations: order.map(station => ({ id: station.id, target_efficiency: station.target_efficiency }))
+      };
+      const input = validate(lineLayoutSchema, layout, checkLineLayout);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, shown));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(`production-lines/${line.id}/layout`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, shown));
+          return;
+        }
+        refreshData();
+        onClose();
+      } catch (error) {
+        console.error('Error saving line layout:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save layout' });
+      }
+    };
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg text-gray-800 max-h-[90vh] overflow-y-auto">
+          <h3 className="text-lg font-semibold mb-4">{line.name} Layout</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Line Efficiency Target (%)</label>
+              <input type="number" min="1" max="200" step="0.1" value={lineTarget} onChange={(e) => setLineTarget(e.target.value)} className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" />
+              <FieldMessage message={errors.fields.efficiency_target} />
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-700">Stations in running order</span>
+                <span className="text-xs text-gray-500">Target %</span>
+              </div>
+              {order.length === 0 && <p className="text-sm text-gray-500">This line has no active stations.</p>}
+              <ul className="space-y-2">
+                {order.map((station, index) => (
+                  <li
+                    key={station.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      if (dragIndex === null || dragIndex === index) return;
+                      move(dragIndex, index);
+                      setDragIndex(index);
+                    }}
+                    onDragEnd={() => setDragIndex(null)}
+                    className={`p-2 rounded-lg border ${dragIndex === index ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <GripVertical className="w-4 h-4 text-gray-400 cursor-move" />
+                      <span className="w-6 text-xs text-gray-500">{index + 1}</span>
+                      <span className="flex-1 text-sm font-medium">{station.name}</span>
+                      <button type="button" onClick={() => move(index, index - 1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="Move Up">
+                        <ChevronUp size={14} />
+                      </button>
+                      <button type="button" onClick={() => move(index, index + 1)} disabled={index === order.length - 1} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="Move Down">
+                        <ChevronDown size={14} />
+                      </button>
+                      <input
+                        type="number"
+                        min="1"
+                        max="200"
+                        step="0.1"
+                        value={station.target_efficiency}
+                        onChange={(e) => setOrder(prev => prev.map(s => s.id === station.id ? { ...s, target_efficiency: e.target.value } : s))}
+                        className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                    </div>
+                    <FieldMessage message={errors.fields[`stations.${index}.target_efficiency`]} />
+                  </li>
+                ))}
+              </ul>
+              {inactive.length > 0 && (
+                <p className="text-xs text-gray-500 mt-2">Inactive, kept after the active stations: {inactive.map(station => station.name).join(', ')}</p>
+              )}
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save Layout</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const KioskDeviceForm = ({ device, onClose }: { device?: KioskDevice; onClose: () => void }) => {
+    const [formData, setFormData] = useState({
+      name: device?.name || '',
+      site_id: device?.site_id?.toString() || '',
+      is_active: device?.is_active ?? true
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(kioskDeviceSchema, formData);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(device ? `kiosk-devices/${device.id}` : 'kiosk-devices', {
+          method: device ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        // A new device comes back with its token, which is shown this one time
+        if (!device) setIssuedKioskToken(await response.json());
+        fetchKioskDevices();
+        onClose();
+      } catch (error) {
+        console.error('Error saving kiosk device:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save kiosk device' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-4">{device ? 'Edit Kiosk' : 'Register Kiosk'}</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className={fieldClass} placeholder="e.g. Line 2 entrance" required />
+              <FieldMessage message={errors.fields.name} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Site</label>
+              <select value={formData.site_id} onChange={(e) => setFormData({ ...formData, site_id: e.target.value })} className={fieldClass}>
+                <option value="">All sites</option>
+                {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Only operators of this site can clock in here.</p>
+              <FieldMessage message={errors.fields.site_id} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.is_active} onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })} />
+              <span>Active</span>
+            </label>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const KioskTokenNotice = ({ device, onClose }: { device: KioskDeviceCreated; onClose: () => void }) => (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg text-gray-800 space-y-4">
+        <h3 className="text-lg font-semibold">Kiosk Token for {device.name}</h3>
+        <p className="text-sm text-gray-600">
+          Open <span className="font-mono">{window.location.origin}/kiosk</span> on the device and enter this token.
+          It is not shown again; issue a new one if it is lost.
+        </p>
+        <p className="p-3 bg-gray-100 rounded font-mono text-sm break-all select-all">{device.token}</p>
+        <button onClick={onClose} className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Done</button>
+      </div>
+    </div>
+  );
+
+  const KioskAccessForm = ({ operator, onClose }: { operator: Operator; onClose: () => void }) => {
+    const [credentials, setCredentials] = useState<KioskCredentials | null>(null);
+    const [formData, setFormData] = useState({ badge_number: '', pin: '' });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    useEffect(() => {
+      const load = async () => {
+        try {
+          const response = await apiFetch(`operators/${operator.id}/kiosk-credentials`);
+          if (!response.ok) throw new Error('Failed to fetch kiosk credentials');
+          const current: KioskCredentials = await response.json();
+          setCredentials(current);
+          setFormData({ badge_number: current.badge_number || '', pin: '' });
+        } catch (error) {
+          console.error('Error loading kiosk credentials:', error);
+          setErrors({ ...NO_ERRORS, message: 'Failed to load kiosk access' });
+        }
+      };
+      load();
+    }, [operator.id]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(kioskCredentialsSchema, formData, checkKioskPin);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch(`operators/${operator.id}/kiosk-credentials`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        onClose();
+      } catch (error) {
+        console.error('Error saving kiosk credentials:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save kiosk access' });
+      }
+    };
+
+    const handleRemove = async () => {
+      if (!window.confirm(`Remove ${operator.name}'s badge and PIN? They will no longer be able to use the kiosk.`)) return;
+      try {
+        const response = await apiFetch(`operators/${operator.id}/kiosk-credentials`, { method: 'DELETE' });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        onClose();
+      } catch (error) {
+        console.error('Error removing kiosk credentials:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to remove kiosk access' });
+      }
+    };
+
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <h3 className="text-lg font-semibold mb-1">Kiosk Access</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            {operator.name}{operator.employee_id ? ` · Employee ID ${operator.employee_id}` : ' · no employee ID, so badge only'}
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Badge Number</label>
+              <input type="text" autoComplete="off" value={formData.badge_number} onChange={(e) => setFormData({ ...formData, badge_number: e.target.value })} className={fieldClass} />
+              <FieldMessage message={errors.fields.badge_number} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{credentials?.has_pin ? 'New PIN' : 'PIN'}</label>
+              <input type="password" inputMode="numeric" autoComplete="new-password" maxLength={8} value={formData.pin} onChange={(e) => setFormData({ ...formData, pin: e.target.value })} className={fieldClass} placeholder={credentials?.has_pin ? 'Leave blank to keep the current PIN' : '4 to 8 digits'} />
+              <FieldMessage message={errors.fields.pin} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+              {(credentials?.badge_number || credentials?.has_pin) && (
+                <button type="button" onClick={handleRemove} className="flex-1 bg-red-100 text-red-700 py-2 px-4 rounded-md hover:bg-red-200 transition-colors">Remove</button>
+              )}
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const TimesheetRulesForm = ({ onClose }: { onClose: () => void }) => {
+    const toText = (value: number | string | null | undefined) => value === null || value === undefined ? '' : String(value).slice(0, 5);
+    const [formData, setFormData] = useState<Record<keyof TimesheetRules, string>>(() => {
+      const rules = timesheetRules;
+      return {
+        rounding_minutes: toText(rules?.rounding_minutes ?? 0),
+        grace_minutes: toText(rules?.grace_minutes ?? 0),
+        daily_overtime_minutes: toText(rules?.daily_overtime_minutes),
+        weekly_overtime_minutes: toText(rules?.weekly_overtime_minutes),
+        overtime_rate: toText(rules?.overtime_rate ?? 1.5),
+        night_start: toText(rules?.night_start),
+        night_end: toText(rules?.night_end),
+        night_rate: toText(rules?.night_rate ?? 1),
+        weekend_rate: toText(rules?.weekend_rate ?? 1),
+        auto_break_minutes: toText(rules?.auto_break_minutes ?? 0),
+        auto_break_after_minutes: toText(rules?.auto_break_after_minutes ?? 0),
+        week_start: toText(rules?.week_start ?? 1)
+      };
+    });
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const input = validate(timesheetRulesSchema, formData, checkTimesheetRules);
+      if (!input.ok) {
+        setErrors(toFormErrors(input.errors, Object.keys(formData)));
+        return;
+      }
+
+      try {
+        const response = await apiFetch('timesheet-rules', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input.value)
+        });
+        if (!response.ok) {
+          setErrors(await responseErrors(response, Object.keys(formData)));
+          return;
+        }
+        setTimesheetRules(await response.json());
+        onClose();
+      } catch (error) {
+        console.error('Error saving timesheet rules:', error);
+        setErrors({ ...NO_ERRORS, message: 'Failed to save pay rules' });
+      }
+    };
+
+    const field = (name: keyof TimesheetRules, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+        <input type="number" min="0" {...props} value={formData[name]} onChange={(e) => setFormData({ ...formData, [name]: e.target.value })} className={fieldClass} />
+        <FieldMessage message={errors.fields[name]} />
+      </div>
+    );
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg text-gray-800 max-h-[90vh] overflow-y-auto">
+          <h3 className="text-lg font-semibold mb-1">Pay Rules</h3>
+          <p className="text-sm text-gray-500 mb-4">Used for timesheets calculated from now on. Approved timesheets keep the rules they were approved with.</p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Clock Rounding</label>
+                <select value={formData.rounding_minutes} onChange={(e) => setFormData({ ...formData, rounding_minutes: e.target.value })} className={fieldClass}>
+                  {ROUNDING_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes === 0 ? 'None' : `${minutes} minutes`}</option>)}
+                </select>
+                <FieldMessage message={errors.fields.rounding_minutes} />
+              </div>
+              {field('grace_minutes', 'Grace Period (min)', { max: 60 })}
+              {field('daily_overtime_minutes', 'Daily Overtime After (min)', { placeholder: 'No daily overtime' })}
+              {field('weekly_overtime_minutes', 'Weekly Overtime After (min)', { placeholder: 'No weekly overtime' })}
+              {field('overtime_rate', 'Overtime Rate', { step: '0.05', min: 1 })}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Week Starts</label>
+                <select value={formData.week_start} onChange={(e) => setFormData({ ...formData, week_start: e.target.value })} className={fieldClass}>
+                  {WEEKDAY_NAMES.map((name, index) => <option key={name} value={index}>{name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Night From</label>
+                <input type="time" value={formData.night_start} onChange={(e) => setFormData({ ...formData, night_start: e.target.value })} className={fieldClass} />
+                <FieldMessage message={errors.fields.night_start} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Night Until</label>
+                <input type="time" value={formData.night_end} onChange={(e) => setFormData({ ...formData, night_end: e.target.value })} className={fieldClass} />
+                <FieldMessage message={errors.fields.night_end} />
+              </div>
+              {field('night_rate', 'Night Rate', { step: '0.05', min: 1 })}
+              {field('weekend_rate', 'Weekend Rate', { step: '0.05', min: 1 })}
+              {field('auto_break_minutes', 'Automatic Break (min)')}
+              {field('auto_break_after_minutes', 'On Days Longer Than (min)')}
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save Rules</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  const AssignmentModal = ({ operator, onClose }: { operator: Operator | null, onClose: () => void }) => {
+    const [selectedShiftId, setSelectedShiftId] = useState<string>('');
+    const [selectedStationId, setSelectedStationId] = useState<string>('');
+    const [assignedDate, setAssignedDate] = useState<string>(plantTime?.today || '');
+    const [errors, setErrors] = useState<FormErrors>(NO_ERRORS);
+
+    if (!operator) return null;
+
+    const availableShifts = shifts.filter(s => s.department_id === operator.department_id);
+    const availableStations = stations.filter(s => {
         const line = productionLines.find(pl => pl.id === s.line_id);
         return line?.department_id === operator.department_id;
     });
 
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
-      if (!selectedShiftId || !selectedStationId) {
-        alert("Please select a shift and a station.");
+      const shown = ['shift_id', 'station_id', 'assigned_date'];
+      const input = validate(shiftAssignmentSchema, {
+        shift_id: selectedShiftId,
+        operator_id: operator.id,
+        station_id: selectedStationId,
+        assigned_date: assignedDate
+      });
+      // Un-assigning happens from the station dropdowns, so this form always needs a station
+      const stationError = selectedStationId ? [] : [{ field: 'station_id', message: 'Station is required' }];
+      if (!input.ok || stationError.length > 0) {
+        setErrors(toFormErrors([...(input.ok ? [] : input.errors), ...stationError], shown));
         return;
       }
-      handleAssignmentChange(operator.id, selectedStationId, parseInt(selectedShiftId));
-      onClose();
+      const saved = await handleAssignmentChange(operator.id, selectedStationId, input.value.shift_id, input.value.assigned_date ?? undefined,
+        async response => setErrors(await responseErrors(response, shown)));
+      if (saved) onClose();
     };
 
     return (
@@ -412,101 +2816,542 @@ function App() {
         <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
           <h3 className="text-lg font-semibold mb-4">Assign {operator.name}</h3>
           <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input type="date" value={assignedDate} onChange={e => setAssignedDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required />
+              <FieldMessage message={errors.fields.assigned_date} />
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Shift</label>
               <select value={selectedShiftId} onChange={e => setSelectedShiftId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required>
                 <option value="">Select a Shift</option>
                 {availableShifts.map(shift => <option key={shift.id} value={shift.id}>{shift.name}</option>)}
               </select>
+              <FieldMessage message={errors.fields.shift_id} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Station</label>
+              <select value={selectedStationId} onChange={e => setSelectedStationId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required>
+                <option value="">Select a Station</option>
+                {availableStations.map(station => <option key={station.id} value={station.id}>{station.line_name} - {station.name}</option>)}
+              </select>
+              <FieldMessage message={errors.fields.station_id} />
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+             <div className="flex space-x-3 pt-4">
+              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Assign</button>
+              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+  
+  
+  // Suggested staffing for a whole line; the plan lives in App state so live updates don't discard it
+  const AutoStaffModal = () => {
+    if (!autoStaff) return null;
+
+    const lineShifts = shifts.filter(s => s.department_id === autoStaff.line.department_id);
+    const update = (changes: Partial<AutoStaffState>) => setAutoStaff({ ...autoStaff, ...changes });
+
+    const suggest = async () => {
+      update({ message: null });
+      try {
+        const response = await apiFetch(`production-lines/${autoStaff.line.id}/auto-staff?date=${autoStaff.date}&shift_id=${autoStaff.shift_id}`);
+        if (!response.ok) {
+          const body = await readApiError(response);
+          update({ message: body.errors?.map(error => error.message).join(' ') || body.error });
+          return;
+        }
+        const result = await response.json();
+        const selections: Record<number, string> = {};
+        (result as StaffingPlan).assignments
+          .filter(a => !a.already_assigned)
+          .forEach(a => { selections[a.station_id] = a.operator_id ? String(a.operator_id) : ''; });
+        update({ plan: result, selections, message: null });
+      } catch (error) {
+        console.error('Error planning line staffing:', error);
+        update({ message: 'Failed to plan staffing' });
+      }
+    };
+
+    const accept = async () => {
+      if (!autoStaff.plan) return;
+      try {
+        const response = await apiFetch(`production-lines/${autoStaff.line.id}/auto-staff`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            date: autoStaff.plan.date,
+            shift_id: autoStaff.plan.shift_id,
+            assignments: Object.entries(autoStaff.selections)
+              .filter(([, operatorId]) => operatorId)
+              .map(([stationId, operatorId]) => ({ station_id: parseInt(stationId), operator_id: parseInt(operatorId) }))
+          })
+        });
+        if (!response.ok) {
+          const body = await readApiError(response);
+          update({ message: body.errors?.map(error => error.message).join(' ') || body.error });
+          return;
+        }
+        const result = await response.json();
+        if (result.warnings?.length) setNotice({ tone: 'warning', message: `Applied with warnings: ${result.warnings.join(' ')}` });
+        setAutoStaff(null);
+        refreshData();
+      } catch (error) {
+        console.error('Error applying staffing plan:', error);
+        update({ message: 'Failed to apply staffing plan' });
+      }
+    };
+
+    const chosen = Object.values(autoStaff.selections).filter(Boolean);
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto text-gray-800">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Auto-staff {autoStaff.line.name}</h3>
+            <button onClick={() => setAutoStaff(null)} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+          </div>
+          <div className="grid grid-cols-3 gap-4 items-end mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input type="date" value={autoStaff.date} onChange={(e) => update({ date: e.target.value, plan: null })} className="w-full px-3 py-2 border border-gray-300 rounded-md" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Shift</label>
+              <select value={autoStaff.shift_id} onChange={(e) => update({ shift_id: e.target.value, plan: null })} className="w-full px-3 py-2 border border-gray-300 rounded-md">
+                <option value="">Select shift</option>
+                {lineShifts.map(shift => <option key={shift.id} value={shift.id}>{shift.name}</option>)}
+              </select>
+            </div>
+            <button onClick={suggest} disabled={!autoStaff.date || !autoStaff.shift_id} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">Suggest</button>
+          </div>
+
+          {autoStaff.message && <p className="mb-4 text-sm text-red-600">{autoStaff.message}</p>}
+
+          {autoStaff.plan && (
+            <>
+              <p className="text-sm text-gray-600 mb-3">
+                Plan score <strong className="text-gray-900">{autoStaff.plan.score ?? '—'}</strong> ·
+                {' '}{autoStaff.plan.coverage.filled}/{autoStaff.plan.coverage.stations} stations covered
+              </p>
+              <div className="space-y-2">
+                {autoStaff.plan.assignments.map(assignment => {
+                  const selected = autoStaff.selections[assignment.station_id];
+                  const suggestion = selected === String(assignment.operator_id)
+                    ? assignment
+                    : assignment.alternatives.find(alt => String(alt.operator_id) === selected);
+                  return (
+                    <div key={assignment.station_id} className="p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium text-gray-900">{assignment.station_name}</p>
+                        {assignment.already_assigned ? (
+                          <span className="text-sm text-gray-600">{assignment.operator_name} (already assigned)</span>
+                        ) : (
+                          <div className="flex items-center space-x-2">
+                            {suggestion?.score != null && <span className="text-xs text-gray-500">score {suggestion.score}</span>}
+                            <select
+                              value={selected || ''}
+                              onChange={(e) => update({ selections: { ...autoStaff.selections, [assignment.station_id]: e.target.value } })}
+                              className="text-sm px-2 py-1 border border-gray-300 rounded"
+                            >
+                              <option value="">Leave empty</option>
+                              {operators
+                                .filter(op => op.department_id === autoStaff.line.department_id)
+                                .filter(op => String(op.id) === selected || !chosen.includes(String(op.id)))
+                                .map(op => <option key={op.id} value={op.id}>{op.name}</option>)}
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                      {!assignment.already_assigned && (
+                        <p className="text-xs text-gray-500 mt-1">{suggestion ? suggestion.reasons.join(' · ') : selected ? 'Manual choice' : assignment.reasons.join(' · ')}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex space-x-3 pt-4">
+                <button onClick={accept} disabled={chosen.length === 0} className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50">Accept Plan</button>
+                <button onClick={() => setAutoStaff(null)} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400">Cancel</button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Two steps: a dry run reports what every row would do, then the reviewed file is imported
+  const ImportModal = () => {
+    if (!importState) return null;
+
+    const update = (changes: Partial<ImportState>) => setImportState({ ...importState, ...changes });
+    const report = importState.report;
+
+    const upload = async (dryRun: boolean) => {
+      if (!importState.file) return;
+      update({ busy: true, error: null });
+
+      const formData = new FormData();
+      formData.append('file', importState.file);
+      formData.append('dry_run', String(dryRun));
+      formData.append('create_departments', String(importState.create_departments));
+
+      try {
+        const response = await apiFetch(`import/operators`, {
+          method: 'POST',
+          body: formData
+        });
+        if (!response.ok) {
+          const body = await readApiError(response) as ApiErrorBody & { report?: ImportReport };
+          update({ busy: false, error: body.errors?.map(error => error.message).join(' ') || body.error, report: body.report ?? null });
+          return;
+        }
+        const result: ImportReport & { message?: string } = await response.json();
+        if (dryRun) {
+          update({ busy: false, report: result });
+          return;
+        }
+        setImportState(null);
+        setNotice({ tone: 'success', message: result.message || 'Import completed' });
+        refreshData();
+      } catch (error) {
+        console.error('Error importing:', error);
+        update({ busy: false, error: 'Import failed' });
+      }
+    };
+
+    // The rejected rows as uploaded plus their errors, to fix in a spreadsheet and upload again
+    const downloadErrors = () => {
+      if (!report) return;
+      const rows = report.rows
+        .filter(row => row.action === 'reject')
+        .map(row => ({ ...row.values, row: row.row, errors: row.errors.map(error => error.message).join('; ') }));
+      downloadBlob(new Blob([toCsv(['row', ...IMPORT_COLUMNS, 'errors'], rows)], { type: 'text/csv' }), 'operator-import-errors.csv');
+    };
+
+    const actionStyles: Record<ImportAction, string> = {
+      create: 'bg-green-100 text-green-800',
+      update: 'bg-blue-100 text-blue-800',
+      unchanged: 'bg-gray-100 text-gray-600',
+      reject: 'bg-red-100 text-red-800'
+    };
+    const writes = report ? report.summary.create + report.summary.update : 0;
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <div className={`bg-white p-6 rounded-lg shadow-xl w-full ${report ? 'max-w-3xl' : 'max-w-md'} max-h-[90vh] overflow-y-auto text-gray-800`}>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Import Operators from CSV</h3>
+            <button onClick={() => setImportState(null)} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+          </div>
+
+          {!report ? (
+            <form onSubmit={(e) => { e.preventDefault(); upload(true); }} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">CSV File</label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => update({ file: e.target.files?.[0] || null, report: null, error: null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required={!importState.file}
+                />
+                {importState.file && <p className="text-xs text-gray-600 mt-1">Selected: {importState.file.name}</p>}
+                <p className="text-xs text-gray-500 mt-1">
+                  Expected columns: {IMPORT_COLUMNS.join(', ')}. Up to {IMPORT_MAX_ROWS} rows and {IMPORT_MAX_BYTES / 1024 / 1024} MB.
+                </p>
+                <FieldMessage message={importState.error} />
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" checked={importState.create_departments} onChange={(e) => update({ create_departments: e.target.checked })} />
+                <span>Create departments that don't exist yet</span>
+              </label>
+              <div className="flex space-x-3 pt-4">
+                <button type="submit" disabled={importState.busy || !importState.file} className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50">
+                  {importState.busy ? 'Checking...' : 'Check File'}
+                </button>
+                <button type="button" onClick={() => setImportState(null)} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                {(Object.keys(report.summary) as ImportAction[]).map(action => (
+                  <span key={action} className={`px-2 py-1 rounded-full ${actionStyles[action]}`}>{report.summary[action]} {action === 'reject' ? 'rejected' : action}</span>
+                ))}
+              </div>
+              {report.new_departments.length > 0 && (
+                <p className="text-sm text-gray-600">New departments: {report.new_departments.join(', ')}</p>
+              )}
+              {importState.error && <p className="text-sm text-red-600">{importState.error}</p>}
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                {report.rows.filter(row => row.action !== 'unchanged').map(row => (
+                  <div key={row.row} className="p-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">Row {row.row} · {row.values.name || '—'} <span className="text-gray-500">{row.values.email}</span></span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionStyles[row.action]}`}>{row.action}</span>
+                    </div>
+                    {row.errors.map((error, index) => <p key={index} className="text-xs text-red-600 mt-1">{error.message}</p>)}
+                    {row.action === 'update' && Object.entries(row.changes).map(([field, change]) => (
+                      <p key={field} className="text-xs text-gray-600 mt-1">{field}: {change.from ?? '—'} → {change.to ?? '—'}</p>
+                    ))}
+                  </div>
+                ))}
+                {report.summary.unchanged === report.rows.length && <p className="p-3 text-sm text-gray-500">Every row matches the existing operators.</p>}
+              </div>
+
+              <div className="flex space-x-3 pt-2">
+                {report.summary.reject > 0 ? (
+                  <button onClick={downloadErrors} className="flex-1 bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 transition-colors">Download Errors</button>
+                ) : (
+                  <button onClick={() => upload(false)} disabled={importState.busy || writes === 0} className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50">
+                    {importState.busy ? 'Importing...' : `Import ${writes} Operators`}
+                  </button>
+                )}
+                <button onClick={() => update({ report: null, error: null })} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Back</button>
+              </div>
             </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Download a view's data as CSV or Excel; the filters start from what the view shows
+  const ExportModal = () => {
+    if (!exportState) return null;
+
+    const update = (changes: Partial<ExportState>) => setExportState({ ...exportState, ...changes });
+    const { kind, errors } = exportState;
+    const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+    const filterFields = kind === 'assignments' ? ['date'] : kind === 'attendance' ? ['from', 'to'] : ['from', 'to', 'group_by'];
+    const shown = [...filterFields, 'department_id', 'line_id', 'shift_id'];
+
+    const download = async () => {
+      const params = new URLSearchParams({ format: exportState.format });
+      shown.forEach(field => {
+        const value = exportState[field as keyof ExportState];
+        if (typeof value === 'string' && value) params.set(field, value);
+      });
+
+      update({ busy: true, errors: NO_ERRORS });
+      try {
+        const response = await apiFetch(`exports/${kind}?${params}`);
+        if (!response.ok) {
+          update({ busy: false, errors: await responseErrors(response, shown) });
+          return;
+        }
+        const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `${kind}.${exportState.format}`;
+        downloadBlob(await response.blob(), filename);
+        setExportState(null);
+      } catch (error) {
+        console.error(`Error exporting ${kind}:`, error);
+        update({ busy: false, errors: { ...NO_ERRORS, message: 'Export failed' } });
+      }
+    };
+
+    const dateField = (field: 'date' | 'from' | 'to', label: string) => (
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+        <input type="date" value={exportState[field]} onChange={(e) => update({ [field]: e.target.value })} className={fieldClass} required={field !== 'date'} />
+        <FieldMessage message={errors.fields[field]} />
+      </div>
+    );
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md text-gray-800">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">{EXPORT_TITLES[kind]}</h3>
+            <button onClick={() => setExportState(null)} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+          </div>
+          <form onSubmit={(e) => { e.preventDefault(); download(); }} className="space-y-4">
+            {kind === 'assignments' ? dateField('date', 'Date') : (
+              <div className="grid grid-cols-2 gap-4">
+                {dateField('from', 'From')}
+                {dateField('to', 'To')}
+              </div>
+            )}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Station</label>
-              <select value={selectedStationId} onChange={e => setSelectedStationId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" required>
-                <option value="">Select a Station</option>
-                {availableStations.map(station => <option key={station.id} value={station.id}>{station.line_name} - {station.name}</option>)}
+              <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
+              <select value={exportState.department_id} onChange={(e) => update({ department_id: e.target.value })} className={fieldClass}>
+                <option value="">All departments</option>
+                {departments.map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
               </select>
+              <FieldMessage message={errors.fields.department_id} />
             </div>
-             <div className="flex space-x-3 pt-4">
-              <button type="submit" className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Assign</button>
-              <button type="button" onClick={onClose} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Line</label>
+                <select value={exportState.line_id} onChange={(e) => update({ line_id: e.target.value })} className={fieldClass}>
+                  <option value="">All lines</option>
+                  {productionLines
+                    .filter(line => !exportState.department_id || String(line.department_id) === exportState.department_id)
+                    .map(line => <option key={line.id} value={line.id}>{line.name}</option>)}
+                </select>
+                <FieldMessage message={errors.fields.line_id} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Shift</label>
+                <select value={exportState.shift_id} onChange={(e) => update({ shift_id: e.target.value })} className={fieldClass}>
+                  <option value="">All shifts</option>
+                  {shifts
+                    .filter(shift => !exportState.department_id || String(shift.department_id) === exportState.department_id)
+                    .map(shift => <option key={shift.id} value={shift.id}>{shift.name}</option>)}
+                </select>
+                <FieldMessage message={errors.fields.shift_id} />
+              </div>
+            </div>
+            {kind === 'performance' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Group By</label>
+                <select value={exportState.group_by} onChange={(e) => update({ group_by: e.target.value as PerformanceGroup })} className={fieldClass}>
+                  {PERFORMANCE_GROUPS.map(group => <option key={group} value={group}>{group.charAt(0).toUpperCase() + group.slice(1)}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="flex space-x-4 text-sm text-gray-700">
+              {EXPORT_FORMATS.map(format => (
+                <label key={format} className="flex items-center space-x-2">
+                  <input type="radio" name="export-format" checked={exportState.format === format} onChange={() => update({ format })} />
+                  <span>{format === 'csv' ? 'CSV' : 'Excel (.xlsx)'}</span>
+                </label>
+              ))}
+            </div>
+            {errors.message && <p className="text-sm text-red-600">{errors.message}</p>}
+            <div className="flex space-x-3 pt-4">
+              <button type="submit" disabled={exportState.busy} className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50">
+                <Download size={16} /><span>{exportState.busy ? 'Exporting...' : 'Download'}</span>
+              </button>
+              <button type="button" onClick={() => setExportState(null)} className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors">Cancel</button>
             </div>
           </form>
         </div>
       </div>
     );
   };
-  
-  
-  const ImportModal = () => {
-    const [file, setFile] = useState<File | null>(null);
-    const [importing, setImporting] = useState(false);
-
-    const handleImport = async (e: React.FormEvent) => {
-      e.preventDefault();
-      if (!file) return;
 
-      setImporting(true);
-      const formData = new FormData();
-      formData.append('file', file);
+  const LoginScreen = () => {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
 
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setSubmitting(true);
+      setError(null);
       try {
-        const response = await fetch(`${API_BASE_URL}/import/operators`, {
+        const response = await apiFetch('auth/login', {
           method: 'POST',
-          body: formData
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ username, password })
         });
         const result = await response.json();
-        alert(result.message);
-        setShowImportModal(false);
-        setFile(null);
-        await fetchOperators();
-      } catch (error) {
-        console.error('Error importing:', error);
-        alert('Import failed');
+        if (!response.ok) throw new Error(result.error || 'Login failed');
+        localStorage.setItem(TOKEN_STORAGE_KEY, result.token);
+        setCurrentUser(result.user);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Login failed');
       } finally {
-        setImporting(false);
+        setSubmitting(false);
       }
     };
 
     return (
-      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-md">
-          <h3 className="text-lg font-semibold mb-4">Import Operators from CSV</h3>
-          <form onSubmit={handleImport} className="space-y-4">
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 w-full max-w-sm">
+          <div className="flex items-center space-x-3 mb-6">
+            <div className="p-2 bg-blue-100 rounded-lg"><Activity className="w-6 h-6 text-blue-600" /></div>
+            <h1 className="text-xl font-bold text-gray-900">Operator Tracking System</h1>
+          </div>
+          <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">CSV File</label>
-              <input
-                type="file"
-                accept=".csv"
-                onChange={(e) => setFile(e.target.files?.[0] || null)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                required
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Expected columns: name, email, employee_id, department_name, skill_level
-              </p>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+              <input type="text" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900" required />
             </div>
-            <div className="flex space-x-3 pt-4">
-              <button
-                type="submit"
-                disabled={importing}
-                className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
-              >
-                {importing ? 'Importing...' : 'Import'}
-              </button>
-              <button
-                type="button"
-                onClick={() => setShowImportModal(false)}
-                className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 transition-colors"
-              >
-                Cancel
-              </button>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+              <input type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900" required />
             </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button type="submit" disabled={submitting} className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50">
+              <LogIn size={16} /><span>{submitting ? 'Signing in...' : 'Sign In'}</span>
+            </button>
           </form>
         </div>
       </div>
     );
   };
 
+  // Audit history of an operator or station, including related assignments and attendance
+  const HistoryModal = ({ title, filter, onClose }: { title: string, filter: string, onClose: () => void }) => {
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+    useEffect(() => {
+      apiFetch(`audit?${filter}&limit=200`)
+        .then(response => response.ok ? response.json() : [])
+        .then(setEntries)
+        .catch(error => {
+          console.error('Error fetching history:', error);
+          setEntries([]);
+        });
+    }, [filter]);
+
+    const formatValue = (value: unknown) => value === null || value === undefined || value === '' ? '—' : String(value);
+
+    // Only the fields that actually changed between the before and after snapshots
+    const changedFields = (entry: AuditEntry) => {
+      const keys = new Set([...Object.keys(entry.before_data || {}), ...Object.keys(entry.after_data || {})]);
+      return [...keys].filter(key =>
+        key !== 'last_active' &&
+        JSON.stringify(entry.before_data?.[key]) !== JSON.stringify(entry.after_data?.[key])
+      );
+    };
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col text-gray-800">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">History: {title}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20} /></button>
+          </div>
+          <div className="overflow-y-auto space-y-3">
+            {entries === null && <p className="text-sm text-gray-500">Loading...</p>}
+            {entries?.length === 0 && <p className="text-sm text-gray-500">No recorded changes.</p>}
+            {entries?.map(entry => (
+              <div key={entry.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>
+                    <strong className="text-gray-900">{entry.actor_username}</strong> · {entry.action.replace(/_/g, ' ')} {entry.entity_type.replace(/_/g, ' ')} #{entry.entity_id}
+                  </span>
+                  <span>{new Date(entry.created_at).toLocaleString('en-GB', { timeZone: plantTime?.timezone })}</span>
+                </div>
+                <ul className="text-xs space-y-0.5">
+                  {changedFields(entry).map(field => (
+                    <li key={field}>
+                      <span className="text-gray-500">{field}:</span>{' '}
+                      <span className="line-through text-red-600">{formatValue(entry.before_data?.[field])}</span>{' → '}
+                      <span className="text-green-700">{formatValue(entry.after_data?.[field])}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   // Status badge component
   const StatusBadge = ({ status }: { status: string }) => {
     const statusConfig = {
@@ -539,19 +3384,75 @@ function App() {
     );
   };
 
+  // Line chart of one metric, with the previous period dashed behind it when compared
+  const TrendChart = ({ series }: { series: TrendSeries }) => {
+    const { label, higherIsBetter } = ANALYTICS_LABELS[series.metric];
+    const suffix = TREND_UNIT_SUFFIXES[series.unit];
+    const width = 320;
+    const height = 100;
+    const previousPoints = series.previous?.points ?? [];
+    const values = [...series.current.points, ...previousPoints]
+      .map(point => point.value)
+      .filter((value): value is number => value !== null);
+    const top = Math.max(...values, series.unit === 'percent' ? 100 : 1);
+    const count = Math.max(series.current.points.length, previousPoints.length);
+    const x = (index: number) => count > 1 ? index / (count - 1) * width : width / 2;
+    const y = (value: number) => height - value / top * height;
+    // Periods with nothing recorded leave a gap in the line
+    const path = (points: TrendPoint[]) => points
+      .map((point, index) => point.value === null ? '' : `${index > 0 && points[index - 1].value !== null ? 'L' : 'M'}${x(index).toFixed(1)},${y(point.value).toFixed(1)}`)
+      .join(' ');
+    const change = series.change;
+    const changeColor = !change ? 'text-gray-500' : (change > 0) === higherIsBetter ? 'text-green-700' : 'text-red-700';
+
+    return (
+      <div className="bg-gray-50 p-4 rounded-lg">
+        <div className="flex items-baseline justify-between mb-2">
+          <h4 className="text-sm font-semibold text-gray-900">{label}</h4>
+          <div className="text-right">
+            <span className="text-lg font-bold text-gray-900">{series.current.total !== null ? `${series.current.total}${suffix}` : '—'}</span>
+            {change !== null && (
+              <span className={`block text-xs ${changeColor}`} title={`Previous period: ${series.previous?.total}${suffix}`}>
+                {change > 0 ? '+' : ''}{change}{series.unit === 'percent' ? ' pts' : suffix} vs previous
+              </span>
+            )}
+          </div>
+        </div>
+        <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-28" role="img" aria-label={`${label} trend`}>
+          <line x1={0} y1={height} x2={width} y2={height} stroke="#e5e7eb" />
+          {series.previous && <path d={path(previousPoints)} fill="none" stroke="#9ca3af" strokeWidth={1.5} strokeDasharray="4 3" />}
+          <path d={path(series.current.points)} fill="none" stroke="#2563eb" strokeWidth={2} />
+          {series.current.points.map((point, index) => point.value !== null && (
+            <circle key={point.period} cx={x(index)} cy={y(point.value)} r={2.5} fill="#2563eb">
+              <title>{`${point.period}: ${point.value}${suffix}`}{previousPoints[index]?.value != null ? ` (previous ${previousPoints[index].value}${suffix})` : ''}</title>
+            </circle>
+          ))}
+        </svg>
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>{series.current.points[0]?.period}</span>
+          <span>{series.current.points[series.current.points.length - 1]?.period}</span>
+        </div>
+      </div>
+    );
+  };
+
   // Main dashboard view
   const DashboardView = () => {
     if (!dashboardStats) return <div>Loading...</div>;
 
     const operatorCounts = dashboardStats.operators.reduce((acc, item) => {
-      acc[item.status] = parseInt(item.count);
+      acc[item.status] = item.count;
       return acc;
     }, {} as Record<string, number>);
 
     const attendanceCounts = dashboardStats.attendance.reduce((acc, item) => {
-      acc[item.status] = parseInt(item.count);
+      acc[item.status] = item.count;
       return acc;
     }, {} as Record<string, number>);
+    // Everyone who clocked in today, whether or not their day has been classified yet
+    const presentToday = dashboardStats.attendance
+      .filter(item => item.status !== 'no_show' && item.status !== 'excused' && item.status !== 'absent')
+      .reduce((sum, item) => sum + item.count, 0);
 
     return (
       <div className="space-y-6">
@@ -597,7 +3498,10 @@ function App() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Present Today</p>
-                <p className="text-2xl font-bold text-blue-600">{attendanceCounts.present || 0}</p>
+                <p className="text-2xl font-bold text-blue-600">{presentToday}</p>
+                {(attendanceCounts.late > 0 || attendanceCounts.no_show > 0 || attendanceCounts.excused > 0) && (
+                  <p className="text-xs text-gray-500">{attendanceCounts.late || 0} late · {attendanceCounts.no_show || 0} no-show · {attendanceCounts.excused || 0} on leave</p>
+                )}
               </div>
               <div className="p-2 bg-blue-100 rounded-lg">
                 <UserCheck className="w-6 h-6 text-blue-600" />
@@ -614,8 +3518,8 @@ function App() {
           <div className="p-6">
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {dashboardStats.production_lines.map((line) => {
-                const efficiency = parseFloat(line.avg_efficiency) || 0;
-                const occupancy = (parseInt(line.occupied_stations) / parseInt(line.total_stations)) * 100;
+                const efficiency = line.avg_efficiency || 0;
+                const occupancy = line.total_stations > 0 ? (line.occupied_stations / line.total_stations) * 100 : 0;
                 
                 return (
                   <div key={line.id} className="bg-gray-50 p-4 rounded-lg">
@@ -646,6 +3550,66 @@ function App() {
           </div>
         </div>
 
+        {/* Trends */}
+        {isSupervisor && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <BarChart3 className="w-5 h-5 mr-2 text-gray-500" />Trends
+              </h3>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <select
+                  value={analyticsLineId}
+                  onChange={(e) => { setAnalyticsLineId(e.target.value); setAnalyticsStationId(''); }}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">All lines</option>
+                  {productionLines.map(line => <option key={line.id} value={line.id}>{line.name}</option>)}
+                </select>
+                <select
+                  value={analyticsStationId}
+                  onChange={(e) => setAnalyticsStationId(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">All stations</option>
+                  {stations
+                    .filter(station => !analyticsLineId || station.line_id === Number(analyticsLineId))
+                    .map(station => <option key={station.id} value={station.id}>{station.name}</option>)}
+                </select>
+                <select
+                  value={analyticsGranularity}
+                  onChange={(e) => setAnalyticsGranularity(e.target.value as TrendGranularity)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {TREND_PERIODS.map(period => <option key={period} value={period}>{TREND_GRANULARITY_LABELS[period]}</option>)}
+                </select>
+                <label className="flex items-center text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={analyticsCompare}
+                    onChange={(e) => setAnalyticsCompare(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Compare with previous period
+                </label>
+              </div>
+            </div>
+            <div className="p-6">
+              {!analyticsTrends
+                ? <p className="text-sm text-gray-500">Loading trends...</p>
+                : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {analyticsTrends.series.map(series => <TrendChart key={series.metric} series={series} />)}
+                  </div>
+                )}
+              <p className="text-xs text-gray-500 mt-4">
+                Operator metrics (attendance and overtime) count operators on the days they were assigned to the chosen line or station.
+                {analyticsTrends?.series[0]?.previous && ` Dashed: ${analyticsTrends.series[0].previous.from} to ${analyticsTrends.series[0].previous.to}.`}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Current Operators Status */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -677,7 +3641,7 @@ function App() {
                   </div>
                   <div className="flex items-center space-x-2">
                     <StatusBadge status={operator.status} />
-                    <div className="flex space-x-1">
+                    {canActForOperator(operator.id) && <div className="flex space-x-1">
                       <button
                         onClick={() => updateOperatorStatus(operator.id, 'online')}
                         className="p-1 text-green-600 hover:bg-green-100 rounded"
@@ -699,7 +3663,7 @@ function App() {
                       >
                         <UserX className="w-4 h-4" />
                       </button>
-                    </div>
+                    </div>}
                   </div>
                 </div>
               ))}
@@ -716,6 +3680,25 @@ function App() {
       ? stations.filter(s => s.line_id === selectedLine)
       : stations;
 
+    // Deletion is refused for anything with history; the server says to deactivate instead
+    const removeConfiguration = async (path: string, name: string) => {
+      if (!window.confirm(`Delete ${name}? This cannot be undone.`)) return;
+      try {
+        const response = await apiFetch(path, { method: 'DELETE' });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        setNotice({ tone: 'success', message: `${name} deleted` });
+        refreshData();
+      } catch (error) {
+        console.error(`Error deleting ${path}:`, error);
+        setNotice({ tone: 'error', message: `Failed to delete ${name}` });
+      }
+    };
+
+    const inactiveBadge = <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Inactive</span>;
+
     return (
       <div className="space-y-6">
         <div className="flex justify-between items-center">
@@ -726,7 +3709,6 @@ function App() {
               onChange={(e) => {
                 const lineId = e.target.value ? parseInt(e.target.value) : null;
                 setSelectedLine(lineId);
-                fetchStations(lineId || undefined);
               }}
               className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
@@ -736,19 +3718,28 @@ function App() {
               ))}
             </select>
             <button
-              onClick={() => fetchStations(selectedLine || undefined)}
+              onClick={() => refreshData()}
               className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
             >
               <RefreshCw className="w-4 h-4" />
               <span>Refresh</span>
             </button>
+            {isSupervisor && (
+              <button
+                onClick={() => openExport('performance', { line_id: selectedLine ? String(selectedLine) : '', from: plantTime ? shiftDate(plantTime.today, -29) : '' })}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export</span>
+              </button>
+            )}
           </div>
         </div>
 
         {/* Production Lines Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-          {productionLines.map((line) => {
-            const lineStations = stations.filter(s => s.line_id === line.id);
+          {productionLines.filter(line => !selectedLine || line.id === selectedLine).map((line) => {
+            const lineStations = selectedLineStations.filter(s => s.line_id === line.id);
             const avgEfficiency = lineStations.length > 0 
               ? lineStations.reduce((sum, s) => sum + s.efficiency_percentage, 0) / lineStations.length
               : 0;
@@ -758,7 +3749,18 @@ function App() {
                 <div className="px-6 py-4 border-b border-gray-200">
                   <div className="flex items-center justify-between">
                     <h3 className="text-lg font-semibold text-gray-900">{line.name}</h3>
-                    <EfficiencyBadge percentage={avgEfficiency} />
+                    <div className="flex items-center space-x-2">
+                      {isSupervisor && (
+                        <button
+                          onClick={() => setAutoStaff({ line, date: plantTime?.today || '', shift_id: '', plan: null, selections: {}, message: null })}
+                          className="text-gray-400 hover:text-blue-600"
+                          title="Auto-staff"
+                        >
+                          <Wand2 size={16} />
+                        </button>
+                      )}
+                      <EfficiencyBadge percentage={avgEfficiency} />
+                    </div>
                   </div>
                   <div className="flex items-center space-x-4 mt-2 text-sm text-gray-600">
                     <span className="flex items-center">
@@ -784,24 +3786,31 @@ function App() {
                         </div>
                         <div className="flex items-center space-x-2">
                           <EfficiencyBadge percentage={station.efficiency_percentage} />
-                          {!station.operator_id && (
+                          {isSupervisor && (
+                            <button onClick={() => setHistoryTarget({ title: `${line.name} - ${station.name}`, filter: `station_id=${station.id}` })} className="text-gray-400 hover:text-blue-600" title="Change History">
+                              <History size={14} />
+                            </button>
+                          )}
+                          {!station.operator_id && isSupervisor && (
                             <select
                               onChange={(e) => {
-                                if (e.target.value && shifts.length > 0) {
-                                  assignOperatorToStation(
-                                    parseInt(e.target.value),
-                                    station.id,
-                                    shifts[0].id
-                                  );
+                                const operator = operators.find(op => op.id === parseInt(e.target.value));
+                                const shift = shifts.find(s => s.department_id === operator?.department_id) || shifts[0];
+                                if (operator && shift) {
+                                  handleAssignmentChange(operator.id, String(station.id), shift.id);
                                 }
                               }}
                               className="text-xs px-2 py-1 border border-gray-300 rounded"
                             >
                               <option value="">Assign</option>
                               {operators
-                                .filter(op => op.status === 'online' && !op.station_id)
-                                .map(op => (
-                                  <option key={op.id} value={op.id}>{op.name}</option>
+                                .filter(op => op.status === 'online' && !op.station_id && !op.leave_type_name && isAssignable(op))
+                                .map(op => ({ op, missing: missingCertifications(op.id, station.id) }))
+                                .sort((a, b) => a.missing.length - b.missing.length)
+                                .map(({ op, missing }) => (
+                                  <option key={op.id} value={op.id} title={missing.length ? `Missing: ${missing.join(', ')}` : undefined}>
+                                    {op.name}{missing.length ? ' (not certified)' : ''}
+                                  </option>
                                 ))}
                             </select>
                           )}
@@ -811,89 +3820,835 @@ function App() {
                   </div>
                 </div>
               </div>
-            );
-          })}
-        </div>
-      </div>
-    );
-  };
+            );
+          })}
+        </div>
+
+        {isAdmin && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center"><Settings className="w-5 h-5 mr-2" />Line Configuration</h3>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-700">Departments</h4>
+                <button onClick={() => setEditingDepartment({} as Department)} className="text-sm text-blue-600 hover:text-blue-800 flex items-center">
+                  <Plus className="w-4 h-4 mr-1" />Add Department
+                </button>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead className="text-xs text-gray-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Department</th>
+                    <th className="px-3 py-2 text-left">Site</th>
+                    <th className="px-3 py-2 text-left">Active Lines</th>
+                    <th className="px-3 py-2 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {configDepartments.map(dept => (
+                    <tr key={dept.id} className={dept.is_active ? '' : 'text-gray-400'}>
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{dept.name}</span>
+                        {!dept.is_active && inactiveBadge}
+                      </td>
+                      <td className="px-3 py-2">{sites.find(site => site.id === dept.site_id)?.name || 'Plant default'}</td>
+                      <td className="px-3 py-2">{configLines.filter(line => line.department_id === dept.id && line.status === 'active').length}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => setEditingDepartment(dept)} className="p-1 text-gray-500 hover:text-blue-600" title="Edit Department">
+                          <Edit size={16} />
+                        </button>
+                        <button onClick={() => removeConfiguration(`departments/${dept.id}`, dept.name)} className="p-1 text-gray-500 hover:text-red-600" title="Delete Department">
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-700">Production Lines</h4>
+                <button onClick={() => setEditingLine({} as ProductionLine)} className="text-sm text-blue-600 hover:text-blue-800 flex items-center">
+                  <Plus className="w-4 h-4 mr-1" />Add Line
+                </button>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead className="text-xs text-gray-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Line</th>
+                    <th className="px-3 py-2 text-left">Department</th>
+                    <th className="px-3 py-2 text-left">Capacity</th>
+                    <th className="px-3 py-2 text-left">Target</th>
+                    <th className="px-3 py-2 text-left">Stations</th>
+                    <th className="px-3 py-2 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {configLines.map(line => (
+                    <tr key={line.id} className={line.status === 'active' ? '' : 'text-gray-400'}>
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{line.name}</span>
+                        {line.status !== 'active' && inactiveBadge}
+                      </td>
+                      <td className="px-3 py-2">{line.department_name}</td>
+                      <td className="px-3 py-2">{line.capacity}</td>
+                      <td className="px-3 py-2">{line.efficiency_target}%</td>
+                      <td className="px-3 py-2">{line.station_count}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => setLayoutLine(line)} className="p-1 text-gray-500 hover:text-blue-600" title="Edit Layout">
+                          <GripVertical size={16} />
+                        </button>
+                        <button onClick={() => setEditingLine(line)} className="p-1 text-gray-500 hover:text-blue-600" title="Edit Line">
+                          <Edit size={16} />
+                        </button>
+                        <button onClick={() => removeConfiguration(`production-lines/${line.id}`, line.name)} className="p-1 text-gray-500 hover:text-red-600" title="Delete Line">
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-700">Stations{selectedLine ? ` of ${configLines.find(line => line.id === selectedLine)?.name ?? 'the selected line'}` : ''}</h4>
+                <button onClick={() => setEditingStation({ line_id: selectedLine ?? undefined } as Station)} className="text-sm text-blue-600 hover:text-blue-800 flex items-center">
+                  <Plus className="w-4 h-4 mr-1" />Add Station
+                </button>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead className="text-xs text-gray-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Station</th>
+                    <th className="px-3 py-2 text-left">Line</th>
+                    <th className="px-3 py-2 text-left">Position</th>
+                    <th className="px-3 py-2 text-left">Target</th>
+                    <th className="px-3 py-2 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {configStations.filter(station => !selectedLine || station.line_id === selectedLine).map(station => (
+                    <tr key={station.id} className={station.status === 'active' ? '' : 'text-gray-400'}>
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{station.name}</span>
+                        {station.status !== 'active' && inactiveBadge}
+                      </td>
+                      <td className="px-3 py-2">{station.line_name}</td>
+                      <td className="px-3 py-2">{station.position_order}</td>
+                      <td className="px-3 py-2">{station.target_efficiency}%</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => setEditingStation(station)} className="p-1 text-gray-500 hover:text-blue-600" title="Edit Station">
+                          <Edit size={16} />
+                        </button>
+                        <button onClick={() => removeConfiguration(`stations/${station.id}`, station.name)} className="p-1 text-gray-500 hover:text-red-600" title="Delete Station">
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Shifts management view
+ const ShiftsView = () => {
+    const canTrade = isSupervisor || Boolean(currentUser?.operator_id);
+    const isOwn = (operatorId: number | null) => currentUser?.role === 'operator' && operatorId === currentUser.operator_id;
+
+    const decideTrade = async (trade: ShiftTrade, action: 'approve' | 'reject' | 'withdraw' | 'cancel') => {
+      if (action === 'cancel' && !window.confirm(`Take ${trade.shift_name} on ${trade.shift_date} off the marketplace?`)) return;
+      try {
+        const response = await apiFetch(`shift-trades/${trade.id}/${action}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({})
+        });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        if (action === 'approve') {
+          const result: ShiftTradeResult = await response.json();
+          const warnings = result.conflicts.map(conflict => conflict.message);
+          setNotice(warnings.length > 0
+            ? { tone: 'warning', message: `Trade approved with warnings: ${warnings.join(' ')}` }
+            : { tone: 'success', message: `Trade approved: ${result.claimed_by_name} takes ${result.shift_name} on ${result.shift_date}` });
+        }
+        fetchShiftTrades();
+      } catch (error) {
+        console.error(`Error on shift trade ${action}:`, error);
+        setNotice({ tone: 'error', message: `Failed to ${action} trade` });
+      }
+    };
+
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Shift Management</h2>
+          <div className="flex items-center space-x-2">
+            {canTrade && <button
+              onClick={() => setOfferingShift(true)}
+              className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              <span>Offer Shift</span>
+            </button>}
+            {isSupervisor && <button
+              onClick={() => setPostingOpenShift(true)}
+              className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Post Open Shift</span>
+            </button>}
+            {isSupervisor && <button
+              onClick={() => setEditingShift({} as Shift)} // Open empty modal to add
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Shift</span>
+            </button>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+          {shifts.map((shift) => {
+            // Assigned operators on approved leave keep their place but are not available
+            const assigned = shift.available_count;
+            const capacity = shift.capacity || 0;
+            const occupancy = capacity > 0 ? (assigned / capacity) * 100 : 0;
+            // Dates arrive as plain YYYY-MM-DD, so format them without a timezone shift
+            const startDate = shift.start_date ? new Date(shift.start_date).toLocaleDateString(undefined, { timeZone: 'UTC' }) : 'N/A';
+            const endDate = shift.end_date ? new Date(shift.end_date).toLocaleDateString(undefined, { timeZone: 'UTC' }) : 'N/A';
+
+            return (
+              <div key={shift.id} className="bg-white rounded-lg shadow-sm border border-gray-200 text-gray-800 flex flex-col justify-between">
+                <div>
+                  <div className="px-6 py-4 border-b border-gray-200">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-lg font-semibold text-gray-900">{shift.name}</h3>
+                      {isSupervisor && (
+                        <button onClick={() => setEditingShift(shift)} className="text-gray-400 hover:text-blue-600">
+                          <Edit size={16} />
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex flex-col space-y-2 mt-2 text-sm text-gray-600">
+                       <span className="flex items-center">
+                        <Calendar className="w-4 h-4 mr-2" />
+                        {startDate} - {endDate}
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="w-4 h-4 mr-2" />
+                        {shift.start_time} - {shift.end_time}
+                      </span>
+                      <span className="flex items-center">
+                        <Users className="w-4 h-4 mr-2" />
+                        {assigned}/{capacity} Operators
+                        {shift.on_leave_count > 0 && <span className="ml-2 text-xs text-teal-700">({shift.on_leave_count} on leave)</span>}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="p-6">
+                     <p className="text-sm text-gray-600 mb-2">
+                      {capacity - assigned} positions available
+                    </p>
+                    <div className="w-full bg-gray-200 rounded-full h-2.5">
+                      <div 
+                        className="bg-blue-600 h-2.5 rounded-full" 
+                        style={{ width: `${occupancy}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Shift Marketplace</h3>
+          <p className="text-sm text-gray-500 mb-4">Shifts offered by operators and open shifts for the next {SHIFT_TRADE_DAYS} days. Claims take effect once a supervisor approves them.</p>
+          {shiftTrades.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing on offer.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="text-xs text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 text-left">Shift</th>
+                  <th className="px-3 py-2 text-left">Station</th>
+                  <th className="px-3 py-2 text-left">Offered by</th>
+                  <th className="px-3 py-2 text-left">Claim</th>
+                  <th className="px-3 py-2 text-left">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {shiftTrades.map(trade => (
+                  <tr key={trade.id}>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <span className="font-medium text-gray-900">{trade.shift_date} · {trade.shift_name}</span>
+                      <span className="block text-xs text-gray-500">{trade.start_time} - {trade.end_time}</span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{trade.station_name ? `${trade.line_name} - ${trade.station_name}` : 'Any'}</td>
+                    <td className="px-3 py-2">
+                      {trade.offered_by_name ?? <span className="text-indigo-700">Open shift</span>}
+                      {trade.note && <span className="block text-xs text-gray-500">{trade.note}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {trade.claimed_by_name && (
+                        <>
+                          <span className="text-gray-900">{trade.claimed_by_name}</span>
+                          {trade.counter_shift_name && <span className="block text-xs">swaps for {trade.counter_shift_name} on {trade.counter_date}</span>}
+                        </>
+                      )}
+                      {trade.review_note && <span className="block text-xs text-gray-500">{trade.reviewed_by_username}: {trade.review_note}</span>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SHIFT_TRADE_STATUS_STYLES[trade.status]}`}>{trade.status}</span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-right space-x-1">
+                      {trade.status === 'open' && canTrade && !isOwn(trade.offered_by) && (
+                        <button onClick={() => setClaimingTrade(trade)} className="px-2 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700">Claim</button>
+                      )}
+                      {trade.status === 'claimed' && isSupervisor && (
+                        <>
+                          <button onClick={() => decideTrade(trade, 'approve')} className="px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 inline-flex items-center"><CheckCircle className="w-3 h-3 mr-1" />Approve</button>
+                          <button onClick={() => decideTrade(trade, 'reject')} className="px-2 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-700 inline-flex items-center"><X className="w-3 h-3 mr-1" />Reject</button>
+                        </>
+                      )}
+                      {trade.status === 'claimed' && isOwn(trade.claimed_by) && (
+                        <button onClick={() => decideTrade(trade, 'withdraw')} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded hover:bg-gray-200">Withdraw claim</button>
+                      )}
+                      {(trade.status === 'open' || trade.status === 'claimed') && (isSupervisor || isOwn(trade.offered_by)) && (
+                        <button onClick={() => decideTrade(trade, 'cancel')} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded hover:bg-gray-200">Cancel</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Skills matrix: who holds which certification, what each station requires, and what is about to lapse
+  const SkillsView = () => {
+    const today = plantTime?.today || '';
+    const certificationState = (record?: OperatorCertification) => {
+      if (!record) return null;
+      if (record.expires_on && record.expires_on < today) return { label: `Expired ${record.expires_on}`, className: 'bg-red-100 text-red-800' };
+      if (expiringCertifications.some(e => e.id === record.id)) return { label: `Expires ${record.expires_on}`, className: 'bg-amber-100 text-amber-800' };
+      return { label: record.expires_on ? `Until ${record.expires_on}` : 'No expiry', className: 'bg-green-100 text-green-800' };
+    };
+
+    const toggleRequirement = async (stationId: number, certificationId: number) => {
+      const current = stationRequirements.filter(r => r.station_id === stationId).map(r => r.certification_id);
+      const next = current.includes(certificationId) ? current.filter(id => id !== certificationId) : [...current, certificationId];
+      try {
+        const response = await apiFetch(`stations/${stationId}/requirements`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ certification_ids: next })
+        });
+        if (!response.ok) return reportFailure(response);
+        fetchSkills();
+      } catch (error) {
+        console.error('Error updating station requirements:', error);
+        setNotice({ tone: 'error', message: 'Failed to update requirements' });
+      }
+    };
+
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Skills & Certifications</h2>
+          {isSupervisor && (
+            <button onClick={() => setShowCertificationForm(true)} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2">
+              <Plus className="w-4 h-4" />
+              <span>Add Certification</span>
+            </button>
+          )}
+        </div>
+
+        {expiringCertifications.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <h3 className="flex items-center text-sm font-semibold text-amber-900 mb-2">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Expired or expiring certifications
+            </h3>
+            <ul className="space-y-1 text-sm">
+              {expiringCertifications.map(entry => (
+                <li key={entry.id} className={entry.expired ? 'text-red-700' : 'text-amber-800'}>
+                  {entry.operator_name} · {entry.certification_name} · {entry.expired ? 'expired' : 'expires'} {entry.expires_on}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 sticky left-0 bg-gray-50">Operator</th>
+                {certifications.map(certification => (
+                  <th key={certification.id} className="px-3 py-2 text-center font-medium text-gray-500" title={certification.description || undefined}>{certification.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {certifications.length === 0 && (
+                <tr><td className="px-4 py-6 text-center text-gray-500">No certifications defined yet.</td></tr>
+              )}
+              {certifications.length > 0 && operators.map(op => (
+                <tr key={op.id}>
+                  <td className="px-4 py-2 whitespace-nowrap sticky left-0 bg-white">
+                    <p className="text-gray-900">{op.name}</p>
+                    <p className="text-xs text-gray-500">{op.department_name}</p>
+                  </td>
+                  {certifications.map(certification => {
+                    const state = certificationState(operatorCertifications.find(oc => oc.operator_id === op.id && oc.certification_id === certification.id));
+                    return (
+                      <td key={certification.id} className="px-2 py-1 text-center">
+                        <button
+                          disabled={!isSupervisor}
+                          onClick={() => setEditingCertification({ operator: op, certification })}
+                          className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${state ? state.className : 'text-gray-300'} ${isSupervisor ? 'hover:ring-2 hover:ring-blue-300' : 'cursor-default'}`}
+                        >
+                          {state ? state.label : '—'}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Station Requirements</h3>
+          <div className="space-y-3">
+            {stations.map(station => {
+              const required = stationRequirements.filter(r => r.station_id === station.id).map(r => r.certification_id);
+              return (
+                <div key={station.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="w-48 text-gray-900">{station.line_name} - {station.name}</span>
+                  {certifications.map(certification => {
+                    const isRequired = required.includes(certification.id);
+                    if (!isSupervisor && !isRequired) return null;
+                    return (
+                      <button
+                        key={certification.id}
+                        disabled={!isSupervisor}
+                        onClick={() => toggleRequirement(station.id, certification.id)}
+                        className={`px-2 py-0.5 rounded-full text-xs border ${isRequired ? 'bg-blue-100 text-blue-800 border-blue-200' : 'text-gray-400 border-gray-200 hover:text-gray-700'}`}
+                      >
+                        {certification.name}
+                      </button>
+                    );
+                  })}
+                  {!isSupervisor && required.length === 0 && <span className="text-xs text-gray-400">No requirements</span>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Multi-day roster: a week or month grid of assignments plus a recurring pattern planner
+  const RosterView = () => {
+    if (!rosterFrom) return null;
+
+    const dates = Array.from({ length: rosterDays }, (_, i) => shiftDate(rosterFrom, i));
+    const shiftColours = ['bg-blue-100 text-blue-800', 'bg-purple-100 text-purple-800', 'bg-indigo-100 text-indigo-800', 'bg-teal-100 text-teal-800', 'bg-pink-100 text-pink-800'];
+    const shiftColour = (shiftId: number) => shiftColours[Math.max(shifts.findIndex(s => s.id === shiftId), 0) % shiftColours.length];
+    const template = rosterTemplates.find(t => t.id === rosterPlan?.template);
+
+    const startPlan = () => {
+      setRosterPreview(null);
+      setRosterMessage(null);
+      setRosterPlan({
+        template: rosterTemplates[0]?.id || '',
+        shift_ids: [],
+        from: rosterFrom,
+        to: shiftDate(rosterFrom, rosterDays - 1),
+        overwrite: false,
+        operators: []
+      });
+    };
+
+    const updatePlan = (changes: Partial<RosterPlan>) => {
+      if (!rosterPlan) return;
+      setRosterPlan({ ...rosterPlan, ...changes });
+      setRosterPreview(null);
+    };
+
+    const submitPlan = async (endpoint: 'preview' | 'commit') => {
+      if (!rosterPlan) return;
+      setRosterMessage(null);
+      try {
+        const response = await apiFetch(`roster/${endpoint}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            from: rosterPlan.from,
+            to: rosterPlan.to,
+            pattern: { template: rosterPlan.template, shift_ids: rosterPlan.shift_ids.map(Number), anchor_date: rosterPlan.from },
+            operators: rosterPlan.operators,
+            overwrite: rosterPlan.overwrite
+          })
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          if (result.conflicts) setRosterPreview(prev => prev ? { ...prev, conflicts: result.conflicts } : { planned: [], conflicts: result.conflicts });
+          const reasons: string[] = (result.errors ?? []).map((error: FieldError) => error.message);
+          setRosterMessage(reasons.length > 0 ? reasons.join(' ') : result.error || `Failed to ${endpoint} roster`);
+          return;
+        }
+
+        if (endpoint === 'preview') {
+          setRosterPreview(result);
+        } else {
+          setRosterMessage(`Roster applied: ${result.created} created, ${result.replaced} replaced, ${result.skipped} skipped`);
+          setRosterPlan(null);
+          setRosterPreview(null);
+          fetchRoster();
+          refreshData();
+        }
+      } catch (error) {
+        console.error(`Error on roster ${endpoint}:`, error);
+        setRosterMessage(`Failed to ${endpoint} roster`);
+      }
+    };
+
+    const rosterOperators = operators.filter(op =>
+      rosterAssignments.some(a => a.operator_id === op.id) || rosterPlan?.operators.some(p => p.operator_id === op.id)
+    );
+    const hasBlockingConflicts = rosterPreview?.conflicts.some(c => c.severity === 'error');
+
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Roster</h2>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setRosterStart(shiftDate(rosterFrom, -rosterDays))} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-700">{rosterFrom} – {dates[dates.length - 1]}</span>
+            <button onClick={() => setRosterStart(shiftDate(rosterFrom, rosterDays))} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Next">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+            <select
+              value={rosterSpan}
+              onChange={(e) => setRosterSpan(e.target.value as 'week' | 'month')}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="week">Week</option>
+              <option value="month">4 Weeks</option>
+            </select>
+            {isSupervisor && (
+              <button onClick={() => openExport('assignments', { date: rosterFrom })} className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2" title="Assignment sheet for the first day shown">
+                <Download className="w-4 h-4" />
+                <span>Export Day</span>
+              </button>
+            )}
+            {isSupervisor && !rosterPlan && (
+              <button onClick={startPlan} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2">
+                <CalendarRange className="w-4 h-4" />
+                <span>Apply Pattern</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {rosterMessage && <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">{rosterMessage}</div>}
+
+        {rosterPlan && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Recurring Pattern</h3>
+              <button onClick={() => { setRosterPlan(null); setRosterPreview(null); }} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pattern</label>
+                <select value={rosterPlan.template} onChange={(e) => updatePlan({ template: e.target.value, shift_ids: [] })} className="w-full px-3 py-2 border border-gray-300 rounded-md">
+                  {rosterTemplates.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                </select>
+              </div>
+              {Array.from({ length: template?.shifts || 0 }, (_, i) => (
+                <div key={i}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{template && template.shifts > 1 ? `Shift ${i + 1}` : 'Shift'}</label>
+                  <select
+                    value={rosterPlan.shift_ids[i] || ''}
+                    onChange={(e) => {
+                      const shiftIds = [...rosterPlan.shift_ids];
+                      shiftIds[i] = e.target.value;
+                      updatePlan({ shift_ids: shiftIds });
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select shift</option>
+                    {shifts.map(shift => <option key={shift.id} value={shift.id}>{shift.name} ({shift.start_time}-{shift.end_time})</option>)}
+                  </select>
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                <input type="date" value={rosterPlan.from} onChange={(e) => updatePlan({ from: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                <input type="date" value={rosterPlan.to} onChange={(e) => updatePlan({ to: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-md" />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Operators</label>
+              <div className="space-y-2">
+                {rosterPlan.operators.map((entry, index) => (
+                  <div key={entry.operator_id} className="flex items-center space-x-3 text-sm">
+                    <span className="w-48 text-gray-900">{operators.find(op => op.id === entry.operator_id)?.name}</span>
+                    <label className="text-gray-600">Start on cycle day</label>
+                    <select
+                      value={entry.offset}
+                      onChange={(e) => updatePlan({ operators: rosterPlan.operators.map((o, i) => i === index ? { ...o, offset: parseInt(e.target.value) } : o) })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {Array.from({ length: template?.cycle_days || 1 }, (_, day) => <option key={day} value={day}>{day + 1}</option>)}
+                    </select>
+                    <button onClick={() => updatePlan({ operators: rosterPlan.operators.filter((_, i) => i !== index) })} className="text-gray-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && updatePlan({ operators: [...rosterPlan.operators, { operator_id: parseInt(e.target.value), offset: 0 }] })}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Add operator…</option>
+                  {operators.filter(op => isAssignable(op) && !rosterPlan.operators.some(p => p.operator_id === op.id)).map(op => <option key={op.id} value={op.id}>{op.name}</option>)}
+                </select>
+              </div>
+            </div>
 
-  // Shifts management view
- const ShiftsView = () => (
-    <div className="space-y-6">
-      <div className="flex justify-between items-center">
-        <h2 className="text-2xl font-bold text-gray-900">Shift Management</h2>
-        <button
-          onClick={() => setEditingShift({} as Shift)} // Open empty modal to add
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Shift</span>
-        </button>
-      </div>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" checked={rosterPlan.overwrite} onChange={(e) => updatePlan({ overwrite: e.target.checked })} />
+                <span>Replace existing assignments</span>
+              </label>
+              <div className="flex space-x-3">
+                <button onClick={() => submitPlan('preview')} className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">Preview</button>
+                <button
+                  onClick={() => submitPlan('commit')}
+                  disabled={!rosterPreview || hasBlockingConflicts}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2"
+                >
+                  <Save className="w-4 h-4" />
+                  <span>Apply Roster</span>
+                </button>
+              </div>
+            </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-        {shifts.map((shift) => {
-          const assigned = parseInt(shift.assigned_count) || 0;
-          const capacity = shift.capacity || 0;
-          const occupancy = capacity > 0 ? (assigned / capacity) * 100 : 0;
-          const startDate = shift.start_date ? new Date(shift.start_date).toLocaleDateString() : 'N/A';
-          const endDate = shift.end_date ? new Date(shift.end_date).toLocaleDateString() : 'N/A';
+            {rosterPreview && (
+              <div className="border-t border-gray-200 pt-4">
+                <p className="text-sm text-gray-700 mb-2">
+                  {rosterPreview.planned.length} assignments planned, {rosterPreview.conflicts.length} conflicts
+                </p>
+                <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                  {rosterPreview.conflicts.map((conflict, i) => (
+                    <li key={i} className={conflict.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                      {conflict.assigned_date} · {operators.find(op => op.id === conflict.operator_id)?.name}: {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
 
-          return (
-            <div key={shift.id} className="bg-white rounded-lg shadow-sm border border-gray-200 text-gray-800 flex flex-col justify-between">
-              <div>
-                <div className="px-6 py-4 border-b border-gray-200">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-lg font-semibold text-gray-900">{shift.name}</h3>
-                    <button onClick={() => setEditingShift(shift)} className="text-gray-400 hover:text-blue-600">
-                      <Edit size={16} />
-                    </button>
-                  </div>
-                  <div className="flex flex-col space-y-2 mt-2 text-sm text-gray-600">
-                     <span className="flex items-center">
-                      <Calendar className="w-4 h-4 mr-2" />
-                      {startDate} - {endDate}
-                    </span>
-                    <span className="flex items-center">
-                      <Clock className="w-4 h-4 mr-2" />
-                      {shift.start_time} - {shift.end_time}
-                    </span>
-                    <span className="flex items-center">
-                      <Users className="w-4 h-4 mr-2" />
-                      {assigned}/{capacity} Operators
-                    </span>
-                  </div>
-                </div>
-                <div className="p-6">
-                   <p className="text-sm text-gray-600 mb-2">
-                    {capacity - assigned} positions available
-                  </p>
-                  <div className="w-full bg-gray-200 rounded-full h-2.5">
-                    <div 
-                      className="bg-blue-600 h-2.5 rounded-full" 
-                      style={{ width: `${occupancy}%` }}
-                    ></div>
-                  </div>
-                </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 sticky left-0 bg-gray-50">Operator</th>
+                {dates.map(date => (
+                  <th key={date} className={`px-2 py-2 text-center font-medium ${date === plantTime?.today ? 'text-blue-700' : 'text-gray-500'}`}>
+                    {new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', timeZone: 'UTC' })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rosterOperators.length === 0 && (
+                <tr><td colSpan={dates.length + 1} className="px-4 py-6 text-center text-gray-500">No assignments in this period.</td></tr>
+              )}
+              {rosterOperators.map(op => (
+                <tr key={op.id}>
+                  <td className="px-4 py-2 text-gray-900 whitespace-nowrap sticky left-0 bg-white">{op.name}</td>
+                  {dates.map(date => {
+                    const assignment = rosterAssignments.find(a => a.operator_id === op.id && a.assigned_date === date);
+                    const planned = rosterPreview?.planned.find(p => p.operator_id === op.id && p.assigned_date === date);
+                    const conflict = rosterPreview?.conflicts.find(c => c.operator_id === op.id && c.assigned_date === date && c.severity === 'error');
+                    return (
+                      <td key={date} className="px-1 py-1 text-center">
+                        {planned && !planned.unchanged ? (
+                          <span
+                            className={`block px-1 py-0.5 rounded border border-dashed text-xs ${conflict ? 'border-red-500 bg-red-50 text-red-800' : planned.existing ? 'border-amber-500 bg-amber-50 text-amber-800' : 'border-green-500 bg-green-50 text-green-800'}`}
+                            title={conflict?.message || (planned.existing ? `Replaces ${planned.existing.shift_name}` : 'New assignment')}
+                          >
+                            {planned.shift_name}
+                          </span>
+                        ) : assignment ? (
+                          <span className={`block px-1 py-0.5 rounded text-xs ${shiftColour(assignment.shift_id)}`} title={assignment.station_name ? `${assignment.line_name} · ${assignment.station_name}` : 'No station'}>
+                            {assignment.shift_name}
+                          </span>
+                        ) : null}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {isSupervisor && complianceReport && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <ShieldAlert className="w-5 h-5 mr-2 text-gray-500" />Working-Time Compliance
+              </h3>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={complianceBasis}
+                  onChange={(e) => setComplianceBasis(e.target.value as ComplianceBasis)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="roster">As rostered</option>
+                  <option value="attendance">As clocked</option>
+                </select>
+                {isAdmin && (
+                  <button onClick={() => setEditingComplianceRule({} as ComplianceRule)} className="text-sm text-blue-600 hover:text-blue-800 flex items-center">
+                    <Plus className="w-4 h-4 mr-1" />Add Rule
+                  </button>
+                )}
               </div>
             </div>
-          );
-        })}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {complianceRules.map(rule => (
+                <span key={rule.id} className={`inline-flex items-center px-2 py-1 rounded-md border text-xs ${rule.is_active ? 'border-gray-200 text-gray-700' : 'border-dashed border-gray-200 text-gray-400'}`}>
+                  {COMPLIANCE_RULE_LABELS[rule.rule_type].label}: {rule.threshold}{COMPLIANCE_RULE_LABELS[rule.rule_type].unit}
+                  {' · '}{rule.department_name || 'All departments'}
+                  {' · '}<span className={rule.severity === 'block' ? 'text-red-700' : 'text-amber-700'}>{rule.severity}</span>
+                  {!rule.is_active && ' · Retired'}
+                  {isAdmin && (
+                    <button onClick={() => setEditingComplianceRule(rule)} className="ml-2 text-gray-400 hover:text-blue-600" title="Edit">
+                      <Edit size={12} />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+            {complianceReport.operators.every(row => row.violations.length === 0) ? (
+              <p className="text-sm text-gray-500">
+                {complianceReport.operators.length} operators {complianceBasis === 'roster' ? 'rostered' : 'clocked'} in this period, all within the rules.
+              </p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Operator</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Days</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Hours</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Violations</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {complianceReport.operators.filter(row => row.violations.length > 0).map(row => (
+                    <tr key={row.operator_id}>
+                      <td className="px-4 py-2 text-gray-900 whitespace-nowrap align-top">
+                        {row.operator_name}
+                        {row.department_name && <span className="block text-xs text-gray-500">{row.department_name}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-700 align-top">{row.days_worked}</td>
+                      <td className="px-4 py-2 text-right text-gray-700 align-top">{row.hours}</td>
+                      <td className="px-4 py-2">
+                        <ul className="space-y-1">
+                          {row.violations.map((violation, i) => (
+                            <li key={i} className={violation.severity === 'block' ? 'text-red-700' : 'text-amber-700'}>
+                              {violation.date} · {violation.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
       </div>
-    </div>
-  );
+    );
+  };
 
   const OperatorsView = () => {
-    const handleDelete = async (operatorId: number) => {
-      if (window.confirm('Are you sure you want to delete this operator?')) {
-        try {
-          await fetch(`${API_BASE_URL}/operators/${operatorId}`, { method: 'DELETE' });
-          refreshData();
-        } catch (error) {
-          console.error('Failed to delete operator:', error);
-          alert('Failed to delete operator.');
-        }
+    const handleArchive = async (operator: Operator) => {
+      if (!window.confirm(`Archive ${operator.name} as of today? Their later assignments and leave are removed and their logins deactivated. History is kept and they can be restored.`)) return;
+      try {
+        const response = await apiFetch(`operators/${operator.id}`, { method: 'DELETE' });
+        if (!response.ok) return reportFailure(response);
+        setNotice({ tone: 'success', message: describeArchived(await response.json()) });
+        refreshData();
+      } catch (error) {
+        console.error('Failed to archive operator:', error);
+        setNotice({ tone: 'error', message: 'Failed to archive operator' });
+      }
+    };
+
+    const handleRestore = async (operator: Operator) => {
+      try {
+        const response = await apiFetch(`operators/${operator.id}/employment`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ employment_status: 'active' })
+        });
+        if (!response.ok) return reportFailure(response);
+        setNotice({ tone: 'success', message: `${operator.name} restored. Re-enable their user account under Users if they need to log in.` });
+        refreshData();
+      } catch (error) {
+        console.error('Failed to restore operator:', error);
+        setNotice({ tone: 'error', message: 'Failed to restore operator' });
+      }
+    };
+
+    const handleAnonymize = async (operator: Operator) => {
+      if (!window.confirm(`Erase the personal details of ${operator.name}? Their name, email, employee ID and kiosk badge are removed here and in the change history. This cannot be undone, and they can no longer be restored.`)) return;
+      try {
+        const response = await apiFetch(`operators/${operator.id}/anonymize`, { method: 'POST' });
+        if (!response.ok) return reportFailure(response);
+        setNotice({ tone: 'success', message: `${operator.name} anonymised` });
+        refreshData();
+      } catch (error) {
+        console.error('Failed to anonymise operator:', error);
+        setNotice({ tone: 'error', message: 'Failed to anonymise operator' });
       }
     };
     
@@ -902,20 +4657,27 @@ function App() {
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Operator Management</h2>
         <div className="flex space-x-2">
-          <button
-            onClick={() => setShowImportModal(true)}
+          {isAdmin && <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2"
+          >
+            <Archive className="w-4 h-4" />
+            <span>{showArchived ? 'Hide Archived' : 'Show Archived'}</span>
+          </button>}
+          {isAdmin && <button
+            onClick={() => setImportState({ file: null, create_departments: false, report: null, busy: false, error: null })}
             className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2"
           >
             <Upload className="w-4 h-4" />
             <span>Import CSV</span>
-          </button>
-          <button
+          </button>}
+          {isSupervisor && <button
             onClick={() => setEditingOperator({} as Operator)} // Open empty modal to add
             className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
           >
             <Plus className="w-4 h-4" />
             <span>Add Operator</span>
-          </button>
+          </button>}
         </div>
       </div>
 
@@ -942,18 +4704,39 @@ function App() {
                       ? `${operator.line_name} - ${operator.station_name}`
                       : <span className="text-gray-400">Unassigned</span>}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap"><StatusBadge status={operator.status} /></td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <StatusBadge status={operator.status} />
+                    {operator.leave_type_name && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800">On leave: {operator.leave_type_name}</span>}
+                    {operator.employment_status === 'on_leave' && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">{EMPLOYMENT_LABELS.on_leave}</span>}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex items-center space-x-3">
-                      <button onClick={() => setAssigningOperator(operator)} className="text-gray-500 hover:text-blue-600" title="Assign to Shift/Station">
-                        <ClipboardList size={16}/>
-                      </button>
-                      <button onClick={() => setEditingOperator(operator)} className="text-gray-500 hover:text-blue-600" title="Edit Operator">
-                        <Edit size={16} />
-                      </button>
-                      <button onClick={() => handleDelete(operator.id)} className="text-gray-500 hover:text-red-600" title="Delete Operator">
-                        <Trash2 size={16} />
-                      </button>
+                      {isSupervisor && (
+                        <>
+                          <button onClick={() => setAssigningOperator(operator)} className="text-gray-500 hover:text-blue-600" title="Assign to Shift/Station">
+                            <ClipboardList size={16}/>
+                          </button>
+                          <button onClick={() => setEditingOperator(operator)} className="text-gray-500 hover:text-blue-600" title="Edit Operator">
+                            <Edit size={16} />
+                          </button>
+                          <button onClick={() => setKioskAccessOperator(operator)} className="text-gray-500 hover:text-blue-600" title="Kiosk Access">
+                            <KeyRound size={16} />
+                          </button>
+                          <button onClick={() => setHistoryTarget({ title: operator.name, filter: `operator_id=${operator.id}` })} className="text-gray-500 hover:text-blue-600" title="Change History">
+                            <History size={16} />
+                          </button>
+                        </>
+                      )}
+                      {isAdmin && (
+                        <>
+                          <button onClick={() => setEditingEmployment(operator)} className="text-gray-500 hover:text-blue-600" title="Employment">
+                            <Briefcase size={16} />
+                          </button>
+                          <button onClick={() => handleArchive(operator)} className="text-gray-500 hover:text-red-600" title="Archive Operator">
+                            <Archive size={16} />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -962,21 +4745,179 @@ function App() {
           </table>
         </div>
       </div>
+
+      {isAdmin && showArchived && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-4"><Archive className="w-5 h-5 mr-2" />Archived Operators</h3>
+          {archivedOperators.length === 0
+            ? <p className="text-sm text-gray-500">No archived operators. Archived operators keep their attendance, assignments and performance in reports.</p>
+            : (
+              <table className="min-w-full text-sm text-gray-800">
+                <thead className="text-xs text-gray-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Operator</th>
+                    <th className="px-3 py-2 text-left">Department</th>
+                    <th className="px-3 py-2 text-left">Employed</th>
+                    <th className="px-3 py-2 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {archivedOperators.map(operator => (
+                    <tr key={operator.id}>
+                      <td className="px-3 py-2">
+                        <span className="font-medium">{operator.name}</span>
+                        {operator.anonymized_at && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Anonymised</span>}
+                      </td>
+                      <td className="px-3 py-2">{operator.department_name}</td>
+                      <td className="px-3 py-2">{operator.hired_on || '…'} – {operator.terminated_on}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => setHistoryTarget({ title: operator.name, filter: `operator_id=${operator.id}` })} className="p-1 text-gray-500 hover:text-blue-600" title="Change History">
+                          <History size={16} />
+                        </button>
+                        {!operator.anonymized_at && (
+                          <>
+                            <button onClick={() => handleRestore(operator)} className="p-1 text-gray-500 hover:text-blue-600" title="Restore Operator">
+                              <ArchiveRestore size={16} />
+                            </button>
+                            <button onClick={() => handleAnonymize(operator)} className="p-1 text-gray-500 hover:text-red-600" title="Anonymise">
+                              <UserX size={16} />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+        </div>
+      )}
     </div>
   )};
   
   const AttendanceView = () => {
     const getOperatorAttendanceStatus = (operatorId: number) => {
-        const log = attendanceLogs.find(l => l.operator_id === operatorId);
-        if (!log || !log.clock_in) return 'absent';
-        if (log.clock_in && !log.clock_out) return 'present';
+        // Changes still queued on this device are shown as if applied
+        const queued = syncQueue.filter(action => action.operator_id === operatorId && action.kind !== 'status').pop();
+        if (queued && queued.kind !== 'status') return QUEUED_ATTENDANCE_STATUS[queued.kind];
+        const day = attendanceDays.find(d => d.operator_id === operatorId);
+        if (!day || day.sessions.length === 0) return 'absent';
+        if (day.on_break) return 'on_break';
+        if (day.clocked_in) return 'present';
         return 'departed';
     };
 
+    const AttendanceTimeline = ({ day }: { day: AttendanceDay }) => {
+      const now = Date.now();
+      const start = Math.min(...day.sessions.map(s => new Date(s.clock_in!).getTime()));
+      const end = Math.max(...day.sessions.map(s => s.clock_out ? new Date(s.clock_out).getTime() : now));
+      const span = Math.max(end - start, 1);
+      const position = (from: string, to: string | null) => {
+        const left = (new Date(from).getTime() - start) / span * 100;
+        const right = ((to ? new Date(to).getTime() : now) - start) / span * 100;
+        return { left: `${left}%`, width: `${Math.max(right - left, 0.5)}%` };
+      };
+
+      return (
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-gray-900">{day.operator_name}</p>
+            <div className="flex space-x-4 text-xs text-gray-600">
+              <span>Worked <strong className="text-gray-900">{formatMinutes(day.worked_minutes)}</strong></span>
+              <span>Break <strong className="text-amber-700">{formatMinutes(day.break_minutes)}</strong></span>
+              <span>Paid <strong className="text-green-700">{formatMinutes(day.paid_minutes)}</strong></span>
+            </div>
+          </div>
+          <div className="relative h-4 bg-gray-200 rounded">
+            {day.sessions.map(session => (
+              <React.Fragment key={session.id}>
+                <div className="absolute h-4 bg-blue-500 rounded" style={position(session.clock_in!, session.clock_out)} title={`${formatTimeOfDay(session.clock_in!)} - ${session.clock_out ? formatTimeOfDay(session.clock_out) : 'now'}`}></div>
+                {session.breaks.map(interval => (
+                  <div
+                    key={interval.id}
+                    className={`absolute h-4 ${interval.is_paid ? 'bg-amber-300' : 'bg-amber-500'}`}
+                    style={position(interval.start_time, interval.end_time || session.clock_out)}
+                    title={`${breakTypes.find(t => t.id === interval.break_type)?.label || interval.break_type}: ${formatTimeOfDay(interval.start_time)} - ${interval.end_time ? formatTimeOfDay(interval.end_time) : 'now'}`}
+                  ></div>
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-4 mt-2 text-xs text-gray-500">
+            {day.sessions.map(session => (
+              <span key={session.id} className="flex items-center">
+                <Timer className="w-3 h-3 mr-1" />
+                {formatTimeOfDay(session.clock_in!)} - {session.clock_out ? formatTimeOfDay(session.clock_out) : 'now'}
+                {session.breaks.length > 0 && ` (${session.breaks.length} break${session.breaks.length > 1 ? 's' : ''})`}
+              </span>
+            ))}
+          </div>
+        </div>
+      );
+    };
+
+    const reclassifyDay = async () => {
+      if (!exceptionsDay) return;
+      try {
+        const response = await apiFetch('attendance/classify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ from: exceptionsDay, to: exceptionsDay })
+        });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        fetchExceptions();
+      } catch (error) {
+        console.error('Error classifying attendance:', error);
+        setNotice({ tone: 'error', message: 'Failed to check attendance' });
+      }
+    };
+
+    const discardHeldClockOut = async (held: HeldClockOut) => {
+      if (!window.confirm(`Discard the clock-out of ${held.operator_name} at ${formatTimeOfDay(held.clock_out)}? Record the session by hand instead.`)) return;
+      try {
+        const response = await apiFetch(`attendance/held-clock-outs/${held.id}`, { method: 'DELETE' });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        fetchData('attendance/held-clock-outs', setHeldClockOuts);
+      } catch (error) {
+        console.error('Error discarding held clock-out:', error);
+        setNotice({ tone: 'error', message: 'Failed to discard held clock-out' });
+      }
+    };
+
+    const issueKioskToken = async (device: KioskDevice) => {
+      if (!window.confirm(`Issue a new token for ${device.name}? The kiosk stops working until the new token is entered on it.`)) return;
+      try {
+        const response = await apiFetch(`kiosk-devices/${device.id}/token`, { method: 'POST' });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        setIssuedKioskToken(await response.json());
+      } catch (error) {
+        console.error('Error issuing kiosk token:', error);
+        setNotice({ tone: 'error', message: 'Failed to issue kiosk token' });
+      }
+    };
+
+    const trendPeriods = [...new Set(absenceTrends.map(t => t.period))].sort();
+    const trendDepartments = [...new Set(absenceTrends.map(t => t.department_name ?? 'No department'))];
+
     return (
         <div className="space-y-6">
           <div className="flex justify-between items-center">
             <h2 className="text-2xl font-bold text-gray-900">Attendance Management</h2>
+            {isSupervisor && (
+              <button onClick={() => openExport('attendance')} className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-2">
+                <Download className="w-4 h-4" />
+                <span>Export</span>
+              </button>
+            )}
           </div>
     
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -989,27 +4930,649 @@ function App() {
                       <div>
                         <p className="text-sm font-medium text-gray-900">{operator.name}</p>
                         <p className="text-xs text-gray-500">{operator.department_name}</p>
+                        {syncQueue.some(action => action.operator_id === operator.id) && (
+                          <p className="text-xs text-amber-700 flex items-center"><CloudOff className="w-3 h-3 mr-1" />Waiting to sync</p>
+                        )}
                       </div>
-                      <div className="flex space-x-2">
-                        {status === 'absent' && (
+                      {canActForOperator(operator.id) && <div className="flex space-x-2">
+                        {(status === 'absent' || status === 'departed') && (
                            <button onClick={() => handleClockEvent('clock-in', operator.id)} className="px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700">Clock In</button>
                         )}
                         {status === 'present' && (
-                            <button onClick={() => handleClockEvent('clock-out', operator.id)} className="px-3 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-700">Clock Out</button>
+                            <select
+                              value=""
+                              onChange={(e) => e.target.value && handleBreakEvent('break-start', operator.id, e.target.value)}
+                              className="text-xs px-2 py-1 border border-gray-300 rounded"
+                            >
+                              <option value="">Break</option>
+                              {breakTypes.map(type => <option key={type.id} value={type.id}>{type.label}</option>)}
+                            </select>
                         )}
-                        {status === 'departed' && (
-                             <span className="px-3 py-1 bg-gray-200 text-gray-600 text-xs rounded">Departed</span>
+                        {status === 'on_break' && (
+                            <button onClick={() => handleBreakEvent('break-end', operator.id)} className="px-3 py-1 bg-amber-500 text-white text-xs rounded hover:bg-amber-600">End Break</button>
                         )}
-                      </div>
+                        {(status === 'present' || status === 'on_break') && (
+                            <button onClick={() => handleClockEvent('clock-out', operator.id)} className="px-3 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-700">Clock Out</button>
+                        )}
+                      </div>}
                     </div>
                 )
               })}
             </div>
           </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Today's Timeline</h3>
+              <div className="flex items-center space-x-3 text-xs text-gray-500">
+                <span className="flex items-center"><span className="w-3 h-3 bg-blue-500 rounded mr-1"></span>Working</span>
+                <span className="flex items-center"><span className="w-3 h-3 bg-amber-300 rounded mr-1"></span>Paid break</span>
+                <span className="flex items-center"><span className="w-3 h-3 bg-amber-500 rounded mr-1"></span>Unpaid break</span>
+              </div>
+            </div>
+            {attendanceDays.length === 0
+              ? <p className="text-sm text-gray-500">Nobody has clocked in yet today.</p>
+              : <div className="space-y-3">{attendanceDays.map(day => <AttendanceTimeline key={day.operator_id} day={day} />)}</div>}
+          </div>
+
+          {isSupervisor && heldClockOuts.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-amber-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Held Clock-Outs</h3>
+              <p className="text-xs text-gray-500 mb-4">Clock-outs sent from a device that was offline before the matching clock-in reached the server. Each closes the session once that clock-in arrives.</p>
+              <div className="space-y-2">
+                {heldClockOuts.map(held => (
+                  <div key={held.id} className="flex items-center justify-between p-3 bg-amber-50 rounded-lg text-sm">
+                    <span>
+                      <span className="font-medium text-gray-900">{held.operator_name}</span>
+                      <span className="text-gray-600"> clocked out {new Date(held.clock_out).toLocaleString('en-GB', { timeZone: plantTime?.timezone })}</span>
+                      {held.recorded_by_username && <span className="text-gray-400"> via {held.recorded_by_username}</span>}
+                    </span>
+                    <button onClick={() => discardHeldClockOut(held)} className="p-1 text-gray-500 hover:text-red-600" title="Discard">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isSupervisor && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Exceptions</h3>
+                <div className="flex items-center space-x-2">
+                  <input type="date" value={exceptionsDay || ''} onChange={(e) => setExceptionsDate(e.target.value || null)} className="px-2 py-1 border border-gray-300 rounded-md text-sm" />
+                  <button onClick={reclassifyDay} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Check this day again against the roster">
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                  {isAdmin && (
+                    <button onClick={() => setShowAttendanceRules(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Tolerances">
+                      <Settings className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {attendanceExceptions.length === 0
+                ? <p className="text-sm text-gray-500">Everyone scheduled so far was on time.</p>
+                : (
+                  <table className="min-w-full text-sm">
+                    <thead className="text-xs text-gray-500 uppercase">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Operator</th>
+                        <th className="px-3 py-2 text-left">Status</th>
+                        <th className="px-3 py-2 text-left">Shift</th>
+                        <th className="px-3 py-2 text-left">Clocked</th>
+                        <th className="px-3 py-2 text-right">Late</th>
+                        <th className="px-3 py-2 text-right">Left Early</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {attendanceExceptions.map(exception => (
+                        <tr key={`${exception.operator_id}-${exception.status}`}>
+                          <td className="px-3 py-2">
+                            <span className="font-medium text-gray-900">{exception.operator_name}</span>
+                            <span className="block text-xs text-gray-500">{exception.department_name}</span>
+                          </td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ATTENDANCE_STATUS_STYLES[exception.status]}`}>{ATTENDANCE_STATUS_LABELS[exception.status]}</span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{exception.shift_name ? `${exception.shift_name} (${exception.start_time?.slice(0, 5)}-${exception.end_time?.slice(0, 5)})` : '—'}</td>
+                          <td className="px-3 py-2 text-gray-600">{exception.first_in ? `${exception.first_in} - ${exception.last_out ?? 'now'}` : '—'}</td>
+                          <td className="px-3 py-2 text-right text-red-700">{exception.late_minutes > 0 ? formatMinutes(exception.late_minutes) : ''}</td>
+                          <td className="px-3 py-2 text-right text-orange-700">{exception.early_leave_minutes > 0 ? formatMinutes(exception.early_leave_minutes) : ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+            </div>
+          )}
+
+          {isSupervisor && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 overflow-x-auto">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Absence Trends</h3>
+              <p className="text-xs text-gray-500 mb-4">No-shows per 100 scheduled operator-days by week, with the late rate below. Days on approved leave are excused and not counted as absences.</p>
+              {trendPeriods.length === 0
+                ? <p className="text-sm text-gray-500">No classified attendance in the last eight weeks.</p>
+                : (
+                  <table className="min-w-full text-sm">
+                    <thead className="text-xs text-gray-500">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Department</th>
+                        {trendPeriods.map(period => <th key={period} className="px-3 py-2 text-right whitespace-nowrap">{period.slice(5)}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {trendDepartments.map(department => (
+                        <tr key={department}>
+                          <td className="px-3 py-2 font-medium text-gray-900">{department}</td>
+                          {trendPeriods.map(period => {
+                            const trend = absenceTrends.find(t => (t.department_name ?? 'No department') === department && t.period === period);
+                            return (
+                              <td key={period} className="px-3 py-2 text-right" title={trend ? `${trend.scheduled} scheduled, ${trend.no_show} no-shows, ${trend.excused} excused, ${trend.late} late, ${trend.left_early} left early` : undefined}>
+                                {trend?.absence_rate != null ? (
+                                  <>
+                                    <span className={trend.absence_rate >= 10 ? 'text-red-700 font-medium' : trend.absence_rate > 0 ? 'text-amber-700' : 'text-gray-500'}>{trend.absence_rate}%</span>
+                                    <span className="block text-xs text-gray-400">{trend.late_rate}% late</span>
+                                  </>
+                                ) : <span className="text-gray-300">—</span>}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+            </div>
+          )}
+
+          {isAdmin && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center"><Monitor className="w-5 h-5 mr-2" />Kiosk Devices</h3>
+                <button onClick={() => setEditingKioskDevice({} as KioskDevice)} className="text-sm text-blue-600 hover:text-blue-800 flex items-center">
+                  <Plus className="w-4 h-4 mr-1" />Register Kiosk
+                </button>
+              </div>
+              {kioskDevices.length === 0
+                ? <p className="text-sm text-gray-500">No kiosks registered. Operators clock in at a kiosk with a badge or their employee ID and PIN, set under Operators.</p>
+                : (
+                  <table className="min-w-full text-sm">
+                    <thead className="text-xs text-gray-500 uppercase">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Kiosk</th>
+                        <th className="px-3 py-2 text-left">Site</th>
+                        <th className="px-3 py-2 text-left">Last Seen</th>
+                        <th className="px-3 py-2 text-right"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {kioskDevices.map(device => (
+                        <tr key={device.id} className={device.is_active ? '' : 'text-gray-400'}>
+                          <td className="px-3 py-2">
+                            <span className="font-medium">{device.name}</span>
+                            {!device.is_active && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Inactive</span>}
+                          </td>
+                          <td className="px-3 py-2">{device.site_name || 'All sites'}</td>
+                          <td className="px-3 py-2">{device.last_seen_at ? new Date(device.last_seen_at).toLocaleString() : 'Never'}</td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            <button onClick={() => setEditingKioskDevice(device)} className="p-1 text-gray-500 hover:text-blue-600" title="Edit Kiosk">
+                              <Edit size={16} />
+                            </button>
+                            <button onClick={() => issueKioskToken(device)} className="p-1 text-gray-500 hover:text-blue-600" title="Issue New Token">
+                              <KeyRound size={16} />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+            </div>
+          )}
         </div>
       );
   }
 
+  const TimesheetsView = () => {
+    if (!timesheetFrom || !timesheetTo) return null;
+    const periodDays = Math.round((Date.parse(timesheetTo) - Date.parse(timesheetFrom)) / 86400000) + 1;
+
+    const generate = async () => {
+      setTimesheetsBusy(true);
+      try {
+        const response = await apiFetch('timesheets/generate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ from: timesheetFrom, to: timesheetTo, department_id: timesheetDepartmentId || null })
+        });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        const result: TimesheetGenerateResult = await response.json();
+        const calculated = `${result.timesheets.length} timesheet${result.timesheets.length === 1 ? '' : 's'} calculated.`;
+        setNotice(result.skipped.length > 0
+          ? { tone: 'warning', message: `${calculated} Skipped: ${result.skipped.map(s => `${s.operator_name} (${s.reason})`).join('; ')}` }
+          : { tone: 'success', message: calculated });
+        fetchTimesheets();
+      } catch (error) {
+        console.error('Error generating timesheets:', error);
+        setNotice({ tone: 'error', message: 'Failed to generate timesheets' });
+      } finally {
+        setTimesheetsBusy(false);
+      }
+    };
+
+    const transition = async (timesheet: Timesheet, action: 'approve' | 'reopen' | 'lock') => {
+      if (action === 'lock' && !window.confirm(`Lock the timesheet of ${timesheet.operator_name}? Locked timesheets cannot be reopened.`)) return;
+      try {
+        const response = await apiFetch(`timesheets/${timesheet.id}/${action}`, { method: 'POST' });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        fetchTimesheets();
+      } catch (error) {
+        console.error(`Error on timesheet ${action}:`, error);
+        setNotice({ tone: 'error', message: `Failed to ${action} timesheet` });
+      }
+    };
+
+    const minutesCell = (minutes: number, className = 'text-gray-700') => (
+      <td className={`px-3 py-2 text-right whitespace-nowrap ${minutes > 0 ? className : 'text-gray-300'}`}>{formatMinutes(minutes)}</td>
+    );
+
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Timesheets</h2>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setTimesheetPeriod(shiftDate(timesheetFrom, -periodDays), shiftDate(timesheetTo, -periodDays))} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Previous period">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <input type="date" value={timesheetFrom} onChange={(e) => e.target.value && setTimesheetPeriod(e.target.value, timesheetTo)} className="px-2 py-1.5 border border-gray-300 rounded-md text-sm" />
+            <span className="text-sm text-gray-500">–</span>
+            <input type="date" value={timesheetTo} onChange={(e) => e.target.value && setTimesheetPeriod(timesheetFrom, e.target.value)} className="px-2 py-1.5 border border-gray-300 rounded-md text-sm" />
+            <button onClick={() => setTimesheetPeriod(shiftDate(timesheetFrom, periodDays), shiftDate(timesheetTo, periodDays))} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Next period">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+            <select
+              value={timesheetDepartmentId}
+              onChange={(e) => setTimesheetDepartmentId(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All departments</option>
+              {departments.map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
+            </select>
+            {isAdmin && (
+              <button onClick={() => setShowTimesheetRules(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Pay rules">
+                <Settings className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={generate} disabled={timesheetsBusy} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50">
+              <RefreshCw className={`w-4 h-4 ${timesheetsBusy ? 'animate-spin' : ''}`} />
+              <span>Calculate</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          {timesheets.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No timesheets for this period yet. Calculate them from the recorded attendance.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Operator</th>
+                  <th className="px-3 py-2 text-left">Period</th>
+                  <th className="px-3 py-2 text-right">Paid</th>
+                  <th className="px-3 py-2 text-right">Regular</th>
+                  <th className="px-3 py-2 text-right">Overtime</th>
+                  <th className="px-3 py-2 text-right">Night</th>
+                  <th className="px-3 py-2 text-right">Weekend</th>
+                  <th className="px-3 py-2 text-right">Unpaid Breaks</th>
+                  <th className="px-3 py-2 text-right">Late</th>
+                  <th className="px-3 py-2 text-left">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {timesheets.map(timesheet => (
+                  <React.Fragment key={timesheet.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-3 py-2">
+                        <button onClick={() => setExpandedTimesheetId(expandedTimesheetId === timesheet.id ? null : timesheet.id)} className="flex items-center text-left">
+                          {expandedTimesheetId === timesheet.id ? <ChevronDown className="w-4 h-4 mr-1 text-gray-400" /> : <ChevronRight className="w-4 h-4 mr-1 text-gray-400" />}
+                          <span>
+                            <span className="font-medium text-gray-900">{timesheet.operator_name}</span>
+                            <span className="block text-xs text-gray-500">{timesheet.department_name}</span>
+                          </span>
+                        </button>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">{timesheet.period_start} – {timesheet.period_end}</td>
+                      {minutesCell(timesheet.paid_minutes, 'font-medium text-gray-900')}
+                      {minutesCell(timesheet.regular_minutes)}
+                      {minutesCell(timesheet.overtime_minutes, 'text-orange-700')}
+                      {minutesCell(timesheet.night_minutes, 'text-indigo-700')}
+                      {minutesCell(timesheet.weekend_minutes, 'text-indigo-700')}
+                      {minutesCell(timesheet.unpaid_break_minutes, 'text-amber-700')}
+                      {minutesCell(timesheet.late_minutes, 'text-red-700')}
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TIMESHEET_STATUS_STYLES[timesheet.status]}`}>{timesheet.status}</span>
+                        {timesheet.open_sessions > 0 && <span className="block text-xs text-amber-700 mt-1" title="Sessions without a clock-out are not paid">{timesheet.open_sessions} open</span>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right space-x-1">
+                        {timesheet.status === 'draft' && (
+                          <button onClick={() => transition(timesheet, 'approve')} className="px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 inline-flex items-center"><CheckCircle className="w-3 h-3 mr-1" />Approve</button>
+                        )}
+                        {timesheet.status === 'approved' && (
+                          <>
+                            <button onClick={() => transition(timesheet, 'reopen')} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded hover:bg-gray-200 inline-flex items-center"><Unlock className="w-3 h-3 mr-1" />Reopen</button>
+                            <button onClick={() => transition(timesheet, 'lock')} className="px-2 py-1 bg-gray-800 text-white text-xs rounded hover:bg-gray-900 inline-flex items-center"><Lock className="w-3 h-3 mr-1" />Lock</button>
+                          </>
+                        )}
+                        <button onClick={() => setHistoryTarget({ title: `Timesheet history: ${timesheet.operator_name}`, filter: `entity_type=timesheet&entity_id=${timesheet.id}` })} className="p-1 text-gray-400 hover:text-gray-600 inline-flex" title="History">
+                          <History className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedTimesheetId === timesheet.id && (
+                      <tr>
+                        <td colSpan={11} className="px-3 py-3 bg-gray-50">
+                          {timesheet.days.length === 0 ? <p className="text-xs text-gray-500">No attendance in this period.</p> : (
+                            <table className="min-w-full text-xs">
+                              <thead className="text-gray-500">
+                                <tr>
+                                  <th className="px-3 py-1 text-left">Date</th>
+                                  <th className="px-3 py-1 text-left">In</th>
+                                  <th className="px-3 py-1 text-left">Out</th>
+                                  <th className="px-3 py-1 text-right">Paid</th>
+                                  <th className="px-3 py-1 text-right">Regular</th>
+                                  <th className="px-3 py-1 text-right">Overtime</th>
+                                  <th className="px-3 py-1 text-right">Night</th>
+                                  <th className="px-3 py-1 text-right">Weekend</th>
+                                  <th className="px-3 py-1 text-right">Unpaid Breaks</th>
+                                  <th className="px-3 py-1 text-right">Late</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {timesheet.days.map(day => (
+                                  <tr key={day.date}>
+                                    <td className="px-3 py-1 whitespace-nowrap">{day.date}</td>
+                                    <td className="px-3 py-1">{day.first_in}</td>
+                                    <td className="px-3 py-1">{day.last_out ?? (day.open_sessions > 0 ? 'open' : '')}</td>
+                                    {minutesCell(day.paid_minutes, 'font-medium text-gray-900')}
+                                    {minutesCell(day.regular_minutes)}
+                                    {minutesCell(day.overtime_minutes, 'text-orange-700')}
+                                    {minutesCell(day.night_minutes, 'text-indigo-700')}
+                                    {minutesCell(day.weekend_minutes, 'text-indigo-700')}
+                                    {minutesCell(day.unpaid_break_minutes, 'text-amber-700')}
+                                    {minutesCell(day.late_minutes, 'text-red-700')}
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                          <p className="mt-2 text-xs text-gray-500">
+                            Rates: overtime ×{timesheet.rules.overtime_rate}, night ×{timesheet.rules.night_rate}, weekend ×{timesheet.rules.weekend_rate}
+                            {timesheet.approved_by_name && ` · Approved by ${timesheet.approved_by_name}`}
+                            {timesheet.locked_by_name && ` · Locked by ${timesheet.locked_by_name}`}
+                          </p>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const LeaveView = () => {
+    if (!leaveFrom || !plantTime) return null;
+    const dates = Array.from({ length: LEAVE_CALENDAR_DAYS }, (_, i) => shiftDate(leaveFrom, i));
+    const canRequest = isSupervisor || Boolean(currentUser?.operator_id);
+    // Operator accounts only see their own leave, so only their own row
+    const calendarOperators = operators.filter(op => isSupervisor || currentUser?.role === 'read_only'
+      ? !leaveDepartmentId || op.department_id === Number(leaveDepartmentId)
+      : op.id === currentUser?.operator_id);
+    const leaveOn = (operatorId: number, date: string) => leaveRequests.find(request =>
+      request.operator_id === operatorId && request.start_date <= date && request.end_date >= date &&
+      (request.status === 'approved' || request.status === 'pending'));
+
+    const review = async (request: LeaveRequest, action: 'approve' | 'reject' | 'cancel') => {
+      if (action === 'cancel' && !window.confirm(`Cancel ${request.leave_type_name} leave from ${request.start_date} to ${request.end_date}?`)) return;
+      try {
+        const response = await apiFetch(`leave-requests/${request.id}/${action}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({})
+        });
+        if (!response.ok) {
+          await reportFailure(response);
+          return;
+        }
+        if (action === 'approve') {
+          const approval: LeaveApproval = await response.json();
+          setNotice(approval.assignments.length > 0
+            ? { tone: 'warning', message: `Leave approved. ${approval.operator_name} is still rostered on ${approval.assignments.map(a => `${a.assigned_date} (${a.shift_name}${a.station_name ? `, ${a.station_name}` : ''})`).join(', ')}; reassign those shifts.` }
+            : { tone: 'success', message: `Leave approved for ${approval.operator_name}` });
+        }
+        fetchLeave();
+      } catch (error) {
+        console.error(`Error on leave ${action}:`, error);
+        setNotice({ tone: 'error', message: `Failed to ${action} leave` });
+      }
+    };
+
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900">Leave</h2>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setLeaveStart(shiftDate(leaveFrom, -LEAVE_CALENDAR_DAYS))} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <input type="date" value={leaveFrom} onChange={(e) => e.target.value && setLeaveStart(e.target.value)} className="px-2 py-1.5 border border-gray-300 rounded-md text-sm" />
+            <button onClick={() => setLeaveStart(shiftDate(leaveFrom, LEAVE_CALENDAR_DAYS))} className="p-2 text-gray-600 hover:bg-gray-100 rounded" title="Next">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+            {isSupervisor && (
+              <select
+                value={leaveDepartmentId}
+                onChange={(e) => setLeaveDepartmentId(e.target.value)}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All departments</option>
+                {departments.map(dept => <option key={dept.id} value={dept.id}>{dept.name}</option>)}
+              </select>
+            )}
+            {canRequest && (
+              <button onClick={() => setRequestingLeave(true)} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2">
+                <Plus className="w-4 h-4" />
+                <span>Request Leave</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{isSupervisor ? 'Pending Approval' : 'My Upcoming Leave'}</h3>
+          {leaveQueue.length === 0 ? (
+            <p className="text-sm text-gray-500">{isSupervisor ? 'No leave requests waiting for approval.' : 'No upcoming leave.'}</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="text-xs text-gray-500">
+                <tr>
+                  {isSupervisor && <th className="px-3 py-2 text-left">Operator</th>}
+                  <th className="px-3 py-2 text-left">Type</th>
+                  <th className="px-3 py-2 text-left">Dates</th>
+                  <th className="px-3 py-2 text-right">Days</th>
+                  <th className="px-3 py-2 text-left">Reason</th>
+                  <th className="px-3 py-2 text-left">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {leaveQueue.map(request => (
+                  <tr key={request.id}>
+                    {isSupervisor && (
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-gray-900">{request.operator_name}</span>
+                        <span className="block text-xs text-gray-500">{request.department_name}</span>
+                      </td>
+                    )}
+                    <td className="px-3 py-2">
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: request.color }}></span>
+                      {request.leave_type_name}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">{request.start_date} – {request.end_date}</td>
+                    <td className="px-3 py-2 text-right">{request.days}</td>
+                    <td className="px-3 py-2 text-gray-600">{request.reason}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LEAVE_STATUS_STYLES[request.status]}`}>{request.status}</span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-right space-x-1">
+                      {isSupervisor && request.status === 'pending' && (
+                        <>
+                          <button onClick={() => review(request, 'approve')} className="px-2 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 inline-flex items-center"><CheckCircle className="w-3 h-3 mr-1" />Approve</button>
+                          <button onClick={() => review(request, 'reject')} className="px-2 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-700 inline-flex items-center"><X className="w-3 h-3 mr-1" />Reject</button>
+                        </>
+                      )}
+                      {(request.status === 'pending' || request.status === 'approved') && (
+                        <button onClick={() => review(request, 'cancel')} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded hover:bg-gray-200">Cancel</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Team Calendar</h3>
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+              {leaveTypes.filter(type => type.is_active).map(type => (
+                <span key={type.id} className="flex items-center"><span className="inline-block w-2.5 h-2.5 rounded-full mr-1" style={{ backgroundColor: type.color }}></span>{type.name}</span>
+              ))}
+              <span className="text-gray-400">Outlined: pending</span>
+            </div>
+          </div>
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left sticky left-0 bg-gray-50">Operator</th>
+                {dates.map(date => (
+                  <th key={date} className={`px-1 py-2 text-center font-normal ${date === plantTime.today ? 'text-blue-700 font-semibold' : ''}`}>
+                    {WEEKDAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()].slice(0, 2)}<br />{date.slice(8)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {calendarOperators.map(op => (
+                <tr key={op.id}>
+                  <td className="px-3 py-1.5 whitespace-nowrap font-medium text-gray-900 sticky left-0 bg-white">{op.name}</td>
+                  {dates.map(date => {
+                    const leave = leaveOn(op.id, date);
+                    return (
+                      <td key={date} className="px-1 py-1.5 text-center">
+                        {leave && (
+                          <span
+                            className="block h-5 rounded"
+                            style={leave.status === 'approved' ? { backgroundColor: leave.color } : { border: `2px dashed ${leave.color}` }}
+                            title={`${leave.leave_type_name} (${leave.status})${leave.reason ? `: ${leave.reason}` : ''}`}
+                          ></span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Balances {plantTime.today.slice(0, 4)}</h3>
+          <p className="text-xs text-gray-500 mb-4">Calendar days per leave type. Pending requests are held against the allowance until they are decided.</p>
+          {leaveBalances.length === 0 ? <p className="text-sm text-gray-500">No leave balances.</p> : (
+            <table className="min-w-full text-sm">
+              <thead className="text-xs text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 text-left">Operator</th>
+                  <th className="px-3 py-2 text-left">Type</th>
+                  <th className="px-3 py-2 text-right">Allowance</th>
+                  <th className="px-3 py-2 text-right">Taken</th>
+                  <th className="px-3 py-2 text-right">Pending</th>
+                  <th className="px-3 py-2 text-right">Remaining</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {leaveBalances.map(balance => (
+                  <tr key={`${balance.operator_id}:${balance.leave_type_id}`}>
+                    <td className="px-3 py-2 font-medium text-gray-900">{balance.operator_name}</td>
+                    <td className="px-3 py-2">{balance.leave_type_name}</td>
+                    <td className="px-3 py-2 text-right">{balance.allowance_days ?? '—'}</td>
+                    <td className="px-3 py-2 text-right">{balance.taken_days}</td>
+                    <td className="px-3 py-2 text-right text-amber-700">{balance.pending_days || ''}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${balance.remaining_days !== null && balance.remaining_days <= 0 ? 'text-red-700' : 'text-gray-900'}`}>{balance.remaining_days ?? '—'}</td>
+                    <td className="px-3 py-2 text-right">
+                      {isSupervisor && balance.allowance_days !== null && (
+                        <button onClick={() => setEditingLeaveBalance(balance)} className="text-gray-400 hover:text-blue-600" title="Change allowance">
+                          <Edit size={14} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {isAdmin && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Leave Types</h3>
+              <button onClick={() => setEditingLeaveType({} as LeaveType)} className="text-sm text-blue-600 hover:text-blue-800 flex items-center">
+                <Plus className="w-4 h-4 mr-1" />Add Type
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+              {leaveTypes.map(type => (
+                <div key={type.id} className={`p-3 rounded-lg border border-gray-200 flex items-start justify-between ${type.is_active ? '' : 'opacity-50'}`}>
+                  <div>
+                    <p className="font-medium text-gray-900 flex items-center"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: type.color }}></span>{type.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {type.is_paid ? 'Paid' : 'Unpaid'} · {type.annual_allowance_days !== null ? `${type.annual_allowance_days} days a year` : 'No allowance'}
+                      {type.counts_calendar_days && ' · Calendar days'}
+                      {!type.is_active && ' · Retired'}
+                    </p>
+                  </div>
+                  <button onClick={() => setEditingLeaveType(type)} className="text-gray-400 hover:text-blue-600" title="Edit">
+                    <Edit size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (!authChecked) return null;
+  if (!currentUser) return <LoginScreen />;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm border-b border-gray-200">
@@ -1019,6 +5582,49 @@ function App() {
               <div className="p-2 bg-blue-100 rounded-lg"><Activity className="w-6 h-6 text-blue-600" /></div>
               <h1 className="text-xl font-bold text-gray-900">Operator Tracking System</h1>
             </div>
+            <div className="flex items-center space-x-3 text-sm text-gray-600">
+              {sites.length > 0 && (
+                <select
+                  value={selectedSiteId || ''}
+                  onChange={(e) => setSelectedSiteId(e.target.value ? parseInt(e.target.value) : null)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Default Plant</option>
+                  {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+                </select>
+              )}
+              {plantTime && (
+                <span className="flex items-center" title={plantTime.timezone}>
+                  <Calendar className="w-4 h-4 mr-1" />
+                  {plantTime.today}
+                </span>
+              )}
+              <span
+                className={`flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${liveConnected ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}
+                title={liveConnected ? 'Receiving live updates' : 'Live updates unavailable, refreshing every 30 seconds'}
+              >
+                {liveConnected ? <Wifi className="w-3 h-3 mr-1" /> : <WifiOff className="w-3 h-3 mr-1" />}
+                {liveConnected ? 'Live' : 'Polling'}
+              </span>
+              {(!online || hasQueued) && (
+                <button
+                  onClick={flushQueue}
+                  className="flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 hover:bg-amber-200"
+                  title="Changes made offline are kept on this device and sent when the server is reachable. Click to try now."
+                >
+                  <CloudOff className="w-3 h-3 mr-1" />
+                  {hasQueued ? `${syncQueue.filter(action => action.user_id === currentUser.id).length} to sync` : 'Offline'}
+                </button>
+              )}
+              <span className="flex items-center">
+                <Users className="w-4 h-4 mr-1" />
+                {currentUser.username}
+                <span className="ml-1 text-xs text-gray-400">({currentUser.role.replace('_', ' ')})</span>
+              </span>
+              <button onClick={handleLogout} className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded" title="Sign Out">
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -1030,7 +5636,11 @@ function App() {
             { id: 'production', label: 'Production', icon: BarChart3 },
             { id: 'operators', label: 'Operators', icon: Users },
             { id: 'shifts', label: 'Shifts', icon: Calendar },
-            { id: 'attendance', label: 'Attendance', icon: Clock }
+            { id: 'roster', label: 'Roster', icon: CalendarRange },
+            { id: 'skills', label: 'Skills', icon: GraduationCap },
+            { id: 'attendance', label: 'Attendance', icon: Clock },
+            ...(isSupervisor ? [{ id: 'timesheets', label: 'Timesheets', icon: FileClock }] : []),
+            { id: 'leave', label: 'Leave', icon: Plane }
           ].map(({ id, label, icon: Icon }) => (
             <button key={id} onClick={() => setActiveTab(id as any)} className={`flex-shrink-0 flex items-center space-x-2 px-4 py-2 rounded-md font-medium transition-colors ${activeTab === id ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'}`}>
               <Icon className="w-4 h-4" />
@@ -1039,18 +5649,54 @@ function App() {
           ))}
         </nav>
 
+        {notice && (
+          <div className={`mb-6 p-3 rounded-lg border text-sm flex items-start justify-between ${NOTICE_STYLES[notice.tone]}`}>
+            <span className="flex items-center">
+              {notice.tone !== 'success' && <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />}
+              {notice.message}
+            </span>
+            <button onClick={() => setNotice(null)} className="ml-4 opacity-60 hover:opacity-100" title="Dismiss"><X className="w-4 h-4" /></button>
+          </div>
+        )}
+
         {/* Main Content */}
         {activeTab === 'dashboard' && <DashboardView />}
         {activeTab === 'production' && <ProductionView />}
         {activeTab === 'operators' && <OperatorsView />}
         {activeTab === 'shifts' && <ShiftsView />}
+        {activeTab === 'roster' && <RosterView />}
+        {activeTab === 'skills' && <SkillsView />}
         {activeTab === 'attendance' && <AttendanceView />}
+        {activeTab === 'timesheets' && <TimesheetsView />}
+        {activeTab === 'leave' && <LeaveView />}
 
         {/* Modals */}
         {editingOperator && <AddOrEditOperatorForm operatorToEdit={editingOperator.id ? editingOperator : undefined} onClose={() => setEditingOperator(null)} />}
         {editingShift && <AddOrEditShiftForm shiftToEdit={editingShift.id ? editingShift : undefined} onClose={() => setEditingShift(null)} />}
         {assigningOperator && <AssignmentModal operator={assigningOperator} onClose={() => setAssigningOperator(null)} />}
-        {showImportModal && <ImportModal />}
+        {importState && <ImportModal />}
+        {autoStaff && <AutoStaffModal />}
+        {exportState && <ExportModal />}
+        {showTimesheetRules && <TimesheetRulesForm onClose={() => setShowTimesheetRules(false)} />}
+        {showAttendanceRules && <AttendanceRulesForm onClose={() => setShowAttendanceRules(false)} />}
+        {requestingLeave && <LeaveRequestForm onClose={() => setRequestingLeave(false)} />}
+        {editingKioskDevice && <KioskDeviceForm device={editingKioskDevice.id ? editingKioskDevice : undefined} onClose={() => setEditingKioskDevice(null)} />}
+        {issuedKioskToken && <KioskTokenNotice device={issuedKioskToken} onClose={() => setIssuedKioskToken(null)} />}
+        {kioskAccessOperator && <KioskAccessForm operator={kioskAccessOperator} onClose={() => setKioskAccessOperator(null)} />}
+        {editingEmployment && <EmploymentForm operator={editingEmployment} onClose={() => setEditingEmployment(null)} />}
+        {editingDepartment && <DepartmentForm department={editingDepartment.id ? editingDepartment : undefined} onClose={() => setEditingDepartment(null)} />}
+        {editingLine && <ProductionLineForm line={editingLine.id ? editingLine : undefined} onClose={() => setEditingLine(null)} />}
+        {editingStation && <StationForm station={editingStation.id ? editingStation : undefined} lineId={editingStation.line_id} onClose={() => setEditingStation(null)} />}
+        {layoutLine && <LineLayoutEditor line={layoutLine} onClose={() => setLayoutLine(null)} />}
+        {editingComplianceRule && <ComplianceRuleForm rule={editingComplianceRule.id ? editingComplianceRule : undefined} onClose={() => setEditingComplianceRule(null)} />}
+        {editingLeaveType && <LeaveTypeForm leaveType={editingLeaveType.id ? editingLeaveType : undefined} onClose={() => setEditingLeaveType(null)} />}
+        {editingLeaveBalance && <LeaveBalanceForm balance={editingLeaveBalance} onClose={() => setEditingLeaveBalance(null)} />}
+        {offeringShift && <ShiftOfferForm onClose={() => setOfferingShift(false)} />}
+        {postingOpenShift && <OpenShiftForm onClose={() => setPostingOpenShift(false)} />}
+        {claimingTrade && <ShiftClaimForm trade={claimingTrade} onClose={() => setClaimingTrade(null)} />}
+        {showCertificationForm && <AddCertificationForm onClose={() => setShowCertificationForm(false)} />}
+        {editingCertification && <OperatorCertificationForm operator={editingCertification.operator} certification={editingCertification.certification} onClose={() => setEditingCertification(null)} />}
+        {historyTarget && <HistoryModal title={historyTarget.title} filter={historyTarget.filter} onClose={() => setHistoryTarget(null)} />}
       </div>
     </div>
   );
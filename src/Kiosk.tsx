@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Activity, LogIn, LogOut, Coffee, CreditCard, KeyRound, Settings, X } from 'lucide-react';
+import type {
+  ApiErrorBody,
+  KioskAction,
+  KioskActionResult,
+  KioskIdentityInput,
+  KioskInfo,
+  KioskState
+} from './shared/api';
+
+// Full-screen clock-in terminal served at /kiosk. The device token registered by an admin is
+// entered once and kept in this browser; operators identify with a badge or employee ID and PIN.
+const API_BASE_URL = `${window.location.protocol}//${window.location.hostname}:5001/api`;
+const KIOSK_TOKEN_STORAGE_KEY = 'operator-tracking-kiosk-token';
+
+// Seconds an identified operator's screen stays up without a tap before the kiosk returns to idle
+const KIOSK_IDLE_SECONDS = 20;
+
+const kioskFetch = (path: string, init: RequestInit = {}) =>
+  fetch(`${API_BASE_URL}/kiosk/${path}`, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Content-Type': 'application/json',
+      'X-Kiosk-Token': localStorage.getItem(KIOSK_TOKEN_STORAGE_KEY) || ''
+    }
+  });
+
+const errorMessage = async (response: Response) => {
+  const body: ApiErrorBody | null = await response.json().catch(() => null);
+  if (!body || typeof body.error !== 'string') return `Request failed (${response.status})`;
+  return body.errors?.length ? body.errors.map(error => error.message).join(' ') : body.error;
+};
+
+function Kiosk() {
+  const [token, setToken] = useState(() => localStorage.getItem(KIOSK_TOKEN_STORAGE_KEY));
+  const [tokenInput, setTokenInput] = useState('');
+  const [info, setInfo] = useState<KioskInfo | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [mode, setMode] = useState<'badge' | 'pin'>('badge');
+  const [badge, setBadge] = useState('');
+  const [employeeId, setEmployeeId] = useState('');
+  const [pin, setPin] = useState('');
+  // The identified operator, and the identity repeated with each action they take
+  const [operator, setOperator] = useState<{ state: KioskState; identity: KioskIdentityInput } | null>(null);
+  const [notice, setNotice] = useState<{ tone: 'error' | 'warning' | 'success'; message: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [lastActivity, setLastActivity] = useState(() => Date.now());
+  const badgeInput = useRef<HTMLInputElement>(null);
+
+  const loadDevice = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await kioskFetch('device');
+      if (response.status === 401) {
+        localStorage.removeItem(KIOSK_TOKEN_STORAGE_KEY);
+        setToken(null);
+        setNotice({ tone: 'error', message: await errorMessage(response) });
+        return;
+      }
+      if (!response.ok) throw new Error(await errorMessage(response));
+      setInfo(await response.json());
+    } catch (error) {
+      console.error('Error loading kiosk device:', error);
+      setNotice({ tone: 'error', message: 'Cannot reach the server' });
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadDevice();
+    const interval = setInterval(loadDevice, 5 * 60000); // Keep the date and device state current
+    return () => clearInterval(interval);
+  }, [loadDevice]);
+
+  const reset = useCallback(() => {
+    setOperator(null);
+    setBadge('');
+    setEmployeeId('');
+    setPin('');
+    setMode('badge');
+  }, []);
+
+  // The clock ticks every second; an idle operator screen closes itself so the next person starts clean
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(new Date());
+      if (Date.now() - lastActivity > KIOSK_IDLE_SECONDS * 1000) {
+        reset();
+        setNotice(null);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lastActivity, reset]);
+
+  // A keyboard-wedge reader types into whatever has focus, so the badge field keeps it while idle
+  useEffect(() => {
+    if (!operator && mode === 'badge') badgeInput.current?.focus();
+  }, [operator, mode, info]);
+
+  const identify = async (identity: KioskIdentityInput) => {
+    setBusy(true);
+    setNotice(null);
+    setLastActivity(Date.now());
+    try {
+      const response = await kioskFetch('identify', { method: 'POST', body: JSON.stringify(identity) });
+      if (!response.ok) {
+        setNotice({ tone: 'error', message: await errorMessage(response) });
+        setBadge('');
+        setPin('');
+        return;
+      }
+      setOperator({ state: await response.json(), identity });
+    } catch (error) {
+      console.error('Error identifying at kiosk:', error);
+      setNotice({ tone: 'error', message: 'Cannot reach the server' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const act = async (action: KioskAction, breakType?: string) => {
+    if (!operator) return;
+    setBusy(true);
+    setLastActivity(Date.now());
+    try {
+      const response = await kioskFetch('actions', {
+        method: 'POST',
+        body: JSON.stringify({ ...operator.identity, action, break_type: breakType })
+      });
+      if (!response.ok) {
+        setNotice({ tone: 'error', message: await errorMessage(response) });
+        return;
+      }
+      const result: KioskActionResult = await response.json();
+      setNotice(result.warnings.length > 0
+        ? { tone: 'warning', message: `${result.message}. ${result.warnings.join(' ')}` }
+        : { tone: 'success', message: `${result.message}, ${result.state.name}` });
+      reset();
+    } catch (error) {
+      console.error(`Error on kiosk ${action}:`, error);
+      setNotice({ tone: 'error', message: 'Cannot reach the server' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatTime = (date: Date | string, withSeconds = false) => new Date(date).toLocaleTimeString('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(withSeconds ? { second: '2-digit' } : {}),
+    timeZone: info?.time.timezone
+  });
+
+  const noticeStyles = {
+    error: 'bg-red-50 border-red-200 text-red-800',
+    warning: 'bg-amber-50 border-amber-200 text-amber-800',
+    success: 'bg-green-50 border-green-200 text-green-800'
+  };
+
+  const saveToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    localStorage.setItem(KIOSK_TOKEN_STORAGE_KEY, tokenInput.trim());
+    setNotice(null);
+    setToken(tokenInput.trim());
+    setTokenInput('');
+  };
+
+  const bigButton = 'flex-1 py-6 rounded-xl text-xl font-semibold text-white flex items-center justify-center space-x-3 disabled:opacity-50 transition-colors';
+  const fieldClass = 'w-full px-4 py-3 text-2xl border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900';
+
+  const OperatorPanel = ({ state }: { state: KioskState }) => (
+    <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 w-full max-w-2xl space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">{state.name}</h2>
+          {state.employee_id && <p className="text-gray-500">{state.employee_id}</p>}
+        </div>
+        <button onClick={reset} className="text-gray-400 hover:text-gray-600" title="Done"><X className="w-8 h-8" /></button>
+      </div>
+      <div className="p-4 bg-gray-50 rounded-lg">
+        <p className="text-sm text-gray-500">Today's station</p>
+        {state.assignment ? (
+          <p className="text-xl text-gray-900">
+            {state.assignment.station_name ? `${state.assignment.line_name} · ${state.assignment.station_name}` : 'No station'}
+            <span className="block text-base text-gray-600">{state.assignment.shift_name} ({state.assignment.start_time.slice(0, 5)}-{state.assignment.end_time.slice(0, 5)})</span>
+          </p>
+        ) : (
+          <p className="text-xl text-gray-900">Not scheduled</p>
+        )}
+      </div>
+      <p className="text-lg text-gray-700">
+        {!state.clocked_in_at
+          ? 'Not clocked in'
+          : state.break_type
+            ? `On ${info?.break_types.find(type => type.id === state.break_type)?.label.toLowerCase() || 'break'}`
+            : `Clocked in since ${formatTime(state.clocked_in_at)}`}
+      </p>
+      {!state.clocked_in_at ? (
+        <div className="flex">
+          <button onClick={() => act('clock_in')} disabled={busy} className={`${bigButton} bg-green-600 hover:bg-green-700`}>
+            <LogIn className="w-7 h-7" /><span>Clock In</span>
+          </button>
+        </div>
+      ) : state.break_type ? (
+        <div className="flex space-x-4">
+          <button onClick={() => act('break_end')} disabled={busy} className={`${bigButton} bg-blue-600 hover:bg-blue-700`}>
+            <Coffee className="w-7 h-7" /><span>End Break</span>
+          </button>
+          <button onClick={() => act('clock_out')} disabled={busy} className={`${bigButton} bg-red-600 hover:bg-red-700`}>
+            <LogOut className="w-7 h-7" /><span>Clock Out</span>
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {info?.break_types.map(type => (
+              <button key={type.id} onClick={() => act('break_start', type.id)} disabled={busy} className="py-4 rounded-xl text-lg font-medium bg-amber-100 text-amber-900 hover:bg-amber-200 disabled:opacity-50">
+                {type.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex">
+            <button onClick={() => act('clock_out')} disabled={busy} className={`${bigButton} bg-red-600 hover:bg-red-700`}>
+              <LogOut className="w-7 h-7" /><span>Clock Out</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col" onPointerDown={() => setLastActivity(Date.now())}>
+      <header className="bg-white border-b border-gray-200 px-8 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-blue-100 rounded-lg"><Activity className="w-6 h-6 text-blue-600" /></div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">{info?.device.name || 'Kiosk'}</h1>
+            {info?.device.site_name && <p className="text-sm text-gray-500">{info.device.site_name}</p>}
+          </div>
+        </div>
+        {info && (
+          <div className="text-right">
+            <p className="text-3xl font-mono text-gray-900">{formatTime(now, true)}</p>
+            <p className="text-sm text-gray-500">{info.time.today}</p>
+          </div>
+        )}
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center p-8 space-y-6">
+        {notice && <div className={`w-full max-w-2xl p-4 border rounded-lg text-lg ${noticeStyles[notice.tone]}`}>{notice.message}</div>}
+
+        {!token ? (
+          <form onSubmit={saveToken} className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 w-full max-w-md space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center"><Settings className="w-5 h-5 mr-2" />Kiosk Setup</h2>
+            <p className="text-sm text-gray-600">Enter the device token shown when an admin registered this kiosk.</p>
+            <input type="password" value={tokenInput} onChange={(e) => setTokenInput(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900" required />
+            <button type="submit" className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+          </form>
+        ) : !info ? null : operator ? <OperatorPanel state={operator.state} /> : mode === 'badge' ? (
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (badge.trim()) identify({ badge_number: badge.trim() }); }}
+            className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 w-full max-w-2xl space-y-6 text-center"
+          >
+            <CreditCard className="w-16 h-16 mx-auto text-blue-600" />
+            <h2 className="text-2xl font-semibold text-gray-900">Scan your badge</h2>
+            <input
+              ref={badgeInput}
+              type="password"
+              autoComplete="off"
+              value={badge}
+              onChange={(e) => setBadge(e.target.value)}
+              onBlur={() => setTimeout(() => badgeInput.current?.focus(), 100)}
+              className={`${fieldClass} text-center`}
+              placeholder="Badge number"
+              disabled={busy}
+            />
+            <button type="button" onClick={() => { setMode('pin'); setNotice(null); }} className="text-blue-600 hover:text-blue-800 text-lg flex items-center justify-center mx-auto">
+              <KeyRound className="w-5 h-5 mr-2" />Use employee ID and PIN
+            </button>
+          </form>
+        ) : (
+          <form
+            onSubmit={(e) => { e.preventDefault(); identify({ employee_id: employeeId.trim(), pin }); }}
+            className="bg-white p-8 rounded-xl shadow-sm border border-gray-200 w-full max-w-md space-y-4"
+          >
+            <h2 className="text-2xl font-semibold text-gray-900">Sign in with PIN</h2>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Employee ID</label>
+              <input type="text" autoComplete="off" value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} className={fieldClass} autoFocus required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">PIN</label>
+              <input type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={pin} onChange={(e) => setPin(e.target.value)} className={fieldClass} required />
+            </div>
+            <div className="flex space-x-3 pt-2">
+              <button type="submit" disabled={busy} className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg text-lg hover:bg-blue-700 disabled:opacity-50">Continue</button>
+              <button type="button" onClick={() => { reset(); setNotice(null); }} className="flex-1 bg-gray-300 text-gray-700 py-3 px-4 rounded-lg text-lg hover:bg-gray-400">Use Badge</button>
+            </div>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default Kiosk;
@@ -1,10 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import Kiosk from './Kiosk.tsx';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {/* The kiosk is a separate full-screen app for shared clock-in terminals */}
+    {window.location.pathname.startsWith('/kiosk') ? <Kiosk /> : <App />}
   </StrictMode>
 );
@@ -0,0 +1,1511 @@
+// Shared API contract between the Express backend (server.ts) and the React client.
+// Response types describe rows as the API returns them: NUMERIC and COUNT columns are
+// parsed to numbers by the backend, DATE columns stay plain YYYY-MM-DD strings.
+// This module must stay free of browser- and Node-specific imports.
+
+// --- Reference data ---
+export type Role = 'admin' | 'supervisor' | 'operator' | 'read_only';
+export const ROLES: readonly Role[] = ['admin', 'supervisor', 'operator', 'read_only'];
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  operator_id: number | null;
+}
+
+export interface Site {
+  id: number;
+  name: string;
+  timezone: string;
+  working_weekdays: number[]; // 0 = Sunday; the days leave is counted on
+}
+
+export interface PlantTime {
+  timezone: string;
+  today: string; // YYYY-MM-DD in the plant (or selected site) timezone
+  now: string;
+}
+
+export interface Department {
+  id: number;
+  name: string;
+  description: string;
+  site_id: number | null;
+  is_active: boolean; // inactive departments keep their history but take no new lines or operators
+}
+
+// Lines and stations with history are deactivated rather than deleted
+export const LINE_STATUSES = ['active', 'inactive'] as const;
+export type LineStatus = typeof LINE_STATUSES[number];
+
+export interface ProductionLine {
+  id: number;
+  name: string;
+  department_id: number;
+  department_name: string;
+  capacity: number;
+  station_count: number; // active stations
+  avg_efficiency: number | null;
+  efficiency_target: number;
+  status: LineStatus;
+}
+
+export interface Station {
+  id: number;
+  name: string;
+  line_id: number;
+  line_name: string;
+  position_order: number;
+  status: LineStatus;
+  efficiency_percentage: number;
+  target_efficiency: number;
+  operator_name?: string;
+  operator_id?: number;
+  assignment_id?: number;
+}
+
+export type OperatorStatus = 'online' | 'offline' | 'on_break';
+
+// Employment lifecycle; terminated operators are archived rather than deleted so their history stays reportable
+export const EMPLOYMENT_STATUSES = ['active', 'on_leave', 'terminated'] as const;
+export type EmploymentStatus = typeof EMPLOYMENT_STATUSES[number];
+
+export interface Operator {
+  id: number;
+  name: string;
+  email: string;
+  employee_id: string;
+  department_id: number;
+  department_name: string;
+  skill_level: string;
+  status: OperatorStatus;
+  last_active: string;
+  station_id?: number;
+  station_name?: string;
+  line_name?: string;
+  leave_type_name?: string | null; // approved leave covering today
+  employment_status: EmploymentStatus;
+  hired_on: string | null;
+  terminated_on: string | null;
+  anonymized_at: string | null; // personal details were erased; the operator can no longer be restored
+}
+
+// An operator just archived, with what went with their employment after the last day
+export interface OperatorArchived extends Operator {
+  removed: { assignments: number; leave_requests: number; shift_trades: number };
+}
+
+export interface Shift {
+  id: number;
+  name: string;
+  start_time: string;
+  end_time: string;
+  start_date: string;
+  end_date: string;
+  department_id: number;
+  department_name: string;
+  capacity: number;
+  assigned_count: number;
+  on_leave_count: number; // assigned operators on approved leave that day
+  available_count: number; // assigned_count without those on leave
+  is_active: boolean;
+}
+
+// --- Attendance ---
+// 'present' is a session that has not been classified against its shift yet; 'excused' is a
+// scheduled day on approved leave without clock-ins
+export type AttendanceStatus = 'present' | 'absent' | 'on_time' | 'late' | 'left_early' | 'no_show' | 'excused' | 'unscheduled';
+export const ATTENDANCE_EXCEPTIONS: readonly AttendanceStatus[] = ['late', 'left_early', 'no_show', 'excused', 'unscheduled'];
+
+export interface AttendanceLog {
+  id: number;
+  operator_id: number;
+  date: string; // Day the shift started, which may be before clock_out for overnight shifts
+  clock_in: string | null; // Full timestamps
+  clock_out: string | null;
+  total_hours: number; // Worked hours, excluding breaks
+  break_minutes: number;
+  paid_hours: number;
+  shift_id: number | null;
+  shift_name?: string;
+  status: AttendanceStatus;
+  late_minutes: number; // on the day's first session
+  early_leave_minutes: number; // on the day's last session
+}
+
+export interface BreakType {
+  id: string;
+  label: string;
+  paid: boolean;
+}
+
+export interface AttendanceBreak {
+  id: number;
+  attendance_log_id: number;
+  break_type: string;
+  is_paid: boolean;
+  start_time: string;
+  end_time: string | null;
+}
+
+export interface AttendanceSession extends AttendanceLog {
+  breaks: AttendanceBreak[];
+  worked_minutes: number;
+  break_minutes: number;
+  paid_minutes: number;
+}
+
+export interface AttendanceDay {
+  operator_id: number;
+  operator_name: string;
+  date: string;
+  sessions: AttendanceSession[];
+  worked_minutes: number;
+  break_minutes: number;
+  paid_minutes: number;
+  clocked_in: boolean;
+  on_break: boolean;
+}
+
+export interface AttendanceRules {
+  late_tolerance_minutes: number; // clocking in up to this long after the shift start is on time
+  early_leave_tolerance_minutes: number;
+  no_show_after_minutes: number; // minutes after the shift start without a clock-in before it is a no-show
+}
+
+// One operator-day that was not on time
+export interface AttendanceException {
+  operator_id: number;
+  operator_name: string;
+  employee_id: string | null;
+  department_id: number | null;
+  department_name: string | null;
+  date: string;
+  shift_id: number | null;
+  shift_name: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  status: AttendanceStatus;
+  first_in: string | null; // plant-local HH:MM
+  last_out: string | null;
+  late_minutes: number;
+  early_leave_minutes: number;
+}
+
+// A clock-out replayed from an offline client before the clock-in it belongs to; it closes the
+// session that clock-in opens once it arrives
+export interface HeldClockOut {
+  id: number;
+  operator_id: number;
+  operator_name: string;
+  clock_out: string;
+  recorded_by_username: string | null;
+  created_at: string;
+}
+
+// Classified operator-days of a department in one period (day, week or month)
+export interface AbsenceTrend {
+  department_id: number | null;
+  department_name: string | null;
+  period: string; // first day of the period
+  scheduled: number;
+  on_time: number;
+  late: number;
+  left_early: number;
+  no_show: number;
+  excused: number;
+  unscheduled: number;
+  absence_rate: number | null; // no-shows per 100 scheduled operator-days; excused days are not absences
+  late_rate: number | null;
+}
+
+// --- Audit ---
+export interface AuditEntry {
+  id: number;
+  actor_username: string;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// --- Skills ---
+export interface Certification {
+  id: number;
+  name: string;
+  description: string | null;
+  validity_months: number | null;
+}
+
+export interface OperatorCertification {
+  id: number;
+  operator_id: number;
+  certification_id: number;
+  certification_name: string;
+  certified_on: string;
+  expires_on: string | null;
+}
+
+export interface ExpiringCertification extends OperatorCertification {
+  operator_name: string;
+  employee_id: string;
+  expired: boolean;
+}
+
+export interface StationRequirement {
+  station_id: number;
+  certification_id: number;
+  certification_name: string;
+}
+
+// --- Staffing ---
+export interface StaffingSuggestion {
+  operator_id: number;
+  operator_name: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface StaffingPlan {
+  line_id: number;
+  line_name: string;
+  date: string;
+  shift_id: number;
+  shift_name: string;
+  score: number | null;
+  coverage: { stations: number; filled: number };
+  assignments: {
+    station_id: number;
+    station_name: string;
+    operator_id: number | null;
+    operator_name: string | null;
+    already_assigned: boolean;
+    score: number | null;
+    reasons: string[];
+    alternatives: StaffingSuggestion[];
+  }[];
+}
+
+// --- Roster ---
+export interface RosterAssignment {
+  id: number;
+  operator_id: number;
+  operator_name: string;
+  shift_id: number;
+  shift_name: string;
+  start_time: string;
+  end_time: string;
+  station_id: number | null;
+  station_name: string | null;
+  line_name: string | null;
+  assigned_date: string;
+}
+
+export interface RosterTemplate {
+  id: string;
+  label: string;
+  shifts: number;
+  cycle_days: number;
+}
+
+export interface RosterConflict {
+  type: 'existing_assignment' | 'shift_not_running' | 'station_taken' | 'over_capacity' | 'unqualified' | 'certification_expiring' | 'on_leave' | 'compliance';
+  severity: 'error' | 'warning';
+  operator_id: number;
+  assigned_date: string;
+  message: string;
+}
+
+export interface RosterPreview {
+  planned: {
+    operator_id: number;
+    shift_id: number;
+    shift_name: string;
+    station_id: number | null;
+    assigned_date: string;
+    existing: RosterAssignment | null;
+    unchanged?: boolean;
+  }[];
+  conflicts: RosterConflict[];
+}
+
+// --- Dashboard ---
+export interface DashboardStats {
+  operators: { status: string; count: number }[];
+  attendance: { status: string; count: number }[];
+  production_lines: {
+    id: number;
+    name: string;
+    total_stations: number;
+    occupied_stations: number;
+    avg_efficiency: number | null;
+  }[];
+}
+
+// --- Analytics ---
+// efficiency: units produced per 100 target units; occupancy: active stations staffed per 100
+// station-days; attendance_rate: scheduled operator-days attended per 100 (excused days left out);
+// overtime: hours paid as overtime; downtime: minutes logged as downtime
+export const ANALYTICS_METRICS = ['efficiency', 'occupancy', 'attendance_rate', 'overtime', 'downtime'] as const;
+export type AnalyticsMetric = typeof ANALYTICS_METRICS[number];
+export type TrendGranularity = typeof TREND_PERIODS[number];
+
+export interface TrendPoint {
+  period: string; // first day of the period
+  value: number | null; // null: nothing was recorded in the period
+}
+
+export interface TrendWindow {
+  from: string;
+  to: string;
+  points: TrendPoint[];
+  total: number | null; // over the whole window: ratios of the summed counts, or sums
+}
+
+export interface TrendSeries {
+  metric: AnalyticsMetric;
+  unit: 'percent' | 'hours' | 'minutes';
+  current: TrendWindow;
+  previous: TrendWindow | null; // the same number of periods just before, when compared
+  change: number | null; // current total minus previous total
+}
+
+export interface AnalyticsTrends {
+  granularity: TrendGranularity;
+  series: TrendSeries[];
+}
+
+// --- Operator import ---
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'reject';
+
+export interface ImportRowResult {
+  row: number; // line in the file, the header being line 1
+  action: ImportAction;
+  values: Record<string, string>; // the row as uploaded, for the error CSV
+  operator_id: number | null; // existing operator the row updates
+  changes: Record<string, { from: string | null; to: string | null }>;
+  errors: FieldError[];
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  committed: boolean;
+  summary: Record<ImportAction, number>;
+  new_departments: string[]; // created by the import, or that it would need to create
+  rows: ImportRowResult[];
+}
+
+// --- Timesheets ---
+export type TimesheetStatus = 'draft' | 'approved' | 'locked';
+export const TIMESHEET_STATUSES: readonly TimesheetStatus[] = ['draft', 'approved', 'locked'];
+export const ROUNDING_OPTIONS = [0, 5, 10, 15] as const;
+
+export interface TimesheetRules {
+  rounding_minutes: number; // clock times round to the nearest multiple; 0 keeps exact minutes
+  grace_minutes: number; // late starts and early finishes within this many minutes are not deducted
+  daily_overtime_minutes: number | null; // null turns daily overtime off
+  weekly_overtime_minutes: number | null;
+  overtime_rate: number;
+  night_start: string | null; // HH:MM:SS, null when there is no night differential
+  night_end: string | null;
+  night_rate: number;
+  weekend_rate: number;
+  auto_break_minutes: number; // unpaid break deducted from long days when fewer unpaid minutes were recorded
+  auto_break_after_minutes: number;
+  week_start: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface TimesheetTotals {
+  sessions: number;
+  open_sessions: number; // still clocked in, so not counted
+  paid_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+  night_minutes: number; // paid minutes inside the night window, also counted as regular or overtime
+  weekend_minutes: number;
+  unpaid_break_minutes: number;
+  late_minutes: number;
+}
+
+export interface TimesheetDay extends TimesheetTotals {
+  date: string;
+  first_in: string | null; // plant-local HH:MM
+  last_out: string | null;
+}
+
+export interface Timesheet extends TimesheetTotals {
+  id: number;
+  operator_id: number;
+  operator_name: string;
+  employee_id: string | null;
+  department_name: string | null;
+  period_start: string;
+  period_end: string;
+  status: TimesheetStatus;
+  days: TimesheetDay[];
+  rules: TimesheetRules;
+  approved_by_name: string | null;
+  approved_at: string | null;
+  locked_by_name: string | null;
+  locked_at: string | null;
+  updated_at: string;
+}
+
+export interface TimesheetGenerateResult {
+  timesheets: Timesheet[];
+  skipped: { operator_id: number; operator_name: string; reason: string }[];
+}
+
+// --- Leave ---
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export const LEAVE_STATUSES: readonly LeaveStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+export interface LeaveType {
+  id: number;
+  name: string;
+  is_paid: boolean;
+  annual_allowance_days: number | null; // null: not tracked against a balance
+  color: string;
+  is_active: boolean;
+  counts_calendar_days: boolean; // false: only the working weekdays of the operator's site count
+}
+
+export interface LeaveRequest {
+  id: number;
+  operator_id: number;
+  operator_name: string;
+  department_id: number | null;
+  department_name: string | null;
+  leave_type_id: number;
+  leave_type_name: string;
+  color: string;
+  start_date: string;
+  end_date: string;
+  days: number; // days counted against the allowance: working days, or calendar days for some types
+  reason: string | null;
+  status: LeaveStatus;
+  requested_by_username: string | null;
+  reviewed_by_username: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+// Assignments left on the roster inside a leave request that was just approved
+export interface LeaveApproval extends LeaveRequest {
+  assignments: { id: number; assigned_date: string; shift_name: string; station_name: string | null }[];
+}
+
+export interface LeaveBalance {
+  operator_id: number;
+  operator_name: string;
+  leave_type_id: number;
+  leave_type_name: string;
+  year: number;
+  allowance_days: number | null; // the operator's own allowance for the year, else the type's
+  taken_days: number; // approved
+  pending_days: number;
+  remaining_days: number | null; // allowance minus approved and pending days
+}
+
+// --- Shift trades ---
+// 'offer': an operator gives away one of their assignments; 'open_shift': a supervisor posts a
+// place nobody holds yet. A claim with counter_* set is a swap.
+export type ShiftTradeKind = 'offer' | 'open_shift';
+export type ShiftTradeStatus = 'open' | 'claimed' | 'approved' | 'cancelled';
+export const SHIFT_TRADE_STATUSES: readonly ShiftTradeStatus[] = ['open', 'claimed', 'approved', 'cancelled'];
+
+export interface ShiftTrade {
+  id: number;
+  kind: ShiftTradeKind;
+  assignment_id: number | null;
+  offered_by: number | null;
+  offered_by_name: string | null;
+  shift_id: number;
+  shift_name: string;
+  start_time: string;
+  end_time: string;
+  department_id: number | null;
+  station_id: number | null;
+  station_name: string | null;
+  line_name: string | null;
+  shift_date: string;
+  note: string | null;
+  status: ShiftTradeStatus;
+  claimed_by: number | null;
+  claimed_by_name: string | null;
+  claimed_at: string | null;
+  counter_assignment_id: number | null;
+  counter_shift_id: number | null;
+  counter_shift_name: string | null;
+  counter_station_id: number | null;
+  counter_station_name: string | null;
+  counter_date: string | null;
+  created_by_username: string | null;
+  reviewed_by_username: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+// A trade after a claim or approval, with the warnings its checks produced
+export interface ShiftTradeResult extends ShiftTrade {
+  conflicts: RosterConflict[];
+}
+
+// --- Compliance ---
+// min_rest_hours: hours between the end of one working day and the start of the next;
+// max_consecutive_days: working days in a row; max_weekly_hours: hours per pay week
+export const COMPLIANCE_RULE_TYPES = ['min_rest_hours', 'max_consecutive_days', 'max_weekly_hours'] as const;
+export type ComplianceRuleType = typeof COMPLIANCE_RULE_TYPES[number];
+export const COMPLIANCE_SEVERITIES = ['block', 'warn'] as const;
+export type ComplianceSeverity = typeof COMPLIANCE_SEVERITIES[number];
+// What the compliance report checks: the shifts on the roster, or the hours clocked
+export const COMPLIANCE_BASES = ['roster', 'attendance'] as const;
+export type ComplianceBasis = typeof COMPLIANCE_BASES[number];
+
+export interface ComplianceRule {
+  id: number;
+  rule_type: ComplianceRuleType;
+  threshold: number;
+  severity: ComplianceSeverity;
+  department_id: number | null; // null: every department
+  department_name: string | null;
+  description: string | null;
+  is_active: boolean;
+}
+
+export interface ComplianceViolation {
+  rule_id: number;
+  rule_type: ComplianceRuleType;
+  severity: ComplianceSeverity;
+  operator_id: number;
+  operator_name: string;
+  date: string; // the day the limit is broken
+  from: string; // days the violation spans, e.g. the run of consecutive days
+  to: string;
+  value: number; // hours or days, in the rule's unit
+  threshold: number;
+  message: string;
+}
+
+export interface ComplianceReportRow {
+  operator_id: number;
+  operator_name: string;
+  department_name: string | null;
+  days_worked: number;
+  hours: number;
+  violations: ComplianceViolation[];
+}
+
+export interface ComplianceReport {
+  from: string;
+  to: string;
+  basis: ComplianceBasis;
+  rules: ComplianceRule[];
+  operators: ComplianceReportRow[];
+}
+
+// --- Kiosk ---
+export interface KioskDevice {
+  id: number;
+  name: string;
+  site_id: number | null; // null: serves every site
+  site_name: string | null;
+  is_active: boolean;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+// Returned once when a device is registered; only its hash is kept
+export interface KioskDeviceCreated extends KioskDevice {
+  token: string;
+}
+
+// Whether an operator has kiosk credentials; the PIN itself is never returned
+export interface KioskCredentials {
+  operator_id: number;
+  badge_number: string | null;
+  has_pin: boolean;
+}
+
+export const KIOSK_ACTIONS = ['clock_in', 'clock_out', 'break_start', 'break_end'] as const;
+export type KioskAction = typeof KIOSK_ACTIONS[number];
+
+// The kiosk's own device and the time where it stands, for its idle screen
+export interface KioskInfo {
+  device: { id: number; name: string; site_name: string | null };
+  time: PlantTime;
+  break_types: BreakType[];
+}
+
+// What the kiosk shows an operator once identified
+export interface KioskState {
+  operator_id: number;
+  name: string;
+  employee_id: string | null;
+  clocked_in_at: string | null; // start of the open session
+  break_type: string | null; // running break
+  shift_date: string;
+  assignment: {
+    shift_name: string;
+    start_time: string;
+    end_time: string;
+    station_name: string | null;
+    line_name: string | null;
+  } | null;
+}
+
+export interface KioskActionResult {
+  message: string;
+  state: KioskState;
+  warnings: string[];
+}
+
+// --- Runtime validation ---
+// Request bodies are described by schemas that both the Express handlers and the React
+// forms validate against. Form values arrive as strings, so numeric fields accept numeric
+// strings, and empty strings count as "not provided".
+
+export interface FieldError {
+  field: string; // dotted path for nested values, e.g. "assignments.2.station_id"
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'time' | 'datetime' | 'email' | 'array' | 'object';
+
+export interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  min?: number; // numeric value, string length or array length
+  max?: number;
+  oneOf?: readonly string[];
+  items?: FieldSpec; // element spec of an array; optional elements may be null
+  fields?: Schema; // properties of an object
+  label?: string;
+  trim?: boolean; // strings are trimmed unless false; secrets keep their spaces as typed
+}
+
+export type Schema = Record<string, FieldSpec>;
+
+type FieldValue<F extends FieldSpec> =
+  F['type'] extends 'integer' | 'number' ? number
+    : F['type'] extends 'boolean' ? boolean
+      : F['type'] extends 'array' ? (F['items'] extends FieldSpec ? ItemValue<F['items']>[] : unknown[])
+        : F['type'] extends 'object' ? (F['fields'] extends Schema ? Infer<F['fields']> : Record<string, unknown>)
+          : F['oneOf'] extends readonly (infer V)[] ? V
+            : string;
+
+type ItemValue<F extends FieldSpec> = F['required'] extends true ? FieldValue<F> : FieldValue<F> | null;
+
+type RequiredKeys<S extends Schema> = { [K in keyof S]: S[K]['required'] extends true ? K : never }[keyof S];
+type OptionalKeys<S extends Schema> = Exclude<keyof S, RequiredKeys<S>>;
+
+// The validated shape of a schema: required fields are present, optional ones may be null
+export type Infer<S extends Schema> =
+  { [K in RequiredKeys<S>]: FieldValue<S[K]> } &
+  { [K in OptionalKeys<S>]?: FieldValue<S[K]> | null };
+
+// The same schema with every field optional, for partial updates (PUT with COALESCE)
+export type PartialSchema<S extends Schema> = { [K in keyof S]: Omit<S[K], 'required'> };
+
+export const partial = <S extends Schema>(schema: S): PartialSchema<S> =>
+  Object.fromEntries(Object.entries(schema).map(([field, spec]) => [field, { ...spec, required: false }])) as unknown as PartialSchema<S>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isValidDate = (value: string) => DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+const isMissing = (raw: unknown) => raw === undefined || raw === null || raw === '';
+
+// Check one value, appending errors under `path`; returns the cleaned value
+const checkField = (spec: FieldSpec, raw: unknown, path: string, errors: FieldError[]): unknown => {
+  const label = spec.label || path;
+  const fail = (message: string) => {
+    errors.push({ field: path, message: `${label} ${message}` });
+    return undefined;
+  };
+
+  switch (spec.type) {
+    case 'integer':
+    case 'number': {
+      const value = typeof raw === 'string' ? Number(raw.trim()) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail('must be a number');
+      if (spec.type === 'integer' && !Number.isInteger(value)) return fail('must be a whole number');
+      if (spec.min !== undefined && value < spec.min) return fail(`must be at least ${spec.min}`);
+      if (spec.max !== undefined && value > spec.max) return fail(`must be at most ${spec.max}`);
+      return value;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (raw === 'true' || raw === 'false') return raw === 'true';
+      return fail('must be true or false');
+    case 'array': {
+      if (!Array.isArray(raw)) return fail('must be a list');
+      if (spec.min !== undefined && raw.length < spec.min) return fail(`must have at least ${spec.min} entries`);
+      if (spec.max !== undefined && raw.length > spec.max) return fail(`must have at most ${spec.max} entries`);
+      const itemSpec = spec.items;
+      if (!itemSpec) return raw;
+      return raw.map((item, index) => {
+        const itemPath = `${path}.${index}`;
+        if (isMissing(item)) {
+          if (itemSpec.required) errors.push({ field: itemPath, message: `${itemSpec.label || label} is required` });
+          return null;
+        }
+        return checkField({ ...itemSpec, label: itemSpec.label || label }, item, itemPath, errors);
+      });
+    }
+    case 'object': {
+      if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return fail('must be an object');
+      return spec.fields ? checkObject(spec.fields, raw as Record<string, unknown>, `${path}.`, errors) : raw;
+    }
+    default: {
+      if (typeof raw !== 'string') return fail('must be text');
+      const value = spec.trim === false ? raw : raw.trim();
+      if (spec.type === 'date' && !isValidDate(value)) return fail('must be a date (YYYY-MM-DD)');
+      if (spec.type === 'time' && !TIME_PATTERN.test(value)) return fail('must be a time (HH:MM)');
+      if (spec.type === 'datetime' && (!DATETIME_PATTERN.test(value) || isNaN(new Date(value).getTime()))) {
+        return fail('must be a date and time');
+      }
+      if (spec.type === 'email' && !EMAIL_PATTERN.test(value)) return fail('must be a valid email address');
+      if (spec.oneOf && !spec.oneOf.includes(value)) return fail(`must be one of: ${spec.oneOf.join(', ')}`);
+      if (spec.min !== undefined && value.length < spec.min) return fail(`must be at least ${spec.min} characters`);
+      if (spec.max !== undefined && value.length > spec.max) return fail(`must be at most ${spec.max} characters`);
+      return value;
+    }
+  }
+};
+
+const checkObject = (schema: Schema, source: Record<string, unknown>, prefix: string, errors: FieldError[]) => {
+  const value: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(schema)) {
+    const raw = source[field];
+    const path = `${prefix}${field}`;
+    if (isMissing(raw)) {
+      if (spec.required) errors.push({ field: path, message: `${spec.label || field} is required` });
+      else value[field] = null;
+      continue;
+    }
+    value[field] = checkField(spec, raw, path, errors);
+  }
+  return value;
+};
+
+// Check `input` against `schema`, returning the cleaned values (trimmed strings, parsed
+// numbers, missing optional fields as null) or one error per invalid field. `rules`
+// runs cross-field checks once every field on its own is valid.
+export const validate = <S extends Schema>(
+  schema: S,
+  input: unknown,
+  rules?: (value: Infer<S>) => FieldError[]
+): ValidationResult<Infer<S>> => {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value = checkObject(schema, source, '', errors) as Infer<S>;
+
+  if (errors.length === 0 && rules) errors.push(...rules(value));
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+};
+
+// --- Error responses ---
+// Every non-2xx response has this body. `code` is stable for clients to branch on;
+// `errors` lists field-level problems for validation failures.
+export type ErrorCode =
+  | 'validation_failed' // 400
+  | 'unauthenticated' // 401
+  | 'forbidden' // 403
+  | 'not_found' // 404
+  | 'conflict' // 409: duplicates, records in use, state that does not allow the action
+  | 'rule_violation' // 422: valid input that breaks a business rule, e.g. qualifications
+  | 'rate_limited' // 429: too many requests or failed attempts; retry after the Retry-After header
+  | 'internal_error'; // 500
+
+// Set on some conflicts that clients handle differently from a refusal
+export type ConflictReason =
+  | 'idempotency_in_progress'; // the first request with this Idempotency-Key has not answered yet; retry later
+
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  errors?: FieldError[];
+  reason?: ConflictReason;
+}
+
+// --- Request schemas ---
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert'] as const;
+export const OPERATOR_STATUSES: readonly OperatorStatus[] = ['online', 'offline', 'on_break'];
+export const PERFORMANCE_GROUPS = ['station', 'line', 'operator', 'date'] as const;
+export type PerformanceGroup = typeof PERFORMANCE_GROUPS[number];
+
+const id = (label: string) => ({ type: 'integer', min: 1, label }) as const;
+const requiredId = (label: string) => ({ type: 'integer', required: true, min: 1, label }) as const;
+
+// Clients that queued an event while offline send when it happened; without it the server's time is used
+const occurredAt = { type: 'datetime', label: 'Occurred at' } as const;
+
+export const loginSchema = {
+  username: { type: 'string', required: true, label: 'Username' },
+  password: { type: 'string', required: true, trim: false, label: 'Password' }
+} as const satisfies Schema;
+
+export const userSchema = {
+  username: { type: 'string', required: true, max: 100, label: 'Username' },
+  password: { type: 'string', required: true, min: 8, trim: false, label: 'Password' },
+  role: { type: 'string', required: true, oneOf: ROLES, label: 'Role' },
+  operator_id: id('Operator')
+} as const satisfies Schema;
+export type UserInput = Infer<typeof userSchema>;
+
+export const userUpdateSchema = {
+  role: { type: 'string', oneOf: ROLES, label: 'Role' },
+  password: { type: 'string', min: 8, trim: false, label: 'Password' },
+  operator_id: id('Operator'),
+  is_active: { type: 'boolean', label: 'Active' }
+} as const satisfies Schema;
+
+// Operator accounts act on one operator record, so they must be linked to one
+export const checkUserLink = (value: { role?: Role | null; operator_id?: number | null }): FieldError[] =>
+  value.role === 'operator' && !value.operator_id
+    ? [{ field: 'operator_id', message: 'Operator accounts must be linked to an operator' }]
+    : [];
+
+export const siteSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  timezone: { type: 'string', required: true, max: 64, label: 'Timezone' },
+  working_weekdays: {
+    type: 'array',
+    items: { type: 'integer', required: true, min: 0, max: 6, label: 'Working weekday' },
+    label: 'Working weekdays'
+  }
+} as const satisfies Schema;
+
+export const departmentSiteSchema = {
+  site_id: id('Site') // null detaches the department from its site
+} as const satisfies Schema;
+
+export const departmentSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  description: { type: 'string', max: 500, label: 'Description' },
+  site_id: id('Site'),
+  is_active: { type: 'boolean', label: 'Active' }
+} as const satisfies Schema;
+export type DepartmentInput = Infer<typeof departmentSchema>;
+
+const efficiencyTarget = (label: string) => ({ type: 'number', min: 1, max: 200, label }) as const;
+
+export const productionLineSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  department_id: requiredId('Department'),
+  capacity: { type: 'integer', required: true, min: 1, max: 1000, label: 'Capacity' },
+  efficiency_target: efficiencyTarget('Efficiency target'),
+  status: { type: 'string', oneOf: LINE_STATUSES, label: 'Status' }
+} as const satisfies Schema;
+export type ProductionLineInput = Infer<typeof productionLineSchema>;
+
+export const stationSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  line_id: requiredId('Line'),
+  target_efficiency: efficiencyTarget('Target efficiency'),
+  status: { type: 'string', oneOf: LINE_STATUSES, label: 'Status' }
+} as const satisfies Schema;
+export type StationInput = Infer<typeof stationSchema>;
+
+// A line's layout as the editor saves it: its stations in running order, with their targets
+export const lineLayoutSchema = {
+  efficiency_target: efficiencyTarget('Efficiency target'),
+  stations: {
+    type: 'array',
+    required: true,
+    label: 'Stations',
+    items: {
+      type: 'object',
+      required: true,
+      fields: {
+        id: requiredId('Station'),
+        target_efficiency: efficiencyTarget('Target efficiency')
+      }
+    }
+  }
+} as const satisfies Schema;
+export type LineLayoutInput = Infer<typeof lineLayoutSchema>;
+
+// Stations must appear once each
+export const checkLineLayout = (value: LineLayoutInput): FieldError[] =>
+  new Set(value.stations.map(station => station.id)).size === value.stations.length
+    ? []
+    : [{ field: 'stations', message: 'Each station can only appear once' }];
+
+export const operatorSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  email: { type: 'email', required: true, max: 150, label: 'Email' },
+  employee_id: { type: 'string', max: 50, label: 'Employee ID' },
+  department_id: requiredId('Department'),
+  skill_level: { type: 'string', oneOf: SKILL_LEVELS, label: 'Skill level' },
+  hired_on: { type: 'date', label: 'Hired on' }
+} as const satisfies Schema;
+export type OperatorInput = Infer<typeof operatorSchema>;
+
+export const operatorUpdateSchema = {
+  ...partial(operatorSchema),
+  status: { type: 'string', oneOf: OPERATOR_STATUSES, label: 'Status' }
+} as const satisfies Schema;
+
+export const operatorEmploymentSchema = {
+  employment_status: { type: 'string', required: true, oneOf: EMPLOYMENT_STATUSES, label: 'Employment status' },
+  hired_on: { type: 'date', label: 'Hired on' },
+  terminated_on: { type: 'date', label: 'Last day' } // defaults to today when terminating
+} as const satisfies Schema;
+export type OperatorEmploymentInput = Infer<typeof operatorEmploymentSchema>;
+
+// Only terminated operators have a last day, and it cannot come before they were hired
+export const checkEmployment = (value: OperatorEmploymentInput): FieldError[] => {
+  if (value.terminated_on && value.employment_status !== 'terminated') {
+    return [{ field: 'terminated_on', message: 'Last day is only set when terminating' }];
+  }
+  if (value.terminated_on && value.hired_on && value.terminated_on < value.hired_on) {
+    return [{ field: 'terminated_on', message: 'Last day must not be before the hire date' }];
+  }
+  return [];
+};
+
+export const operatorStatusSchema = {
+  status: { type: 'string', required: true, oneOf: OPERATOR_STATUSES, label: 'Status' },
+  occurred_at: occurredAt
+} as const satisfies Schema;
+
+export const certificationSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  description: { type: 'string', max: 500, label: 'Description' },
+  validity_months: { type: 'integer', min: 1, max: 240, label: 'Validity' }
+} as const satisfies Schema;
+export type CertificationInput = Infer<typeof certificationSchema>;
+
+export const operatorCertificationSchema = {
+  certified_on: { type: 'date', required: true, label: 'Certified on' },
+  expires_on: { type: 'date', label: 'Expires on' }
+} as const satisfies Schema;
+
+export const checkCertificationDates = (value: { certified_on: string; expires_on?: string | null }): FieldError[] =>
+  value.expires_on && value.expires_on < value.certified_on
+    ? [{ field: 'expires_on', message: 'Expires on must not be before the certification date' }]
+    : [];
+
+export const stationRequirementsSchema = {
+  certification_ids: { type: 'array', required: true, items: requiredId('Certification'), label: 'Certifications' }
+} as const satisfies Schema;
+
+export const shiftSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  start_time: { type: 'time', required: true, label: 'Start time' },
+  end_time: { type: 'time', required: true, label: 'End time' },
+  start_date: { type: 'date', required: true, label: 'Start date' },
+  end_date: { type: 'date', required: true, label: 'End date' },
+  capacity: { type: 'integer', required: true, min: 1, label: 'Capacity' },
+  department_id: requiredId('Department')
+} as const satisfies Schema;
+export type ShiftInput = Infer<typeof shiftSchema>;
+
+// A shift may end before it starts (it then runs overnight) but not at the same time,
+// and its date range must not be reversed
+export const checkShiftTimes = (value: { start_time: string; end_time: string; start_date: string; end_date: string }): FieldError[] => {
+  const errors: FieldError[] = [];
+  if (value.start_time.slice(0, 5) === value.end_time.slice(0, 5)) {
+    errors.push({ field: 'end_time', message: 'End time must differ from start time' });
+  }
+  if (value.end_date < value.start_date) {
+    errors.push({ field: 'end_date', message: 'End date must not be before start date' });
+  }
+  return errors;
+};
+
+export const shiftAssignmentSchema = {
+  shift_id: requiredId('Shift'),
+  operator_id: requiredId('Operator'),
+  station_id: { type: 'integer', min: 0, label: 'Station' }, // 0 or null un-assigns
+  assigned_date: { type: 'date', label: 'Date' }
+} as const satisfies Schema;
+export type ShiftAssignmentInput = Infer<typeof shiftAssignmentSchema>;
+
+export const rosterSchema = {
+  from: { type: 'date', required: true, label: 'From' },
+  to: { type: 'date', required: true, label: 'To' },
+  pattern: {
+    type: 'object',
+    required: true,
+    label: 'Pattern',
+    fields: {
+      template: { type: 'string', label: 'Template' },
+      shift_ids: { type: 'array', items: requiredId('Shift'), label: 'Shifts' },
+      anchor_date: { type: 'date', label: 'Anchor date' },
+      sequence: { type: 'array', items: id('Shift'), label: 'Sequence' } // null entries are days off
+    }
+  },
+  operators: {
+    type: 'array',
+    required: true,
+    min: 1,
+    label: 'Operators',
+    items: {
+      type: 'object',
+      required: true,
+      fields: {
+        operator_id: requiredId('Operator'),
+        offset: { type: 'integer', min: 0, label: 'Offset' },
+        station_id: id('Station')
+      }
+    }
+  },
+  overwrite: { type: 'boolean', label: 'Overwrite' }
+} as const satisfies Schema;
+export type RosterInput = Infer<typeof rosterSchema>;
+
+export const autoStaffQuerySchema = {
+  shift_id: requiredId('Shift'),
+  date: { type: 'date', label: 'Date' }
+} as const satisfies Schema;
+
+export const autoStaffApplySchema = {
+  date: { type: 'date', required: true, label: 'Date' },
+  shift_id: requiredId('Shift'),
+  assignments: {
+    type: 'array',
+    required: true,
+    label: 'Assignments',
+    items: {
+      type: 'object',
+      required: true,
+      fields: {
+        station_id: requiredId('Station'),
+        operator_id: id('Operator') // null leaves the station empty
+      }
+    }
+  }
+} as const satisfies Schema;
+
+export const clockEventSchema = {
+  operator_id: requiredId('Operator'),
+  shift_id: id('Shift'),
+  occurred_at: occurredAt
+} as const satisfies Schema;
+export type ClockEventInput = Infer<typeof clockEventSchema>;
+
+export const breakEventSchema = {
+  operator_id: requiredId('Operator'),
+  break_type: { type: 'string', label: 'Break type' },
+  occurred_at: occurredAt
+} as const satisfies Schema;
+export type BreakEventInput = Infer<typeof breakEventSchema>;
+
+export const attendanceCorrectionSchema = {
+  clock_in: { type: 'datetime', label: 'Clock-in' },
+  clock_out: { type: 'datetime', label: 'Clock-out' },
+  reason: { type: 'string', required: true, max: 500, label: 'Reason' }
+} as const satisfies Schema;
+
+export const stationPerformanceSchema = {
+  station_id: requiredId('Station'),
+  operator_id: id('Operator'),
+  shift_id: id('Shift'),
+  date: { type: 'date', label: 'Date' },
+  units_produced: { type: 'integer', required: true, min: 0, label: 'Units produced' },
+  target_units: { type: 'integer', required: true, min: 0, label: 'Target units' },
+  downtime_minutes: { type: 'integer', min: 0, max: 1440, label: 'Downtime' }
+} as const satisfies Schema;
+export type StationPerformanceInput = Infer<typeof stationPerformanceSchema>;
+
+export const TIMESHEET_MAX_DAYS = 62;
+
+export const timesheetRulesSchema = {
+  rounding_minutes: { type: 'integer', required: true, min: 0, max: 15, label: 'Rounding' },
+  grace_minutes: { type: 'integer', required: true, min: 0, max: 60, label: 'Grace period' },
+  daily_overtime_minutes: { type: 'integer', min: 1, max: 1440, label: 'Daily overtime threshold' },
+  weekly_overtime_minutes: { type: 'integer', min: 1, max: 10080, label: 'Weekly overtime threshold' },
+  overtime_rate: { type: 'number', required: true, min: 1, max: 5, label: 'Overtime rate' },
+  night_start: { type: 'time', label: 'Night start' },
+  night_end: { type: 'time', label: 'Night end' },
+  night_rate: { type: 'number', required: true, min: 1, max: 5, label: 'Night rate' },
+  weekend_rate: { type: 'number', required: true, min: 1, max: 5, label: 'Weekend rate' },
+  auto_break_minutes: { type: 'integer', required: true, min: 0, max: 240, label: 'Automatic break' },
+  auto_break_after_minutes: { type: 'integer', required: true, min: 0, max: 1440, label: 'Automatic break after' },
+  week_start: { type: 'integer', required: true, min: 0, max: 6, label: 'Week start' }
+} as const satisfies Schema;
+export type TimesheetRulesInput = Infer<typeof timesheetRulesSchema>;
+
+export const checkTimesheetRules = (value: TimesheetRulesInput): FieldError[] => {
+  const errors: FieldError[] = [];
+  if (!(ROUNDING_OPTIONS as readonly number[]).includes(value.rounding_minutes)) {
+    errors.push({ field: 'rounding_minutes', message: `Rounding must be one of: ${ROUNDING_OPTIONS.join(', ')} minutes` });
+  }
+  if (!value.night_start !== !value.night_end) {
+    errors.push({ field: value.night_start ? 'night_end' : 'night_start', message: 'Night start and end must be set together' });
+  } else if (value.night_start && value.night_start === value.night_end) {
+    errors.push({ field: 'night_end', message: 'Night end must differ from night start' });
+  }
+  return errors;
+};
+
+export const timesheetGenerateSchema = {
+  from: { type: 'date', required: true, label: 'From' },
+  to: { type: 'date', required: true, label: 'To' },
+  department_id: id('Department'),
+  operator_id: id('Operator')
+} as const satisfies Schema;
+
+// Rule for a required from..to period that runs forwards and is at most `maxDays` long
+export const checkPeriod = (maxDays: number) => (value: { from: string; to: string }): FieldError[] => {
+  const days = (Date.parse(`${value.to}T00:00:00Z`) - Date.parse(`${value.from}T00:00:00Z`)) / 86400000 + 1;
+  if (days < 1) return [{ field: 'to', message: 'To must not be before from' }];
+  return days > maxDays ? [{ field: 'to', message: `Period must be at most ${maxDays} days` }] : [];
+};
+
+export const checkTimesheetPeriod = checkPeriod(TIMESHEET_MAX_DAYS);
+
+export const LEAVE_MAX_DAYS = 366;
+
+export const leaveTypeSchema = {
+  name: { type: 'string', required: true, max: 50, label: 'Name' },
+  is_paid: { type: 'boolean', required: true, label: 'Paid' },
+  annual_allowance_days: { type: 'number', min: 0, max: 366, label: 'Annual allowance' },
+  color: { type: 'string', max: 7, label: 'Color' },
+  is_active: { type: 'boolean', label: 'Active' },
+  counts_calendar_days: { type: 'boolean', label: 'Count calendar days' }
+} as const satisfies Schema;
+export type LeaveTypeInput = Infer<typeof leaveTypeSchema>;
+
+export const checkLeaveColor = (value: { color?: string | null }): FieldError[] =>
+  value.color && !/^#[0-9a-fA-F]{6}$/.test(value.color)
+    ? [{ field: 'color', message: 'Color must be a hex color such as #2563eb' }]
+    : [];
+
+export const leaveRequestSchema = {
+  operator_id: requiredId('Operator'),
+  leave_type_id: requiredId('Leave type'),
+  start_date: { type: 'date', required: true, label: 'From' },
+  end_date: { type: 'date', required: true, label: 'To' },
+  reason: { type: 'string', max: 500, label: 'Reason' }
+} as const satisfies Schema;
+export type LeaveRequestInput = Infer<typeof leaveRequestSchema>;
+
+export const checkLeavePeriod = (value: { start_date: string; end_date: string }): FieldError[] =>
+  checkPeriod(LEAVE_MAX_DAYS)({ from: value.start_date, to: value.end_date })
+    .map(error => ({ ...error, field: 'end_date' }));
+
+export const leaveReviewSchema = {
+  review_note: { type: 'string', max: 500, label: 'Note' }
+} as const satisfies Schema;
+
+export const leaveBalanceSchema = {
+  year: { type: 'integer', required: true, min: 2000, max: 2100, label: 'Year' },
+  allowance_days: { type: 'number', required: true, min: 0, max: 366, label: 'Allowance' }
+} as const satisfies Schema;
+
+export const shiftOfferSchema = {
+  assignment_id: requiredId('Assignment'),
+  note: { type: 'string', max: 500, label: 'Note' }
+} as const satisfies Schema;
+export type ShiftOfferInput = Infer<typeof shiftOfferSchema>;
+
+export const openShiftSchema = {
+  shift_id: requiredId('Shift'),
+  station_id: id('Station'),
+  shift_date: { type: 'date', required: true, label: 'Date' },
+  note: { type: 'string', max: 500, label: 'Note' }
+} as const satisfies Schema;
+export type OpenShiftInput = Infer<typeof openShiftSchema>;
+
+// Without counter_assignment_id the claimant simply takes the shift
+export const shiftClaimSchema = {
+  operator_id: requiredId('Operator'),
+  counter_assignment_id: id('Shift in exchange')
+} as const satisfies Schema;
+export type ShiftClaimInput = Infer<typeof shiftClaimSchema>;
+
+export const shiftTradeReviewSchema = {
+  review_note: { type: 'string', max: 500, label: 'Note' }
+} as const satisfies Schema;
+
+export const complianceRuleSchema = {
+  rule_type: { type: 'string', required: true, oneOf: COMPLIANCE_RULE_TYPES, label: 'Rule' },
+  threshold: { type: 'number', required: true, min: 0.5, max: 168, label: 'Limit' },
+  severity: { type: 'string', required: true, oneOf: COMPLIANCE_SEVERITIES, label: 'Severity' },
+  department_id: id('Department'),
+  description: { type: 'string', max: 200, label: 'Description' },
+  is_active: { type: 'boolean', label: 'Active' }
+} as const satisfies Schema;
+export type ComplianceRuleInput = Infer<typeof complianceRuleSchema>;
+
+// Rest and weekly hours are in hours; consecutive days must be a whole number of days
+export const checkComplianceThreshold = (value: { rule_type: ComplianceRuleType; threshold: number }): FieldError[] => {
+  if (value.rule_type === 'max_consecutive_days' && (!Number.isInteger(value.threshold) || value.threshold > 31)) {
+    return [{ field: 'threshold', message: 'Consecutive days must be a whole number up to 31' }];
+  }
+  if (value.rule_type === 'min_rest_hours' && value.threshold > 48) {
+    return [{ field: 'threshold', message: 'Rest must be at most 48 hours' }];
+  }
+  return [];
+};
+
+// Columns of an operator CSV; department_name matches a department case-insensitively
+export const IMPORT_COLUMNS = ['name', 'email', 'employee_id', 'department_name', 'skill_level'] as const;
+export const IMPORT_MAX_BYTES = 2 * 1024 * 1024;
+export const IMPORT_MAX_ROWS = 5000;
+
+export const importRowSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  email: { type: 'email', required: true, max: 150, label: 'Email' },
+  employee_id: { type: 'string', max: 50, label: 'Employee ID' },
+  department_name: { type: 'string', required: true, max: 100, label: 'Department' },
+  skill_level: { type: 'string', oneOf: SKILL_LEVELS, label: 'Skill level' }
+} as const satisfies Schema;
+export type ImportRowInput = Infer<typeof importRowSchema>;
+
+// Multipart form fields sent alongside the file
+export const importOptionsSchema = {
+  dry_run: { type: 'boolean', label: 'Dry run' },
+  create_departments: { type: 'boolean', label: 'Create departments' }
+} as const satisfies Schema;
+
+// --- Query string schemas ---
+export const siteQuerySchema = {
+  site_id: id('Site') // whose timezone defines "today"; defaults to the plant timezone
+} as const satisfies Schema;
+
+// Deactivated departments, lines and stations are left out unless asked for
+export const configurationQuerySchema = {
+  include_inactive: { type: 'boolean', label: 'Include inactive' }
+} as const satisfies Schema;
+
+// Terminated operators are left out unless asked for
+export const operatorsQuerySchema = {
+  ...siteQuerySchema,
+  include_terminated: { type: 'boolean', label: 'Include terminated' }
+} as const satisfies Schema;
+
+export const stationsQuerySchema = {
+  ...siteQuerySchema,
+  ...configurationQuerySchema,
+  line_id: id('Line')
+} as const satisfies Schema;
+
+export const performanceQuerySchema = {
+  station_id: id('Station'),
+  line_id: id('Line'),
+  department_id: id('Department'),
+  operator_id: id('Operator'),
+  shift_id: id('Shift'),
+  from: { type: 'date', label: 'From' },
+  to: { type: 'date', label: 'To' },
+  group_by: { type: 'string', oneOf: PERFORMANCE_GROUPS, label: 'Group by' }
+} as const satisfies Schema;
+export type PerformanceQuery = Infer<typeof performanceQuerySchema>;
+
+export const operatorCertificationsQuerySchema = {
+  operator_id: id('Operator')
+} as const satisfies Schema;
+
+export const expiringQuerySchema = {
+  ...siteQuerySchema,
+  days: { type: 'integer', min: 0, max: 366, label: 'Days' }
+} as const satisfies Schema;
+
+export const shiftsQuerySchema = {
+  ...siteQuerySchema,
+  date: { type: 'date', label: 'Date' }
+} as const satisfies Schema;
+
+export const rosterQuerySchema = {
+  from: { type: 'date', required: true, label: 'From' },
+  to: { type: 'date', required: true, label: 'To' },
+  department_id: id('Department')
+} as const satisfies Schema;
+
+export const attendanceQuerySchema = {
+  ...siteQuerySchema,
+  date: { type: 'date', label: 'Date' },
+  operator_id: id('Operator'),
+  include_open: { type: 'boolean', label: 'Include open sessions' }
+} as const satisfies Schema;
+
+export const attendanceRulesSchema = {
+  late_tolerance_minutes: { type: 'integer', required: true, min: 0, max: 240, label: 'Late tolerance' },
+  early_leave_tolerance_minutes: { type: 'integer', required: true, min: 0, max: 240, label: 'Early-leave tolerance' },
+  no_show_after_minutes: { type: 'integer', required: true, min: 0, max: 1440, label: 'No-show after' }
+} as const satisfies Schema;
+
+export const attendanceExceptionsQuerySchema = {
+  ...siteQuerySchema,
+  date: { type: 'date', label: 'Date' },
+  department_id: id('Department'),
+  status: { type: 'string', oneOf: ATTENDANCE_EXCEPTIONS, label: 'Status' }
+} as const satisfies Schema;
+
+export const ATTENDANCE_CLASSIFY_MAX_DAYS = 62;
+
+// Re-run classification over past days, e.g. after tolerances or rosters changed
+export const attendanceClassifySchema = {
+  from: { type: 'date', required: true, label: 'From' },
+  to: { type: 'date', required: true, label: 'To' }
+} as const satisfies Schema;
+
+export const TREND_PERIODS = ['day', 'week', 'month'] as const;
+
+export const absenceTrendsQuerySchema = {
+  from: { type: 'date', label: 'From' },
+  to: { type: 'date', label: 'To' },
+  department_id: id('Department'),
+  period: { type: 'string', oneOf: TREND_PERIODS, label: 'Period' }
+} as const satisfies Schema;
+
+export const ANALYTICS_MAX_DAYS = 731;
+
+// Trends of one station, line or department, or of the whole plant. Without from/to the window
+// ends today and spans 30 days, 12 weeks or 12 months depending on the granularity.
+export const analyticsTrendsQuerySchema = {
+  from: { type: 'date', label: 'From' },
+  to: { type: 'date', label: 'To' },
+  granularity: { type: 'string', oneOf: TREND_PERIODS, label: 'Granularity' },
+  department_id: id('Department'),
+  line_id: id('Line'),
+  station_id: id('Station'),
+  metric: { type: 'string', oneOf: ANALYTICS_METRICS, label: 'Metric' }, // all metrics when omitted
+  compare: { type: 'boolean', label: 'Compare' }
+} as const satisfies Schema;
+
+export const leaveRequestsQuerySchema = {
+  from: { type: 'date', label: 'From' }, // requests overlapping from..to
+  to: { type: 'date', label: 'To' },
+  department_id: id('Department'),
+  operator_id: id('Operator'),
+  status: { type: 'string', oneOf: LEAVE_STATUSES, label: 'Status' }
+} as const satisfies Schema;
+
+export const leaveBalancesQuerySchema = {
+  year: { type: 'integer', min: 2000, max: 2100, label: 'Year' }, // defaults to the current year
+  department_id: id('Department'),
+  operator_id: id('Operator')
+} as const satisfies Schema;
+
+export const shiftTradesQuerySchema = {
+  from: { type: 'date', label: 'From' }, // trades for shifts from..to, by either side's date
+  to: { type: 'date', label: 'To' },
+  department_id: id('Department'),
+  operator_id: id('Operator'), // offered, claimed or swapped by this operator
+  status: { type: 'string', oneOf: SHIFT_TRADE_STATUSES, label: 'Status' }
+} as const satisfies Schema;
+
+export const COMPLIANCE_REPORT_MAX_DAYS = 92;
+
+export const complianceReportQuerySchema = {
+  from: { type: 'date', required: true, label: 'From' },
+  to: { type: 'date', required: true, label: 'To' },
+  department_id: id('Department'),
+  operator_id: id('Operator'),
+  basis: { type: 'string', oneOf: COMPLIANCE_BASES, label: 'Basis' } // defaults to roster
+} as const satisfies Schema;
+
+export const kioskDeviceSchema = {
+  name: { type: 'string', required: true, max: 100, label: 'Name' },
+  site_id: id('Site'),
+  is_active: { type: 'boolean', label: 'Active' }
+} as const satisfies Schema;
+export type KioskDeviceInput = Infer<typeof kioskDeviceSchema>;
+
+// Leaving out the PIN keeps the current one
+export const kioskCredentialsSchema = {
+  badge_number: { type: 'string', max: 50, label: 'Badge number' },
+  pin: { type: 'string', trim: false, label: 'PIN' }
+} as const satisfies Schema;
+export type KioskCredentialsInput = Infer<typeof kioskCredentialsSchema>;
+
+export const checkKioskPin = (value: { pin?: string | null }): FieldError[] =>
+  value.pin && !/^\d{4,8}$/.test(value.pin)
+    ? [{ field: 'pin', message: 'PIN must be 4 to 8 digits' }]
+    : [];
+
+// An operator identifies with a badge number, or with employee_id and PIN
+export const kioskIdentitySchema = {
+  badge_number: { type: 'string', max: 50, label: 'Badge number' },
+  employee_id: { type: 'string', max: 50, label: 'Employee ID' },
+  pin: { type: 'string', max: 8, trim: false, label: 'PIN' }
+} as const satisfies Schema;
+export type KioskIdentityInput = Infer<typeof kioskIdentitySchema>;
+
+export const checkKioskIdentity = (value: KioskIdentityInput): FieldError[] => {
+  if (value.badge_number) return [];
+  const errors: FieldError[] = [];
+  if (!value.employee_id) errors.push({ field: 'employee_id', message: 'Employee ID or badge is required' });
+  if (!value.pin) errors.push({ field: 'pin', message: 'PIN is required' });
+  return errors;
+};
+
+export const kioskActionSchema = {
+  ...kioskIdentitySchema,
+  action: { type: 'string', required: true, oneOf: KIOSK_ACTIONS, label: 'Action' },
+  break_type: { type: 'string', label: 'Break type' }
+} as const satisfies Schema;
+export type KioskActionInput = Infer<typeof kioskActionSchema>;
+
+export const auditQuerySchema = {
+  entity_type: { type: 'string', max: 50, label: 'Entity type' },
+  entity_id: { type: 'string', max: 50, label: 'Entity' },
+  operator_id: id('Operator'),
+  station_id: id('Station'),
+  actor_user_id: id('User'),
+  action: { type: 'string', max: 50, label: 'Action' },
+  from: { type: 'date', label: 'From' },
+  to: { type: 'date', label: 'To' },
+  limit: { type: 'integer', min: 1, max: 500, label: 'Limit' },
+  offset: { type: 'integer', min: 0, label: 'Offset' }
+} as const satisfies Schema;
+
+export const timesheetsQuerySchema = {
+  from: { type: 'date', label: 'From' }, // timesheets overlapping from..to
+  to: { type: 'date', label: 'To' },
+  department_id: id('Department'),
+  operator_id: id('Operator'),
+  status: { type: 'string', oneOf: TIMESHEET_STATUSES, label: 'Status' }
+} as const satisfies Schema;
+
+// Exports are filtered like the views they come from and downloaded as CSV or Excel
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+export type ExportKind = 'attendance' | 'assignments' | 'performance';
+
+const exportFilters = {
+  department_id: id('Department'),
+  line_id: id('Line'),
+  shift_id: id('Shift'),
+  format: { type: 'string', oneOf: EXPORT_FORMATS, label: 'Format' }
+} as const satisfies Schema;
+
+export const attendanceExportQuerySchema = {
+  from: { type: 'date', required: true, label: 'From' },
+  to: { type: 'date', required: true, label: 'To' },
+  ...exportFilters
+} as const satisfies Schema;
+
+export const assignmentsExportQuerySchema = {
+  date: { type: 'date', label: 'Date' }, // defaults to today
+  ...exportFilters
+} as const satisfies Schema;
+
+export const performanceExportQuerySchema = {
+  ...performanceQuerySchema,
+  ...exportFilters
+} as const satisfies Schema;
+
+// Date ranges given as from/to must not be reversed
+export const checkDateRange = (value: { from?: string | null; to?: string | null }): FieldError[] =>
+  value.from && value.to && value.to < value.from
+    ? [{ field: 'to', message: 'To must not be before from' }]
+    : [];
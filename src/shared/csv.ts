@@ -0,0 +1,13 @@
+// CSV writing shared by server downloads and client-side exports.
+
+// Quote a value when it contains a delimiter, quote or line break (RFC 4180)
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Header line plus one line per row, taking `columns` from each row in order
+export const toCsv = (columns: readonly string[], rows: Record<string, unknown>[], headers: readonly string[] = columns) =>
+  [headers, ...rows.map(row => columns.map(column => row[column]))]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';